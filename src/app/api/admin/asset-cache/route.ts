@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyIdToken, isAdminToken } from "@/lib/firebase-admin";
+import { getAssetCacheMetrics } from "@/lib/asset-cache";
+import { log } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/admin/asset-cache
+ * Stale-read incidents and writes still waiting to be published (admins only)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    if (!isAdminToken(decodedToken)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const metrics = await getAssetCacheMetrics();
+
+    return NextResponse.json({
+      success: true,
+      metrics,
+    });
+  } catch (error: any) {
+    log.error("Get asset cache metrics error", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to get asset cache metrics" },
+      { status: 500 }
+    );
+  }
+}
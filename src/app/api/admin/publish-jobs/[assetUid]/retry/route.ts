@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyIdToken, isAdminToken } from "@/lib/firebase-admin";
+import { retryPublishJob, toPublishJobResponse } from "@/lib/publish-jobs";
+import { log } from "@/lib/logger";
+
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+/**
+ * POST /api/admin/publish-jobs/[assetUid]/retry
+ * Requeue a dead-lettered publish job and run it right away (admins only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ assetUid: string }> }
+) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    if (!isAdminToken(decodedToken)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { assetUid } = await params;
+
+    if (!assetUid) {
+      return NextResponse.json({ error: "Asset UID is required" }, { status: 400 });
+    }
+
+    log.info("[Admin] Retrying publish job", {
+      assetUid,
+      requestedBy: decodedToken.uid,
+    });
+
+    const job = await retryPublishJob(assetUid);
+
+    return NextResponse.json({
+      success: true,
+      notice:
+        job.status === "succeeded" ? "Publish job succeeded" : `Publish job is ${job.status}`,
+      job: toPublishJobResponse(job, { includeError: true }),
+    });
+  } catch (error: any) {
+    log.error("Retry publish job error", error);
+
+    if (error.message?.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error.message?.includes("Publish job is")) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Failed to retry publish job" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyIdToken, isAdminToken } from "@/lib/firebase-admin";
+import { listPublishJobs, toPublishJobResponse, type PublishJobStatus } from "@/lib/publish-jobs";
+import { log } from "@/lib/logger";
+import { z } from "zod";
+
+export const runtime = "nodejs";
+
+const statusSchema = z.enum(["pending", "running", "succeeded", "dead"]).optional();
+
+/**
+ * GET /api/admin/publish-jobs
+ * List asset publish jobs, most recently updated first (admins only)
+ * Optional `?status=pending|running|succeeded|dead`, e.g. `dead` for the
+ * dead-letter queue
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    if (!isAdminToken(decodedToken)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = statusSchema.safeParse(searchParams.get("status") || undefined);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid status", details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const jobs = await listPublishJobs(validation.data as PublishJobStatus | undefined);
+
+    return NextResponse.json({
+      success: true,
+      jobs: jobs.map((job) => toPublishJobResponse(job, { includeError: true })),
+    });
+  } catch (error: any) {
+    log.error("List publish jobs error", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to list publish jobs" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyIdToken, isAdminToken } from "@/lib/firebase-admin";
+import { replayStripeEvent } from "@/lib/stripe-events";
+import { log } from "@/lib/logger";
+
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+/**
+ * POST /api/admin/stripe-events/[eventId]/replay
+ * Re-run a stored Stripe event from its saved payload (admins only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    if (!isAdminToken(decodedToken)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { eventId } = await params;
+
+    if (!eventId) {
+      return NextResponse.json(
+        { error: "Event ID is required" },
+        { status: 400 }
+      );
+    }
+
+    log.info("[Admin] Replaying Stripe event", {
+      eventId,
+      requestedBy: decodedToken.uid,
+    });
+
+    const result = await replayStripeEvent(eventId);
+
+    return NextResponse.json({
+      success: true,
+      notice: "Event replayed successfully",
+      event: result,
+    });
+  } catch (error: any) {
+    log.error("Error replaying Stripe event", error);
+
+    if (error.message?.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error.message?.includes("already in progress")) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to replay event", details: error.message },
+      { status: 500 }
+    );
+  }
+}
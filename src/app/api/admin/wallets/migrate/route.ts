@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  verifyIdToken,
+  isAdminToken,
+  migrateAllWalletTransactions,
+  migrateWalletTransactions,
+} from "@/lib/firebase-admin";
+import { log } from "@/lib/logger";
+
+export const runtime = "nodejs";
+export const maxDuration = 300;
+
+/**
+ * POST /api/admin/wallets/migrate
+ * Move wallet transactions from the legacy `transactions` array into the
+ * `wallets/{id}/transactions` subcollection (admins only)
+ * Body: { walletId?: string } — omit walletId to migrate every wallet
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    if (!isAdminToken(decodedToken)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const walletId = typeof body?.walletId === "string" ? body.walletId : null;
+
+    log.info("[Admin] Migrating wallet ledgers", {
+      walletId: walletId || "all",
+      requestedBy: decodedToken.uid,
+    });
+
+    if (walletId) {
+      const transactions = await migrateWalletTransactions(walletId);
+      return NextResponse.json({
+        success: true,
+        notice: transactions > 0 ? "Wallet migrated" : "Wallet already migrated",
+        result: { scanned: 1, migrated: transactions > 0 ? 1 : 0, transactions },
+      });
+    }
+
+    const result = await migrateAllWalletTransactions();
+
+    return NextResponse.json({
+      success: true,
+      notice: `Migrated ${result.migrated} of ${result.scanned} wallets`,
+      result,
+    });
+  } catch (error: any) {
+    log.error("Error migrating wallet ledgers", error);
+
+    if (error.message?.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to migrate wallets", details: error.message },
+      { status: 500 }
+    );
+  }
+}
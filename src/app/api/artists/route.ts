@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getArtists } from "@/lib/contentstack-am2";
+import { getArtists } from "@/lib/asset-repository";
 import { log } from "@/lib/logger";
 
 /**
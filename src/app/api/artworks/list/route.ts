@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { listAssets, toMinimalAssetResponse } from "@/lib/contentstack-am2";
+import { listAssets, toMinimalAssetResponse } from "@/lib/asset-repository";
+import { escapeRegExp } from "@/lib/utils";
 import { galleryFilterSchema } from "@/lib/validations";
 import { log } from "@/lib/logger";
 
@@ -15,7 +16,7 @@ export async function GET(request: NextRequest) {
     const params = {
       category: searchParams.get("category") || undefined,
       artistId: searchParams.get("artistId") || undefined,
-      status: (searchParams.get("status") as "sale" | "resale" | "sold" | "all") || undefined,
+      status: (searchParams.get("status") as "sale" | "resale" | "auction" | "sold" | "all") || undefined,
       minPrice: searchParams.get("minPrice")
         ? parseFloat(searchParams.get("minPrice")!)
         : undefined,
@@ -53,8 +54,8 @@ export async function GET(request: NextRequest) {
     if (status && status !== "all") {
       query["custom_metadata.art_metadata.status"] = status;
     } else {
-      // Default: only show sale/resale items (exclude sold)
-      query["custom_metadata.art_metadata.status"] = { $in: ["sale", "resale"] };
+      // Default: only show sale/resale/auction items (exclude sold)
+      query["custom_metadata.art_metadata.status"] = { $in: ["sale", "resale", "auction"] };
     }
 
     // Filter by category
@@ -78,15 +79,16 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // Search by title or artist name (using MongoDB regex)
+    // Search by title or artist name (using MongoDB regex, matched literally)
     if (searchTerm) {
+      const pattern = escapeRegExp(searchTerm);
       query.$or = [
-        { title: { $regex: searchTerm, $options: "i" } },
-        { "custom_metadata.art_metadata.artist_name": { $regex: searchTerm, $options: "i" } },
+        { title: { $regex: pattern, $options: "i" } },
+        { "custom_metadata.art_metadata.artist_name": { $regex: pattern, $options: "i" } },
       ];
     }
 
-    // Fetch artworks from Contentstack AM2 using CDA with MongoDB query
+    // Fetch published artworks from the asset repository with the MongoDB query
     const assets = await listAssets({
       query: Object.keys(query).length > 0 ? query : undefined,
       limit: limit || 50,
@@ -135,7 +137,14 @@ export async function GET(request: NextRequest) {
           artistName: artMetadata?.artist_name || "Unknown Artist",
           price: artMetadata?.price || 0,
           currency: artMetadata?.currency || "USD",
-          status: artMetadata?.status === "sold" ? "sold" : artMetadata?.status === "sale" || artMetadata?.status === "resale" ? "published" : "draft",
+          status:
+            artMetadata?.status === "sold" || artMetadata?.status === "auction"
+              ? artMetadata.status
+              : artMetadata?.status === "sale" || artMetadata?.status === "resale"
+                ? "published"
+                : "draft",
+          editionSize: artMetadata?.edition_size ?? null,
+          editionsSold: artMetadata?.edition_size ? artMetadata.editions_sold || 0 : null,
           current_owner: artMetadata?.current_owner ? {
             userId: artMetadata.current_owner.user_id || "",
             userName: artMetadata.current_owner.user_name || undefined,
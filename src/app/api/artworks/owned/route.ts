@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { verifyIdToken } from "@/lib/firebase-admin";
-import { getAssetFromCDA, toMinimalAssetResponse } from "@/lib/contentstack-am2";
+import { getPublishedAsset, toMinimalAssetResponse } from "@/lib/asset-repository";
 import { log } from "@/lib/logger";
 
 /**
@@ -96,7 +96,7 @@ export async function POST(request: NextRequest) {
 
     // Fetch all assets in parallel
     const assetPromises = assetUids.map((uid: string) =>
-      getAssetFromCDA(uid).catch((error) => {
+      getPublishedAsset(uid).catch((error) => {
         log.error(`Failed to fetch asset`, error, { assetUid: uid });
         return null;
       })
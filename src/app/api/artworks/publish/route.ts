@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { verifyIdToken, getServerUserProfile } from "@/lib/firebase-admin";
-import { uploadAsset } from "@/lib/contentstack-am2";
+import { uploadAsset } from "@/lib/asset-repository";
 import { publishArtworkSchema } from "@/lib/validations";
 import { log } from "@/lib/logger";
 
@@ -0,0 +1,214 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyIdToken, getAssetFreeze } from "@/lib/firebase-admin";
+import { getAsset, isAssetConflict } from "@/lib/asset-repository";
+import {
+  createAuction,
+  cancelAuction,
+  getCurrentAuction,
+  toAuctionResponse,
+} from "@/lib/auctions";
+import { isEditionArtwork } from "@/lib/editions";
+import { revalidatePath } from "next/cache";
+import { log } from "@/lib/logger";
+import { z } from "zod";
+
+const auctionSchema = z.object({
+  startingPrice: z.number().positive("Starting price must be positive").max(1000000, "Price exceeds maximum"),
+  reservePrice: z.number().positive("Reserve price must be positive").max(1000000, "Price exceeds maximum").nullable().optional(),
+  minIncrement: z.number().positive("Minimum increment must be positive").max(100000, "Increment exceeds maximum"),
+  startsAt: z.string().datetime().optional(),
+  endsAt: z.string().datetime(),
+  extensionMinutes: z.number().int().min(0).max(60).optional(),
+});
+
+/**
+ * POST /api/assets/[assetUid]/auction
+ * Put an asset up for auction (primary or resale)
+ *
+ * Only the current owner can start an auction, and not while the asset is
+ * frozen by a payment dispute or reserved by a checkout.
+ * Limited editions cannot be auctioned.
+ * This sets status to "auction" until the auction closes.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ assetUid: string }> }
+) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    const userId = decodedToken.uid;
+    const { assetUid } = await params;
+
+    if (!assetUid) {
+      return NextResponse.json({ error: "Asset UID is required" }, { status: 400 });
+    }
+
+    // Ownership is checked against the latest version (the published one may lag)
+    const asset = await getAsset(assetUid);
+    const artMetadata = asset.custom_metadata?.art_metadata;
+    if (artMetadata?.current_owner?.user_id !== userId) {
+      return NextResponse.json(
+        { error: "Only the current owner can auction this asset" },
+        { status: 403 }
+      );
+    }
+
+    if (isEditionArtwork(artMetadata)) {
+      return NextResponse.json(
+        { error: "Limited editions cannot be auctioned" },
+        { status: 400 }
+      );
+    }
+
+    // Open payment disputes freeze the asset until they close
+    const freeze = await getAssetFreeze(assetUid);
+    if (freeze) {
+      return NextResponse.json(
+        { error: "This asset is frozen while a payment dispute is open" },
+        { status: 409 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = auctionSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid auction data", details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { startingPrice, reservePrice, minIncrement, startsAt, endsAt, extensionMinutes } =
+      validation.data;
+
+    const auction = await createAuction(assetUid, userId, {
+      startingPrice,
+      reservePrice,
+      minIncrement,
+      startsAt: startsAt ? Date.parse(startsAt) : undefined,
+      endsAt: Date.parse(endsAt),
+      extensionSeconds: extensionMinutes !== undefined ? extensionMinutes * 60 : undefined,
+    });
+
+    revalidatePath(`/art/${assetUid}`);
+
+    return NextResponse.json({
+      success: true,
+      notice: "Auction started successfully",
+      auction: toAuctionResponse(auction, userId),
+    });
+  } catch (error: any) {
+    log.error("Start auction error", error);
+
+    if (error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error.message.includes("Auction must") || error.message.includes("Reserve price")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (
+      error.message.includes("already being auctioned") ||
+      error.message.includes("reserved by another") ||
+      error.message.includes("accepted offer") ||
+      error.message.includes("Artwork changed")
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    if (isAssetConflict(error)) {
+      return NextResponse.json({ error: error.message, retryable: true }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Failed to start auction" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/assets/[assetUid]/auction
+ * Cancel the asset's auction before the first bid
+ *
+ * Only the seller can cancel. The previous listing is restored.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ assetUid: string }> }
+) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    const { assetUid } = await params;
+
+    if (!assetUid) {
+      return NextResponse.json({ error: "Asset UID is required" }, { status: 400 });
+    }
+
+    const current = await getCurrentAuction(assetUid);
+    if (!current) {
+      return NextResponse.json(
+        { error: "This artwork is not being auctioned" },
+        { status: 404 }
+      );
+    }
+
+    const auction = await cancelAuction(current.id, decodedToken.uid);
+
+    return NextResponse.json({
+      success: true,
+      notice: "Auction cancelled successfully",
+      auction: toAuctionResponse(auction, decodedToken.uid),
+    });
+  } catch (error: any) {
+    log.error("Cancel auction error", error);
+
+    if (error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error.message.includes("allowed to")) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    if (error.message.includes("Auction is") || error.message.includes("Auction has")) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    if (isAssetConflict(error)) {
+      return NextResponse.json({ error: error.message, retryable: true }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Failed to cancel auction" },
+      { status: 500 }
+    );
+  }
+}
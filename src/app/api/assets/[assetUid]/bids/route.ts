@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyIdToken, getServerUserProfile } from "@/lib/firebase-admin";
+import {
+  getCurrentAuction,
+  getAuctionBids,
+  placeBid,
+  toAuctionResponse,
+  toBidResponse,
+} from "@/lib/auctions";
+import { revalidatePath } from "next/cache";
+import { log } from "@/lib/logger";
+import { z } from "zod";
+
+const bidSchema = z.object({
+  amount: z.number().positive("Amount must be positive").max(1000000, "Amount exceeds maximum"),
+});
+
+/**
+ * GET /api/assets/[assetUid]/bids
+ * Get the asset's running auction and its bid history (highest first)
+ * Signed-in viewers also see which bids are theirs; the winner gets their
+ * checkout URL
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ assetUid: string }> }
+) {
+  try {
+    const { assetUid } = await params;
+
+    if (!assetUid) {
+      return NextResponse.json({ error: "Asset UID is required" }, { status: 400 });
+    }
+
+    // Authentication is optional here
+    let viewerId: string | null = null;
+    const authHeader = request.headers.get("Authorization");
+    if (authHeader?.startsWith("Bearer ")) {
+      const decodedToken = await verifyIdToken(authHeader.split("Bearer ")[1]);
+      viewerId = decodedToken?.uid || null;
+    }
+
+    const auction = await getCurrentAuction(assetUid);
+
+    if (!auction) {
+      return NextResponse.json({ success: true, auction: null, bids: [] });
+    }
+
+    const bids = await getAuctionBids(auction.id);
+
+    return NextResponse.json({
+      success: true,
+      auction: toAuctionResponse(auction, viewerId),
+      bids: bids.map((bid) => toBidResponse(bid, viewerId)),
+    });
+  } catch (error: any) {
+    log.error("Get bids error", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to get bids" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/assets/[assetUid]/bids
+ * Bid on the asset's running auction
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ assetUid: string }> }
+) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    const userId = decodedToken.uid;
+    const { assetUid } = await params;
+
+    if (!assetUid) {
+      return NextResponse.json({ error: "Asset UID is required" }, { status: 400 });
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = bidSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid bid data", details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const auction = await getCurrentAuction(assetUid);
+    if (!auction) {
+      return NextResponse.json(
+        { error: "This artwork is not being auctioned" },
+        { status: 404 }
+      );
+    }
+
+    // Get user profile for name
+    const userProfile = await getServerUserProfile(userId);
+    if (!userProfile) {
+      return NextResponse.json({ error: "User profile not found" }, { status: 404 });
+    }
+
+    const result = await placeBid(auction.id, {
+      bidderId: userId,
+      bidderName: (userProfile as any)?.displayName || "Anonymous",
+      amount: validation.data.amount,
+    });
+
+    revalidatePath(`/art/${assetUid}`);
+
+    return NextResponse.json({
+      success: true,
+      notice: "Bid placed successfully",
+      bid: toBidResponse(result.bid, userId),
+      auction: toAuctionResponse(result.auction, userId),
+    });
+  } catch (error: any) {
+    log.error("Place bid error", error);
+
+    if (error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error.message.includes("not allowed")) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    if (error.message.includes("Bid must be")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error.message.includes("Auction has")) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Failed to place bid" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { issueCertificate } from "@/lib/provenance";
+import { log } from "@/lib/logger";
+
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+/**
+ * GET /api/assets/[assetUid]/certificate
+ * Issue a signed provenance certificate for an asset (public)
+ * Pass ?download=1 to receive it as a file
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ assetUid: string }> }
+) {
+  try {
+    const { assetUid } = await params;
+
+    if (!assetUid) {
+      return NextResponse.json({ error: "Asset UID is required" }, { status: 400 });
+    }
+
+    const certificate = await issueCertificate(assetUid);
+    const download = request.nextUrl.searchParams.has("download");
+
+    return NextResponse.json(certificate, {
+      headers: download
+        ? {
+            "Content-Disposition": `attachment; filename="artmint-certificate-${assetUid}.json"`,
+          }
+        : undefined,
+    });
+  } catch (error: any) {
+    log.error("Issue certificate error", error);
+
+    if (error.message?.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error.message?.includes("not configured")) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Failed to issue certificate" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyIdToken, getAssetFreeze } from "@/lib/firebase-admin";
+import {
+  getEditionId,
+  listEditionForResale,
+  withdrawEditionResale,
+  toEditionResponse,
+} from "@/lib/editions";
+import { revalidatePath } from "next/cache";
+import { log } from "@/lib/logger";
+import { z } from "zod";
+
+const editionResaleSchema = z.object({
+  price: z.number().positive("Price must be positive").max(1000000, "Price exceeds maximum"),
+});
+
+/**
+ * POST /api/assets/[assetUid]/editions/[editionNumber]/resale
+ * List an edition for resale, or change its asking price
+ *
+ * Only the edition's current owner can list it. Editions of an artwork
+ * frozen by an open payment dispute cannot be listed.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ assetUid: string; editionNumber: string }> }
+) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    const { assetUid, editionNumber } = await params;
+    const number = parseInt(editionNumber, 10);
+
+    if (!assetUid || !Number.isInteger(number) || number < 1) {
+      return NextResponse.json(
+        { error: "Asset UID and edition number are required" },
+        { status: 400 }
+      );
+    }
+
+    // Open payment disputes freeze the asset (or just this edition) until they close
+    const freeze =
+      (await getAssetFreeze(assetUid)) || (await getAssetFreeze(getEditionId(assetUid, number)));
+    if (freeze) {
+      return NextResponse.json(
+        { error: "This asset is frozen while a payment dispute is open" },
+        { status: 409 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = editionResaleSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid resale data", details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const edition = await listEditionForResale(
+      getEditionId(assetUid, number),
+      decodedToken.uid,
+      validation.data.price
+    );
+
+    // Revalidate artwork page to show the listing
+    revalidatePath(`/art/${assetUid}`);
+
+    return NextResponse.json({
+      success: true,
+      notice: "Edition listed for resale successfully",
+      edition: toEditionResponse(edition, decodedToken.uid),
+    });
+  } catch (error: any) {
+    log.error("Edition resale error", error);
+
+    if (error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error.message.includes("allowed to")) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Failed to list edition for resale" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/assets/[assetUid]/editions/[editionNumber]/resale
+ * Withdraw an edition from resale
+ *
+ * Only the edition's current owner can withdraw it.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ assetUid: string; editionNumber: string }> }
+) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    const { assetUid, editionNumber } = await params;
+    const number = parseInt(editionNumber, 10);
+
+    if (!assetUid || !Number.isInteger(number) || number < 1) {
+      return NextResponse.json(
+        { error: "Asset UID and edition number are required" },
+        { status: 400 }
+      );
+    }
+
+    const edition = await withdrawEditionResale(
+      getEditionId(assetUid, number),
+      decodedToken.uid
+    );
+
+    // Revalidate artwork page to show updated status
+    revalidatePath(`/art/${assetUid}`);
+
+    return NextResponse.json({
+      success: true,
+      notice: "Edition withdrawn from resale successfully",
+      edition: toEditionResponse(edition, decodedToken.uid),
+    });
+  } catch (error: any) {
+    log.error("Withdraw edition resale error", error);
+
+    if (error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error.message.includes("allowed to")) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    if (error.message.includes("not listed")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Failed to withdraw edition from resale" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyIdToken } from "@/lib/firebase-admin";
+import { getPublishedAsset } from "@/lib/asset-repository";
+import {
+  getAssetEditions,
+  getEditionSeries,
+  isEditionArtwork,
+  toEditionResponse,
+} from "@/lib/editions";
+import { log } from "@/lib/logger";
+
+/**
+ * GET /api/assets/[assetUid]/editions
+ * Get a limited edition's supply and its minted editions (in edition order)
+ * Signed-in viewers also see which editions are theirs
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ assetUid: string }> }
+) {
+  try {
+    const { assetUid } = await params;
+
+    if (!assetUid) {
+      return NextResponse.json({ error: "Asset UID is required" }, { status: 400 });
+    }
+
+    // Authentication is optional here
+    let viewerId: string | null = null;
+    const authHeader = request.headers.get("Authorization");
+    if (authHeader?.startsWith("Bearer ")) {
+      const decodedToken = await verifyIdToken(authHeader.split("Bearer ")[1]);
+      viewerId = decodedToken?.uid || null;
+    }
+
+    const asset = await getPublishedAsset(assetUid);
+    const artMetadata = asset?.custom_metadata?.art_metadata;
+
+    if (!artMetadata || !isEditionArtwork(artMetadata)) {
+      return NextResponse.json(
+        { error: "This artwork is not sold in editions" },
+        { status: 404 }
+      );
+    }
+
+    const [series, editions] = await Promise.all([
+      getEditionSeries(assetUid, artMetadata.edition_size as number),
+      getAssetEditions(assetUid),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      series,
+      editions: editions.map((edition) => toEditionResponse(edition, viewerId)),
+    });
+  } catch (error: any) {
+    log.error("Get editions error", error);
+
+    if (error.message?.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Failed to get editions" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,17 +1,31 @@
 import { NextRequest, NextResponse } from "next/server";
-import { verifyIdToken, updateOfferStatus } from "@/lib/firebase-admin";
-import { getAssetFromCDA } from "@/lib/contentstack-am2";
+import { verifyIdToken, respondToOffer } from "@/lib/firebase-admin";
+import { getConsistentAsset } from "@/lib/asset-repository";
+import { notifyOfferResponse } from "@/lib/notifications";
+import { sendOfferEmail } from "@/lib/email";
 import { revalidatePath } from "next/cache";
 import { log } from "@/lib/logger";
 import { z } from "zod";
 
-const updateOfferSchema = z.object({
-  status: z.enum(["accepted", "rejected"]),
-});
+const respondToOfferSchema = z
+  .object({
+    action: z.enum(["accept", "reject", "counter", "withdraw", "reinstate"]),
+    amount: z.number().positive("Amount must be positive").max(1000000, "Amount exceeds maximum").optional(),
+    message: z.string().max(500, "Message too long").optional(),
+  })
+  .refine((data) => data.action !== "counter" || data.amount !== undefined, {
+    message: "Counter-offers require an amount",
+    path: ["amount"],
+  });
 
 /**
  * PUT /api/assets/[assetUid]/offers/[offerId]
- * Accept or reject an offer (only accessible by current owner)
+ * Respond to an offer
+ * - Current owner: accept, reject or counter a pending offer, or reinstate a
+ *   rejected or lapsed one
+ * - Buyer: accept or counter the owner's counter-offer, or withdraw
+ * The other side is notified of the response; buyers also get an email when
+ * the owner accepts or rejects their offer.
  */
 export async function PUT(
   request: NextRequest,
@@ -41,21 +55,9 @@ export async function PUT(
       );
     }
 
-    // Get asset to verify ownership
-    const asset = await getAssetFromCDA(assetUid);
-    const artMetadata = asset.custom_metadata?.art_metadata;
-    // Check if user is the current owner
-    const isCurrentOwner = artMetadata?.current_owner?.user_id === userId;
-    if (!isCurrentOwner) {
-      return NextResponse.json(
-        { error: "Only the current owner can accept or reject offers" },
-        { status: 403 }
-      );
-    }
-
     // Parse and validate request body
     const body = await request.json();
-    const validation = updateOfferSchema.safeParse(body);
+    const validation = respondToOfferSchema.safeParse(body);
 
     if (!validation.success) {
       return NextResponse.json(
@@ -64,51 +66,48 @@ export async function PUT(
       );
     }
 
-    const { status } = validation.data;
+    const { action, amount, message } = validation.data;
 
-    // Get offer details before updating
-    const { getAssetOffers } = await import("@/lib/firebase-admin");
-    const offers = await getAssetOffers(assetUid);
-    const offer = offers.find((o: any) => o.id === offerId);
-    
-    if (!offer) {
-      return NextResponse.json(
-        { error: "Offer not found" },
-        { status: 404 }
-      );
-    }
+    // The current owner responds as the seller; anyone else must be the offer's buyer
+    const asset = await getConsistentAsset(assetUid);
+    const artMetadata = asset.custom_metadata?.art_metadata;
+    const isCurrentOwner = artMetadata?.current_owner?.user_id === userId;
 
-    // Update offer status
-    const updatedOffer = await updateOfferStatus(offerId, status, userId);
-
-    log.info(`[Update Offer] Offer ${status}`, { offerId, assetUid, ownerId: userId });
-
-    // If accepted, update artwork price in Contentstack (accepted offer is tracked in Firebase)
-    if (status === "accepted") {
-      try {
-        const { updateAssetMetadata, triggerContentstackAutomation } = await import("@/lib/contentstack-am2");
-        await updateAssetMetadata(assetUid, {
-          price: offer.amount,
-          currency: offer.currency,
-        });
-
-        // Trigger automation to publish changes
-        triggerContentstackAutomation(assetUid);
-      } catch (error: any) {
-        log.error("[Update Offer] Failed to update asset metadata", error);
-        // Don't fail the request, but log the error
-      }
-    }
+    const updatedOffer = await respondToOffer(assetUid, offerId, action, {
+      userId,
+      role: isCurrentOwner ? "owner" : "buyer",
+      amount,
+      message,
+    });
+
+    log.info(`[Update Offer] Offer ${updatedOffer.status}`, { offerId, assetUid, userId, action });
 
-    // Revalidate artwork page
+    // Revalidate artwork page (the listing keeps its price: an accepted offer
+    // only reprices its buyer's checkout)
     revalidatePath(`/art/${assetUid}`);
 
+    await notifyOfferResponse(updatedOffer, {
+      ownerId: artMetadata?.current_owner?.user_id,
+      byOwner: isCurrentOwner,
+      assetTitle: asset.title,
+    });
+    if (isCurrentOwner && (updatedOffer.status === "accepted" || updatedOffer.status === "rejected")) {
+      await sendOfferEmail(updatedOffer.status, updatedOffer.buyerId, updatedOffer, asset.title);
+    }
+
     return NextResponse.json({
       success: true,
-      notice: `Offer ${status} successfully`,
+      notice: `Offer ${updatedOffer.status} successfully`,
       offer: {
         id: updatedOffer.id,
         status: updatedOffer.status,
+        amount: updatedOffer.amount,
+        expiresAt: updatedOffer.expiresAt
+          ? new Date(updatedOffer.expiresAt).toISOString()
+          : null,
+        paymentDeadline: updatedOffer.paymentDeadline
+          ? new Date(updatedOffer.paymentDeadline).toISOString()
+          : null,
       },
     });
   } catch (error: any) {
@@ -118,6 +117,14 @@ export async function PUT(
       return NextResponse.json({ error: error.message }, { status: 404 });
     }
 
+    if (error.message.includes("allowed to")) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    if (error.message.includes("Offer is")) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
     return NextResponse.json(
       { error: error.message || "Failed to update offer" },
       { status: 500 }
@@ -125,3 +132,79 @@ export async function PUT(
   }
 }
 
+/**
+ * DELETE /api/assets/[assetUid]/offers/[offerId]
+ * Withdraw an open offer (only accessible by the offer's buyer)
+ * The current owner is notified.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ assetUid: string; offerId: string }> }
+) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    const { assetUid, offerId } = await params;
+
+    if (!assetUid || !offerId) {
+      return NextResponse.json(
+        { error: "Asset UID and Offer ID are required" },
+        { status: 400 }
+      );
+    }
+
+    const asset = await getConsistentAsset(assetUid);
+
+    const offer = await respondToOffer(assetUid, offerId, "withdraw", {
+      userId: decodedToken.uid,
+      role: "buyer",
+    });
+
+    revalidatePath(`/art/${assetUid}`);
+
+    await notifyOfferResponse(offer, {
+      ownerId: asset.custom_metadata?.art_metadata?.current_owner?.user_id,
+      byOwner: false,
+      assetTitle: asset.title,
+    });
+
+    return NextResponse.json({
+      success: true,
+      notice: "Offer withdrawn successfully",
+      offer: {
+        id: offer.id,
+        status: offer.status,
+      },
+    });
+  } catch (error: any) {
+    log.error("Withdraw offer error", error);
+
+    if (error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error.message.includes("allowed to")) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    if (error.message.includes("Offer is")) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Failed to withdraw offer" },
+      { status: 500 }
+    );
+  }
+}
@@ -85,6 +85,9 @@ export async function GET(
         message: acceptedOffer.message,
         status: acceptedOffer.status,
         createdAt,
+        paymentDeadline: acceptedOffer.paymentDeadline
+          ? new Date(acceptedOffer.paymentDeadline).toISOString()
+          : null,
       },
     });
   } catch (error: any) {
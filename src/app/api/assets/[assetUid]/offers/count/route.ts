@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { verifyIdToken, getAssetOffersCount } from "@/lib/firebase-admin";
-import { getAssetFromCDA } from "@/lib/contentstack-am2";
+import { getConsistentAsset } from "@/lib/asset-repository";
 import { log } from "@/lib/logger";
 
 /**
@@ -33,7 +33,7 @@ export async function GET(
     }
 
     // Get asset to verify ownership
-    const asset = await getAssetFromCDA(assetUid);
+    const asset = await getConsistentAsset(assetUid);
     const artMetadata = asset.custom_metadata?.art_metadata;
     // Check if user is the current owner
     const isCurrentOwner = artMetadata?.current_owner?.user_id === userId;
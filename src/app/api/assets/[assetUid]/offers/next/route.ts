@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyIdToken, acceptNextOffer, toOfferResponse } from "@/lib/firebase-admin";
+import { getConsistentAsset } from "@/lib/asset-repository";
+import { notifyOfferResponse } from "@/lib/notifications";
+import { sendOfferEmail } from "@/lib/email";
+import { revalidatePath } from "next/cache";
+import { log } from "@/lib/logger";
+
+/**
+ * POST /api/assets/[assetUid]/offers/next
+ * Accept the next-highest offer after an accepted offer lapsed
+ * (only accessible by the current owner). Its buyer is notified in-app and
+ * by email.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ assetUid: string }> }
+) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    const userId = decodedToken.uid;
+    const { assetUid } = await params;
+
+    if (!assetUid) {
+      return NextResponse.json({ error: "Asset UID is required" }, { status: 400 });
+    }
+
+    const asset = await getConsistentAsset(assetUid);
+    if (asset.custom_metadata?.art_metadata?.current_owner?.user_id !== userId) {
+      return NextResponse.json(
+        { error: "Only the owner can accept offers" },
+        { status: 403 }
+      );
+    }
+
+    const offer = await acceptNextOffer(assetUid, userId);
+
+    log.info(`[Accept Next Offer] Offer accepted`, { offerId: offer.id, assetUid, userId });
+
+    revalidatePath(`/art/${assetUid}`);
+
+    await notifyOfferResponse(offer, { ownerId: userId, byOwner: true, assetTitle: asset.title });
+    await sendOfferEmail("accepted", offer.buyerId, offer, asset.title);
+
+    return NextResponse.json({
+      success: true,
+      notice: "Next offer accepted successfully",
+      offer: toOfferResponse(offer),
+    });
+  } catch (error: any) {
+    log.error("Accept next offer error", error);
+
+    if (error.message.includes("not found") || error.message.includes("No declined offers")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error.message.includes("Offer is")) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Failed to accept next offer" },
+      { status: 500 }
+    );
+  }
+}
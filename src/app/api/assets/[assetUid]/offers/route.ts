@@ -1,6 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
-import { verifyIdToken, getServerUserProfile, createOffer, getAssetOffers } from "@/lib/firebase-admin";
-import { getAssetFromCDA } from "@/lib/contentstack-am2";
+import {
+  verifyIdToken,
+  getServerUserProfile,
+  createOffer,
+  getAssetOffers,
+  getAcceptedOffer,
+  getBuyerOffers,
+  getDeclinedAssetOffers,
+  toOfferResponse,
+} from "@/lib/firebase-admin";
+import { getConsistentAsset } from "@/lib/asset-repository";
+import { isEditionArtwork } from "@/lib/editions";
+import { emitWatchEvent } from "@/lib/watchlists";
+import { notifyOfferReceived } from "@/lib/notifications";
+import { sendOfferEmail } from "@/lib/email";
 import { log } from "@/lib/logger";
 import { z } from "zod";
 
@@ -13,6 +26,12 @@ const offerSchema = z.object({
 /**
  * POST /api/assets/[assetUid]/offers
  * Create an offer for an asset
+ * - "sold": any amount, to the current owner
+ * - "sale" / "resale": below the asking price, in the listing's currency
+ * - "auction": refused (bid instead)
+ * Limited editions are sold at fixed prices and take no offers.
+ * The owner is notified in-app and by email; watchers are told an offer was
+ * made, without its amount.
  */
 export async function POST(
   request: NextRequest,
@@ -39,26 +58,26 @@ export async function POST(
       return NextResponse.json({ error: "Asset UID is required" }, { status: 400 });
     }
 
-    // Get asset to verify it's available for offers (must be sold)
-    const asset = await getAssetFromCDA(assetUid);
+    // Get asset to check which offers its listing takes
+    const asset = await getConsistentAsset(assetUid);
     const artMetadata = asset.custom_metadata?.art_metadata;
-    
-    // Check if asset is sold (offers can only be made on sold artworks)
-    if (artMetadata?.status !== "sold") {
+    const listingStatus = artMetadata?.status;
+
+    // Auctions take bids instead of offers
+    if (listingStatus === "auction") {
       return NextResponse.json(
-        { error: "Offers can only be made on sold artworks." },
+        { error: "This artwork is being auctioned. Place a bid instead." },
+        { status: 409 }
+      );
+    }
+
+    if (!listingStatus || isEditionArtwork(artMetadata)) {
+      return NextResponse.json(
+        { error: "This artwork is not accepting offers" },
         { status: 400 }
       );
     }
-    
-    // Check if there's already an accepted offer
-    // if (artMetadata?.accepted_offer?.buyer_id) {
-    //   return NextResponse.json(
-    //     { error: "This artwork already has an accepted offer." },
-    //     { status: 400 }
-    //   );
-    // }
-    
+
     // Check if user is the current owner (can't make offer on own artwork)
     const isCurrentOwner = artMetadata?.current_owner?.user_id === userId;
     if (isCurrentOwner) {
@@ -81,6 +100,23 @@ export async function POST(
 
     const { amount, currency, message } = validation.data;
 
+    // Listed artworks can be bought outright, so offers must come in under
+    // the asking price and in the listing's currency
+    const isListed = listingStatus === "sale" || listingStatus === "resale";
+    if (isListed && currency !== (artMetadata?.currency || "USD")) {
+      return NextResponse.json(
+        { error: `Offers on this artwork must be made in ${artMetadata?.currency || "USD"}` },
+        { status: 400 }
+      );
+    }
+
+    if (isListed && artMetadata?.price && amount >= artMetadata.price) {
+      return NextResponse.json(
+        { error: "Offers must be below the asking price. Buy the artwork instead." },
+        { status: 400 }
+      );
+    }
+
     // Get user profile for name
     const userProfile = await getServerUserProfile(userId);
     if (!userProfile) {
@@ -101,6 +137,10 @@ export async function POST(
 
     log.info(`[Create Offer] Offer created`, { offerId: offer.id, assetUid, buyerId: userId });
 
+    await notifyOfferReceived(offer, artMetadata?.current_owner?.user_id, asset.title);
+    await sendOfferEmail("received", artMetadata?.current_owner?.user_id, offer, asset.title);
+    await emitWatchEvent(assetUid, asset.title, { type: "offer" }, userId);
+
     return NextResponse.json({
       success: true,
       notice: "Offer submitted successfully",
@@ -113,6 +153,7 @@ export async function POST(
         currency: offer.currency,
         message: offer.message,
         status: offer.status,
+        expiresAt: new Date(offer.expiresAt).toISOString(),
         createdAt: offer.createdAt,
       },
     });
@@ -123,6 +164,10 @@ export async function POST(
       return NextResponse.json({ error: error.message }, { status: 404 });
     }
 
+    if (error.message.includes("already have an open offer")) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
     return NextResponse.json(
       { error: error.message || "Failed to create offer" },
       { status: 500 }
@@ -132,7 +177,10 @@ export async function POST(
 
 /**
  * GET /api/assets/[assetUid]/offers
- * Get all pending offers for an asset (only accessible by current owner)
+ * Get offers for an asset
+ * - Current owner: all open offers (pending and countered), the accepted
+ *   offer awaiting payment and the rejected or lapsed offers they can reinstate
+ * - Anyone else: their own offers on the asset, with negotiation history
  */
 export async function GET(
   request: NextRequest,
@@ -159,51 +207,31 @@ export async function GET(
       return NextResponse.json({ error: "Asset UID is required" }, { status: 400 });
     }
 
-    // Get asset to verify ownership
-    const asset = await getAssetFromCDA(assetUid);
+    // Get asset to check ownership
+    const asset = await getConsistentAsset(assetUid);
     const artMetadata = asset.custom_metadata?.art_metadata;
-    
-    // Check if user is the current owner
     const isCurrentOwner = artMetadata?.current_owner?.user_id === userId;
-    if (!isCurrentOwner) {
-      return NextResponse.json(
-        { error: "Only the current owner can view offers" },
-        { status: 403 }
-      );
+
+    if (isCurrentOwner) {
+      const [offers, accepted, declined] = await Promise.all([
+        getAssetOffers(assetUid),
+        getAcceptedOffer(assetUid),
+        getDeclinedAssetOffers(assetUid),
+      ]);
+
+      return NextResponse.json({
+        success: true,
+        offers: offers.map(toOfferResponse),
+        accepted: accepted ? toOfferResponse(accepted) : null,
+        declined: declined.map(toOfferResponse),
+      });
     }
 
-    // Get offers
-    const offers = await getAssetOffers(assetUid);
+    const offers = await getBuyerOffers(userId, assetUid);
 
     return NextResponse.json({
       success: true,
-      offers: offers.map((offer: any) => {
-        // Convert Firestore Timestamp to ISO string if needed
-        let createdAt: string;
-        if (offer.createdAt?.toDate) {
-          createdAt = offer.createdAt.toDate().toISOString();
-        } else if (offer.createdAt?.seconds) {
-          createdAt = new Date(offer.createdAt.seconds * 1000).toISOString();
-        } else if (offer.createdAt) {
-          createdAt = typeof offer.createdAt === "string" 
-            ? offer.createdAt 
-            : new Date(offer.createdAt).toISOString();
-        } else {
-          createdAt = new Date().toISOString();
-        }
-
-        return {
-          id: offer.id,
-          assetUid: offer.assetUid,
-          buyerId: offer.buyerId,
-          buyerName: offer.buyerName,
-          amount: offer.amount,
-          currency: offer.currency,
-          message: offer.message,
-          status: offer.status,
-          createdAt,
-        };
-      }),
+      offers: offers.map(toOfferResponse),
     });
   } catch (error: any) {
     log.error("Get offers error", error);
@@ -218,4 +246,3 @@ export async function GET(
     );
   }
 }
-
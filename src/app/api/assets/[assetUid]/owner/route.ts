@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { verifyIdToken } from "@/lib/firebase-admin";
-import { addAssetOwner } from "@/lib/contentstack-am2";
+import { addAssetOwner, isAssetConflict } from "@/lib/asset-repository";
 import { addOwnerSchema } from "@/lib/validations";
 import { log } from "@/lib/logger";
 
@@ -77,6 +77,10 @@ export async function POST(
       return NextResponse.json({ error: error.message }, { status: 404 });
     }
 
+    if (isAssetConflict(error)) {
+      return NextResponse.json({ error: error.message, retryable: true }, { status: 409 });
+    }
+
     return NextResponse.json(
       { error: error.message || "Failed to add owner" },
       { status: 500 }
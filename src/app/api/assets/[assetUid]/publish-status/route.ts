@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAssetRepository, isLatestWritePublished } from "@/lib/asset-repository";
+import { getPublishJob, toPublishJobResponse } from "@/lib/publish-jobs";
+import { log } from "@/lib/logger";
+
+/**
+ * GET /api/assets/[assetUid]/publish-status
+ * Whether the asset's latest metadata is live on the CDA, and the state of
+ * its publish job
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ assetUid: string }> }
+) {
+  try {
+    const { assetUid } = await params;
+
+    if (!assetUid) {
+      return NextResponse.json({ error: "Asset UID is required" }, { status: 400 });
+    }
+
+    const [live, job] = await Promise.all([
+      isLatestWritePublished(assetUid),
+      getAssetRepository().publishLag ? getPublishJob(assetUid) : null,
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      assetUid,
+      live,
+      job: job ? toPublishJobResponse(job) : null,
+    });
+  } catch (error: any) {
+    log.error("Get publish status error", error);
+
+    if (error.message?.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Failed to get publish status" },
+      { status: 500 }
+    );
+  }
+}
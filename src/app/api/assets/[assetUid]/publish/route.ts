@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { verifyIdToken, getServerUserProfile } from "@/lib/firebase-admin";
-import { publishAsset, toMinimalAssetResponse } from "@/lib/contentstack-am2";
+import { publishAsset, toMinimalAssetResponse, isAssetConflict } from "@/lib/asset-repository";
 import { log } from "@/lib/logger";
 
 /**
@@ -47,8 +47,8 @@ export async function POST(
     }
 
     // Verify the asset belongs to the artist
-    const { getAssetUsingAMV2API } = await import("@/lib/contentstack-am2");
-    const asset = await getAssetUsingAMV2API(assetUid);
+    const { getAsset } = await import("@/lib/asset-repository");
+    const asset = await getAsset(assetUid);
 
     if (asset.custom_metadata.art_metadata.artist_uid !== decodedToken.uid) {
       return NextResponse.json(
@@ -75,6 +75,10 @@ export async function POST(
       return NextResponse.json({ error: error.message }, { status: 404 });
     }
 
+    if (isAssetConflict(error)) {
+      return NextResponse.json({ error: error.message, retryable: true }, { status: 409 });
+    }
+
     return NextResponse.json(
       { error: error.message || "Failed to publish asset" },
       { status: 500 }
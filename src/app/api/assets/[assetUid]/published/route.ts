@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { confirmAssetPublish } from "@/lib/asset-repository";
+import { isBearerSecret } from "@/lib/firebase-admin";
+import { log } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+/**
+ * POST /api/assets/[assetUid]/published
+ * Publish confirmation, called by the publish automation once the asset is
+ * live on the CDA. Clears the cached write if the CDA now serves it.
+ * Requires `Authorization: Bearer <ASSET_PUBLISH_WEBHOOK_SECRET>`
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ assetUid: string }> }
+) {
+  try {
+    const webhookSecret = process.env.ASSET_PUBLISH_WEBHOOK_SECRET;
+    if (!webhookSecret) {
+      return NextResponse.json(
+        { error: "ASSET_PUBLISH_WEBHOOK_SECRET is not configured" },
+        { status: 503 }
+      );
+    }
+
+    if (!isBearerSecret(request.headers.get("Authorization"), webhookSecret)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { assetUid } = await params;
+
+    if (!assetUid) {
+      return NextResponse.json({ error: "Asset UID is required" }, { status: 400 });
+    }
+
+    const live = await confirmAssetPublish(assetUid);
+
+    return NextResponse.json({
+      success: true,
+      notice: live
+        ? "Latest metadata is live"
+        : "A newer write is still waiting to be published",
+      live,
+    });
+  } catch (error: any) {
+    log.error("Publish confirmation error", error);
+
+    if (error.message?.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Failed to confirm publish" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
-import { verifyIdToken, getServerUserProfile } from "@/lib/firebase-admin";
-import { updateAssetMetadata, triggerContentstackAutomation, toMinimalAssetResponse, getAssetUsingAMV2API, getAssetFromCDA } from "@/lib/contentstack-am2";
+import { verifyIdToken, getServerUserProfile, getAssetFreeze } from "@/lib/firebase-admin";
+import {
+  modifyAsset,
+  triggerAssetPublish,
+  toMinimalAssetResponse,
+  getAsset,
+  getConsistentAsset,
+  isAssetConflict,
+} from "@/lib/asset-repository";
+import { isEditionArtwork } from "@/lib/editions";
+import { emitWatchEvent } from "@/lib/watchlists";
+import { notify } from "@/lib/notifications";
+import { formatCurrency } from "@/lib/utils";
 import { revalidatePath } from "next/cache";
 import { log } from "@/lib/logger";
 import { z } from "zod";
@@ -15,7 +26,15 @@ const resaleSchema = z.object({
  * List an asset for resale (secondary market)
  * 
  * Only the current owner can list an asset for resale.
+ * Assets frozen by an open payment dispute cannot be listed.
+ * Limited editions are resold per edition, not as a whole.
  * This updates the price and sets status to "resale".
+ * Watchers are notified of the new listing, or of the new price if the
+ * asset was already listed. The artist is notified of a new listing.
+ *
+ * The listing is a version-checked write: if a purchase or transfer lands
+ * first, ownership is checked again on the latest version and the sale is
+ * never overwritten.
  */
 export async function POST(
   request: NextRequest,
@@ -43,7 +62,7 @@ export async function POST(
     }
 
     // Get current asset to verify ownership
-    const currentAsset = await getAssetFromCDA(assetUid);
+    const currentAsset = await getConsistentAsset(assetUid);
     const artMetadata = currentAsset.custom_metadata?.art_metadata;
     // Check if user is the current owner
     const isCurrentOwner = artMetadata?.current_owner?.user_id === userId;
@@ -55,6 +74,30 @@ export async function POST(
       );
     }
 
+    if (artMetadata && isEditionArtwork(artMetadata)) {
+      return NextResponse.json(
+        { error: "Editions are resold individually. List an edition you own instead." },
+        { status: 400 }
+      );
+    }
+
+    // Open payment disputes freeze the asset until they close
+    const freeze = await getAssetFreeze(assetUid);
+    if (freeze) {
+      return NextResponse.json(
+        { error: "This asset is frozen while a payment dispute is open" },
+        { status: 409 }
+      );
+    }
+
+    // Auctions restore the previous listing when they end or are cancelled
+    if (artMetadata?.status === "auction") {
+      return NextResponse.json(
+        { error: "Cancel the auction before listing this asset for resale" },
+        { status: 409 }
+      );
+    }
+
     // Parse and validate request body
     const body = await request.json();
     const validation = resaleSchema.safeParse(body);
@@ -71,20 +114,54 @@ export async function POST(
     // Get user profile for name
     const userProfile = await getServerUserProfile(userId);
 
-    // Update asset for resale
-    const asset = await updateAssetMetadata(assetUid, {
-      price,
-      currency,
-      status: "resale",
+    // Update asset for resale, unless it changed hands in the meantime
+    await modifyAsset(assetUid, (latest) => {
+      const latestMetadata = latest.custom_metadata?.art_metadata;
+      if (latestMetadata?.current_owner?.user_id !== userId) {
+        throw new Error("Only the current owner can list this asset for resale");
+      }
+      if (latestMetadata?.status === "auction") {
+        throw new Error("Cancel the auction before listing this asset for resale");
+      }
+      return { price, currency, status: "resale" };
     });
 
-    // Trigger Contentstack Automation API (async, non-blocking)
-    triggerContentstackAutomation(assetUid);
+    // Queue a publish of the latest version (retried by the job queue)
+    await triggerAssetPublish(assetUid);
 
     // Revalidate artwork page to show updated status
     revalidatePath(`/art/${assetUid}`);
 
-    const updatedAsset = await getAssetUsingAMV2API(assetUid);
+    // Let the artist know their work is back on the market
+    if (artMetadata?.status !== "resale" && artMetadata?.artist_uid !== userId) {
+      const royalty = artMetadata?.royalty_percentage || 0;
+      await notify(artMetadata?.artist_uid, "resale_listed", {
+        title: "Your artwork was listed for resale",
+        message: `"${currentAsset.title}" is listed for ${formatCurrency(price, currency)}${
+          royalty > 0 ? `. You earn a ${royalty}% royalty when it sells.` : ""
+        }`,
+        assetUid,
+      });
+    }
+
+    // Tell watchers about the listing
+    if (artMetadata?.status !== "resale") {
+      await emitWatchEvent(
+        assetUid,
+        currentAsset.title,
+        { type: "listed", price, currency, resale: true },
+        userId
+      );
+    } else if (artMetadata.price && artMetadata.price !== price) {
+      await emitWatchEvent(
+        assetUid,
+        currentAsset.title,
+        { type: "repriced", previousPrice: artMetadata.price, price, currency },
+        userId
+      );
+    }
+
+    const updatedAsset = await getAsset(assetUid);
 
     // Return only required fields for UI
     const minimalAsset = toMinimalAssetResponse(updatedAsset);
@@ -101,6 +178,18 @@ export async function POST(
       return NextResponse.json({ error: error.message }, { status: 404 });
     }
 
+    if (error.message.includes("Only the current owner")) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    if (isAssetConflict(error)) {
+      return NextResponse.json({ error: error.message, retryable: true }, { status: 409 });
+    }
+
+    if (error.message.includes("Cancel the auction")) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
     return NextResponse.json(
       { error: error.message || "Failed to list asset for resale" },
       { status: 500 }
@@ -113,7 +202,7 @@ export async function POST(
  * Withdraw an asset from resale (remove from secondary market)
  * 
  * Only the current owner can withdraw an asset from resale.
- * This updates the status back to "sold".
+ * This updates the status back to "sold" (version-checked, like listing).
  */
 export async function DELETE(
   request: NextRequest,
@@ -141,7 +230,7 @@ export async function DELETE(
     }
 
     // Get current asset to verify ownership and status
-    const currentAsset = await getAssetFromCDA(assetUid);
+    const currentAsset = await getConsistentAsset(assetUid);
     const artMetadata = currentAsset.custom_metadata?.art_metadata;
     const owners = artMetadata?.ownership_history || [];
     const currentStatus = artMetadata?.status;
@@ -164,18 +253,25 @@ export async function DELETE(
       );
     }
 
-    // Update asset status back to "sold"
-    const asset = await updateAssetMetadata(assetUid, {
-      status: "sold",
+    // Update asset status back to "sold", unless it sold in the meantime
+    await modifyAsset(assetUid, (latest) => {
+      const latestOwners = latest.custom_metadata?.art_metadata?.ownership_history || [];
+      if (latestOwners[latestOwners.length - 1]?.user_id !== userId) {
+        throw new Error("Only the current owner can withdraw this asset from resale");
+      }
+      if (latest.custom_metadata?.art_metadata?.status !== "resale") {
+        throw new Error("This asset is not currently listed for resale");
+      }
+      return { status: "sold" };
     });
 
-    // Trigger Contentstack Automation API (async, non-blocking)
-    triggerContentstackAutomation(assetUid);
+    // Queue a publish of the latest version (retried by the job queue)
+    await triggerAssetPublish(assetUid);
 
     // Revalidate artwork page to show updated status
     revalidatePath(`/art/${assetUid}`);
 
-    const updatedAsset = await getAssetUsingAMV2API(assetUid);
+    const updatedAsset = await getAsset(assetUid);
 
     // Return only required fields for UI
     const minimalAsset = toMinimalAssetResponse(updatedAsset);
@@ -192,6 +288,18 @@ export async function DELETE(
       return NextResponse.json({ error: error.message }, { status: 404 });
     }
 
+    if (error.message.includes("Only the current owner")) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    if (isAssetConflict(error)) {
+      return NextResponse.json({ error: error.message, retryable: true }, { status: 409 });
+    }
+
+    if (error.message.includes("not currently listed")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     return NextResponse.json(
       { error: error.message || "Failed to withdraw asset from resale" },
       { status: 500 }
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getActiveReservation } from "@/lib/reservations";
+import { log } from "@/lib/logger";
+
+/**
+ * GET /api/assets/[assetUid]/reservation
+ * Get the live checkout reservation for an asset (public)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ assetUid: string }> }
+) {
+  try {
+    const { assetUid } = await params;
+
+    if (!assetUid) {
+      return NextResponse.json({ error: "Asset UID is required" }, { status: 400 });
+    }
+
+    const reservation = await getActiveReservation(assetUid);
+
+    return NextResponse.json({
+      success: true,
+      reserved: !!reservation,
+      reservedBy: reservation?.userId || null,
+      // Only an open checkout's expiry is shown; paid purchases and transfers
+      // are held until they complete
+      expiresAt:
+        reservation && (reservation.status === "pending" || reservation.status === "open")
+          ? new Date(reservation.expiresAt).toISOString()
+          : null,
+    });
+  } catch (error: any) {
+    log.error("Get reservation error", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to get reservation" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,41 @@
 import { NextRequest, NextResponse } from "next/server";
-import { verifyIdToken, getServerUserProfile } from "@/lib/firebase-admin";
-import { updateAssetMetadata, triggerContentstackAutomation, toMinimalAssetResponse, getAssetUsingAMV2API } from "@/lib/contentstack-am2";
+import { verifyIdToken, getServerUserProfile, getAssetFreeze } from "@/lib/firebase-admin";
+import {
+  modifyAsset,
+  triggerAssetPublish,
+  toMinimalAssetResponse,
+  getAsset,
+  isAssetConflict,
+} from "@/lib/asset-repository";
+import type { ContentstackAsset } from "@/lib/contentstack-am2";
 import { assetUpdateSchema } from "@/lib/validations";
+import { emitWatchEvent } from "@/lib/watchlists";
 import { log } from "@/lib/logger";
 
+/**
+ * Entity tag of an asset version, for If-Match on updates
+ */
+function getAssetEtag(asset: ContentstackAsset): string {
+  return `"${asset.version}"`;
+}
+
+/**
+ * Whether the permission checks made against one version of an asset still
+ * hold for another
+ */
+function hasSamePermissions(asset: ContentstackAsset, checked: ContentstackAsset): boolean {
+  const a = asset.custom_metadata?.art_metadata;
+  const b = checked.custom_metadata?.art_metadata;
+  return (
+    a?.artist_uid === b?.artist_uid &&
+    a?.current_owner?.user_id === b?.current_owner?.user_id &&
+    a?.status === b?.status
+  );
+}
+
 /**
  * GET /api/assets/[assetUid]
- * Get asset details by UID
+ * Get asset details by UID. The ETag header carries the asset version.
  */
 export async function GET(
   request: NextRequest,
@@ -19,16 +48,19 @@ export async function GET(
       return NextResponse.json({ error: "Asset UID is required" }, { status: 400 });
     }
 
-    const asset = await getAssetUsingAMV2API(assetUid);
+    const asset = await getAsset(assetUid);
 
     // Return only required fields for UI
     const minimalAsset = toMinimalAssetResponse(asset);
 
-    return NextResponse.json({
-      success: true,
-      notice: "Asset retrieved successfully",
-      asset: minimalAsset,
-    });
+    return NextResponse.json(
+      {
+        success: true,
+        notice: "Asset retrieved successfully",
+        asset: minimalAsset,
+      },
+      { headers: { ETag: getAssetEtag(asset) } }
+    );
   } catch (error: any) {
     log.error("Get asset error", error);
     
@@ -58,6 +90,13 @@ export async function GET(
  * - price: Price (artist always, owner for resale)
  * - currency: Currency code
  * - status: "sold" | "sale" | "resale" (for resale, set to "resale")
+ *
+ * Watchers are notified when the asset is listed or a listed asset is repriced.
+ *
+ * The write is version-checked. With an If-Match header (the ETag from GET)
+ * it only applies to that version, otherwise 412. Without one, a write that
+ * races another is re-applied to the latest version while ownership and
+ * status are unchanged; if they changed, or retries run out, 409.
  */
 export async function PUT(
   request: NextRequest,
@@ -85,7 +124,17 @@ export async function PUT(
     }
 
     // Get current asset to check permissions
-    const currentAsset = await getAssetUsingAMV2API(assetUid);
+    const currentAsset = await getAsset(assetUid);
+
+    // The client edited a specific version
+    const ifMatch = request.headers.get("If-Match");
+    if (ifMatch && ifMatch !== "*" && ifMatch !== getAssetEtag(currentAsset)) {
+      return NextResponse.json(
+        { error: "The asset was modified since it was loaded. Reload it and try again." },
+        { status: 412 }
+      );
+    }
+
     const artMetadata = currentAsset.custom_metadata?.art_metadata;
     const artistUid = artMetadata?.artist_uid;
     const currentStatus = artMetadata?.status;
@@ -119,6 +168,17 @@ export async function PUT(
 
     const validated = validation.data;
 
+    // Price and status are managed by the auction until it closes
+    if (
+      currentStatus === "auction" &&
+      (validated.price !== undefined || validated.status !== undefined)
+    ) {
+      return NextResponse.json(
+        { error: "Cancel the auction before changing its price or status" },
+        { status: 409 }
+      );
+    }
+
     // Permission checks
     const isSold = currentStatus === "sold";
     const updateData: any = {};
@@ -162,6 +222,13 @@ export async function PUT(
     // Status: For resale, owner can set to "resale"
     if (validated.status !== undefined) {
       if (isCurrentOwner && validated.status === "resale") {
+        // Open payment disputes freeze the asset until they close
+        if (await getAssetFreeze(assetUid)) {
+          return NextResponse.json(
+            { error: "This asset is frozen while a payment dispute is open" },
+            { status: 409 }
+          );
+        }
         updateData.status = "resale";
       } else if (isArtistRole) {
         updateData.status = validated.status;
@@ -173,25 +240,72 @@ export async function PUT(
       }
     }
 
-    // Update asset metadata
-    const asset = await updateAssetMetadata(assetUid, updateData);
+    // Update asset metadata, checked against the version the permissions
+    // were checked on. On a conflict the latest version is re-read; with
+    // If-Match there is nothing to retry.
+    await modifyAsset(
+      assetUid,
+      (latest) => {
+        if (!hasSamePermissions(latest, currentAsset)) {
+          throw new Error("Asset ownership or status changed while updating. Please try again.");
+        }
+        return updateData;
+      },
+      { asset: currentAsset, maxAttempts: ifMatch && ifMatch !== "*" ? 1 : undefined }
+    );
 
-    // Trigger Contentstack Automation API (async, non-blocking)
+    // Queue a publish of the latest version (retried by the job queue)
     // Only trigger if asset is not sold, or if it's being updated by current owner/artist
     if (!isSold || isCurrentOwner || isArtist) {
-      triggerContentstackAutomation(assetUid);
+      await triggerAssetPublish(assetUid);
     }
 
-    const updatedAsset = await getAssetUsingAMV2API(assetUid);
+    // Tell watchers about a new listing or a new asking price
+    const isListed = (status?: string | null) => status === "sale" || status === "resale";
+    const newStatus = updateData.status ?? currentStatus;
+    const newPrice = updateData.price ?? artMetadata?.price;
+    const newCurrency = updateData.currency ?? artMetadata?.currency ?? "USD";
+    const assetTitle = updateData.title ?? currentAsset.title;
+
+    if (isListed(newStatus) && !isListed(currentStatus) && newPrice) {
+      await emitWatchEvent(
+        assetUid,
+        assetTitle,
+        { type: "listed", price: newPrice, currency: newCurrency, resale: newStatus === "resale" },
+        userId
+      );
+    } else if (
+      isListed(newStatus) &&
+      updateData.price !== undefined &&
+      artMetadata?.price &&
+      updateData.price !== artMetadata.price
+    ) {
+      await emitWatchEvent(
+        assetUid,
+        assetTitle,
+        {
+          type: "repriced",
+          previousPrice: artMetadata.price,
+          price: updateData.price,
+          currency: newCurrency,
+        },
+        userId
+      );
+    }
+
+    const updatedAsset = await getAsset(assetUid);
 
     // Return only required fields for UI
     const minimalAsset = toMinimalAssetResponse(updatedAsset);
 
-    return NextResponse.json({
-      success: true,
-      notice: "Asset updated successfully",
-      asset: minimalAsset,
-    });
+    return NextResponse.json(
+      {
+        success: true,
+        notice: "Asset updated successfully",
+        asset: minimalAsset,
+      },
+      { headers: { ETag: getAssetEtag(updatedAsset) } }
+    );
   } catch (error: any) {
     log.error("Update asset error", error);
     
@@ -199,6 +313,20 @@ export async function PUT(
       return NextResponse.json({ error: error.message }, { status: 404 });
     }
 
+    if (isAssetConflict(error)) {
+      // A version named by If-Match is stale for good; otherwise retries ran out
+      return request.headers.get("If-Match")
+        ? NextResponse.json(
+            { error: "The asset was modified since it was loaded. Reload it and try again." },
+            { status: 412 }
+          )
+        : NextResponse.json({ error: error.message, retryable: true }, { status: 409 });
+    }
+
+    if (error.message.includes("changed while updating")) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
     return NextResponse.json(
       { error: error.message || "Failed to update asset" },
       { status: 500 }
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyIdToken } from "@/lib/firebase-admin";
+import { isAssetConflict } from "@/lib/asset-repository";
+import { getTransfer, respondToTransfer, toTransferResponse } from "@/lib/transfers";
+import { log } from "@/lib/logger";
+import { z } from "zod";
+
+const respondToTransferSchema = z.object({
+  action: z.enum(["accept", "decline", "cancel"]),
+});
+
+/**
+ * PUT /api/assets/[assetUid]/transfer/[transferId]
+ * Respond to a transfer
+ * - Recipient: accept (ownership moves to them) or decline
+ * - Sender: cancel while it is pending
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ assetUid: string; transferId: string }> }
+) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    const userId = decodedToken.uid;
+    const { assetUid, transferId } = await params;
+
+    if (!assetUid || !transferId) {
+      return NextResponse.json(
+        { error: "Asset UID and Transfer ID are required" },
+        { status: 400 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = respondToTransferSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getTransfer(transferId);
+    if (!existing || existing.assetUid !== assetUid) {
+      return NextResponse.json({ error: "Transfer not found" }, { status: 404 });
+    }
+
+    const transfer = await respondToTransfer(transferId, userId, validation.data.action);
+
+    return NextResponse.json({
+      success: true,
+      notice: `Transfer ${transfer.status} successfully`,
+      transfer: toTransferResponse(transfer, userId),
+    });
+  } catch (error: any) {
+    log.error("Respond to transfer error", error);
+
+    if (error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error.message.includes("allowed to")) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    if (error.message.includes("cannot be transferred")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (
+      error.message.includes("Transfer is") ||
+      error.message.includes("being auctioned") ||
+      error.message.includes("frozen") ||
+      error.message.includes("reserved by another") ||
+      error.message.includes("accepted offer")
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    if (isAssetConflict(error)) {
+      return NextResponse.json({ error: error.message, retryable: true }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Failed to update transfer" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyIdToken } from "@/lib/firebase-admin";
+import { getAsset } from "@/lib/asset-repository";
+import { createTransfer, getOpenTransfer, toTransferResponse } from "@/lib/transfers";
+import { log } from "@/lib/logger";
+import { z } from "zod";
+
+const transferSchema = z.object({
+  recipient: z.string().trim().min(1, "Recipient email or user ID is required"),
+  message: z.string().max(500, "Message too long").optional(),
+});
+
+/**
+ * GET /api/assets/[assetUid]/transfer
+ * Get the asset's open transfer (only visible to its sender and recipient)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ assetUid: string }> }
+) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    const userId = decodedToken.uid;
+    const { assetUid } = await params;
+
+    if (!assetUid) {
+      return NextResponse.json({ error: "Asset UID is required" }, { status: 400 });
+    }
+
+    const transfer = await getOpenTransfer(assetUid);
+    const isParty =
+      !!transfer && (transfer.senderId === userId || transfer.recipientId === userId);
+
+    return NextResponse.json({
+      success: true,
+      transfer: isParty ? toTransferResponse(transfer, userId) : null,
+    });
+  } catch (error: any) {
+    log.error("Get transfer error", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to get transfer" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/assets/[assetUid]/transfer
+ * Transfer an asset to another user (a gift, or a move between accounts)
+ *
+ * Only the current owner can transfer, to a recipient given by email or
+ * user ID. Ownership moves once the recipient accepts; no money changes
+ * hands. Refused while the asset is auctioned, reserved by a checkout,
+ * frozen by a payment dispute or awaiting payment for an accepted offer.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ assetUid: string }> }
+) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    const userId = decodedToken.uid;
+    const { assetUid } = await params;
+
+    if (!assetUid) {
+      return NextResponse.json({ error: "Asset UID is required" }, { status: 400 });
+    }
+
+    // Ownership is checked against the latest version (the published one may lag)
+    const asset = await getAsset(assetUid);
+    if (asset.custom_metadata?.art_metadata?.current_owner?.user_id !== userId) {
+      return NextResponse.json(
+        { error: "Only the current owner can transfer this asset" },
+        { status: 403 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = transferSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid transfer data", details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { recipient, message } = validation.data;
+
+    const transfer = await createTransfer(assetUid, userId, recipient, message);
+
+    return NextResponse.json({
+      success: true,
+      notice: `Transfer sent to ${transfer.recipientName}. Ownership moves once they accept.`,
+      transfer: toTransferResponse(transfer, userId),
+    });
+  } catch (error: any) {
+    log.error("Create transfer error", error);
+
+    if (error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (
+      error.message.includes("yourself") ||
+      error.message.includes("setting up") ||
+      error.message.includes("cannot be transferred")
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (
+      error.message.includes("being auctioned") ||
+      error.message.includes("frozen") ||
+      error.message.includes("reserved by another") ||
+      error.message.includes("accepted offer") ||
+      error.message.includes("pending transfer")
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Failed to create transfer" },
+      { status: 500 }
+    );
+  }
+}
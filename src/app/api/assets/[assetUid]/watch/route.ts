@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyIdToken } from "@/lib/firebase-admin";
+import { getConsistentAsset } from "@/lib/asset-repository";
+import { isWatchingAsset, unwatchAsset, watchAsset } from "@/lib/watchlists";
+import { log } from "@/lib/logger";
+
+/**
+ * GET /api/assets/[assetUid]/watch
+ * Check whether the authenticated user is watching an asset
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ assetUid: string }> }
+) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    const { assetUid } = await params;
+
+    if (!assetUid) {
+      return NextResponse.json({ error: "Asset UID is required" }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      watching: await isWatchingAsset(decodedToken.uid, assetUid),
+    });
+  } catch (error: any) {
+    log.error("Get watch error", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to get watch status" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/assets/[assetUid]/watch
+ * Watch an asset to be notified when it is listed, repriced or gets an offer
+ *
+ * Owners cannot watch their own asset.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ assetUid: string }> }
+) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    const userId = decodedToken.uid;
+    const { assetUid } = await params;
+
+    if (!assetUid) {
+      return NextResponse.json({ error: "Asset UID is required" }, { status: 400 });
+    }
+
+    // Make sure the asset exists before watching it
+    const asset = await getConsistentAsset(assetUid);
+    if (asset.custom_metadata?.art_metadata?.current_owner?.user_id === userId) {
+      return NextResponse.json(
+        { error: "You cannot watch your own artwork" },
+        { status: 400 }
+      );
+    }
+
+    await watchAsset(userId, assetUid);
+
+    return NextResponse.json({
+      success: true,
+      notice: "You are now watching this artwork",
+      watching: true,
+    });
+  } catch (error: any) {
+    log.error("Watch asset error", error);
+
+    if (error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Failed to watch asset" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/assets/[assetUid]/watch
+ * Stop watching an asset
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ assetUid: string }> }
+) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    const { assetUid } = await params;
+
+    if (!assetUid) {
+      return NextResponse.json({ error: "Asset UID is required" }, { status: 400 });
+    }
+
+    const removed = await unwatchAsset(decodedToken.uid, assetUid);
+    if (!removed) {
+      return NextResponse.json(
+        { error: "You are not watching this artwork" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      notice: "You are no longer watching this artwork",
+      watching: false,
+    });
+  } catch (error: any) {
+    log.error("Unwatch asset error", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to unwatch asset" },
+      { status: 500 }
+    );
+  }
+}
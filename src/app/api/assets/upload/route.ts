@@ -6,10 +6,10 @@ import {
 } from "@/lib/firebase-admin";
 import {
   uploadAsset,
-  triggerContentstackAutomation,
+  triggerAssetPublish,
   toMinimalAssetResponse,
-  getAssetUsingAMV2API,
-} from "@/lib/contentstack-am2";
+  getAsset,
+} from "@/lib/asset-repository";
 import { assetUploadSchema } from "@/lib/validations";
 import { log } from "@/lib/logger";
 
@@ -27,6 +27,9 @@ import { log } from "@/lib/logger";
  * - status: "sold" | "sale" | "resale"
  *
  * Optional fields:
+ * - royalty_percentage: Artist royalty on resales, 0-50 (defaults to 10)
+ * - edition_size: Sell as a limited edition of this many numbered copies,
+ *   2-1000 (requires status "sale")
  * - title: Custom title (defaults to filename)
  * - description: Description of the artwork
  * - tags: Array of tags
@@ -72,6 +75,8 @@ export async function POST(request: NextRequest) {
     const priceStr = formData.get("price") as string | null;
     const currency = formData.get("currency") as string | null;
     const status = formData.get("status") as string | null;
+    const royaltyStr = formData.get("royalty_percentage") as string | null;
+    const editionSizeStr = formData.get("edition_size") as string | null;
     const tagsJson = formData.get("tags") as string | null;
 
     if (!file) {
@@ -80,6 +85,8 @@ export async function POST(request: NextRequest) {
 
     // Parse and validate input
     const price = priceStr ? parseFloat(priceStr) : null;
+    const royaltyPercentage = royaltyStr ? parseFloat(royaltyStr) : undefined;
+    const editionSize = editionSizeStr ? Number(editionSizeStr) : undefined;
     const tags = tagsJson ? JSON.parse(tagsJson) : [];
 
     const validation = assetUploadSchema.safeParse({
@@ -88,6 +95,8 @@ export async function POST(request: NextRequest) {
       category: category || undefined,
       price: price || undefined,
       currency: currency || "USD",
+      royalty_percentage: royaltyPercentage,
+      edition_size: editionSize,
       status: status || undefined,
       tags: tags.length > 0 ? tags : undefined,
     });
@@ -101,6 +110,14 @@ export async function POST(request: NextRequest) {
 
     const validated = validation.data;
 
+    // Editions are minted as they sell, so they start out on sale
+    if (validated.edition_size && (validated.status !== "sale" || !validated.price)) {
+      return NextResponse.json(
+        { error: "Limited editions must be listed for sale with a price" },
+        { status: 400 }
+      );
+    }
+
     // Convert file to buffer for Node.js
     const arrayBuffer = await file.arrayBuffer();
     const buffer = Buffer.from(arrayBuffer);
@@ -116,6 +133,8 @@ export async function POST(request: NextRequest) {
       currency: validated.currency,
       category: validated.category,
       status: validated.status as "sold" | "sale" | "resale",
+      royalty_percentage: validated.royalty_percentage,
+      edition_size: validated.edition_size,
       title: validated.title,
       description: validated.description,
       tags: validated.tags,
@@ -147,8 +166,8 @@ export async function POST(request: NextRequest) {
       // The asset is still uploaded to Contentstack, just not tracked in Firestore
     }
 
-    // Trigger Contentstack Automation API (async, non-blocking)
-    triggerContentstackAutomation(asset.uid);
+    // Queue a publish of the latest version (retried by the job queue)
+    await triggerAssetPublish(asset.uid);
 
     // Return only required fields for UI
     const minimalAsset = toMinimalAssetResponse(asset);
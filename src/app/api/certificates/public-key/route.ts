@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { getProvenancePublicKey } from "@/lib/provenance";
+import { log } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/certificates/public-key
+ * The Ed25519 public key certificates are signed with, for offline
+ * verification (public)
+ */
+export async function GET() {
+  try {
+    const { keyId, publicKey } = getProvenancePublicKey();
+
+    return NextResponse.json({
+      success: true,
+      algorithm: "Ed25519",
+      keyId,
+      publicKey,
+    });
+  } catch (error: any) {
+    log.error("Get provenance public key error", error);
+
+    if (error.message?.includes("not configured")) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Failed to get public key" },
+      { status: 500 }
+    );
+  }
+}
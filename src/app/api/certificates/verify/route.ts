@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyCertificate } from "@/lib/provenance";
+import { signedCertificateSchema } from "@/lib/validations";
+import { log } from "@/lib/logger";
+
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+/**
+ * POST /api/certificates/verify
+ * Check a provenance certificate's signature and compare it with the
+ * artwork's current state (public)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Certificate must be valid JSON" }, { status: 400 });
+    }
+
+    const validation = signedCertificateSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid certificate", details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const verification = await verifyCertificate(validation.data);
+
+    return NextResponse.json({
+      success: true,
+      assetUid: validation.data.certificate.asset.uid,
+      ...verification,
+    });
+  } catch (error: any) {
+    log.error("Verify certificate error", error);
+
+    if (error.message?.includes("not configured")) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Failed to verify certificate" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { verifyIdToken } from "@/lib/firebase-admin";
 import { getUserAssets } from "@/lib/firebase-admin";
-import { getAssetFromCDA, toMinimalAssetResponse } from "@/lib/contentstack-am2";
+import { getPublishedAsset, toMinimalAssetResponse } from "@/lib/asset-repository";
+import { getUserEditions, type Edition } from "@/lib/editions";
 import { log } from "@/lib/logger";
 
 /**
  * GET /api/collection
- * Get user's collection of owned artworks
+ * Get user's collection of owned artworks, including the limited editions
+ * they own (one entry per edition)
  */
 export async function GET(request: NextRequest) {
   try {
@@ -25,10 +27,24 @@ export async function GET(request: NextRequest) {
 
     const userId = decodedToken.uid;
 
-    // Get user's asset collection from Firestore
-    const userAssets = await getUserAssets(userId);
+    // Get user's asset collection and editions from Firestore
+    const [userAssets, userEditions] = await Promise.all([
+      getUserAssets(userId),
+      getUserEditions(userId),
+    ]);
 
-    if (!userAssets.assets || userAssets.assets.length === 0) {
+    // An artist's unsold editions are covered by the master in their collection
+    const assetUids = new Set<string>(
+      (userAssets.assets || []).map((assetData: any) => assetData.assetUid)
+    );
+    const entries: { assetUid: string; edition: Edition | null }[] = [
+      ...Array.from(assetUids).map((assetUid) => ({ assetUid, edition: null })),
+      ...userEditions
+        .filter((edition) => !assetUids.has(edition.assetUid))
+        .map((edition) => ({ assetUid: edition.assetUid, edition })),
+    ];
+
+    if (entries.length === 0) {
       return NextResponse.json({
         success: true,
         artworks: [],
@@ -37,9 +53,9 @@ export async function GET(request: NextRequest) {
     }
 
     // Fetch full asset details from Contentstack AM2
-    const assetPromises = userAssets.assets.map((assetData: any) =>
-      getAssetFromCDA(assetData.assetUid).catch((error) => {
-        log.error(`Failed to fetch asset`, error, { assetUid: assetData.assetUid });
+    const assetPromises = entries.map(({ assetUid }) =>
+      getPublishedAsset(assetUid).catch((error) => {
+        log.error(`Failed to fetch asset`, error, { assetUid });
         return null;
       })
     );
@@ -48,8 +64,9 @@ export async function GET(request: NextRequest) {
 
     // Filter out nulls and map to minimal UI format
     const ownedArtworks = assets
-      .filter((asset) => asset !== null)
-      .map((asset) => {
+      .map((asset, i) => ({ asset, edition: entries[i].edition }))
+      .filter(({ asset }) => asset !== null)
+      .map(({ asset, edition }) => {
         const minimalAsset = toMinimalAssetResponse(asset!);
         const artMetadata = minimalAsset.custom_metadata.art_metadata;
         
@@ -74,6 +91,9 @@ export async function GET(request: NextRequest) {
             price: artMetadata?.price || 0,
             currency: artMetadata?.currency || "USD",
             status: artMetadata?.status === "sold" ? "sold" : artMetadata?.status === "sale" ? "published" : "draft",
+            editionSize: artMetadata?.edition_size ?? null,
+            editionsSold: artMetadata?.edition_size ? artMetadata.editions_sold || 0 : null,
+            editionNumber: edition?.editionNumber ?? null,
             current_owner: artMetadata?.current_owner ? {
               userId: artMetadata.current_owner.user_id || "",
               userName: artMetadata.current_owner.user_name || undefined,
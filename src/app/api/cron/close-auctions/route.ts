@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { closeDueAuctions } from "@/lib/auctions";
+import { isBearerSecret } from "@/lib/firebase-admin";
+import { log } from "@/lib/logger";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/close-auctions
+ * Scheduled sweep that closes ended auctions (opening the winner's checkout)
+ * and relists auctions whose winner did not pay in time
+ * Requires `Authorization: Bearer <CRON_SECRET>`
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+      return NextResponse.json({ error: "CRON_SECRET is not configured" }, { status: 503 });
+    }
+
+    if (!isBearerSecret(request.headers.get("Authorization"), cronSecret)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { closed, lapsed } = await closeDueAuctions();
+
+    return NextResponse.json({
+      success: true,
+      closed,
+      lapsed,
+    });
+  } catch (error: any) {
+    log.error("Close auctions error", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to close auctions" },
+      { status: 500 }
+    );
+  }
+}
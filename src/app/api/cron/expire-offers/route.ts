@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { expireOffers, isBearerSecret } from "@/lib/firebase-admin";
+import { log } from "@/lib/logger";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/expire-offers
+ * Scheduled sweep that expires open offers past their deadline and lapses
+ * accepted offers that were not paid in time
+ * Requires `Authorization: Bearer <CRON_SECRET>`
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+      return NextResponse.json({ error: "CRON_SECRET is not configured" }, { status: 503 });
+    }
+
+    if (!isBearerSecret(request.headers.get("Authorization"), cronSecret)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { expired, lapsed } = await expireOffers();
+
+    return NextResponse.json({
+      success: true,
+      expired,
+      lapsed,
+    });
+  } catch (error: any) {
+    log.error("Expire offers error", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to expire offers" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { pruneNotifications } from "@/lib/notifications";
+import { isBearerSecret } from "@/lib/firebase-admin";
+import { log } from "@/lib/logger";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/prune-notifications
+ * Optional scheduled sweep that deletes notifications past their retention
+ * Requires `Authorization: Bearer <CRON_SECRET>`
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+      return NextResponse.json({ error: "CRON_SECRET is not configured" }, { status: 503 });
+    }
+
+    if (!isBearerSecret(request.headers.get("Authorization"), cronSecret)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const pruned = await pruneNotifications();
+
+    return NextResponse.json({
+      success: true,
+      pruned,
+    });
+  } catch (error: any) {
+    log.error("Prune notifications error", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to prune notifications" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { processDuePublishJobs } from "@/lib/publish-jobs";
+import { isBearerSecret } from "@/lib/firebase-admin";
+import { log } from "@/lib/logger";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/publish-jobs
+ * Scheduled sweep that retries failed asset publishes whose backoff has
+ * elapsed and publishes abandoned by a stopped worker
+ * Requires `Authorization: Bearer <CRON_SECRET>`
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+      return NextResponse.json({ error: "CRON_SECRET is not configured" }, { status: 503 });
+    }
+
+    if (!isBearerSecret(request.headers.get("Authorization"), cronSecret)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await processDuePublishJobs();
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    });
+  } catch (error: any) {
+    log.error("Process publish jobs error", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to process publish jobs" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAssetRepository } from "@/lib/asset-repository";
+import { readLocalAssetFile } from "@/lib/local-assets";
+import { log } from "@/lib/logger";
+
+/**
+ * GET /api/local-assets/[assetUid]/[fileName]
+ * Serve the file of an asset in local storage (ASSET_STORAGE=local)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ assetUid: string; fileName: string }> }
+) {
+  try {
+    if (getAssetRepository().name !== "local") {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const { assetUid, fileName } = await params;
+    const file = await readLocalAssetFile(assetUid, fileName);
+
+    if (!file) {
+      return NextResponse.json({ error: "Asset file not found" }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(file.data), {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Length": file.data.length.toString(),
+        "Cache-Control": "private, max-age=60",
+      },
+    });
+  } catch (error: any) {
+    log.error("Serve local asset error", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to read asset file" },
+      { status: 500 }
+    );
+  }
+}
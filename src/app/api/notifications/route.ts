@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyIdToken } from "@/lib/firebase-admin";
+import {
+  getUnreadNotificationCount,
+  getUserNotifications,
+  markNotificationsRead,
+  toNotificationResponse,
+} from "@/lib/notifications";
+import { markReadSchema } from "@/lib/validations";
+import { log } from "@/lib/logger";
+
+/**
+ * GET /api/notifications
+ * Get the authenticated user's most recent notifications, newest first,
+ * and how many are unread
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    const [notifications, unreadCount] = await Promise.all([
+      getUserNotifications(decodedToken.uid),
+      getUnreadNotificationCount(decodedToken.uid),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      notifications: notifications.map(toNotificationResponse),
+      unreadCount,
+    });
+  } catch (error: any) {
+    log.error("Get notifications error", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to get notifications" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/notifications
+ * Mark notifications as read
+ * - { "ids": [...] }: the given notifications
+ * - { "all": true }: every unread notification
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = markReadSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const ids = "ids" in validation.data ? validation.data.ids : undefined;
+    const marked = await markNotificationsRead(decodedToken.uid, ids);
+
+    return NextResponse.json({
+      success: true,
+      notice: "Notifications marked as read",
+      marked,
+      unreadCount: await getUnreadNotificationCount(decodedToken.uid),
+    });
+  } catch (error: any) {
+    log.error("Mark notifications read error", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to update notifications" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyIdToken, getBuyerOffers, toOfferResponse } from "@/lib/firebase-admin";
+import { getPublishedAsset } from "@/lib/asset-repository";
+import { log } from "@/lib/logger";
+
+/**
+ * GET /api/offers/mine
+ * List the authenticated buyer's offers across all artworks
+ * Optional ?status=pending,accepted filter
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    const statusFilter = request.nextUrl.searchParams.get("status")?.split(",").filter(Boolean);
+
+    const offers = (await getBuyerOffers(decodedToken.uid)).filter(
+      (offer) => !statusFilter?.length || statusFilter.includes(offer.status)
+    );
+
+    // Artwork titles for display; a missing asset doesn't fail the list
+    const assetUids = Array.from(new Set(offers.map((offer) => offer.assetUid)));
+    const titles = new Map<string, string | null>(
+      await Promise.all(
+        assetUids.map(async (assetUid) => {
+          try {
+            const asset = await getPublishedAsset(assetUid);
+            return [assetUid, asset.title] as [string, string | null];
+          } catch (error: any) {
+            log.warn("[My Offers] Failed to load asset", { assetUid, error: error.message });
+            return [assetUid, null] as [string, string | null];
+          }
+        })
+      )
+    );
+
+    return NextResponse.json({
+      success: true,
+      offers: offers.map((offer) => ({
+        ...toOfferResponse(offer),
+        assetTitle: titles.get(offer.assetUid) || null,
+      })),
+    });
+  } catch (error: any) {
+    log.error("Get my offers error", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to get offers" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
-import { verifyIdToken, getServerUserProfile, getServerWallet, getAcceptedOffer } from "@/lib/firebase-admin";
-import { getAssetFromCDA } from "@/lib/contentstack-am2";
-import { createCheckoutSession } from "@/lib/stripe";
+import { verifyIdToken, getServerUserProfile, getServerWallet, getAcceptedOffer, getAssetFreeze } from "@/lib/firebase-admin";
+import { getConsistentAsset } from "@/lib/asset-repository";
+import { createCheckoutSession, expireCheckoutSession } from "@/lib/stripe";
+import { fulfillWalletPurchase, getReservationKey } from "@/lib/fulfillment";
+import { getAuctionWin } from "@/lib/auctions";
+import {
+  getEdition,
+  getEditionId,
+  getEditionSeries,
+  isEditionArtwork,
+} from "@/lib/editions";
+import {
+  RESERVATION_TTL_SECONDS,
+  attachReservationSession,
+  claimReservation,
+  releaseReservation,
+} from "@/lib/reservations";
 import { createCheckoutSchema } from "@/lib/validations";
 import { log } from "@/lib/logger";
 
@@ -9,9 +23,31 @@ import { log } from "@/lib/logger";
 export const runtime = "nodejs";
 export const maxDuration = 30; // 30 seconds max duration
 
+function reservedByAnotherBuyer() {
+  return NextResponse.json(
+    { error: "This artwork is reserved by another buyer. Please try again later." },
+    { status: 409 }
+  );
+}
+
 /**
  * POST /api/purchase/checkout
- * Create a Stripe checkout session for artwork purchase
+ * Create a Stripe checkout session for artwork purchase,
+ * or pay from the wallet balance (paymentMethod: "wallet")
+ *
+ * The artwork is reserved for the buyer until the session expires.
+ * While reserved, other buyers are refused and the same buyer gets
+ * their open session back, unless the price has changed since: that
+ * session is expired and a new one created at the current price.
+ *
+ * Wallet purchases skip Stripe: the balance is debited atomically and
+ * ownership is transferred before the response is returned.
+ *
+ * For limited editions, `editionNumber` buys that edition from its owner's
+ * resale listing (reserving the edition, not the artwork). Without it the
+ * buyer gets the next edition minted from the artist's supply, which needs
+ * no reservation: a payment that arrives after the last edition is minted
+ * is refunded.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -39,7 +75,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { artworkId } = validation.data;
+    const { artworkId, paymentMethod, editionNumber } = validation.data;
 
     // Get user profile
     const profile = await getServerUserProfile(decodedToken.uid);
@@ -51,8 +87,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get artwork details from Contentstack Asset Management 2.0
-    const asset = await getAssetFromCDA(artworkId);
+    // Get artwork details as of the latest write (price, status and owner)
+    const asset = await getConsistentAsset(artworkId);
 
     if (!asset) {
       return NextResponse.json(
@@ -70,26 +106,97 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const isEdition = isEditionArtwork(artMetadata);
+
+    if (editionNumber && !isEdition) {
+      return NextResponse.json(
+        { error: "This artwork is not sold in editions" },
+        { status: 400 }
+      );
+    }
+
+    // An edition on resale is bought from its owner at their asking price
+    const edition = editionNumber
+      ? await getEdition(getEditionId(artworkId, editionNumber))
+      : null;
+
+    if (editionNumber) {
+      if (!edition || edition.status !== "resale" || edition.price === null) {
+        return NextResponse.json(
+          { error: "This edition is not for sale" },
+          { status: 400 }
+        );
+      }
+
+      if (edition.currentOwner.userId === decodedToken.uid) {
+        return NextResponse.json(
+          { error: "You already own this edition" },
+          { status: 400 }
+        );
+      }
+    }
+
+    // A primary edition sale needs a listed master and an edition left to mint
+    const mintEdition = isEdition && !edition;
+
+    if (mintEdition) {
+      const series = await getEditionSeries(artworkId, artMetadata.edition_size as number);
+      if (series.remaining <= 0) {
+        return NextResponse.json(
+          { error: "This edition is sold out" },
+          { status: 409 }
+        );
+      }
+
+      if (artMetadata.status !== "sale") {
+        return NextResponse.json(
+          { error: "This artwork is not available for purchase" },
+          { status: 400 }
+        );
+      }
+    }
+
     // Check if artwork is available for purchase
-    // It can be: "sale", "resale", or "sold" with an accepted offer for this buyer
-    const acceptedOffer = await getAcceptedOffer(artworkId, decodedToken.uid);
+    // It can be: "sale", "resale" (at the asking price, or this buyer's
+    // accepted offer), "sold" with an accepted offer for this buyer,
+    // or "auction" won by this buyer
+    // (an accepted offer past its payment deadline has lapsed and is not returned)
+    // Editions take neither offers nor bids.
+    const acceptedOffer = isEdition
+      ? null
+      : await getAcceptedOffer(artworkId, decodedToken.uid);
     const hasAcceptedOffer = acceptedOffer && acceptedOffer.buyerId === decodedToken.uid;
+    const auctionWin =
+      !isEdition && artMetadata.status === "auction"
+        ? await getAuctionWin(artworkId, decodedToken.uid)
+        : null;
     const isAvailableForSale = artMetadata.status === "sale" || artMetadata.status === "resale";
     
-    if (!isAvailableForSale && !hasAcceptedOffer) {
+    if (!isAvailableForSale && !hasAcceptedOffer && !auctionWin && !edition) {
       return NextResponse.json(
         { error: "This artwork is not available for purchase" },
         { status: 400 }
       );
     }
     
-    // If there's an accepted offer, use the offer price
-    const purchasePrice = hasAcceptedOffer 
-      ? (acceptedOffer.amount || artMetadata.price)
-      : artMetadata.price;
+    // If there's a won auction or an accepted offer, use its price. Accepted
+    // offers only reprice this buyer's checkout; on a listing whose price has
+    // since dropped below the offer, the buyer pays the asking price.
+    const offerPrice = hasAcceptedOffer ? (acceptedOffer.amount || artMetadata.price) : null;
+    const purchasePrice = edition
+      ? (edition.price as number)
+      : auctionWin?.highestBid
+        ? auctionWin.highestBid.amount
+        : offerPrice !== null
+          ? isAvailableForSale
+            ? Math.min(offerPrice, artMetadata.price)
+            : offerPrice
+          : artMetadata.price;
+    const currency = edition?.currency || artMetadata.currency || "USD";
 
-    // Check if user is the current owner
-    const isCurrentOwner = artMetadata.current_owner?.user_id === decodedToken.uid;
+    // Check if user is the current owner (edition masters stay with the artist)
+    const isCurrentOwner =
+      !isEdition && artMetadata.current_owner?.user_id === decodedToken.uid;
 
     if (isCurrentOwner) {
       return NextResponse.json(
@@ -106,22 +213,154 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Open payment disputes freeze the asset (or just the edition) until they close
+    const freeze =
+      (await getAssetFreeze(artworkId)) || (edition ? await getAssetFreeze(edition.id) : null);
+    if (freeze) {
+      return NextResponse.json(
+        { error: "This artwork is temporarily unavailable due to a payment dispute" },
+        { status: 409 }
+      );
+    }
+
+    // Fail fast on a short balance (the debit itself re-checks atomically)
+    if (paymentMethod === "wallet") {
+      const wallet = await getServerWallet((profile as any).walletId);
+      if (((wallet as any)?.balance || 0) < (purchasePrice as number)) {
+        return NextResponse.json(
+          { error: "Insufficient balance. Add funds to your wallet or pay by card." },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Reserve the artwork (or the edition) for this buyer
+    const editionId = edition?.id ?? null;
+    const reservationKey = getReservationKey({ artworkId, editionId, mintEdition });
+    let claim = null;
+    try {
+      claim = reservationKey
+        ? await claimReservation(reservationKey, decodedToken.uid)
+        : null;
+    } catch (reservationError: any) {
+      if (reservationError.message?.includes("reserved by another")) {
+        return reservedByAnotherBuyer();
+      }
+      throw reservationError;
+    }
+
+    // The buyer's open card session would let them pay twice
+    if (claim?.existing && paymentMethod === "wallet") {
+      return NextResponse.json(
+        { error: "You have an open card checkout for this artwork. Complete it or try again once it expires." },
+        { status: 409 }
+      );
+    }
+
+    if (paymentMethod === "wallet") {
+      try {
+        const result = await fulfillWalletPurchase({
+          artworkId,
+          userId: decodedToken.uid,
+          walletId: (profile as any).walletId,
+          amount: purchasePrice as number,
+          currency,
+          offerId: hasAcceptedOffer ? acceptedOffer.id : null,
+          auctionId: auctionWin?.id ?? null,
+          editionId,
+          mintEdition,
+        });
+
+        return NextResponse.json({
+          success: true,
+          paymentMethod,
+          sessionId: result.sessionId,
+          transactionId: result.transactionId,
+        });
+      } catch (walletError: any) {
+        if (walletError.message?.includes("Insufficient balance")) {
+          return NextResponse.json(
+            { error: "Insufficient balance. Add funds to your wallet or pay by card." },
+            { status: 400 }
+          );
+        }
+        if (walletError.message?.includes("reserved by another")) {
+          return reservedByAnotherBuyer();
+        }
+        if (walletError.message?.includes("sold out")) {
+          return NextResponse.json(
+            { error: "This edition is sold out" },
+            { status: 409 }
+          );
+        }
+        throw walletError;
+      }
+    }
+
+    // Reuse the buyer's open session if it still charges the current price
+    if (claim?.existing && reservationKey) {
+      const { sessionId, sessionUrl, amount } = claim.reservation;
+      if (amount === purchasePrice) {
+        return NextResponse.json({ sessionId, url: sessionUrl });
+      }
+
+      if (!(await expireCheckoutSession(sessionId!))) {
+        return NextResponse.json(
+          { error: "Your previous checkout for this artwork has already been paid" },
+          { status: 409 }
+        );
+      }
+
+      await releaseReservation(reservationKey, { sessionId: sessionId! });
+      try {
+        claim = await claimReservation(reservationKey, decodedToken.uid);
+      } catch (reservationError: any) {
+        if (reservationError.message?.includes("reserved by another")) {
+          return reservedByAnotherBuyer();
+        }
+        throw reservationError;
+      }
+    }
+
     // Build success and cancel URLs
     const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
     const successUrl = `${baseUrl}/success?session_id={CHECKOUT_SESSION_ID}`;
     const cancelUrl = `${baseUrl}/art/${artworkId}`;
+    const expiresAt = Math.floor(Date.now() / 1000) + RESERVATION_TTL_SECONDS;
 
     // Create Stripe checkout session
-    const session = await createCheckoutSession({
-      artworkId,
-      artworkTitle: asset.title,
-      price: purchasePrice as number, // Use offer price if accepted offer exists
-      imageUrl: asset.url,
-      userId: decodedToken.uid,
-      walletId: (profile as any).walletId,
-      successUrl,
-      cancelUrl,
-    });
+    let session;
+    try {
+      session = await createCheckoutSession({
+        artworkId,
+        artworkTitle: asset.title,
+        price: purchasePrice as number, // Use offer price if accepted offer exists
+        imageUrl: asset.url,
+        userId: decodedToken.uid,
+        walletId: (profile as any).walletId,
+        successUrl,
+        cancelUrl,
+        expiresAt,
+        offerId: hasAcceptedOffer ? acceptedOffer.id : undefined,
+        auctionId: auctionWin?.id,
+        editionId: editionId ?? undefined,
+        mintEdition,
+      });
+    } catch (stripeError) {
+      if (reservationKey) {
+        await releaseReservation(reservationKey, { userId: decodedToken.uid });
+      }
+      throw stripeError;
+    }
+
+    if (reservationKey) {
+      await attachReservationSession(reservationKey, decodedToken.uid, {
+        id: session.id,
+        url: session.url,
+        expiresAt: session.expires_at,
+        amount: purchasePrice as number,
+      });
+    }
 
     return NextResponse.json({
       sessionId: session.id,
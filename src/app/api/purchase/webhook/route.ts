@@ -1,10 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { headers } from "next/headers";
-import { verifyWebhookSignature, getCheckoutSession } from "@/lib/stripe";
-import { addServerTransaction, getServerUserProfile, addUserAsset, removeUserAsset } from "@/lib/firebase-admin";
-import { addAssetOwner, triggerContentstackAutomation, updateAssetMetadata, getAssetFromCDA } from "@/lib/contentstack-am2";
-import { createTransactionId } from "@/lib/wallet";
-import { revalidatePath } from "next/cache";
+import { verifyWebhookSignature } from "@/lib/stripe";
+import { processStripeEvent } from "@/lib/stripe-events";
 import { log } from "@/lib/logger";
 
 // Configure route for App Router - prevent timeout and ensure raw body handling
@@ -13,7 +10,7 @@ export const maxDuration = 30; // 30 seconds max duration
 
 /**
  * POST /api/purchase/webhook
- * Handle Stripe webhook events for purchase completion
+ * Handle Stripe webhook events (deduped on event ID)
  */
 export async function POST(request: NextRequest) {
   log.info("[Webhook] Received webhook request");
@@ -47,130 +44,49 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Handle checkout.session.completed event
-    if (event.type === "checkout.session.completed") {
-      log.info("[Webhook] Processing checkout.session.completed event");
-      const session = event.data.object;
-
-      // Extract metadata from session
-      const { artworkId, userId, walletId } = session.metadata || {};
-
-      if (!artworkId || !userId || !walletId) {
-        log.error("Missing metadata in webhook", undefined, { metadata: session.metadata });
+    // Dedupe on event ID and dispatch; redelivered events have no side effects
+    try {
+      const result = await processStripeEvent(event);
+
+      return NextResponse.json({
+        received: true,
+        duplicate: result.duplicate,
+        status: result.status,
+        message: result.outcome?.message,
+        transactionId: result.outcome?.transactionId,
+      });
+    } catch (processingError: any) {
+      if (processingError.message?.includes("Missing required metadata")) {
+        log.error("Missing metadata in webhook", undefined, { eventId: event.id });
         return NextResponse.json(
           { error: "Missing required metadata" },
           { status: 400 }
         );
       }
 
-      const amount = (session.amount_total || 0) / 100; // Convert from cents
-      const stripePaymentId = session.payment_intent as string;
-
-      log.info(`Processing purchase`, { artworkId, userId, amount });
-
-      try {
-        // 1. Add transaction to wallet ledger (immutable append)
-        const transactionId = createTransactionId();
-
-        await addServerTransaction(walletId, {
-          id: transactionId,
-          type: "DEBIT",
-          amount,
-          reference: {
-            assetUid: artworkId,
-            stripePaymentId,
-            description: `Artwork purchase: ${artworkId}`,
-          },
-        });
-
-        log.info(`Transaction added to wallet`, { transactionId, walletId });
-
-        // 2. Get current asset to find previous owner
-        const currentAsset = await getAssetFromCDA(artworkId);
-        const currentOwner = currentAsset.custom_metadata?.art_metadata?.current_owner;
-        const previousOwnerId = currentOwner?.user_id || null;
-
-        // 3. Update Contentstack Asset Management 2.0 asset metadata with new owner
-        const userProfile = await getServerUserProfile(userId);
-        const purchaseDate = new Date().toISOString();
-
-        await addAssetOwner(artworkId, {
-          user_id: userId,
-          user_name: (userProfile as any)?.displayName || "Anonymous",
-          purchase_date: purchaseDate,
-          transaction_id: transactionId,
-        });
-
-        // Clear accepted offer in Firebase if purchase was from an accepted offer
-        const { getAcceptedOffer } = await import("@/lib/firebase-admin");
-        const acceptedOffer: any = await getAcceptedOffer(artworkId, userId);
-        if (acceptedOffer && acceptedOffer.buyerId === userId) {
-          // The offer is already marked as accepted, purchase completes the transaction
-          // We don't need to do anything here as the ownership change is handled by addAssetOwner
-        }
-
-        log.info(`Ownership updated for artwork`, { artworkId, userId });
-
-        // Trigger Contentstack Automation API to publish latest content to CDN
-        triggerContentstackAutomation(artworkId);
-
-        // 4. Remove asset from previous owner's collection (if exists and different from new owner)
-        if (previousOwnerId && previousOwnerId !== userId) {
-          await removeUserAsset(previousOwnerId, artworkId);
-          log.info(`Removed asset from previous owner's collection`, { 
-            artworkId, 
-            previousOwnerId 
-          });
-        }
-
-        // 5. Add asset to new owner's collection in Firestore
-        await addUserAsset(userId, artworkId, {
-          transactionId,
-          purchaseDate,
-          price: amount,
-          currency: "USD", // TODO: Get from artwork metadata if needed
-        });
-
-        log.info(`Asset added to user collection`, { artworkId, userId });
-
-        // 4. Revalidate artwork page to show updated ownership
-        revalidatePath(`/art/${artworkId}`);
-
-        return NextResponse.json({
-          success: true,
-          message: "Purchase processed successfully",
-          transactionId,
-        });
-      } catch (processingError: any) {
-        log.error("Error processing purchase", processingError, {
-          artworkId,
-          userId,
-          walletId,
-          code: processingError.code,
-        });
-        // In production, you would want to:
-        // 1. Log this to a monitoring service
-        // 2. Queue for retry
-        // 3. Send alert to support team
+      // Another delivery is processing this event or session right now; Stripe will retry
+      if (processingError.message?.includes("already in progress")) {
+        log.warn("[Webhook] Event already in progress", { eventId: event.id });
         return NextResponse.json(
-          { 
-            error: "Error processing purchase",
-            details: processingError.message,
-          },
-          { status: 500 }
+          { error: "Event is already being processed" },
+          { status: 409 }
         );
       }
-    }
 
-    // Handle payment_intent.payment_failed event
-    if (event.type === "payment_intent.payment_failed") {
-      const paymentIntent = event.data.object;
-      log.warn(`Payment failed`, { paymentIntentId: paymentIntent.id });
-      // Could implement notification to user here
+      log.error("Error processing webhook event", processingError, {
+        eventId: event.id,
+        eventType: event.type,
+        code: processingError.code,
+      });
+      // Progress is persisted, so Stripe's retry resumes from the last completed step
+      return NextResponse.json(
+        {
+          error: "Error processing event",
+          details: processingError.message,
+        },
+        { status: 500 }
+      );
     }
-
-    // Return 200 for any event we don't handle
-    return NextResponse.json({ received: true });
   } catch (error: any) {
     log.error("Webhook error", error);
     return NextResponse.json(
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyIdToken } from "@/lib/firebase-admin";
+import { getPublishedAsset } from "@/lib/asset-repository";
+import { getUserTransfers, toTransferResponse } from "@/lib/transfers";
+import { log } from "@/lib/logger";
+
+/**
+ * GET /api/transfers/mine
+ * List the transfers the authenticated user has sent or received
+ * Optional ?status=pending,accepting filter
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    const statusFilter = request.nextUrl.searchParams.get("status")?.split(",").filter(Boolean);
+
+    const transfers = (await getUserTransfers(decodedToken.uid)).filter(
+      (transfer) => !statusFilter?.length || statusFilter.includes(transfer.status)
+    );
+
+    // Artwork titles for display; a missing asset doesn't fail the list
+    const assetUids = Array.from(new Set(transfers.map((transfer) => transfer.assetUid)));
+    const titles = new Map<string, string | null>(
+      await Promise.all(
+        assetUids.map(async (assetUid) => {
+          try {
+            const asset = await getPublishedAsset(assetUid);
+            return [assetUid, asset.title] as [string, string | null];
+          } catch (error: any) {
+            log.warn("[My Transfers] Failed to load asset", { assetUid, error: error.message });
+            return [assetUid, null] as [string, string | null];
+          }
+        })
+      )
+    );
+
+    return NextResponse.json({
+      success: true,
+      transfers: transfers.map((transfer) => ({
+        ...toTransferResponse(transfer, decodedToken.uid),
+        assetTitle: titles.get(transfer.assetUid) || null,
+      })),
+    });
+  } catch (error: any) {
+    log.error("Get my transfers error", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to get transfers" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyIdToken } from "@/lib/firebase-admin";
+import { createOnboardingLink, getConnectStatus } from "@/lib/payouts";
+import { log } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/wallet/connect
+ * Get the authenticated user's payout account (Stripe Connect) status
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    const status = await getConnectStatus(decodedToken.uid);
+
+    return NextResponse.json({
+      success: true,
+      ...status,
+    });
+  } catch (error: any) {
+    log.error("Connect status error", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to get payout account status" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/wallet/connect
+ * Start (or resume) payout account onboarding
+ * Returns a Stripe-hosted onboarding link
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+
+    const { accountId, url } = await createOnboardingLink(decodedToken.uid, {
+      refreshUrl: `${baseUrl}/dashboard?payouts=refresh`,
+      returnUrl: `${baseUrl}/dashboard?payouts=connected`,
+    });
+
+    return NextResponse.json({
+      success: true,
+      accountId,
+      url,
+    });
+  } catch (error: any) {
+    log.error("Connect onboarding error", error);
+
+    if (error.message?.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Failed to start payout onboarding" },
+      { status: 500 }
+    );
+  }
+}
@@ -62,7 +62,7 @@ export async function POST(request: NextRequest) {
     await db.collection("wallets").doc(walletId).set({
       userId,
       balance: 0,
-      transactions: [],
+      transactionCount: 0,
       createdAt: FieldValue.serverTimestamp(),
       updatedAt: FieldValue.serverTimestamp(),
     });
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyIdToken, getServerUserProfile } from "@/lib/firebase-admin";
+import { createDepositCheckoutSession } from "@/lib/stripe";
+import { depositSchema } from "@/lib/validations";
+import { log } from "@/lib/logger";
+
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+/**
+ * POST /api/wallet/deposit
+ * Create a Stripe checkout session to add funds to the user's wallet
+ * The wallet is credited when the session completes (webhook or manual process)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = depositSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const profile = await getServerUserProfile(decodedToken.uid);
+
+    if (!((profile as any)?.walletId)) {
+      return NextResponse.json(
+        { error: "No wallet found. Please complete account setup." },
+        { status: 400 }
+      );
+    }
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+
+    const session = await createDepositCheckoutSession({
+      amount: validation.data.amount,
+      userId: decodedToken.uid,
+      walletId: (profile as any).walletId,
+      successUrl: `${baseUrl}/dashboard?deposit=success&session_id={CHECKOUT_SESSION_ID}`,
+      cancelUrl: `${baseUrl}/dashboard`,
+    });
+
+    return NextResponse.json({
+      sessionId: session.id,
+      url: session.url,
+    });
+  } catch (error: any) {
+    log.error("Deposit checkout error", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to create deposit checkout" },
+      { status: 500 }
+    );
+  }
+}
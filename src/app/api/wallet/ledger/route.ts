@@ -1,10 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
-import { verifyIdToken, getServerUserProfile, getServerWallet } from "@/lib/firebase-admin";
+import {
+  verifyIdToken,
+  getServerUserProfile,
+  getServerWallet,
+  getServerWalletTransactions,
+} from "@/lib/firebase-admin";
 import { log } from "@/lib/logger";
 
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
 /**
  * GET /api/wallet/ledger
- * Get transaction history for authenticated user's wallet
+ * Get transaction history for authenticated user's wallet, newest first
+ * Query: ?limit=50&cursor=<nextCursor from the previous page>
  */
 export async function GET(request: NextRequest) {
   try {
@@ -21,6 +30,22 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "Invalid token" }, { status: 401 });
     }
 
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get("limit") || String(DEFAULT_PAGE_SIZE));
+    const cursorParam = searchParams.get("cursor");
+    const cursor = cursorParam ? parseInt(cursorParam) : undefined;
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return NextResponse.json(
+        { error: `limit must be between 1 and ${MAX_PAGE_SIZE}` },
+        { status: 400 }
+      );
+    }
+
+    if (cursor !== undefined && (!Number.isInteger(cursor) || cursor < 1)) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+
     // Get user profile to find wallet ID
     const profile = await getServerUserProfile(decodedToken.uid);
 
@@ -38,11 +63,20 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "Wallet not found" }, { status: 404 });
     }
 
-    // Return wallet data with transactions
+    const { transactions, nextCursor } = await getServerWalletTransactions(
+      wallet.id,
+      { limit, before: cursor }
+    );
+
+    // Return wallet data with one page of transactions
     return NextResponse.json({
       walletId: wallet.id,
       balance: (wallet as any).balance || 0,
-      transactions: (wallet as any).transactions || [],
+      transactionCount:
+        (wallet as any).transactionCount ??
+        ((wallet as any).transactions || []).length,
+      transactions,
+      nextCursor,
       createdAt: (wallet as any).createdAt,
       updatedAt: (wallet as any).updatedAt,
     });
@@ -54,4 +88,3 @@ export async function GET(request: NextRequest) {
     );
   }
 }
-
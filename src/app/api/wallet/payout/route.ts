@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyIdToken, getServerUserProfile } from "@/lib/firebase-admin";
+import { getUserPayouts, requestPayout } from "@/lib/payouts";
+import { payoutSchema } from "@/lib/validations";
+import { log } from "@/lib/logger";
+
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+/**
+ * GET /api/wallet/payout
+ * List the authenticated user's payouts
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    const payouts = await getUserPayouts(decodedToken.uid);
+
+    return NextResponse.json({
+      success: true,
+      payouts: payouts.map(({ createdAt, updatedAt, ...payout }) => ({
+        ...payout,
+        createdAt: createdAt?.toDate?.()?.toISOString() || null,
+      })),
+    });
+  } catch (error: any) {
+    log.error("Payout list error", error);
+    return NextResponse.json(
+      { error: "Failed to fetch payouts" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/wallet/payout
+ * Pay out wallet balance to the user's connected bank account
+ * The ledger DEBIT is recorded with the request, and credited back if the
+ * transfer fails or is reversed
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = payoutSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const profile = await getServerUserProfile(decodedToken.uid);
+
+    if (!((profile as any)?.walletId)) {
+      return NextResponse.json(
+        { error: "No wallet found for user" },
+        { status: 404 }
+      );
+    }
+
+    const payout = await requestPayout({
+      userId: decodedToken.uid,
+      walletId: (profile as any).walletId,
+      amount: validation.data.amount,
+    });
+
+    return NextResponse.json({
+      success: true,
+      notice: "Payout requested successfully",
+      payout: {
+        id: payout.id,
+        amount: payout.amount,
+        currency: payout.currency,
+        status: payout.status,
+        transferId: payout.transferId,
+      },
+    });
+  } catch (error: any) {
+    log.error("Payout request error", error);
+
+    if (error.message?.includes("not set up")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error.message?.includes("Insufficient balance")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error.message?.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Failed to request payout" },
+      { status: 500 }
+    );
+  }
+}
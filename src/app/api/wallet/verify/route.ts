@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  verifyIdToken,
+  getServerUserProfile,
+  getServerWallet,
+  getServerWalletLedger,
+} from "@/lib/firebase-admin";
+import { verifyLedgerChain } from "@/lib/ledger";
+import { log } from "@/lib/logger";
+
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+/**
+ * GET /api/wallet/verify
+ * Recompute the authenticated user's ledger hash chain and signatures
+ * Reports the first broken link, if any
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    const profile = await getServerUserProfile(decodedToken.uid);
+
+    if (!((profile as any)?.walletId)) {
+      return NextResponse.json(
+        { error: "No wallet found for user" },
+        { status: 404 }
+      );
+    }
+
+    const wallet = await getServerWallet((profile as any).walletId);
+
+    if (!wallet) {
+      return NextResponse.json({ error: "Wallet not found" }, { status: 404 });
+    }
+
+    if (Array.isArray((wallet as any).transactions)) {
+      return NextResponse.json(
+        { error: "Wallet ledger has not been migrated yet" },
+        { status: 409 }
+      );
+    }
+
+    const entries = await getServerWalletLedger(wallet.id);
+    const verification = verifyLedgerChain(wallet.id, entries, {
+      balance: (wallet as any).balance || 0,
+      transactionCount: (wallet as any).transactionCount,
+      lastHash: (wallet as any).lastHash,
+    });
+
+    if (!verification.valid) {
+      log.warn("[Wallet Verify] Ledger chain broken", {
+        walletId: wallet.id,
+        firstBrokenLink: verification.firstBrokenLink,
+      });
+    }
+
+    return NextResponse.json({
+      walletId: wallet.id,
+      ...verification,
+    });
+  } catch (error: any) {
+    log.error("Ledger verification error", error);
+    return NextResponse.json(
+      { error: "Failed to verify wallet ledger" },
+      { status: 500 }
+    );
+  }
+}
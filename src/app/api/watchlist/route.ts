@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyIdToken } from "@/lib/firebase-admin";
+import { getPublishedAsset } from "@/lib/asset-repository";
+import { getUserWatchlist } from "@/lib/watchlists";
+import { log } from "@/lib/logger";
+
+/**
+ * GET /api/watchlist
+ * List the artworks the authenticated user is watching, most recent first,
+ * with their current listing. Artworks that no longer exist are skipped.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await verifyIdToken(token);
+
+    if (!decodedToken) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    const watches = await getUserWatchlist(decodedToken.uid);
+
+    const items = await Promise.all(
+      watches.map(async (watch) => {
+        try {
+          const asset = await getPublishedAsset(watch.assetUid);
+          const artMetadata = asset.custom_metadata?.art_metadata;
+          return {
+            assetUid: watch.assetUid,
+            title: asset.title,
+            price: artMetadata?.price ?? null,
+            currency: artMetadata?.currency || "USD",
+            status: artMetadata?.status || null,
+            artistName: artMetadata?.artist_name || null,
+            watchedAt: watch.createdAt?.toDate?.()?.toISOString?.() || null,
+          };
+        } catch (error: any) {
+          log.warn("[Watchlist] Failed to load asset", {
+            assetUid: watch.assetUid,
+            error: error.message,
+          });
+          return null;
+        }
+      })
+    );
+
+    return NextResponse.json({
+      success: true,
+      watchlist: items.filter(Boolean),
+    });
+  } catch (error: any) {
+    log.error("Get watchlist error", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to get watchlist" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import { useParams, useRouter } from "next/navigation";
 import Image from "next/image";
 import Link from "next/link";
@@ -23,6 +23,16 @@ import {
   HandCoins,
   Check,
   XCircle,
+  Clock,
+  Percent,
+  Wallet,
+  Download,
+  ShieldCheck,
+  ArrowLeftRight,
+  RotateCcw,
+  Gavel,
+  Gift,
+  Eye,
 } from "lucide-react";
 import { Header } from "@/components/shared/Header";
 import { Footer } from "@/components/shared/Footer";
@@ -43,24 +53,103 @@ import { useAuth } from "@/context/AuthContext";
 import { toast } from "@/hooks/useToast";
 import { formatCurrency, formatDate } from "@/lib/utils";
 import { FormattedDate } from "@/components/shared/FormattedDate";
+import { OfferThread } from "@/components/shared/OfferThread";
+import { AuctionPanel } from "@/components/shared/AuctionPanel";
+import { EditionsPanel } from "@/components/shared/EditionsPanel";
 import { log } from "@/lib/logger";
 import type { Asset, ArtworkMetadata } from "@/lib/contentstack";
 import type { ContentstackAsset } from "@/lib/contentstack-am2";
 
+type ListingStatus = "sold" | "sale" | "resale" | "auction" | null;
+
+// Map a ContentstackAsset to the page's Asset format
+function toArtwork(contentstackAsset: ContentstackAsset): Asset {
+  const artMetadata = contentstackAsset.custom_metadata?.art_metadata;
+
+  return {
+    uid: contentstackAsset.uid,
+    title: contentstackAsset.title,
+    filename: contentstackAsset.file_name,
+    url: contentstackAsset.url,
+    content_type: contentstackAsset.content_type,
+    file_size: contentstackAsset.file_size,
+    created_at: contentstackAsset.created_at,
+    updated_at: contentstackAsset.updated_at,
+    dimension: contentstackAsset.dimensions
+      ? {
+          width: contentstackAsset.dimensions.width,
+          height: contentstackAsset.dimensions.height,
+        }
+      : undefined,
+    metadata: {
+      title: contentstackAsset.title,
+      description: contentstackAsset.description || undefined,
+      category: artMetadata?.category || "Uncategorized",
+      artistId: artMetadata?.artist_uid || "",
+      artistName: artMetadata?.artist_name || "Unknown Artist",
+      price: artMetadata?.price || 0,
+      currency: artMetadata?.currency || "USD",
+      royaltyPercentage: artMetadata?.royalty_percentage ?? null,
+      editionSize: artMetadata?.edition_size ?? null,
+      editionsSold: artMetadata?.editions_sold ?? null,
+      status:
+        artMetadata?.status === "sold"
+          ? "sold"
+          : artMetadata?.status === "sale" ||
+            artMetadata?.status === "resale" ||
+            artMetadata?.status === "auction"
+          ? "published"
+          : "draft",
+      current_owner: artMetadata?.current_owner
+        ? {
+            userId: artMetadata.current_owner.user_id || "",
+            userName: artMetadata.current_owner.user_name || undefined,
+            purchaseDate: artMetadata.current_owner.purchase_date || "",
+            transactionId: artMetadata.current_owner.transaction_id || "",
+          }
+        : null,
+      ownership_history: (artMetadata?.ownership_history || []).map((owner) => ({
+        userId: owner.user_id || "",
+        userName: owner.user_name || undefined,
+        purchaseDate: owner.purchase_date || "",
+        transactionId: owner.transaction_id || "",
+      })),
+      createdAt: contentstackAsset.created_at,
+      tags: contentstackAsset.tags || [],
+    } as ArtworkMetadata,
+  };
+}
+
 export default function ArtworkDetailPage() {
   const params = useParams();
   const router = useRouter();
-  const { user, profile } = useAuth();
+  const { user, profile, wallet, refreshWallet } = useAuth();
   const [artwork, setArtwork] = useState<Asset | null>(null);
-  const [rawStatus, setRawStatus] = useState<"sold" | "sale" | "resale" | null>(
+  const [rawStatus, setRawStatus] = useState<"sold" | "sale" | "resale" | "auction" | null>(
     null
   );
   const [loading, setLoading] = useState(true);
   const [purchasing, setPurchasing] = useState(false);
+  const [purchaseMethod, setPurchaseMethod] = useState<"card" | "wallet">("card");
   const [isLiked, setIsLiked] = useState(false);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [resaleDialogOpen, setResaleDialogOpen] = useState(false);
+  const [auctionDialogOpen, setAuctionDialogOpen] = useState(false);
+  const [startingAuction, setStartingAuction] = useState(false);
+  const [auctionForm, setAuctionForm] = useState({
+    startingPrice: 0,
+    reservePrice: 0,
+    minIncrement: 10,
+    durationHours: 72,
+    extensionMinutes: 5,
+  });
   const [withdrawDialogOpen, setWithdrawDialogOpen] = useState(false);
+  const [transferDialogOpen, setTransferDialogOpen] = useState(false);
+  const [transferring, setTransferring] = useState(false);
+  const [transferForm, setTransferForm] = useState({ recipient: "", message: "" });
+  const [openTransfer, setOpenTransfer] = useState<any>(null);
+  const [watching, setWatching] = useState(false);
+  const [updatingWatch, setUpdatingWatch] = useState(false);
   const [offerDialogOpen, setOfferDialogOpen] = useState(false);
   const [offersDialogOpen, setOffersDialogOpen] = useState(false);
   const [editing, setEditing] = useState(false);
@@ -71,6 +160,21 @@ export default function ArtworkDetailPage() {
   const [offers, setOffers] = useState<any[]>([]);
   const [offersCount, setOffersCount] = useState(0);
   const [acceptedOffer, setAcceptedOffer] = useState<any>(null);
+  const [ownerAcceptedOffer, setOwnerAcceptedOffer] = useState<any>(null);
+  const [declinedOffers, setDeclinedOffers] = useState<any[]>([]);
+  const [acceptingNext, setAcceptingNext] = useState(false);
+  const [myOffers, setMyOffers] = useState<any[]>([]);
+  const [respondingOffer, setRespondingOffer] = useState<string | null>(null);
+  const [counterForm, setCounterForm] = useState<{
+    offerId: string | null;
+    amount: number;
+    message: string;
+  }>({ offerId: null, amount: 0, message: "" });
+  const [reservation, setReservation] = useState<{
+    reserved: boolean;
+    reservedBy: string | null;
+    expiresAt: string | null;
+  } | null>(null);
   const [editForm, setEditForm] = useState({
     title: "",
     description: "",
@@ -102,6 +206,7 @@ export default function ArtworkDetailPage() {
           | "sold"
           | "sale"
           | "resale"
+          | "auction"
           | null;
 
         const mappedArtwork: Asset = {
@@ -127,11 +232,15 @@ export default function ArtworkDetailPage() {
             artistName: artMetadata?.artist_name || "Unknown Artist",
             price: artMetadata?.price || 0,
             currency: artMetadata?.currency || "USD",
+            royaltyPercentage: artMetadata?.royalty_percentage ?? null,
+            editionSize: artMetadata?.edition_size ?? null,
+            editionsSold: artMetadata?.editions_sold ?? null,
             status:
               artMetadata?.status === "sold"
                 ? "sold"
                 : artMetadata?.status === "sale" ||
-                  artMetadata?.status === "resale"
+                  artMetadata?.status === "resale" ||
+                  artMetadata?.status === "auction"
                 ? "published"
                 : "draft",
             current_owner: artMetadata?.current_owner
@@ -181,7 +290,11 @@ export default function ArtworkDetailPage() {
   console.log("isCurrentOwner", isCurrentOwner);
   const isSold = rawStatus === "sold";
   const canEditTitleDesc = isArtist && !isSold;
-  const canEditPrice = isArtist || isCurrentOwner;
+  const isAuction = rawStatus === "auction";
+  const isListed = rawStatus === "sale" || rawStatus === "resale";
+  // Limited editions are sold and resold per edition, never as a whole
+  const isEdition = (metadata?.editionSize || 0) > 1;
+  const canEditPrice = (isArtist || isCurrentOwner) && !isAuction;
   const canResale = isCurrentOwner;
 
   // Load offers count and accepted offer when user/profile changes
@@ -195,6 +308,77 @@ export default function ArtworkDetailPage() {
     }
   }, [user, profile, assetUid, isCurrentOwner]);
 
+  // Load the buyer's own offers on this artwork (with negotiation history)
+  const loadMyOffers = useCallback(async () => {
+    if (!user || isCurrentOwner) return;
+
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch(`/api/assets/${assetUid}/offers`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setMyOffers(data.offers || []);
+      }
+    } catch (error: any) {
+      log.error("Error loading my offers", error);
+    }
+  }, [user, isCurrentOwner, assetUid]);
+
+  useEffect(() => {
+    if (user && profile && assetUid && !isCurrentOwner) {
+      loadMyOffers();
+    }
+  }, [user, profile, assetUid, isCurrentOwner, loadMyOffers]);
+
+  const myOpenOffer = myOffers.find(
+    (offer) => offer.status === "pending" || offer.status === "countered"
+  );
+  const myLastOffer = myOffers[0];
+
+  // Load checkout reservation (another buyer may be paying right now)
+  const loadReservation = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/assets/${assetUid}/reservation`);
+      const data = await response.json();
+      if (response.ok) {
+        setReservation({
+          reserved: data.reserved,
+          reservedBy: data.reservedBy,
+          expiresAt: data.expiresAt,
+        });
+      }
+    } catch (error: any) {
+      log.error("Error loading reservation", error);
+    }
+  }, [assetUid]);
+
+  useEffect(() => {
+    if (assetUid) {
+      loadReservation();
+    }
+  }, [assetUid, loadReservation]);
+
+  const isReservedByOther =
+    !!reservation?.reserved && reservation.reservedBy !== profile?.id;
+
+  // Offer price applies when the buyer's offer was accepted (never above the
+  // asking price of a listed artwork)
+  const hasMyAcceptedOffer = !!acceptedOffer && acceptedOffer.buyerId === profile?.id;
+  const offerPrice = hasMyAcceptedOffer ? acceptedOffer.amount || metadata?.price || 0 : null;
+  const purchasePrice =
+    offerPrice !== null
+      ? isListed
+        ? Math.min(offerPrice, metadata?.price || offerPrice)
+        : offerPrice
+      : metadata?.price || 0;
+  const canPayWithWallet =
+    !!wallet && purchasePrice > 0 && wallet.balance >= purchasePrice;
+
   // Open edit dialog and populate form
   const handleOpenEdit = () => {
     if (artwork && metadata) {
@@ -277,6 +461,7 @@ export default function ArtworkDetailPage() {
           | "sold"
           | "sale"
           | "resale"
+          | "auction"
           | null;
         const mappedArtwork: Asset = {
           uid: contentstackAsset.uid,
@@ -301,11 +486,15 @@ export default function ArtworkDetailPage() {
             artistName: artMetadata?.artist_name || "Unknown Artist",
             price: artMetadata?.price || 0,
             currency: artMetadata?.currency || "USD",
+            royaltyPercentage: artMetadata?.royalty_percentage ?? null,
+            editionSize: artMetadata?.edition_size ?? null,
+            editionsSold: artMetadata?.editions_sold ?? null,
             status:
               artMetadata?.status === "sold"
                 ? "sold"
                 : artMetadata?.status === "sale" ||
-                  artMetadata?.status === "resale"
+                  artMetadata?.status === "resale" ||
+                  artMetadata?.status === "auction"
                 ? "published"
                 : "draft",
             current_owner: artMetadata?.current_owner
@@ -403,6 +592,7 @@ export default function ArtworkDetailPage() {
           | "sold"
           | "sale"
           | "resale"
+          | "auction"
           | null;
         const mappedArtwork: Asset = {
           uid: contentstackAsset.uid,
@@ -427,11 +617,15 @@ export default function ArtworkDetailPage() {
             artistName: artMetadata?.artist_name || "Unknown Artist",
             price: artMetadata?.price || 0,
             currency: artMetadata?.currency || "USD",
+            royaltyPercentage: artMetadata?.royalty_percentage ?? null,
+            editionSize: artMetadata?.edition_size ?? null,
+            editionsSold: artMetadata?.editions_sold ?? null,
             status:
               artMetadata?.status === "sold"
                 ? "sold"
                 : artMetadata?.status === "sale" ||
-                  artMetadata?.status === "resale"
+                  artMetadata?.status === "resale" ||
+                  artMetadata?.status === "auction"
                 ? "published"
                 : "draft",
             current_owner: artMetadata?.current_owner
@@ -468,6 +662,279 @@ export default function ArtworkDetailPage() {
     }
   };
 
+  // Reload the artwork after its listing changes
+  const refreshArtwork = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/assets/${assetUid}`);
+      const data = await response.json();
+      if (response.ok) {
+        const contentstackAsset: ContentstackAsset = data.asset;
+        setArtwork(toArtwork(contentstackAsset));
+        setRawStatus(
+          (contentstackAsset.custom_metadata?.art_metadata?.status as ListingStatus) || null
+        );
+      }
+    } catch (error: any) {
+      log.error("Error refreshing artwork", error);
+    }
+  }, [assetUid]);
+
+  // Handle starting an auction
+  const handleStartAuction = async () => {
+    if (!user) {
+      toast({
+        title: "Sign in required",
+        description: "Please sign in to auction this artwork.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (auctionForm.startingPrice <= 0 || auctionForm.minIncrement <= 0) {
+      toast({
+        title: "Invalid auction",
+        description: "Please enter a starting price and a minimum increment.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setStartingAuction(true);
+    try {
+      const token = await user.getIdToken();
+
+      const response = await fetch(`/api/assets/${assetUid}/auction`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          startingPrice: auctionForm.startingPrice,
+          reservePrice: auctionForm.reservePrice > 0 ? auctionForm.reservePrice : null,
+          minIncrement: auctionForm.minIncrement,
+          endsAt: new Date(
+            Date.now() + auctionForm.durationHours * 60 * 60 * 1000
+          ).toISOString(),
+          extensionMinutes: auctionForm.extensionMinutes,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to start auction");
+      }
+
+      toast({
+        title: "Auction started",
+        description: "Your artwork is now up for auction.",
+        variant: "success",
+      });
+
+      setAuctionDialogOpen(false);
+      await refreshArtwork();
+    } catch (error: any) {
+      toast({
+        title: "Auction failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setStartingAuction(false);
+    }
+  };
+
+  // Load the owner's pending transfer of this artwork
+  const loadTransfer = useCallback(async () => {
+    if (!user || !isCurrentOwner) return;
+
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch(`/api/assets/${assetUid}/transfer`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setOpenTransfer(data.transfer);
+      }
+    } catch (error: any) {
+      log.error("Error loading transfer", error);
+    }
+  }, [assetUid, user, isCurrentOwner]);
+
+  useEffect(() => {
+    loadTransfer();
+  }, [loadTransfer]);
+
+  // Load whether the viewer is watching this artwork
+  const loadWatch = useCallback(async () => {
+    if (!user || isCurrentOwner) return;
+
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch(`/api/assets/${assetUid}/watch`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setWatching(data.watching);
+      }
+    } catch (error: any) {
+      log.error("Error loading watch status", error);
+    }
+  }, [assetUid, user, isCurrentOwner]);
+
+  useEffect(() => {
+    loadWatch();
+  }, [loadWatch]);
+
+  // Handle watching or unwatching the artwork
+  const handleToggleWatch = async () => {
+    if (!user) {
+      router.push("/login");
+      return;
+    }
+
+    setUpdatingWatch(true);
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch(`/api/assets/${assetUid}/watch`, {
+        method: watching ? "DELETE" : "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update watchlist");
+      }
+
+      setWatching(data.watching);
+      toast({
+        title: data.watching ? "Watching" : "Stopped watching",
+        description: data.watching
+          ? "We'll let you know when this artwork is listed, repriced or gets an offer."
+          : data.notice,
+        variant: "success",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Watchlist update failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingWatch(false);
+    }
+  };
+
+  // Handle transferring the artwork to another user
+  const handleTransferSubmit = async () => {
+    if (!user) return;
+
+    if (!transferForm.recipient.trim()) {
+      toast({
+        title: "Recipient required",
+        description: "Enter the recipient's email address or user ID.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setTransferring(true);
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch(`/api/assets/${assetUid}/transfer`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          recipient: transferForm.recipient.trim(),
+          message: transferForm.message || undefined,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to transfer artwork");
+      }
+
+      toast({
+        title: "Transfer sent",
+        description: data.notice,
+        variant: "success",
+      });
+
+      setTransferDialogOpen(false);
+      setTransferForm({ recipient: "", message: "" });
+      await loadTransfer();
+    } catch (error: any) {
+      toast({
+        title: "Transfer failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setTransferring(false);
+    }
+  };
+
+  // Handle cancelling a pending transfer
+  const handleCancelTransfer = async () => {
+    if (!user || !openTransfer) return;
+
+    setTransferring(true);
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch(
+        `/api/assets/${assetUid}/transfer/${openTransfer.id}`,
+        {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({ action: "cancel" }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to cancel transfer");
+      }
+
+      toast({
+        title: "Transfer cancelled",
+        description: "The artwork stays in your collection.",
+        variant: "success",
+      });
+
+      setOpenTransfer(null);
+    } catch (error: any) {
+      toast({
+        title: "Cancel failed",
+        description: error.message,
+        variant: "destructive",
+      });
+      await loadTransfer();
+    } finally {
+      setTransferring(false);
+    }
+  };
+
   // Handle withdrawal from resale
   const handleWithdrawResale = async () => {
     if (!user) {
@@ -516,6 +983,7 @@ export default function ArtworkDetailPage() {
           | "sold"
           | "sale"
           | "resale"
+          | "auction"
           | null;
         const mappedArtwork: Asset = {
           uid: contentstackAsset.uid,
@@ -540,11 +1008,15 @@ export default function ArtworkDetailPage() {
             artistName: artMetadata?.artist_name || "Unknown Artist",
             price: artMetadata?.price || 0,
             currency: artMetadata?.currency || "USD",
+            royaltyPercentage: artMetadata?.royalty_percentage ?? null,
+            editionSize: artMetadata?.edition_size ?? null,
+            editionsSold: artMetadata?.editions_sold ?? null,
             status:
               artMetadata?.status === "sold"
                 ? "sold"
                 : artMetadata?.status === "sale" ||
-                  artMetadata?.status === "resale"
+                  artMetadata?.status === "resale" ||
+                  artMetadata?.status === "auction"
                 ? "published"
                 : "draft",
             current_owner: artMetadata?.current_owner
@@ -606,6 +1078,8 @@ export default function ArtworkDetailPage() {
 
       if (offersResponse.ok) {
         setOffers(offersData.offers || []);
+        setOwnerAcceptedOffer(offersData.accepted || null);
+        setDeclinedOffers(offersData.declined || []);
       }
       if (countResponse.ok) {
         setOffersCount(countData.count || 0);
@@ -641,6 +1115,16 @@ export default function ArtworkDetailPage() {
     }
   };
 
+  // Open the offer dialog; listed artworks take offers below the asking price
+  const handleOpenOfferDialog = () => {
+    const price = metadata?.price || 0;
+    setOfferForm({
+      amount: isListed ? Math.floor(price * 0.9 * 100) / 100 : price,
+      message: "",
+    });
+    setOfferDialogOpen(true);
+  };
+
   // Handle offer submission
   const handleOfferSubmit = async () => {
     if (!user) {
@@ -661,6 +1145,15 @@ export default function ArtworkDetailPage() {
       return;
     }
 
+    if (isListed && offerForm.amount >= (metadata?.price || 0)) {
+      toast({
+        title: "Invalid amount",
+        description: "Offers must be below the asking price. Buy the artwork instead.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setSubmittingOffer(true);
     try {
       const token = await user.getIdToken();
@@ -696,7 +1189,7 @@ export default function ArtworkDetailPage() {
 
       // Reload accepted offer if user is a buyer
       if (!isCurrentOwner) {
-        await loadAcceptedOffer();
+        await Promise.all([loadAcceptedOffer(), loadMyOffers()]);
       }
     } catch (error: any) {
       toast({
@@ -709,26 +1202,48 @@ export default function ArtworkDetailPage() {
     }
   };
 
-  // Handle offer acceptance/rejection
+  // Respond to an offer: owner accepts, rejects, counters or reinstates;
+  // buyer accepts, counters or withdraws
   const handleOfferAction = async (
     offerId: string,
-    action: "accepted" | "rejected"
+    action: "accept" | "reject" | "counter" | "withdraw" | "reinstate",
+    counter?: { amount: number; message: string }
   ) => {
     if (!user) return;
 
+    if (action === "counter" && (!counter || counter.amount <= 0)) {
+      toast({
+        title: "Invalid amount",
+        description: "Please enter a valid counter-offer amount.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setRespondingOffer(offerId);
     try {
       const token = await user.getIdToken();
 
       const response = await fetch(
         `/api/assets/${assetUid}/offers/${offerId}`,
-        {
-          method: "PUT",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${token}`,
-          },
-          body: JSON.stringify({ status: action }),
-        }
+        action === "withdraw"
+          ? {
+              method: "DELETE",
+              headers: {
+                Authorization: `Bearer ${token}`,
+              },
+            }
+          : {
+              method: "PUT",
+              headers: {
+                "Content-Type": "application/json",
+                Authorization: `Bearer ${token}`,
+              },
+              body: JSON.stringify({
+                action,
+                ...(counter ? { amount: counter.amount, message: counter.message } : {}),
+              }),
+            }
       );
 
       const data = await response.json();
@@ -738,32 +1253,140 @@ export default function ArtworkDetailPage() {
       }
 
       toast({
-        title: `Offer ${action}`,
-        description: `The offer has been ${action} successfully.`,
+        title: `Offer ${data.offer?.status || "updated"}`,
+        description:
+          action === "counter"
+            ? "Your counter-offer has been sent."
+            : `The offer has been ${data.offer?.status || "updated"} successfully.`,
         variant: "success",
       });
 
-      // Reload offers and count
-      await loadOffers();
+      setCounterForm({ offerId: null, amount: 0, message: "" });
+
+      // Reload offers for whichever side responded
+      if (isCurrentOwner) {
+        await loadOffers();
+      } else {
+        await Promise.all([loadMyOffers(), loadAcceptedOffer()]);
+      }
     } catch (error: any) {
       toast({
         title: "Action failed",
         description: error.message,
         variant: "destructive",
       });
+    } finally {
+      setRespondingOffer(null);
     }
   };
 
-  const handlePurchase = async () => {
-    if (!user) {
-      toast({
-        title: "Sign in required",
-        description: "Please sign in to purchase this artwork.",
-        variant: "destructive",
-      });
-      router.push("/login");
-      return;
-    }
+  // Owner accepts the highest offer that was closed by a lapsed acceptance
+  const handleAcceptNextOffer = async () => {
+    if (!user) return;
+
+    setAcceptingNext(true);
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch(`/api/assets/${assetUid}/offers/next`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to accept next offer");
+      }
+
+      toast({
+        title: "Offer accepted",
+        description: `${data.offer.buyerName}'s offer of ${formatCurrency(
+          data.offer.amount,
+          data.offer.currency
+        )} has been accepted.`,
+        variant: "success",
+      });
+
+      await loadOffers();
+    } catch (error: any) {
+      toast({
+        title: "Action failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setAcceptingNext(false);
+    }
+  };
+
+  // Inline counter-offer form, shared by the owner's offers dialog and the
+  // buyer's offer panel
+  const renderCounterForm = (offer: any) => (
+    <div className="space-y-2 pt-3">
+      <Input
+        type="number"
+        min="0"
+        step="0.01"
+        value={counterForm.amount}
+        onChange={(e) =>
+          setCounterForm({
+            ...counterForm,
+            amount: parseFloat(e.target.value) || 0,
+          })
+        }
+        placeholder="Counter amount"
+      />
+      <Input
+        value={counterForm.message}
+        onChange={(e) =>
+          setCounterForm({ ...counterForm, message: e.target.value })
+        }
+        placeholder="Message (optional)"
+      />
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          onClick={() =>
+            handleOfferAction(offer.id, "counter", {
+              amount: counterForm.amount,
+              message: counterForm.message,
+            })
+          }
+          disabled={respondingOffer === offer.id}
+        >
+          {respondingOffer === offer.id ? (
+            <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+          ) : (
+            <ArrowLeftRight className="w-4 h-4 mr-1" />
+          )}
+          Send Counter
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => setCounterForm({ offerId: null, amount: 0, message: "" })}
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+
+  const handlePurchase = async (
+    paymentMethod: "card" | "wallet" = "card",
+    editionNumber?: number
+  ) => {
+    if (!user) {
+      toast({
+        title: "Sign in required",
+        description: "Please sign in to purchase this artwork.",
+        variant: "destructive",
+      });
+      router.push("/login");
+      return;
+    }
 
     if (metadata?.artistId === profile?.id) {
       toast({
@@ -775,26 +1398,37 @@ export default function ArtworkDetailPage() {
     }
 
     setPurchasing(true);
+    setPurchaseMethod(paymentMethod);
     try {
       // Get Firebase ID token for authentication
       const token = await user.getIdToken();
 
-      // Create checkout session
+      // Create checkout session (or pay from the wallet balance)
       const response = await fetch("/api/purchase/checkout", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
           Authorization: `Bearer ${token}`,
         },
-        body: JSON.stringify({ artworkId: assetUid }),
+        body: JSON.stringify({ artworkId: assetUid, paymentMethod, editionNumber }),
       });
 
       const data = await response.json();
 
       if (!response.ok) {
+        if (response.status === 409) {
+          loadReservation();
+        }
         throw new Error(data.error || "Failed to create checkout session");
       }
 
+      // Paid from the wallet: ownership has already been transferred
+      if (paymentMethod === "wallet") {
+        await refreshWallet();
+        router.push(`/success?session_id=${data.sessionId}`);
+        return;
+      }
+
       // Redirect to Stripe Checkout
       window.location.href = data.url;
     } catch (error: any) {
@@ -907,6 +1541,24 @@ export default function ArtworkDetailPage() {
                     />
                     {isLiked ? "Liked" : "Like"}
                   </Button>
+                  {!isOwned && (
+                    <Button
+                      variant="outline"
+                      size="lg"
+                      className="flex-1"
+                      onClick={handleToggleWatch}
+                      disabled={updatingWatch}
+                    >
+                      {updatingWatch ? (
+                        <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                      ) : (
+                        <Eye
+                          className={`w-5 h-5 mr-2 ${watching ? "text-mint-500" : ""}`}
+                        />
+                      )}
+                      {watching ? "Watching" : "Watch"}
+                    </Button>
+                  )}
                   <Button variant="outline" size="lg" onClick={handleShare}>
                     <Share2 className="w-5 h-5" />
                   </Button>
@@ -958,7 +1610,7 @@ export default function ArtworkDetailPage() {
                     <div className="flex-1">
                       <div className="flex items-center gap-2 mb-1">
                         <p className="text-sm text-muted-foreground">
-                          Current Price
+                          {isAuction ? "Starting Bid" : isEdition ? "Edition Price" : "Current Price"}
                         </p>
                         {canEditPrice && (
                           <Button
@@ -999,27 +1651,37 @@ export default function ArtworkDetailPage() {
                           </div>
                         </div>
                       </Link>
-                      {canResale && (
+                      {canResale && isAuction && (
+                        <AuctionPanel assetUid={assetUid} onCancelled={refreshArtwork} />
+                      )}
+                      {canResale && isEdition && (
+                        <EditionsPanel
+                          assetUid={assetUid}
+                          price={metadata?.price || 0}
+                          currency={metadata?.currency || "USD"}
+                          isArtist={isArtist}
+                          onSale={rawStatus === "sale"}
+                        />
+                      )}
+                      {canResale && !isAuction && !isEdition && (
                         <div className="space-y-2">
-                          {rawStatus === "sold" && offersCount > 0 ? (
-                            <Button
-                              variant="outline"
-                              size="lg"
-                              className="w-full relative"
-                              onClick={async () => {
-                                await loadOffers();
-                                setOffersDialogOpen(true);
-                              }}
-                            >
-                              <HandCoins className="w-5 h-5 mr-2" />
-                              View Offers
-                              {offersCount > 0 && (
-                                <span className="ml-2 flex h-5 w-5 items-center justify-center rounded-full bg-mint-500 text-xs font-bold text-gallery-dark">
-                                  {offersCount > 9 ? "9+" : offersCount}
-                                </span>
-                              )}
-                            </Button>
-                          ) : null}
+                          <Button
+                            variant="outline"
+                            size="lg"
+                            className="w-full relative"
+                            onClick={async () => {
+                              await loadOffers();
+                              setOffersDialogOpen(true);
+                            }}
+                          >
+                            <HandCoins className="w-5 h-5 mr-2" />
+                            View Offers
+                            {offersCount > 0 && (
+                              <span className="ml-2 flex h-5 w-5 items-center justify-center rounded-full bg-mint-500 text-xs font-bold text-gallery-dark">
+                                {offersCount > 9 ? "9+" : offersCount}
+                              </span>
+                            )}
+                          </Button>
                           {rawStatus === "resale" ? (
                             <>
                               <Button
@@ -1058,87 +1720,274 @@ export default function ArtworkDetailPage() {
                               List for Resale
                             </Button>
                           )}
+                          <Button
+                            variant="outline"
+                            size="lg"
+                            className="w-full"
+                            onClick={() => {
+                              setAuctionForm({
+                                ...auctionForm,
+                                startingPrice: metadata?.price || 0,
+                              });
+                              setAuctionDialogOpen(true);
+                            }}
+                          >
+                            <Gavel className="w-5 h-5 mr-2" />
+                            Start Auction
+                          </Button>
+                          {openTransfer ? (
+                            <div className="p-3 rounded-lg bg-secondary flex items-center justify-between gap-2">
+                              <p className="text-sm text-muted-foreground">
+                                <Gift className="w-4 h-4 inline mr-1" />
+                                Transfer to {openTransfer.recipientName}{" "}
+                                {openTransfer.status === "pending"
+                                  ? "awaiting acceptance"
+                                  : "in progress"}
+                              </p>
+                              {openTransfer.status === "pending" && (
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  className="text-red-500 hover:text-red-600"
+                                  onClick={handleCancelTransfer}
+                                  disabled={transferring}
+                                >
+                                  Cancel
+                                </Button>
+                              )}
+                            </div>
+                          ) : (
+                            <Button
+                              variant="outline"
+                              size="lg"
+                              className="w-full"
+                              onClick={() => setTransferDialogOpen(true)}
+                            >
+                              <Gift className="w-5 h-5 mr-2" />
+                              Transfer or Gift
+                            </Button>
+                          )}
                         </div>
                       )}
                     </div>
                   ) : (
                     <div className="space-y-2">
-                      {isSold ? (
-                        <>
-                          {/* Check if there's an accepted offer for this buyer (from Firebase) */}
-                          {acceptedOffer &&
-                          acceptedOffer.buyerId === profile?.id ? (
-                            <div className="space-y-3">
-                              <div className="p-4 rounded-lg bg-mint-500/10 border border-mint-500/20 text-center">
-                                <p className="font-semibold text-lg mb-1 text-mint-500">
-                                  Offer Accepted!
-                                </p>
-                                <p className="text-sm text-muted-foreground mb-3">
-                                  Your offer of{" "}
-                                  {formatCurrency(
-                                    acceptedOffer.amount || 0,
-                                    acceptedOffer.currency || "USD"
-                                  )}{" "}
-                                  has been accepted.
-                                </p>
-                                <Button
-                                  size="lg"
-                                  className="w-full"
-                                  onClick={handlePurchase}
-                                  disabled={purchasing}
-                                >
-                                  {purchasing ? (
-                                    <>
-                                      <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-                                      Processing...
-                                    </>
-                                  ) : (
-                                    <>
-                                      <ShoppingCart className="w-5 h-5 mr-2" />
-                                      Complete Purchase
-                                    </>
-                                  )}
-                                </Button>
-                              </div>
+                      {isEdition ? (
+                        <EditionsPanel
+                          assetUid={assetUid}
+                          price={metadata?.price || 0}
+                          currency={metadata?.currency || "USD"}
+                          isArtist={isArtist}
+                          onSale={rawStatus === "sale"}
+                          onPurchase={handlePurchase}
+                          purchasing={purchasing}
+                        />
+                      ) : isAuction ? (
+                        <AuctionPanel
+                          assetUid={assetUid}
+                          onCompletePurchase={() => handlePurchase("card")}
+                          purchasing={purchasing}
+                        />
+                      ) : hasMyAcceptedOffer ? (
+                        <div className="space-y-3">
+                          <div className="p-4 rounded-lg bg-mint-500/10 border border-mint-500/20 text-center">
+                            <p className="font-semibold text-lg mb-1 text-mint-500">
+                              Offer Accepted!
+                            </p>
+                            <p className="text-sm text-muted-foreground mb-3">
+                              Your offer of{" "}
+                              {formatCurrency(
+                                acceptedOffer.amount || 0,
+                                acceptedOffer.currency || "USD"
+                              )}{" "}
+                              has been accepted.
+                            </p>
+                            {acceptedOffer.paymentDeadline && (
+                              <p className="flex items-center justify-center gap-1 text-xs text-muted-foreground mb-3">
+                                <Clock className="w-3 h-3" />
+                                Pay by <FormattedDate date={acceptedOffer.paymentDeadline} />
+                              </p>
+                            )}
+                            <Button
+                              size="lg"
+                              className="w-full"
+                              onClick={() => handlePurchase("card")}
+                              disabled={purchasing}
+                            >
+                              {purchasing && purchaseMethod === "card" ? (
+                                <>
+                                  <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                                  Processing...
+                                </>
+                              ) : (
+                                <>
+                                  <ShoppingCart className="w-5 h-5 mr-2" />
+                                  Complete Purchase
+                                </>
+                              )}
+                            </Button>
+                            {canPayWithWallet && (
+                              <Button
+                                variant="outline"
+                                size="lg"
+                                className="w-full mt-2"
+                                onClick={() => handlePurchase("wallet")}
+                                disabled={purchasing}
+                              >
+                                {purchasing && purchaseMethod === "wallet" ? (
+                                  <>
+                                    <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                                    Processing...
+                                  </>
+                                ) : (
+                                  <>
+                                    <Wallet className="w-5 h-5 mr-2" />
+                                    Pay with Balance
+                                  </>
+                                )}
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      ) : myOpenOffer ? (
+                        <div className="p-4 rounded-lg bg-muted border border-border space-y-3">
+                          <div className="flex items-start justify-between">
+                            <div>
+                              <p className="font-semibold text-lg">
+                                {myOpenOffer.status === "countered"
+                                  ? "The owner countered"
+                                  : "Offer sent"}
+                              </p>
+                              <p className="text-sm text-muted-foreground">
+                                {myOpenOffer.status === "countered"
+                                  ? "Accept, counter or withdraw before it expires."
+                                  : "Waiting for the owner to respond."}
+                              </p>
                             </div>
+                            <p className="text-2xl font-bold text-mint-500">
+                              {formatCurrency(
+                                myOpenOffer.amount,
+                                myOpenOffer.currency || "USD"
+                              )}
+                            </p>
+                          </div>
+                          {myOpenOffer.expiresAt && (
+                            <p className="text-xs text-muted-foreground flex items-center gap-1">
+                              <Clock className="w-3 h-3" />
+                              Expires <FormattedDate date={myOpenOffer.expiresAt} />
+                            </p>
+                          )}
+                          <OfferThread
+                            history={myOpenOffer.history || []}
+                            currency={myOpenOffer.currency}
+                            viewer="buyer"
+                          />
+                          {counterForm.offerId === myOpenOffer.id ? (
+                            renderCounterForm(myOpenOffer)
                           ) : (
-                            <>
-                              <div className="p-4 rounded-lg bg-muted border border-border text-center mb-2">
-                                <p className="font-semibold text-lg mb-1">
-                                  Sold Art
-                                </p>
-                                <p className="text-sm text-muted-foreground">
-                                  This artwork has been sold. Make an offer to
-                                  the current owner.
-                                </p>
-                              </div>
+                            <div className="flex flex-wrap gap-2">
+                              {myOpenOffer.status === "countered" && (
+                                <>
+                                  <Button
+                                    size="sm"
+                                    onClick={() =>
+                                      handleOfferAction(myOpenOffer.id, "accept")
+                                    }
+                                    disabled={respondingOffer === myOpenOffer.id}
+                                  >
+                                    <Check className="w-4 h-4 mr-1" />
+                                    Accept
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() =>
+                                      setCounterForm({
+                                        offerId: myOpenOffer.id,
+                                        amount: myOpenOffer.amount,
+                                        message: "",
+                                      })
+                                    }
+                                  >
+                                    <ArrowLeftRight className="w-4 h-4 mr-1" />
+                                    Counter
+                                  </Button>
+                                </>
+                              )}
                               <Button
+                                size="sm"
                                 variant="outline"
-                                size="lg"
-                                className="w-full"
-                                onClick={() => {
-                                  setOfferForm({
-                                    amount: metadata?.price || 0,
-                                    message: "",
-                                  });
-                                  setOfferDialogOpen(true);
-                                }}
+                                className="border-red-500/50 text-red-500 hover:bg-red-500/10"
+                                onClick={() =>
+                                  handleOfferAction(myOpenOffer.id, "withdraw")
+                                }
+                                disabled={respondingOffer === myOpenOffer.id}
                               >
-                                <HandCoins className="w-5 h-5 mr-2" />
-                                Make an Offer
+                                <X className="w-4 h-4 mr-1" />
+                                Withdraw
                               </Button>
-                            </>
+                            </div>
                           )}
+                        </div>
+                      ) : isSold ? (
+                        <>
+                          <div className="p-4 rounded-lg bg-muted border border-border text-center mb-2">
+                            <p className="font-semibold text-lg mb-1">
+                              Sold Art
+                            </p>
+                            <p className="text-sm text-muted-foreground">
+                              This artwork has been sold. Make an offer to
+                              the current owner.
+                            </p>
+                            {myLastOffer &&
+                              ["rejected", "withdrawn", "expired", "closed"].includes(
+                                myLastOffer.status
+                              ) && (
+                                <p className="text-xs text-muted-foreground mt-2">
+                                  Your last offer of{" "}
+                                  {formatCurrency(
+                                    myLastOffer.amount,
+                                    myLastOffer.currency || "USD"
+                                  )}{" "}
+                                  was {myLastOffer.status}.
+                                </p>
+                              )}
+                          </div>
+                          <Button
+                            variant="outline"
+                            size="lg"
+                            className="w-full"
+                            onClick={handleOpenOfferDialog}
+                          >
+                            <HandCoins className="w-5 h-5 mr-2" />
+                            Make an Offer
+                          </Button>
                         </>
+                      ) : isReservedByOther ? (
+                        <div className="p-4 rounded-lg bg-muted border border-border text-center">
+                          <p className="font-semibold text-lg mb-1 flex items-center justify-center gap-2">
+                            <Clock className="w-5 h-5" />
+                            Reserved
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            Another buyer is checking out this artwork.
+                            {reservation?.expiresAt && (
+                              <>
+                                {" "}The reservation ends at{" "}
+                                {new Date(reservation.expiresAt).toLocaleTimeString()}.
+                              </>
+                            )}
+                          </p>
+                        </div>
                       ) : (
                         <>
                           <Button
                             size="lg"
                             className="w-full"
-                            onClick={handlePurchase}
+                            onClick={() => handlePurchase("card")}
                             disabled={purchasing}
                           >
-                            {purchasing ? (
+                            {purchasing && purchaseMethod === "card" ? (
                               <>
                                 <Loader2 className="w-5 h-5 mr-2 animate-spin" />
                                 Processing...
@@ -1150,6 +1999,36 @@ export default function ArtworkDetailPage() {
                               </>
                             )}
                           </Button>
+                          {canPayWithWallet && (
+                            <Button
+                              variant="outline"
+                              size="lg"
+                              className="w-full"
+                              onClick={() => handlePurchase("wallet")}
+                              disabled={purchasing}
+                            >
+                              {purchasing && purchaseMethod === "wallet" ? (
+                                <>
+                                  <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                                  Processing...
+                                </>
+                              ) : (
+                                <>
+                                  <Wallet className="w-5 h-5 mr-2" />
+                                  Pay with Balance ({formatCurrency(wallet!.balance, "USD")})
+                                </>
+                              )}
+                            </Button>
+                          )}
+                          <Button
+                            variant="outline"
+                            size="lg"
+                            className="w-full"
+                            onClick={handleOpenOfferDialog}
+                          >
+                            <HandCoins className="w-5 h-5 mr-2" />
+                            Make an Offer
+                          </Button>
                         </>
                       )}
                     </div>
@@ -1199,6 +2078,21 @@ export default function ArtworkDetailPage() {
                       </p>
                     </div>
                   </div>
+                  {metadata?.royaltyPercentage != null && (
+                    <div className="flex items-center gap-3">
+                      <div className="w-10 h-10 rounded-lg bg-secondary flex items-center justify-center">
+                        <Percent className="w-5 h-5 text-muted-foreground" />
+                      </div>
+                      <div>
+                        <p className="text-sm text-muted-foreground">
+                          Artist Royalty
+                        </p>
+                        <p className="font-medium">
+                          {metadata.royaltyPercentage}% on resales
+                        </p>
+                      </div>
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -1224,9 +2118,27 @@ export default function ArtworkDetailPage() {
               {metadata?.ownership_history &&
                 metadata.ownership_history.length > 0 && (
                   <div>
-                    <h2 className="text-xl font-semibold mb-4">
-                      Ownership History
-                    </h2>
+                    <div className="flex items-center justify-between mb-4">
+                      <h2 className="text-xl font-semibold">
+                        Ownership History
+                      </h2>
+                      <div className="flex items-center gap-4 text-sm">
+                        <a
+                          href={`/api/assets/${assetUid}/certificate?download=1`}
+                          className="inline-flex items-center gap-1.5 text-muted-foreground hover:text-mint-500 transition-colors"
+                        >
+                          <Download className="w-4 h-4" />
+                          Certificate
+                        </a>
+                        <Link
+                          href={`/verify?asset=${assetUid}`}
+                          className="inline-flex items-center gap-1.5 text-muted-foreground hover:text-mint-500 transition-colors"
+                        >
+                          <ShieldCheck className="w-4 h-4" />
+                          Verify
+                        </Link>
+                      </div>
+                    </div>
                     <div className="space-y-3">
                       {metadata.ownership_history.map((owner, index) => (
                         <div
@@ -1387,6 +2299,16 @@ export default function ArtworkDetailPage() {
                   metadata?.currency || "USD"
                 )}
               </p>
+              {!isArtist && !!metadata?.royaltyPercentage && (
+                <p className="text-xs text-muted-foreground">
+                  Artist royalty ({metadata.royaltyPercentage}%):{" "}
+                  {formatCurrency(
+                    (resalePrice * metadata.royaltyPercentage) / 100,
+                    metadata?.currency || "USD"
+                  )}{" "}
+                  is paid to the artist when this sells.
+                </p>
+              )}
             </div>
           </div>
           <DialogFooter>
@@ -1411,6 +2333,128 @@ export default function ArtworkDetailPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Start Auction Dialog */}
+      <Dialog open={auctionDialogOpen} onOpenChange={setAuctionDialogOpen}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Start Auction</DialogTitle>
+            <DialogDescription>
+              Buyers bid against each other until the auction ends. The
+              highest bid at or above your reserve wins and is sent to
+              checkout automatically.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="auction-starting-price">
+                  Starting Bid ({metadata?.currency || "USD"})
+                </Label>
+                <Input
+                  id="auction-starting-price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={auctionForm.startingPrice}
+                  onChange={(e) =>
+                    setAuctionForm({
+                      ...auctionForm,
+                      startingPrice: parseFloat(e.target.value) || 0,
+                    })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="auction-reserve-price">Reserve (optional)</Label>
+                <Input
+                  id="auction-reserve-price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={auctionForm.reservePrice}
+                  onChange={(e) =>
+                    setAuctionForm({
+                      ...auctionForm,
+                      reservePrice: parseFloat(e.target.value) || 0,
+                    })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="auction-increment">Minimum Increment</Label>
+                <Input
+                  id="auction-increment"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={auctionForm.minIncrement}
+                  onChange={(e) =>
+                    setAuctionForm({
+                      ...auctionForm,
+                      minIncrement: parseFloat(e.target.value) || 0,
+                    })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="auction-duration">Duration (hours)</Label>
+                <Input
+                  id="auction-duration"
+                  type="number"
+                  min="1"
+                  max="720"
+                  value={auctionForm.durationHours}
+                  onChange={(e) =>
+                    setAuctionForm({
+                      ...auctionForm,
+                      durationHours: parseInt(e.target.value) || 0,
+                    })
+                  }
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="auction-extension">Anti-sniping Extension (minutes)</Label>
+              <Input
+                id="auction-extension"
+                type="number"
+                min="0"
+                max="60"
+                value={auctionForm.extensionMinutes}
+                onChange={(e) =>
+                  setAuctionForm({
+                    ...auctionForm,
+                    extensionMinutes: parseInt(e.target.value) || 0,
+                  })
+                }
+              />
+              <p className="text-xs text-muted-foreground">
+                A bid in the final minutes extends the auction by this long.
+              </p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setAuctionDialogOpen(false)}
+              disabled={startingAuction}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleStartAuction} disabled={startingAuction}>
+              {startingAuction ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Starting...
+                </>
+              ) : (
+                "Start Auction"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Withdraw from Resale Dialog */}
       <Dialog open={withdrawDialogOpen} onOpenChange={setWithdrawDialogOpen}>
         <DialogContent className="sm:max-w-[400px]">
@@ -1454,6 +2498,71 @@ export default function ArtworkDetailPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Transfer Dialog */}
+      <Dialog open={transferDialogOpen} onOpenChange={setTransferDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Transfer or Gift</DialogTitle>
+            <DialogDescription>
+              Send this artwork to another ArtMint user, as a gift or to
+              another of your accounts. Ownership moves once they accept; no
+              payment is taken.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="transfer-recipient">Recipient email or user ID</Label>
+              <Input
+                id="transfer-recipient"
+                value={transferForm.recipient}
+                onChange={(e) =>
+                  setTransferForm({ ...transferForm, recipient: e.target.value })
+                }
+                placeholder="collector@example.com"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transfer-message">Message (Optional)</Label>
+              <textarea
+                id="transfer-message"
+                value={transferForm.message}
+                onChange={(e) =>
+                  setTransferForm({ ...transferForm, message: e.target.value })
+                }
+                placeholder="Add a note for the recipient..."
+                rows={3}
+                maxLength={500}
+                className="flex w-full rounded-lg border border-input bg-card px-4 py-2 text-sm text-foreground ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-mint-500/50 focus-visible:border-mint-500 disabled:cursor-not-allowed disabled:opacity-50 transition-all duration-200 resize-none"
+              />
+            </div>
+            {rawStatus === "resale" && (
+              <p className="text-xs text-muted-foreground">
+                Your resale listing ends when the transfer is accepted.
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setTransferDialogOpen(false)}
+              disabled={transferring}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleTransferSubmit} disabled={transferring}>
+              {transferring ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                "Send Transfer"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Make an Offer Dialog */}
       <Dialog open={offerDialogOpen} onOpenChange={setOfferDialogOpen}>
         <DialogContent className="sm:max-w-[500px]">
@@ -1461,7 +2570,7 @@ export default function ArtworkDetailPage() {
             <DialogTitle>Make an Offer</DialogTitle>
             <DialogDescription>
               Submit an offer to the current owner. They will be notified and
-              can accept or reject your offer.
+              can accept, reject or counter your offer.
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
@@ -1489,6 +2598,7 @@ export default function ArtworkDetailPage() {
                   metadata?.price || 0,
                   metadata?.currency || "USD"
                 )}
+                {isListed && ". Offers must be below it."}
               </p>
             </div>
             <div className="space-y-2">
@@ -1533,8 +2643,9 @@ export default function ArtworkDetailPage() {
           <DialogHeader>
             <DialogTitle>Offers</DialogTitle>
             <DialogDescription>
-              View and manage offers for this artwork. You can accept or reject
-              any offer.
+              View and negotiate offers for this artwork. Accept, reject or
+              counter any offer that is waiting on you. An accepted offer
+              lapses if the buyer doesn&apos;t pay in time.
             </DialogDescription>
           </DialogHeader>
           <div className="py-4">
@@ -1542,65 +2653,164 @@ export default function ArtworkDetailPage() {
               <div className="flex items-center justify-center py-8">
                 <Loader2 className="w-6 h-6 animate-spin text-mint-500" />
               </div>
-            ) : offers.length === 0 ? (
-              <div className="text-center py-8 text-muted-foreground">
-                <HandCoins className="w-12 h-12 mx-auto mb-4 opacity-50" />
-                <p>No offers yet</p>
-                <p className="text-sm mt-2">
-                  Buyers can make offers when your artwork is listed for resale.
-                </p>
-              </div>
             ) : (
-              <div className="space-y-4">
-                {offers.map((offer: any) => (
-                  <Card key={offer.id} className="border-mint-500/30">
-                    <CardContent className="p-4">
-                      <div className="flex items-start justify-between mb-3">
-                        <div className="flex-1">
-                          <div className="flex items-center gap-2 mb-1">
-                            <User className="w-4 h-4 text-muted-foreground" />
-                            <p className="font-semibold">{offer.buyerName}</p>
+              <div className="space-y-6">
+                {ownerAcceptedOffer && (
+                  <div className="p-4 rounded-lg bg-mint-500/10 border border-mint-500/20">
+                    <p className="text-sm font-semibold text-mint-500 mb-1">
+                      Awaiting payment
+                    </p>
+                    <p className="text-sm">
+                      {ownerAcceptedOffer.buyerName} ·{" "}
+                      {formatCurrency(ownerAcceptedOffer.amount, ownerAcceptedOffer.currency)}
+                    </p>
+                    {ownerAcceptedOffer.paymentDeadline && (
+                      <p className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                        <Clock className="w-3 h-3" />
+                        Lapses <FormattedDate date={ownerAcceptedOffer.paymentDeadline} />
+                      </p>
+                    )}
+                  </div>
+                )}
+                {offers.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <HandCoins className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                    <p>No open offers</p>
+                    <p className="text-sm mt-2">
+                      Buyers can make offers when your artwork is listed for resale.
+                    </p>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {offers.map((offer: any) => (
+                      <Card key={offer.id} className="border-mint-500/30">
+                        <CardContent className="p-4">
+                          <div className="flex items-start justify-between mb-3">
+                            <div className="flex-1">
+                              <div className="flex items-center gap-2 mb-1">
+                                <User className="w-4 h-4 text-muted-foreground" />
+                                <p className="font-semibold">{offer.buyerName}</p>
+                              </div>
+                              <p className="text-2xl font-bold text-mint-500">
+                                {formatCurrency(offer.amount, offer.currency)}
+                              </p>
+                              <p className="text-xs text-muted-foreground mt-1">
+                                {offer.status === "countered"
+                                  ? "Waiting for the buyer"
+                                  : "Waiting for you"}
+                                {offer.expiresAt && (
+                                  <>
+                                    {" · expires "}
+                                    <FormattedDate date={offer.expiresAt} />
+                                  </>
+                                )}
+                              </p>
+                            </div>
+                            {offer.status === "pending" &&
+                              counterForm.offerId !== offer.id && (
+                                <div className="flex flex-col gap-2">
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="border-green-500/50 text-green-500 hover:bg-green-500/10"
+                                    onClick={() =>
+                                      handleOfferAction(offer.id, "accept")
+                                    }
+                                    disabled={respondingOffer === offer.id}
+                                  >
+                                    <Check className="w-4 h-4 mr-1" />
+                                    Accept
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() =>
+                                      setCounterForm({
+                                        offerId: offer.id,
+                                        amount: offer.amount,
+                                        message: "",
+                                      })
+                                    }
+                                  >
+                                    <ArrowLeftRight className="w-4 h-4 mr-1" />
+                                    Counter
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="border-red-500/50 text-red-500 hover:bg-red-500/10"
+                                    onClick={() =>
+                                      handleOfferAction(offer.id, "reject")
+                                    }
+                                    disabled={respondingOffer === offer.id}
+                                  >
+                                    <XCircle className="w-4 h-4 mr-1" />
+                                    Reject
+                                  </Button>
+                                </div>
+                              )}
                           </div>
-                          <p className="text-2xl font-bold text-mint-500">
-                            {formatCurrency(offer.amount, offer.currency)}
-                          </p>
-                          {offer.message && (
-                            <p className="text-sm text-muted-foreground mt-2 italic">
-                              &quot;{offer.message}&quot;
-                            </p>
-                          )}
-                          <p className="text-xs text-muted-foreground mt-2">
-                            <FormattedDate date={offer.createdAt} />
-                          </p>
-                        </div>
-                        <div className="flex gap-2">
+                          <OfferThread
+                            history={offer.history || []}
+                            currency={offer.currency}
+                            viewer="owner"
+                          />
+                          {counterForm.offerId === offer.id && renderCounterForm(offer)}
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </div>
+                )}
+                {declinedOffers.length > 0 && (
+                  <div>
+                    <div className="flex items-center justify-between mb-3">
+                      <h3 className="text-sm font-semibold">Declined &amp; Lapsed</h3>
+                      {!ownerAcceptedOffer &&
+                        declinedOffers.some((offer: any) => offer.status === "rejected") && (
                           <Button
                             size="sm"
                             variant="outline"
-                            className="border-green-500/50 text-green-500 hover:bg-green-500/10"
-                            onClick={() =>
-                              handleOfferAction(offer.id, "accepted")
-                            }
+                            onClick={handleAcceptNextOffer}
+                            disabled={acceptingNext}
                           >
-                            <Check className="w-4 h-4 mr-1" />
-                            Accept
+                            {acceptingNext ? (
+                              <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                            ) : (
+                              <Check className="w-4 h-4 mr-1" />
+                            )}
+                            Accept Next Highest
                           </Button>
+                        )}
+                    </div>
+                    <div className="space-y-2">
+                      {declinedOffers.map((offer: any) => (
+                        <div
+                          key={offer.id}
+                          className="flex items-center justify-between p-3 rounded-lg bg-secondary"
+                        >
+                          <div>
+                            <p className="text-sm font-medium">
+                              {offer.buyerName} ·{" "}
+                              {formatCurrency(offer.amount, offer.currency)}
+                            </p>
+                            <p className="text-xs text-muted-foreground capitalize">
+                              {offer.status}
+                            </p>
+                          </div>
                           <Button
                             size="sm"
-                            variant="outline"
-                            className="border-red-500/50 text-red-500 hover:bg-red-500/10"
-                            onClick={() =>
-                              handleOfferAction(offer.id, "rejected")
-                            }
+                            variant="ghost"
+                            onClick={() => handleOfferAction(offer.id, "reinstate")}
+                            disabled={respondingOffer === offer.id}
                           >
-                            <XCircle className="w-4 h-4 mr-1" />
-                            Reject
+                            <RotateCcw className="w-4 h-4 mr-1" />
+                            Reinstate
                           </Button>
                         </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -14,11 +14,14 @@ import {
   Tag,
   Loader2,
   CheckCircle,
+  Percent,
+  Layers,
 } from "lucide-react";
 import { Header } from "@/components/shared/Header";
 import { Footer } from "@/components/shared/Footer";
 import { useAuth, useRequireAuth, useRequireRole } from "@/context/AuthContext";
 import { publishArtworkSchema, type PublishArtworkInput } from "@/lib/validations";
+import { DEFAULT_ROYALTY_PERCENTAGE, MAX_ROYALTY_PERCENTAGE } from "@/lib/royalties";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -71,6 +74,7 @@ export default function ArtistUploadPage() {
     defaultValues: {
       category: "",
       price: 0,
+      royaltyPercentage: DEFAULT_ROYALTY_PERCENTAGE,
       tags: [],
     },
   });
@@ -169,6 +173,10 @@ export default function ArtistUploadPage() {
       formData.append("category", data.category);
       formData.append("price", data.price.toString());
       formData.append("currency", "USD"); // Default currency
+      formData.append("royalty_percentage", data.royaltyPercentage.toString());
+      if (data.editionSize) {
+        formData.append("edition_size", data.editionSize.toString());
+      }
       formData.append("status", "sale"); // New uploads are for sale
       formData.append("tags", JSON.stringify(tags));
 
@@ -397,6 +405,60 @@ export default function ArtistUploadPage() {
                       )}
                     </div>
 
+                    {/* Royalty */}
+                    <div className="space-y-2">
+                      <Label htmlFor="royaltyPercentage">Resale Royalty (%) *</Label>
+                      <div className="relative">
+                        <Percent className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+                        <Input
+                          id="royaltyPercentage"
+                          type="number"
+                          min="0"
+                          max={MAX_ROYALTY_PERCENTAGE}
+                          step="0.5"
+                          placeholder={DEFAULT_ROYALTY_PERCENTAGE.toString()}
+                          className="pl-10"
+                          {...register("royaltyPercentage", { valueAsNumber: true })}
+                        />
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        You receive this share of the price every time a collector resells this artwork.
+                      </p>
+                      {errors.royaltyPercentage && (
+                        <p className="text-sm text-destructive">
+                          {errors.royaltyPercentage.message}
+                        </p>
+                      )}
+                    </div>
+
+                    {/* Edition Size */}
+                    <div className="space-y-2">
+                      <Label htmlFor="editionSize">Edition Size (optional)</Label>
+                      <div className="relative">
+                        <Layers className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+                        <Input
+                          id="editionSize"
+                          type="number"
+                          min="2"
+                          max="1000"
+                          step="1"
+                          placeholder="One of a kind"
+                          className="pl-10"
+                          {...register("editionSize", {
+                            setValueAs: (value) => (value === "" ? undefined : Number(value)),
+                          })}
+                        />
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Sell numbered copies at the price above instead of a single original.
+                      </p>
+                      {errors.editionSize && (
+                        <p className="text-sm text-destructive">
+                          {errors.editionSize.message}
+                        </p>
+                      )}
+                    </div>
+
                     {/* Tags */}
                     <div className="space-y-2">
                       <Label>Tags (optional)</Label>
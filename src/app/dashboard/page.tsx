@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import Link from "next/link";
 import { motion } from "framer-motion";
 import {
@@ -15,20 +15,32 @@ import {
   CheckCircle,
   AlertCircle,
   RefreshCw,
+  Plus,
+  Loader2,
+  ShieldCheck,
+  ShieldAlert,
+  HandCoins,
+  X,
+  Gift,
+  Check,
+  Eye,
 } from "lucide-react";
 import { Header } from "@/components/shared/Header";
 import { Footer } from "@/components/shared/Footer";
 import { useAuth, useRequireAuth } from "@/context/AuthContext";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { PageLoader } from "@/components/shared/LoadingSpinner";
 import { ArtCard, ArtCardSkeleton } from "@/components/shared/ArtCard";
 import { formatCurrency, formatDate, truncate } from "@/lib/utils";
 import { FormattedDate } from "@/components/shared/FormattedDate";
+import { toast } from "@/hooks/useToast";
 import { log } from "@/lib/logger";
 import { cn } from "@/lib/utils";
 import type { Asset } from "@/lib/contentstack";
+import { getWalletTransactions, type Transaction } from "@/lib/firebase";
 
 export default function DashboardPage() {
   const { profile, wallet, refreshWallet, user } = useAuth();
@@ -36,6 +48,24 @@ export default function DashboardPage() {
   const [refreshing, setRefreshing] = useState(false);
   const [ownedArtworks, setOwnedArtworks] = useState<Asset[]>([]);
   const [loadingArtworks, setLoadingArtworks] = useState(true);
+  const [depositAmount, setDepositAmount] = useState("");
+  const [depositing, setDepositing] = useState(false);
+  const [ledgerCheck, setLedgerCheck] = useState<{
+    valid: boolean;
+    reason: string | null;
+  } | null>(null);
+  const [myOffers, setMyOffers] = useState<MyOffer[]>([]);
+  const [loadingOffers, setLoadingOffers] = useState(true);
+  const [withdrawingOffer, setWithdrawingOffer] = useState<string | null>(null);
+  const [myTransfers, setMyTransfers] = useState<MyTransfer[]>([]);
+  const [loadingTransfers, setLoadingTransfers] = useState(true);
+  const [respondingTransfer, setRespondingTransfer] = useState<string | null>(null);
+  const [watchlist, setWatchlist] = useState<WatchedArtwork[]>([]);
+  const [loadingWatchlist, setLoadingWatchlist] = useState(true);
+  const [unwatching, setUnwatching] = useState<string | null>(null);
+  const [olderTransactions, setOlderTransactions] = useState<Transaction[]>([]);
+  const [olderCursor, setOlderCursor] = useState<number | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
 
   const handleRefresh = async () => {
     setRefreshing(true);
@@ -43,6 +73,157 @@ export default function DashboardPage() {
     setTimeout(() => setRefreshing(false), 1000);
   };
 
+  // Older ledger pages, reset whenever the wallet is reloaded
+  useEffect(() => {
+    setOlderTransactions([]);
+    setOlderCursor(wallet?.nextCursor ?? null);
+  }, [wallet]);
+
+  const handleLoadMore = async () => {
+    if (!wallet || !olderCursor) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await getWalletTransactions(wallet.id, { before: olderCursor });
+      setOlderTransactions((loaded) => [...loaded, ...page.transactions]);
+      setOlderCursor(page.nextCursor);
+    } catch (error: any) {
+      log.error("Error loading transactions", error);
+      toast({
+        title: "Couldn't load transactions",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Start a Stripe checkout to add funds to the wallet
+  const handleDeposit = async () => {
+    if (!user) return;
+
+    const amount = parseFloat(depositAmount);
+    if (!amount || amount <= 0) {
+      toast({
+        title: "Invalid amount",
+        description: "Enter an amount to add to your wallet.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setDepositing(true);
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch("/api/wallet/deposit", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ amount }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          data.details?.[0]?.message || data.error || "Failed to start deposit"
+        );
+      }
+
+      // Redirect to Stripe Checkout
+      window.location.href = data.url;
+    } catch (error: any) {
+      toast({
+        title: "Deposit failed",
+        description: error.message,
+        variant: "destructive",
+      });
+      setDepositing(false);
+    }
+  };
+
+  // Returning from a deposit checkout: credit it now in case the webhook
+  // hasn't arrived yet (the credit is idempotent)
+  useEffect(() => {
+    if (!user) return;
+
+    const params = new URLSearchParams(window.location.search);
+    const sessionId = params.get("session_id");
+    if (params.get("deposit") !== "success" || !sessionId) return;
+
+    window.history.replaceState(null, "", "/dashboard");
+
+    const creditDeposit = async () => {
+      try {
+        const token = await user.getIdToken();
+        const response = await fetch("/api/purchase/process", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({ sessionId }),
+        });
+
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to credit deposit");
+        }
+
+        toast({
+          title: "Funds added",
+          description: `${formatCurrency(data.amount || 0)} has been added to your wallet.`,
+        });
+        await refreshWallet();
+      } catch (error: any) {
+        log.error("Error crediting deposit", error, { sessionId });
+        toast({
+          title: "Deposit pending",
+          description: "Your deposit is being processed. Refresh your balance shortly.",
+          variant: "destructive",
+        });
+      }
+    };
+
+    creditDeposit();
+  }, [user, refreshWallet]);
+
+  // Verify the wallet's hash-chained ledger (re-run whenever the wallet changes)
+  useEffect(() => {
+    if (!user || !wallet) return;
+
+    const verifyLedger = async () => {
+      try {
+        const token = await user.getIdToken();
+        const response = await fetch("/api/wallet/verify", {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        });
+
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to verify ledger");
+        }
+
+        setLedgerCheck({
+          valid: data.valid,
+          reason: data.firstBrokenLink?.reason || null,
+        });
+      } catch (error: any) {
+        log.error("Error verifying ledger", error);
+        setLedgerCheck(null);
+      }
+    };
+
+    verifyLedger();
+  }, [user, wallet]);
+
   // Fetch owned artworks (for buyers) or published works (for artists)
   useEffect(() => {
     const fetchArtworks = async () => {
@@ -83,12 +264,245 @@ export default function DashboardPage() {
     fetchArtworks();
   }, [user, wallet, profile]);
 
+  // Load the user's offers across all artworks
+  const loadMyOffers = useCallback(async () => {
+    if (!user) return;
+
+    setLoadingOffers(true);
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch("/api/offers/mine", {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch offers");
+      }
+
+      setMyOffers(data.offers || []);
+    } catch (error: any) {
+      log.error("Error fetching offers", error);
+      setMyOffers([]);
+    } finally {
+      setLoadingOffers(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadMyOffers();
+  }, [loadMyOffers]);
+
+  const handleWithdrawOffer = async (offer: MyOffer) => {
+    if (!user) return;
+
+    setWithdrawingOffer(offer.id);
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch(
+        `/api/assets/${offer.assetUid}/offers/${offer.id}`,
+        {
+          method: "DELETE",
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to withdraw offer");
+      }
+
+      toast({
+        title: "Offer withdrawn",
+        description: "Your offer has been withdrawn.",
+        variant: "success",
+      });
+
+      await loadMyOffers();
+    } catch (error: any) {
+      toast({
+        title: "Withdraw failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setWithdrawingOffer(null);
+    }
+  };
+
+  // Load transfers the user has sent or received
+  const loadMyTransfers = useCallback(async () => {
+    if (!user) return;
+
+    setLoadingTransfers(true);
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch("/api/transfers/mine", {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch transfers");
+      }
+
+      setMyTransfers(data.transfers || []);
+    } catch (error: any) {
+      log.error("Error fetching transfers", error);
+      setMyTransfers([]);
+    } finally {
+      setLoadingTransfers(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadMyTransfers();
+  }, [loadMyTransfers]);
+
+  // Load the artworks the user is watching
+  const loadWatchlist = useCallback(async () => {
+    if (!user) return;
+
+    setLoadingWatchlist(true);
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch("/api/watchlist", {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch watchlist");
+      }
+
+      setWatchlist(data.watchlist || []);
+    } catch (error: any) {
+      log.error("Error fetching watchlist", error);
+      setWatchlist([]);
+    } finally {
+      setLoadingWatchlist(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadWatchlist();
+  }, [loadWatchlist]);
+
+  const handleUnwatch = async (item: WatchedArtwork) => {
+    if (!user) return;
+
+    setUnwatching(item.assetUid);
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch(`/api/assets/${item.assetUid}/watch`, {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to unwatch artwork");
+      }
+
+      setWatchlist((current) => current.filter((watched) => watched.assetUid !== item.assetUid));
+    } catch (error: any) {
+      toast({
+        title: "Unwatch failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setUnwatching(null);
+    }
+  };
+
+  const handleRespondToTransfer = async (
+    transfer: MyTransfer,
+    action: "accept" | "decline" | "cancel"
+  ) => {
+    if (!user) return;
+
+    setRespondingTransfer(transfer.id);
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch(
+        `/api/assets/${transfer.assetUid}/transfer/${transfer.id}`,
+        {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({ action }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update transfer");
+      }
+
+      toast({
+        title:
+          action === "accept"
+            ? "Artwork received"
+            : action === "decline"
+              ? "Transfer declined"
+              : "Transfer cancelled",
+        description:
+          action === "accept"
+            ? `${transfer.assetTitle || "The artwork"} is now in your collection.`
+            : data.notice,
+        variant: "success",
+      });
+
+      await loadMyTransfers();
+      // The wallet refresh also reloads the collection
+      if (action === "accept") {
+        await refreshWallet();
+      }
+    } catch (error: any) {
+      toast({
+        title: "Transfer failed",
+        description: error.message,
+        variant: "destructive",
+      });
+      await loadMyTransfers();
+    } finally {
+      setRespondingTransfer(null);
+    }
+  };
+
   if (loading) {
     return <PageLoader />;
   }
 
-  const transactions = wallet?.transactions || [];
-  const sortedTransactions = [...transactions].reverse();
+  // Newest first; older pages are loaded on demand
+  const transactions = [...(wallet?.transactions || []), ...olderTransactions];
+  const loadOlderButton = olderCursor && (
+    <div className="flex justify-center mt-4">
+      <Button variant="outline" size="sm" onClick={handleLoadMore} disabled={loadingMore}>
+        {loadingMore && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+        Load older transactions
+      </Button>
+    </div>
+  );
 
   return (
     <div className="min-h-screen bg-gallery-dark">
@@ -159,6 +573,43 @@ export default function DashboardPage() {
                   <span className="text-xs text-muted-foreground font-mono">
                     {truncate(wallet?.id || "", 20)}
                   </span>
+                  {ledgerCheck && (
+                    <span
+                      className={cn(
+                        "ml-auto flex items-center gap-1 text-xs px-2 py-0.5 rounded-full",
+                        ledgerCheck.valid
+                          ? "bg-mint-500/10 text-mint-500"
+                          : "bg-red-500/10 text-red-500"
+                      )}
+                      title={ledgerCheck.reason || "Hash chain and signatures verified"}
+                    >
+                      {ledgerCheck.valid ? (
+                        <ShieldCheck className="w-3 h-3" />
+                      ) : (
+                        <ShieldAlert className="w-3 h-3" />
+                      )}
+                      {ledgerCheck.valid ? "Verified" : "Integrity issue"}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 mt-4">
+                  <Input
+                    type="number"
+                    min="1"
+                    step="0.01"
+                    placeholder="Amount"
+                    value={depositAmount}
+                    onChange={(e) => setDepositAmount(e.target.value)}
+                    className="h-9"
+                  />
+                  <Button size="sm" onClick={handleDeposit} disabled={depositing}>
+                    {depositing ? (
+                      <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                    ) : (
+                      <Plus className="w-4 h-4 mr-1" />
+                    )}
+                    Add Funds
+                  </Button>
                 </div>
               </CardContent>
             </Card>
@@ -214,11 +665,7 @@ export default function DashboardPage() {
               <CardContent>
                 <div className="flex items-baseline gap-2">
                   <span className="text-3xl font-bold">
-                    {profile?.role === "artist"
-                      ? ownedArtworks.length
-                      : transactions.filter(
-                          (t) => t.type === "DEBIT" && t.reference.assetUid
-                        ).length}
+                    {ownedArtworks.length}
                   </span>
                   <span className="text-muted-foreground">artworks</span>
                 </div>
@@ -266,7 +713,11 @@ export default function DashboardPage() {
                   ) : ownedArtworks.length > 0 ? (
                     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
                       {ownedArtworks.map((artwork, index) => (
-                        <ArtCard key={artwork.uid} artwork={artwork} index={index} />
+                        <ArtCard
+                          key={`${artwork.uid}_${artwork.metadata?.editionNumber ?? ""}`}
+                          artwork={artwork}
+                          index={index}
+                        />
                       ))}
                     </div>
                   ) : (
@@ -304,7 +755,7 @@ export default function DashboardPage() {
           >
             <Card>
               <CardHeader>
-                <CardTitle>Transaction History</CardTitle>
+                <CardTitle>Activity</CardTitle>
               </CardHeader>
               <CardContent>
                 <Tabs defaultValue="all">
@@ -312,26 +763,74 @@ export default function DashboardPage() {
                     <TabsTrigger value="all">All</TabsTrigger>
                     <TabsTrigger value="purchases">Purchases</TabsTrigger>
                     <TabsTrigger value="deposits">Deposits</TabsTrigger>
+                    <TabsTrigger value="offers">My Offers</TabsTrigger>
+                    <TabsTrigger value="transfers">Transfers</TabsTrigger>
+                    <TabsTrigger value="watchlist">Watchlist</TabsTrigger>
                   </TabsList>
 
                   <TabsContent value="all">
-                    <TransactionList transactions={sortedTransactions} />
+                    <TransactionList transactions={transactions} />
+                    {loadOlderButton}
                   </TabsContent>
 
                   <TabsContent value="purchases">
                     <TransactionList
-                      transactions={sortedTransactions.filter(
+                      transactions={transactions.filter(
                         (t) => t.type === "DEBIT"
                       )}
                     />
+                    {loadOlderButton}
                   </TabsContent>
 
                   <TabsContent value="deposits">
                     <TransactionList
-                      transactions={sortedTransactions.filter(
+                      transactions={transactions.filter(
                         (t) => t.type === "CREDIT"
                       )}
                     />
+                    {loadOlderButton}
+                  </TabsContent>
+
+                  <TabsContent value="offers">
+                    {loadingOffers ? (
+                      <div className="flex items-center justify-center py-12">
+                        <Loader2 className="w-6 h-6 animate-spin text-mint-500" />
+                      </div>
+                    ) : (
+                      <OfferList
+                        offers={myOffers}
+                        withdrawingId={withdrawingOffer}
+                        onWithdraw={handleWithdrawOffer}
+                      />
+                    )}
+                  </TabsContent>
+
+                  <TabsContent value="transfers">
+                    {loadingTransfers ? (
+                      <div className="flex items-center justify-center py-12">
+                        <Loader2 className="w-6 h-6 animate-spin text-mint-500" />
+                      </div>
+                    ) : (
+                      <TransferList
+                        transfers={myTransfers}
+                        respondingId={respondingTransfer}
+                        onRespond={handleRespondToTransfer}
+                      />
+                    )}
+                  </TabsContent>
+
+                  <TabsContent value="watchlist">
+                    {loadingWatchlist ? (
+                      <div className="flex items-center justify-center py-12">
+                        <Loader2 className="w-6 h-6 animate-spin text-mint-500" />
+                      </div>
+                    ) : (
+                      <WatchList
+                        items={watchlist}
+                        unwatchingUid={unwatching}
+                        onUnwatch={handleUnwatch}
+                      />
+                    )}
                   </TabsContent>
                 </Tabs>
               </CardContent>
@@ -345,18 +844,6 @@ export default function DashboardPage() {
   );
 }
 
-interface Transaction {
-  id: string;
-  type: "DEBIT" | "CREDIT";
-  amount: number;
-  timestamp: string;
-  reference: {
-    assetUid?: string;
-    stripePaymentId?: string;
-    description?: string;
-  };
-}
-
 function TransactionList({ transactions }: { transactions: Transaction[] }) {
   if (transactions.length === 0) {
     return (
@@ -427,3 +914,386 @@ function TransactionList({ transactions }: { transactions: Transaction[] }) {
   );
 }
 
+interface MyOffer {
+  id: string;
+  assetUid: string;
+  assetTitle: string | null;
+  amount: number;
+  currency: string;
+  status:
+    | "pending"
+    | "countered"
+    | "accepted"
+    | "rejected"
+    | "withdrawn"
+    | "expired"
+    | "lapsed"
+    | "completed"
+    | "closed";
+  expiresAt: string | null;
+  paymentDeadline: string | null;
+  createdAt: string;
+}
+
+const OFFER_STATUS_LABELS: Record<MyOffer["status"], string> = {
+  pending: "Awaiting owner",
+  countered: "Counter-offer received",
+  accepted: "Accepted",
+  rejected: "Rejected",
+  withdrawn: "Withdrawn",
+  expired: "Expired",
+  lapsed: "Payment deadline passed",
+  completed: "Purchased",
+  closed: "Artwork no longer available",
+};
+
+function OfferList({
+  offers,
+  withdrawingId,
+  onWithdraw,
+}: {
+  offers: MyOffer[];
+  withdrawingId: string | null;
+  onWithdraw: (offer: MyOffer) => void;
+}) {
+  if (offers.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-mint-500/10 flex items-center justify-center">
+          <HandCoins className="w-8 h-8 text-mint-500" />
+        </div>
+        <h3 className="text-lg font-semibold mb-2">No offers yet</h3>
+        <p className="text-muted-foreground mb-6">
+          Make an offer on a sold artwork to start negotiating with its owner
+        </p>
+        <Link href="/gallery">
+          <Button>Browse Gallery</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {offers.map((offer) => {
+        const isOpen = offer.status === "pending" || offer.status === "countered";
+
+        return (
+          <div
+            key={offer.id}
+            className="flex items-center justify-between gap-4 p-4 rounded-lg bg-secondary"
+          >
+            <div className="min-w-0">
+              <Link
+                href={`/art/${offer.assetUid}`}
+                className="font-medium hover:text-mint-500 transition-colors"
+              >
+                {offer.assetTitle || truncate(offer.assetUid, 24)}
+              </Link>
+              <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-muted-foreground">
+                <span
+                  className={cn(
+                    "px-2 py-0.5 rounded-full",
+                    offer.status === "accepted"
+                      ? "bg-mint-500/20 text-mint-500"
+                      : offer.status === "countered"
+                        ? "bg-purple-500/20 text-purple-400"
+                        : isOpen
+                          ? "bg-orange-500/20 text-orange-500"
+                          : "bg-muted text-muted-foreground"
+                  )}
+                >
+                  {OFFER_STATUS_LABELS[offer.status]}
+                </span>
+                {isOpen && offer.expiresAt ? (
+                  <span>
+                    Expires <FormattedDate date={offer.expiresAt} />
+                  </span>
+                ) : offer.status === "accepted" && offer.paymentDeadline ? (
+                  <span>
+                    Pay by <FormattedDate date={offer.paymentDeadline} />
+                  </span>
+                ) : (
+                  <FormattedDate date={offer.createdAt} />
+                )}
+              </div>
+            </div>
+
+            <div className="flex items-center gap-3 shrink-0">
+              <p className="font-semibold">
+                {formatCurrency(offer.amount, offer.currency)}
+              </p>
+              {offer.status === "accepted" && (
+                <Link href={`/art/${offer.assetUid}`}>
+                  <Button size="sm">Complete Purchase</Button>
+                </Link>
+              )}
+              {offer.status === "countered" && (
+                <Link href={`/art/${offer.assetUid}`}>
+                  <Button size="sm" variant="outline">Respond</Button>
+                </Link>
+              )}
+              {isOpen && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="text-red-500 hover:text-red-600"
+                  onClick={() => onWithdraw(offer)}
+                  disabled={withdrawingId === offer.id}
+                >
+                  {withdrawingId === offer.id ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <X className="w-4 h-4" />
+                  )}
+                </Button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+interface MyTransfer {
+  id: string;
+  assetUid: string;
+  assetTitle: string | null;
+  senderName: string;
+  recipientName: string;
+  message: string | null;
+  status: "pending" | "accepting" | "completed" | "declined" | "cancelled";
+  reason: string | null;
+  isSender: boolean;
+  isRecipient: boolean;
+  createdAt: string | null;
+}
+
+const TRANSFER_STATUS_LABELS: Record<MyTransfer["status"], string> = {
+  pending: "Awaiting recipient",
+  accepting: "Accepted, not yet moved",
+  completed: "Completed",
+  declined: "Declined",
+  cancelled: "Cancelled",
+};
+
+function TransferList({
+  transfers,
+  respondingId,
+  onRespond,
+}: {
+  transfers: MyTransfer[];
+  respondingId: string | null;
+  onRespond: (transfer: MyTransfer, action: "accept" | "decline" | "cancel") => void;
+}) {
+  if (transfers.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-mint-500/10 flex items-center justify-center">
+          <Gift className="w-8 h-8 text-mint-500" />
+        </div>
+        <h3 className="text-lg font-semibold mb-2">No transfers yet</h3>
+        <p className="text-muted-foreground">
+          Artworks gifted to you, or sent from your collection, show up here
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {transfers.map((transfer) => {
+        const responding = respondingId === transfer.id;
+
+        return (
+          <div
+            key={transfer.id}
+            className="flex items-center justify-between gap-4 p-4 rounded-lg bg-secondary"
+          >
+            <div className="min-w-0">
+              <Link
+                href={`/art/${transfer.assetUid}`}
+                className="font-medium hover:text-mint-500 transition-colors"
+              >
+                {transfer.assetTitle || truncate(transfer.assetUid, 24)}
+              </Link>
+              <p className="text-sm text-muted-foreground">
+                {transfer.isSender
+                  ? `To ${transfer.recipientName}`
+                  : `From ${transfer.senderName}`}
+                {transfer.message && ` · "${truncate(transfer.message, 60)}"`}
+              </p>
+              <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-muted-foreground">
+                <span
+                  className={cn(
+                    "px-2 py-0.5 rounded-full",
+                    transfer.status === "completed"
+                      ? "bg-mint-500/20 text-mint-500"
+                      : transfer.status === "pending" || transfer.status === "accepting"
+                        ? "bg-orange-500/20 text-orange-500"
+                        : "bg-muted text-muted-foreground"
+                  )}
+                >
+                  {TRANSFER_STATUS_LABELS[transfer.status]}
+                </span>
+                {transfer.reason ? (
+                  <span>{transfer.reason}</span>
+                ) : (
+                  transfer.createdAt && <FormattedDate date={transfer.createdAt} />
+                )}
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2 shrink-0">
+              {transfer.isRecipient &&
+                (transfer.status === "pending" || transfer.status === "accepting") && (
+                  <Button
+                    size="sm"
+                    onClick={() => onRespond(transfer, "accept")}
+                    disabled={responding}
+                  >
+                    {responding ? (
+                      <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                    ) : (
+                      <Check className="w-4 h-4 mr-1" />
+                    )}
+                    {transfer.status === "accepting" ? "Retry" : "Accept"}
+                  </Button>
+                )}
+              {transfer.isRecipient && transfer.status === "pending" && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onRespond(transfer, "decline")}
+                  disabled={responding}
+                >
+                  Decline
+                </Button>
+              )}
+              {transfer.isSender && transfer.status === "pending" && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="text-red-500 hover:text-red-600"
+                  onClick={() => onRespond(transfer, "cancel")}
+                  disabled={responding}
+                >
+                  {responding ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <X className="w-4 h-4" />
+                  )}
+                </Button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+interface WatchedArtwork {
+  assetUid: string;
+  title: string | null;
+  price: number | null;
+  currency: string;
+  status: "sold" | "sale" | "resale" | "auction" | null;
+  artistName: string | null;
+  watchedAt: string | null;
+}
+
+const WATCH_STATUS_LABELS: Record<NonNullable<WatchedArtwork["status"]>, string> = {
+  sale: "For sale",
+  resale: "For resale",
+  auction: "In auction",
+  sold: "Not listed",
+};
+
+function WatchList({
+  items,
+  unwatchingUid,
+  onUnwatch,
+}: {
+  items: WatchedArtwork[];
+  unwatchingUid: string | null;
+  onUnwatch: (item: WatchedArtwork) => void;
+}) {
+  if (items.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-mint-500/10 flex items-center justify-center">
+          <Eye className="w-8 h-8 text-mint-500" />
+        </div>
+        <h3 className="text-lg font-semibold mb-2">No watched artworks</h3>
+        <p className="text-muted-foreground mb-6">
+          Watch an artwork to hear when it is listed, repriced or gets an offer
+        </p>
+        <Link href="/gallery">
+          <Button>Browse Gallery</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {items.map((item) => {
+        const isListed = item.status === "sale" || item.status === "resale";
+
+        return (
+          <div
+            key={item.assetUid}
+            className="flex items-center justify-between gap-4 p-4 rounded-lg bg-secondary"
+          >
+            <div className="min-w-0">
+              <Link
+                href={`/art/${item.assetUid}`}
+                className="font-medium hover:text-mint-500 transition-colors"
+              >
+                {item.title || truncate(item.assetUid, 24)}
+              </Link>
+              <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-muted-foreground">
+                {item.status && (
+                  <span
+                    className={cn(
+                      "px-2 py-0.5 rounded-full",
+                      isListed
+                        ? "bg-mint-500/20 text-mint-500"
+                        : item.status === "auction"
+                          ? "bg-purple-500/20 text-purple-400"
+                          : "bg-muted text-muted-foreground"
+                    )}
+                  >
+                    {WATCH_STATUS_LABELS[item.status]}
+                  </span>
+                )}
+                {item.artistName && <span>by {item.artistName}</span>}
+              </div>
+            </div>
+
+            <div className="flex items-center gap-3 shrink-0">
+              {isListed && item.price !== null && (
+                <p className="font-semibold">{formatCurrency(item.price, item.currency)}</p>
+              )}
+              <Button
+                size="sm"
+                variant="ghost"
+                className="text-red-500 hover:text-red-600"
+                onClick={() => onUnwatch(item)}
+                disabled={unwatchingUid === item.assetUid}
+              >
+                {unwatchingUid === item.assetUid ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <X className="w-4 h-4" />
+                )}
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
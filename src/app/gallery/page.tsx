@@ -28,8 +28,8 @@ function GalleryContent() {
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState(searchParams.get("search") || "");
   const [selectedCategory, setSelectedCategory] = useState(searchParams.get("category") || "All");
-  const [selectedStatus, setSelectedStatus] = useState<"sale" | "resale" | "sold" | "all">(
-    (searchParams.get("status") as "sale" | "resale" | "sold" | "all") || "all"
+  const [selectedStatus, setSelectedStatus] = useState<"sale" | "resale" | "auction" | "sold" | "all">(
+    (searchParams.get("status") as "sale" | "resale" | "auction" | "sold" | "all") || "all"
   );
   const [minPrice, setMinPrice] = useState<string>(searchParams.get("minPrice") || "");
   const [maxPrice, setMaxPrice] = useState<string>(searchParams.get("maxPrice") || "");
@@ -97,7 +97,7 @@ function GalleryContent() {
     
     const urlSearch = searchParams.get("search") || "";
     const urlCategory = searchParams.get("category") || "All";
-    const urlStatus = (searchParams.get("status") as "sale" | "resale" | "sold" | "all") || "all";
+    const urlStatus = (searchParams.get("status") as "sale" | "resale" | "auction" | "sold" | "all") || "all";
     const urlSortBy = searchParams.get("sortBy") || "newest";
     const urlMinPrice = searchParams.get("minPrice") || "";
     const urlMaxPrice = searchParams.get("maxPrice") || "";
@@ -231,6 +231,7 @@ function GalleryContent() {
                   <SelectItem value="all">All Status</SelectItem>
                   <SelectItem value="sale">For Sale</SelectItem>
                   <SelectItem value="resale">Resale</SelectItem>
+                  <SelectItem value="auction">Auction</SelectItem>
                   <SelectItem value="sold">Sold</SelectItem>
                 </SelectContent>
               </Select>
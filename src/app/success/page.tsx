@@ -15,7 +15,7 @@ import { useAuth } from "@/context/AuthContext";
 function SuccessContent() {
   const searchParams = useSearchParams();
   const { refreshWallet, user } = useAuth();
-  const [processingStatus, setProcessingStatus] = useState<"idle" | "processing" | "success" | "error">("idle");
+  const [processingStatus, setProcessingStatus] = useState<"idle" | "processing" | "success" | "error" | "refunded">("idle");
   const [transactionData, setTransactionData] = useState<{
     artMintTransactionId?: string;
     gatewayPaymentId?: string;
@@ -75,14 +75,23 @@ function SuccessContent() {
         setProcessingStatus("processing");
         const token = await user.getIdToken();
 
-        const response = await fetch("/api/purchase/process", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${token}`,
-          },
-          body: JSON.stringify({ sessionId }),
-        });
+        const requestProcessing = () =>
+          fetch("/api/purchase/process", {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              Authorization: `Bearer ${token}`,
+            },
+            body: JSON.stringify({ sessionId }),
+          });
+
+        let response = await requestProcessing();
+
+        // 409 means the webhook is fulfilling this session right now - give it a moment
+        for (let retry = 0; response.status === 409 && retry < 3; retry++) {
+          await new Promise((resolve) => setTimeout(resolve, 3000));
+          response = await requestProcessing();
+        }
 
         const data = await response.json();
 
@@ -105,6 +114,14 @@ function SuccessContent() {
           
           // Refresh wallet after processing
           refreshWallet();
+        } else if (response.status === 410 && data.refunded) {
+          // Another buyer held the reservation - payment was refunded
+          setProcessingStatus("refunded");
+          hasProcessedRef.current = true;
+
+          if (typeof window !== "undefined") {
+            sessionStorage.removeItem(storageKey);
+          }
         } else {
           // Error response
           // Backend should return 200 even if already processed, but handle error case
@@ -243,7 +260,9 @@ function SuccessContent() {
                   Your payment has been processed successfully.
                   <br />
                   <span className="text-mint-500 font-semibold">
-                    Processing your purchase...
+                    {processingStatus === "refunded"
+                      ? "Refund issued"
+                      : "Processing your purchase..."}
                   </span>
                 </>
               )}
@@ -330,6 +349,11 @@ function SuccessContent() {
                     Processing... (If webhook is running, this will complete automatically)
                   </p>
                 )}
+                {processingStatus === "refunded" && (
+                  <p className="text-sm text-yellow-500">
+                    This artwork was reserved by another buyer. Your payment has been refunded.
+                  </p>
+                )}
               </motion.div>
             )}
 
@@ -0,0 +1,330 @@
+"use client";
+
+import React, { useState, useEffect, useCallback, Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import {
+  ShieldCheck,
+  ShieldAlert,
+  Upload,
+  Loader2,
+  CheckCircle,
+  XCircle,
+  User,
+} from "lucide-react";
+import { log } from "@/lib/logger";
+import { Header } from "@/components/shared/Header";
+import { Footer } from "@/components/shared/Footer";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { FormattedDate } from "@/components/shared/FormattedDate";
+import { cn } from "@/lib/utils";
+
+interface VerificationResult {
+  assetUid: string;
+  valid: boolean;
+  signatureValid: boolean;
+  current: boolean;
+  checks: {
+    fileHash: boolean;
+    artist: boolean;
+    ownershipHistory: boolean;
+  } | null;
+  issues: string[];
+}
+
+interface CertificateSummary {
+  title: string;
+  artist: string | null;
+  issuedAt: string;
+  owners: Array<{
+    user_name: string | null;
+    purchase_date: string | null;
+    transaction_id: string | null;
+  }>;
+}
+
+function summarize(certificateJson: string): CertificateSummary | null {
+  try {
+    const { certificate } = JSON.parse(certificateJson);
+    return {
+      title: certificate.asset.title,
+      artist: certificate.artist.name,
+      issuedAt: certificate.issuedAt,
+      owners: certificate.ownershipHistory || [],
+    };
+  } catch {
+    return null;
+  }
+}
+
+function CheckRow({ label, passed }: { label: string; passed: boolean }) {
+  return (
+    <div className="flex items-center justify-between py-2">
+      <span className="text-sm">{label}</span>
+      {passed ? (
+        <CheckCircle className="w-5 h-5 text-mint-500" />
+      ) : (
+        <XCircle className="w-5 h-5 text-red-500" />
+      )}
+    </div>
+  );
+}
+
+function VerifyContent() {
+  const searchParams = useSearchParams();
+  const assetParam = searchParams.get("asset");
+  const [certificateJson, setCertificateJson] = useState("");
+  const [result, setResult] = useState<VerificationResult | null>(null);
+  const [summary, setSummary] = useState<CertificateSummary | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const verify = useCallback(async (json: string) => {
+    setVerifying(true);
+    setError(null);
+    setResult(null);
+    setSummary(null);
+
+    try {
+      const response = await fetch("/api/certificates/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: json,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to verify certificate");
+      }
+
+      setResult(data);
+      setSummary(summarize(json));
+    } catch (err: any) {
+      log.error("Error verifying certificate", err);
+      setError(err.message || "Failed to verify certificate");
+    } finally {
+      setVerifying(false);
+    }
+  }, []);
+
+  // /verify?asset=<uid>: issue a fresh certificate and verify it
+  useEffect(() => {
+    if (!assetParam) return;
+
+    const loadCertificate = async () => {
+      try {
+        const response = await fetch(`/api/assets/${assetParam}/certificate`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load certificate");
+        }
+
+        const json = JSON.stringify(data, null, 2);
+        setCertificateJson(json);
+        await verify(json);
+      } catch (err: any) {
+        log.error("Error loading certificate", err);
+        setError(err.message || "Failed to load certificate");
+      }
+    };
+
+    loadCertificate();
+  }, [assetParam, verify]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setCertificateJson(await file.text());
+    setResult(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gallery-dark">
+      <Header />
+
+      <main className="pt-24 pb-16">
+        <div className="container mx-auto px-4 max-w-3xl">
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mb-8"
+          >
+            <h1 className="text-4xl md:text-5xl font-bold mb-4">
+              Verify <span className="text-mint-500">Provenance</span>
+            </h1>
+            <p className="text-xl text-muted-foreground">
+              Paste or upload an ArtMint certificate to check its signature and
+              compare it with the artwork&apos;s ownership today.
+            </p>
+          </motion.div>
+
+          <Card className="mb-6">
+            <CardContent className="p-6 space-y-4">
+              <textarea
+                value={certificateJson}
+                onChange={(e) => {
+                  setCertificateJson(e.target.value);
+                  setResult(null);
+                }}
+                placeholder='{ "certificate": { ... }, "signature": { ... } }'
+                rows={10}
+                className="flex w-full rounded-lg border border-input bg-card px-4 py-2 text-sm font-mono text-foreground ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-mint-500/50 focus-visible:border-mint-500 transition-all duration-200 resize-y"
+              />
+              <div className="flex flex-wrap items-center gap-3">
+                <Button
+                  onClick={() => verify(certificateJson)}
+                  disabled={verifying || !certificateJson.trim()}
+                >
+                  {verifying ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <ShieldCheck className="w-4 h-4 mr-2" />
+                  )}
+                  Verify Certificate
+                </Button>
+                <label className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground cursor-pointer">
+                  <Upload className="w-4 h-4" />
+                  Upload file
+                  <input
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={handleFile}
+                  />
+                </label>
+              </div>
+              {error && <p className="text-sm text-red-500">{error}</p>}
+            </CardContent>
+          </Card>
+
+          {result && (
+            <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+              <Card>
+                <CardContent className="p-6">
+                  <div
+                    className={cn(
+                      "flex items-center gap-3 p-4 rounded-lg mb-6",
+                      result.valid
+                        ? "bg-mint-500/10 border border-mint-500/20"
+                        : "bg-red-500/10 border border-red-500/20"
+                    )}
+                  >
+                    {result.valid ? (
+                      <ShieldCheck className="w-8 h-8 text-mint-500" />
+                    ) : (
+                      <ShieldAlert className="w-8 h-8 text-red-500" />
+                    )}
+                    <div>
+                      <p className="font-semibold">
+                        {result.valid ? "Authentic certificate" : "Certificate could not be verified"}
+                      </p>
+                      {result.valid && (
+                        <p className="text-sm text-muted-foreground">
+                          {result.current
+                            ? "The certified owner still owns this artwork."
+                            : "The artwork has changed hands since this certificate was issued."}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+
+                  {summary && (
+                    <div className="mb-6">
+                      <Link
+                        href={`/art/${result.assetUid}`}
+                        className="text-lg font-semibold hover:text-mint-500 transition-colors"
+                      >
+                        {summary.title}
+                      </Link>
+                      <p className="text-sm text-muted-foreground">
+                        by {summary.artist || "Unknown artist"} · issued{" "}
+                        <FormattedDate date={summary.issuedAt} />
+                      </p>
+                    </div>
+                  )}
+
+                  <div className="divide-y divide-border mb-6">
+                    <CheckRow label="Signature" passed={result.signatureValid} />
+                    {result.checks && (
+                      <>
+                        <CheckRow label="Artwork file" passed={result.checks.fileHash} />
+                        <CheckRow label="Artist" passed={result.checks.artist} />
+                        <CheckRow
+                          label="Ownership history"
+                          passed={result.checks.ownershipHistory}
+                        />
+                      </>
+                    )}
+                  </div>
+
+                  {result.issues.length > 0 && (
+                    <div className="space-y-2 mb-6">
+                      {result.issues.map((issue) => (
+                        <p key={issue} className="flex items-center gap-2 text-sm text-muted-foreground">
+                          <ShieldAlert className="w-4 h-4 shrink-0" />
+                          {issue}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+
+                  {summary && summary.owners.length > 0 && (
+                    <div>
+                      <h2 className="text-lg font-semibold mb-3">Certified Owners</h2>
+                      <div className="space-y-2">
+                        {summary.owners.map((owner, index) => (
+                          <div
+                            key={owner.transaction_id || `owner-${index}`}
+                            className="flex items-center justify-between p-3 rounded-lg bg-secondary"
+                          >
+                            <div className="flex items-center gap-3">
+                              <User className="w-4 h-4 text-mint-500" />
+                              <div>
+                                <p className="text-sm font-medium">
+                                  {owner.user_name || `Owner ${index + 1}`}
+                                </p>
+                                <p className="text-xs text-muted-foreground font-mono">
+                                  {owner.transaction_id || "N/A"}
+                                </p>
+                              </div>
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                              <FormattedDate date={owner.purchase_date} />
+                            </p>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </motion.div>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
+
+export default function VerifyPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-gallery-dark">
+        <Header />
+        <main className="container mx-auto px-4 py-8">
+          <div className="flex items-center justify-center min-h-[60vh]">
+            <div className="text-muted-foreground">Loading...</div>
+          </div>
+        </main>
+        <Footer />
+      </div>
+    }>
+      <VerifyContent />
+    </Suspense>
+  );
+}
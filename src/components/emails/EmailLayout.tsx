@@ -0,0 +1,92 @@
+import React from "react";
+
+/**
+ * Shared shell for transactional emails. Email clients ignore stylesheets,
+ * so everything is styled inline.
+ */
+
+export const emailStyles = {
+  heading: { fontSize: "20px", fontWeight: 700, margin: "0 0 16px" },
+  paragraph: { fontSize: "15px", lineHeight: "24px", margin: "0 0 16px" },
+  muted: { fontSize: "13px", lineHeight: "20px", color: "#8A8A8A", margin: "0 0 8px" },
+  table: { width: "100%", borderCollapse: "collapse" as const, margin: "0 0 24px" },
+  label: { padding: "8px 0", fontSize: "14px", color: "#8A8A8A" },
+  value: { padding: "8px 0", fontSize: "14px", textAlign: "right" as const, fontWeight: 600 },
+  button: {
+    display: "inline-block",
+    padding: "12px 24px",
+    borderRadius: "8px",
+    backgroundColor: "#00F5A0",
+    color: "#0D0D0D",
+    fontSize: "15px",
+    fontWeight: 700,
+    textDecoration: "none",
+  },
+  link: { color: "#00C280" },
+};
+
+interface EmailLayoutProps {
+  // Inbox preview line
+  preview: string;
+  children: React.ReactNode;
+}
+
+export function EmailLayout({ preview, children }: EmailLayoutProps) {
+  return (
+    <html lang="en">
+      {/* Rendered to static HTML for email, not a Next.js page */}
+      {/* eslint-disable-next-line @next/next/no-head-element */}
+      <head>
+        <meta charSet="utf-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+      </head>
+      <body
+        style={{
+          margin: 0,
+          padding: "24px 0",
+          backgroundColor: "#0D0D0D",
+          fontFamily: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
+          color: "#F5F5F5",
+        }}
+      >
+        <div style={{ display: "none", maxHeight: 0, overflow: "hidden" }}>{preview}</div>
+        <div
+          style={{
+            maxWidth: "560px",
+            margin: "0 auto",
+            padding: "32px",
+            backgroundColor: "#1A1A1A",
+            border: "1px solid #2A2A2A",
+            borderRadius: "12px",
+          }}
+        >
+          <p style={{ fontSize: "22px", fontWeight: 700, margin: "0 0 24px" }}>
+            Art<span style={{ color: "#00F5A0" }}>Mint</span>
+          </p>
+          {children}
+        </div>
+        <p style={{ ...emailStyles.muted, textAlign: "center", marginTop: "16px" }}>
+          You received this email because of activity on your ArtMint account.
+        </p>
+      </body>
+    </html>
+  );
+}
+
+/**
+ * Label / value rows, e.g. a receipt's line items
+ */
+export function DetailsTable({ rows }: { rows: [string, React.ReactNode][] }) {
+  return (
+    <table style={emailStyles.table}>
+      <tbody>
+        {rows.map(([label, value]) => (
+          <tr key={label} style={{ borderBottom: "1px solid #2A2A2A" }}>
+            <td style={emailStyles.label}>{label}</td>
+            <td style={emailStyles.value}>{value}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
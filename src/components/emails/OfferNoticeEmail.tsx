@@ -0,0 +1,85 @@
+import React from "react";
+import { EmailLayout, DetailsTable, emailStyles } from "@/components/emails/EmailLayout";
+import { formatCurrency } from "@/lib/utils";
+
+export type OfferNoticeEvent = "received" | "accepted" | "rejected";
+
+export interface OfferNoticeEmailProps {
+  event: OfferNoticeEvent;
+  recipientName: string;
+  buyerName: string;
+  assetTitle: string;
+  amount: number;
+  currency: string;
+  message?: string | null; // The buyer's note on a new offer
+  expiresAt?: string | null; // ISO timestamp; when a new offer expires
+  paymentDeadline?: string | null; // ISO timestamp; when an accepted offer lapses
+  artworkUrl: string;
+}
+
+const HEADINGS: Record<OfferNoticeEvent, string> = {
+  received: "You received an offer",
+  accepted: "Your offer was accepted",
+  rejected: "Your offer was declined",
+};
+
+export function OfferNoticeEmail({
+  event,
+  recipientName,
+  buyerName,
+  assetTitle,
+  amount,
+  currency,
+  message,
+  expiresAt,
+  paymentDeadline,
+  artworkUrl,
+}: OfferNoticeEmailProps) {
+  const price = formatCurrency(amount, currency);
+  const rows: [string, React.ReactNode][] = [
+    ["Artwork", assetTitle],
+    ["Offer", price],
+  ];
+  if (event === "received") rows.splice(1, 0, ["From", buyerName]);
+  if (event === "received" && expiresAt) rows.push(["Respond by", new Date(expiresAt).toUTCString()]);
+  if (event === "accepted" && paymentDeadline) {
+    rows.push(["Pay by", new Date(paymentDeadline).toUTCString()]);
+  }
+
+  return (
+    <EmailLayout preview={`${HEADINGS[event]}: ${assetTitle}`}>
+      <h1 style={emailStyles.heading}>{HEADINGS[event]}</h1>
+      <p style={emailStyles.paragraph}>
+        {event === "received" && (
+          <>
+            Hi {recipientName}, {buyerName} offered {price} for &ldquo;{assetTitle}&rdquo;.
+          </>
+        )}
+        {event === "accepted" && (
+          <>
+            Hi {recipientName}, the owner of &ldquo;{assetTitle}&rdquo; accepted your {price}{" "}
+            offer. Complete your purchase before the payment deadline, or the offer lapses.
+          </>
+        )}
+        {event === "rejected" && (
+          <>
+            Hi {recipientName}, your {price} offer on &ldquo;{assetTitle}&rdquo; was declined.
+          </>
+        )}
+      </p>
+      {event === "received" && message && (
+        <p style={{ ...emailStyles.paragraph, fontStyle: "italic" }}>&ldquo;{message}&rdquo;</p>
+      )}
+      <DetailsTable rows={rows} />
+      <p style={emailStyles.paragraph}>
+        <a href={artworkUrl} style={emailStyles.button}>
+          {event === "received"
+            ? "Review Offer"
+            : event === "accepted"
+              ? "Complete Purchase"
+              : "View Artwork"}
+        </a>
+      </p>
+    </EmailLayout>
+  );
+}
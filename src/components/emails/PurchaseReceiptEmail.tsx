@@ -0,0 +1,60 @@
+import React from "react";
+import { EmailLayout, DetailsTable, emailStyles } from "@/components/emails/EmailLayout";
+import { formatCurrency } from "@/lib/utils";
+
+export interface PurchaseReceiptEmailProps {
+  buyerName: string;
+  assetTitle: string;
+  editionLabel?: string | null; // e.g. "3/10" for a limited edition
+  amount: number;
+  currency: string;
+  paymentMethod: "card" | "wallet";
+  transactionId: string;
+  purchaseDate: string; // ISO timestamp
+  artworkUrl: string;
+  provenanceUrl: string;
+}
+
+export function PurchaseReceiptEmail({
+  buyerName,
+  assetTitle,
+  editionLabel,
+  amount,
+  currency,
+  paymentMethod,
+  transactionId,
+  purchaseDate,
+  artworkUrl,
+  provenanceUrl,
+}: PurchaseReceiptEmailProps) {
+  const artwork = editionLabel ? `${assetTitle} (Edition ${editionLabel})` : assetTitle;
+
+  return (
+    <EmailLayout preview={`Your receipt for ${artwork}`}>
+      <h1 style={emailStyles.heading}>Thanks for your purchase</h1>
+      <p style={emailStyles.paragraph}>
+        Hi {buyerName}, &ldquo;{artwork}&rdquo; is now in your collection.
+      </p>
+      <DetailsTable
+        rows={[
+          ["Artwork", artwork],
+          ["Amount", formatCurrency(amount, currency)],
+          ["Paid with", paymentMethod === "wallet" ? "Wallet balance" : "Card"],
+          ["Date", new Date(purchaseDate).toUTCString()],
+          ["Transaction ID", <code key="transactionId">{transactionId}</code>],
+        ]}
+      />
+      <p style={emailStyles.paragraph}>
+        <a href={artworkUrl} style={emailStyles.button}>
+          View Artwork
+        </a>
+      </p>
+      <p style={emailStyles.muted}>
+        Your ownership is recorded in the artwork&apos;s provenance. Verify it at any time:{" "}
+        <a href={provenanceUrl} style={emailStyles.link}>
+          {provenanceUrl}
+        </a>
+      </p>
+    </EmailLayout>
+  );
+}
@@ -0,0 +1,46 @@
+import React from "react";
+import { EmailLayout, DetailsTable, emailStyles } from "@/components/emails/EmailLayout";
+import { formatCurrency } from "@/lib/utils";
+
+export interface RefundNoticeEmailProps {
+  buyerName: string;
+  assetTitle: string;
+  amount: number;
+  currency: string;
+  reason: string;
+  transactionId?: string | null; // Compensating ledger entry, if the purchase was completed
+  artworkUrl: string;
+}
+
+export function RefundNoticeEmail({
+  buyerName,
+  assetTitle,
+  amount,
+  currency,
+  reason,
+  transactionId,
+  artworkUrl,
+}: RefundNoticeEmailProps) {
+  const rows: [string, React.ReactNode][] = [
+    ["Artwork", assetTitle],
+    ["Refunded", formatCurrency(amount, currency)],
+    ["Reason", reason],
+  ];
+  if (transactionId) rows.push(["Transaction ID", <code key="transactionId">{transactionId}</code>]);
+
+  return (
+    <EmailLayout preview={`Your payment for ${assetTitle} was refunded`}>
+      <h1 style={emailStyles.heading}>Your payment was refunded</h1>
+      <p style={emailStyles.paragraph}>
+        Hi {buyerName}, we refunded your payment for &ldquo;{assetTitle}&rdquo; to your
+        original payment method. Card refunds usually appear within 5–10 business days.
+      </p>
+      <DetailsTable rows={rows} />
+      <p style={emailStyles.paragraph}>
+        <a href={artworkUrl} style={emailStyles.link}>
+          View the artwork
+        </a>
+      </p>
+    </EmailLayout>
+  );
+}
@@ -0,0 +1,55 @@
+import React from "react";
+import { EmailLayout, DetailsTable, emailStyles } from "@/components/emails/EmailLayout";
+import { formatCurrency } from "@/lib/utils";
+
+export interface SaleConfirmationEmailProps {
+  sellerName: string;
+  assetTitle: string;
+  editionLabel?: string | null;
+  amount: number;
+  currency: string;
+  platformFee: number;
+  royalty: number; // Paid to the artist on resales
+  proceeds: number; // Credited to the seller's wallet
+  transactionId: string; // The seller's proceeds CREDIT
+  artworkUrl: string;
+}
+
+export function SaleConfirmationEmail({
+  sellerName,
+  assetTitle,
+  editionLabel,
+  amount,
+  currency,
+  platformFee,
+  royalty,
+  proceeds,
+  transactionId,
+  artworkUrl,
+}: SaleConfirmationEmailProps) {
+  const artwork = editionLabel ? `${assetTitle} (Edition ${editionLabel})` : assetTitle;
+  const rows: [string, React.ReactNode][] = [
+    ["Artwork", artwork],
+    ["Sale price", formatCurrency(amount, currency)],
+  ];
+  if (platformFee > 0) rows.push(["Platform fee", `-${formatCurrency(platformFee, currency)}`]);
+  if (royalty > 0) rows.push(["Artist royalty", `-${formatCurrency(royalty, currency)}`]);
+  rows.push(["Credited to your wallet", formatCurrency(proceeds, currency)]);
+  rows.push(["Transaction ID", <code key="transactionId">{transactionId}</code>]);
+
+  return (
+    <EmailLayout preview={`${artwork} sold for ${formatCurrency(amount, currency)}`}>
+      <h1 style={emailStyles.heading}>Your artwork sold</h1>
+      <p style={emailStyles.paragraph}>
+        Hi {sellerName}, &ldquo;{artwork}&rdquo; has a new owner. The proceeds are in your
+        wallet.
+      </p>
+      <DetailsTable rows={rows} />
+      <p style={emailStyles.paragraph}>
+        <a href={artworkUrl} style={emailStyles.button}>
+          View Artwork
+        </a>
+      </p>
+    </EmailLayout>
+  );
+}
@@ -4,7 +4,7 @@ import React from "react";
 import Image from "next/image";
 import Link from "next/link";
 import { motion } from "framer-motion";
-import { Heart, Eye, User } from "lucide-react";
+import { Heart, Eye, User, Layers } from "lucide-react";
 import { formatCurrency } from "@/lib/utils";
 import type { Asset, ArtworkMetadata } from "@/lib/contentstack";
 
@@ -15,6 +15,8 @@ interface ArtCardProps {
 
 export function ArtCard({ artwork, index = 0 }: ArtCardProps) {
   const metadata = artwork.metadata as ArtworkMetadata | undefined;
+  const editionSize = metadata?.editionSize || 0;
+  const editionsRemaining = Math.max(editionSize - (metadata?.editionsSold || 0), 0);
 
   return (
     <motion.div
@@ -48,10 +50,22 @@ export function ArtCard({ artwork, index = 0 }: ArtCardProps) {
             </div>
 
             {/* Status Badge */}
-            {metadata?.status === "sold" && (
+            {metadata?.editionNumber ? (
               <div className="absolute top-3 right-3">
                 <span className="px-2 py-1 text-xs font-medium rounded-full bg-mint-500/90 text-gallery-dark">
-                  Sold
+                  Edition {metadata.editionNumber}/{editionSize}
+                </span>
+              </div>
+            ) : metadata?.status === "sold" ? (
+              <div className="absolute top-3 right-3">
+                <span className="px-2 py-1 text-xs font-medium rounded-full bg-mint-500/90 text-gallery-dark">
+                  {editionSize > 0 ? "Sold Out" : "Sold"}
+                </span>
+              </div>
+            ) : metadata?.status === "auction" && (
+              <div className="absolute top-3 right-3">
+                <span className="px-2 py-1 text-xs font-medium rounded-full bg-mint-500/90 text-gallery-dark">
+                  Auction
                 </span>
               </div>
             )}
@@ -85,6 +99,16 @@ export function ArtCard({ artwork, index = 0 }: ArtCardProps) {
                 </span>
               )}
             </div>
+
+            {/* Edition Supply */}
+            {editionSize > 0 && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Layers className="w-4 h-4" />
+                <span>
+                  {editionsRemaining} of {editionSize} remaining
+                </span>
+              </div>
+            )}
           </div>
         </div>
       </Link>
@@ -0,0 +1,407 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import { Gavel, Loader2, Clock, ShoppingCart, X, User } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/context/AuthContext";
+import { toast } from "@/hooks/useToast";
+import { formatCurrency, cn } from "@/lib/utils";
+import { FormattedDate } from "@/components/shared/FormattedDate";
+import { log } from "@/lib/logger";
+
+interface AuctionState {
+  id: string;
+  status: "open" | "closed" | "completed" | "unsold" | "cancelled";
+  currency: string;
+  startingPrice: number;
+  minimumBid: number;
+  hasReserve: boolean;
+  reserveMet: boolean;
+  extensionSeconds: number;
+  startsAt: string;
+  endsAt: string;
+  highestBid: AuctionBidItem | null;
+  bidCount: number;
+  isSeller: boolean;
+  isWinner: boolean;
+  paymentDeadline: string | null;
+  checkoutUrl: string | null;
+}
+
+interface AuctionBidItem {
+  id: string;
+  bidderName: string;
+  amount: number;
+  placedAt: string;
+  mine: boolean;
+}
+
+interface AuctionPanelProps {
+  assetUid: string;
+  // Pay for a won auction when no checkout is open yet
+  onCompletePurchase?: () => void;
+  purchasing?: boolean;
+  // Called when the auction is cancelled and the listing restored
+  onCancelled?: () => void;
+  className?: string;
+}
+
+// How often the panel refreshes while bidding is open
+const REFRESH_INTERVAL_MS = 15_000;
+
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const clock = [hours, minutes, seconds].map((n) => String(n).padStart(2, "0")).join(":");
+  return days > 0 ? `${days}d ${clock}` : clock;
+}
+
+/**
+ * Live auction state for an artwork: countdown, current bid, bid form and
+ * bid history. The seller can cancel before the first bid; the winner
+ * completes their purchase here.
+ */
+export function AuctionPanel({
+  assetUid,
+  onCompletePurchase,
+  purchasing = false,
+  onCancelled,
+  className,
+}: AuctionPanelProps) {
+  const { user } = useAuth();
+  const [auction, setAuction] = useState<AuctionState | null>(null);
+  const [bids, setBids] = useState<AuctionBidItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [bidAmount, setBidAmount] = useState(0);
+  const [bidding, setBidding] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  const loadAuction = useCallback(async () => {
+    try {
+      const token = user ? await user.getIdToken() : null;
+      const response = await fetch(`/api/assets/${assetUid}/bids`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setAuction(data.auction);
+        setBids(data.bids || []);
+      }
+    } catch (error: any) {
+      log.error("Error loading auction", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [assetUid, user]);
+
+  useEffect(() => {
+    loadAuction();
+  }, [loadAuction]);
+
+  // Keep the minimum bid in the form as others bid
+  useEffect(() => {
+    if (auction) {
+      setBidAmount((current) => Math.max(current, auction.minimumBid));
+    }
+  }, [auction]);
+
+  const isOpen = auction?.status === "open";
+
+  // Countdown tick, and a refresh so new bids and extensions show up
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const tick = setInterval(() => setNow(Date.now()), 1000);
+    const refresh = setInterval(loadAuction, REFRESH_INTERVAL_MS);
+    return () => {
+      clearInterval(tick);
+      clearInterval(refresh);
+    };
+  }, [isOpen, loadAuction]);
+
+  const startsAt = auction ? Date.parse(auction.startsAt) : 0;
+  const endsAt = auction ? Date.parse(auction.endsAt) : 0;
+  const started = now >= startsAt;
+  const ended = now >= endsAt;
+
+  // Reload once the clock runs out so the server closes the auction
+  useEffect(() => {
+    if (isOpen && ended) {
+      loadAuction();
+    }
+  }, [isOpen, ended, loadAuction]);
+
+  const handleBid = async () => {
+    if (!user) {
+      toast({
+        title: "Sign in required",
+        description: "Please sign in to bid on this artwork.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!auction || bidAmount < auction.minimumBid) {
+      toast({
+        title: "Bid too low",
+        description: `Bids must be at least ${formatCurrency(
+          auction?.minimumBid || 0,
+          auction?.currency || "USD"
+        )}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setBidding(true);
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch(`/api/assets/${assetUid}/bids`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ amount: bidAmount }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to place bid");
+      }
+
+      toast({
+        title: "Bid placed",
+        description: `You are the highest bidder at ${formatCurrency(
+          data.bid.amount,
+          data.auction.currency
+        )}.`,
+        variant: "success",
+      });
+
+      await loadAuction();
+    } catch (error: any) {
+      toast({
+        title: "Bid failed",
+        description: error.message,
+        variant: "destructive",
+      });
+      await loadAuction();
+    } finally {
+      setBidding(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!user) return;
+
+    setCancelling(true);
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch(`/api/assets/${assetUid}/auction`, {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to cancel auction");
+      }
+
+      toast({
+        title: "Auction cancelled",
+        description: "Your artwork has been returned to its previous listing.",
+        variant: "success",
+      });
+
+      onCancelled?.();
+    } catch (error: any) {
+      toast({
+        title: "Cancel failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className={cn("flex items-center justify-center py-6", className)}>
+        <Loader2 className="w-6 h-6 animate-spin text-mint-500" />
+      </div>
+    );
+  }
+
+  if (!auction) {
+    return (
+      <div className={cn("p-4 rounded-lg bg-muted border border-border text-center", className)}>
+        <p className="text-sm text-muted-foreground">This auction has ended.</p>
+      </div>
+    );
+  }
+
+  const currency = auction.currency;
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      <div className="p-4 rounded-lg bg-secondary space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm text-muted-foreground">
+              {auction.highestBid ? "Current bid" : "Starting bid"}
+            </p>
+            <p className="text-2xl font-bold text-mint-500">
+              {formatCurrency(auction.highestBid?.amount ?? auction.startingPrice, currency)}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {auction.bidCount} {auction.bidCount === 1 ? "bid" : "bids"}
+              {auction.hasReserve && (auction.reserveMet ? " · Reserve met" : " · Reserve not met")}
+            </p>
+          </div>
+          {isOpen && (
+            <div className="text-right">
+              <p className="text-sm text-muted-foreground flex items-center gap-1 justify-end">
+                <Clock className="w-4 h-4" />
+                {started ? "Ends in" : "Starts in"}
+              </p>
+              <p className="text-xl font-mono font-semibold">
+                {ended ? "Closing..." : formatRemaining((started ? endsAt : startsAt) - now)}
+              </p>
+            </div>
+          )}
+        </div>
+        {isOpen && auction.extensionSeconds > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Bids in the final {Math.round(auction.extensionSeconds / 60)} minutes extend the
+            auction.
+          </p>
+        )}
+      </div>
+
+      {isOpen && started && !ended && !auction.isSeller && (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              min={auction.minimumBid}
+              step="0.01"
+              value={bidAmount}
+              onChange={(e) => setBidAmount(parseFloat(e.target.value) || 0)}
+            />
+            <Button onClick={handleBid} disabled={bidding}>
+              {bidding ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Gavel className="w-4 h-4 mr-2" />
+              )}
+              Place Bid
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Minimum bid {formatCurrency(auction.minimumBid, currency)}
+            {auction.highestBid?.mine && " · You are the highest bidder"}
+          </p>
+        </div>
+      )}
+
+      {isOpen && auction.isSeller && auction.bidCount === 0 && (
+        <Button
+          variant="outline"
+          size="lg"
+          className="w-full border-red-500/50 text-red-500 hover:bg-red-500/10 hover:text-red-600"
+          onClick={handleCancel}
+          disabled={cancelling}
+        >
+          {cancelling ? (
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+          ) : (
+            <X className="w-5 h-5 mr-2" />
+          )}
+          Cancel Auction
+        </Button>
+      )}
+
+      {auction.status === "closed" &&
+        (auction.isWinner ? (
+          <div className="p-4 rounded-lg bg-mint-500/10 border border-mint-500/20 text-center">
+            <p className="font-semibold text-lg mb-1 text-mint-500">You won!</p>
+            <p className="text-sm text-muted-foreground mb-3">
+              Complete your purchase at{" "}
+              {formatCurrency(auction.highestBid?.amount || 0, currency)}
+              {auction.paymentDeadline && (
+                <>
+                  {" "}by <FormattedDate date={auction.paymentDeadline} />
+                </>
+              )}
+              .
+            </p>
+            <Button
+              size="lg"
+              className="w-full"
+              onClick={() =>
+                auction.checkoutUrl
+                  ? (window.location.href = auction.checkoutUrl)
+                  : onCompletePurchase?.()
+              }
+              disabled={purchasing}
+            >
+              {purchasing ? (
+                <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+              ) : (
+                <ShoppingCart className="w-5 h-5 mr-2" />
+              )}
+              Complete Purchase
+            </Button>
+          </div>
+        ) : (
+          <div className="p-4 rounded-lg bg-muted border border-border text-center">
+            <p className="font-semibold mb-1">Auction ended</p>
+            <p className="text-sm text-muted-foreground">
+              Won by {auction.highestBid?.bidderName || "another bidder"} at{" "}
+              {formatCurrency(auction.highestBid?.amount || 0, currency)}.
+            </p>
+          </div>
+        ))}
+
+      {bids.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold mb-2">Bid History</h3>
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {bids.map((bid, index) => (
+              <div
+                key={bid.id}
+                className={cn(
+                  "flex items-center justify-between p-3 rounded-lg",
+                  index === 0 ? "bg-mint-500/10 border border-mint-500/20" : "bg-secondary"
+                )}
+              >
+                <div className="flex items-center gap-2">
+                  <User className="w-4 h-4 text-muted-foreground" />
+                  <div>
+                    <p className="text-sm font-medium">{bid.mine ? "You" : bid.bidderName}</p>
+                    <p className="text-xs text-muted-foreground">
+                      <FormattedDate date={bid.placedAt} />
+                    </p>
+                  </div>
+                </div>
+                <p className="font-semibold">{formatCurrency(bid.amount, currency)}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
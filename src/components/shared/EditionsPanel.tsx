@@ -0,0 +1,358 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import { Layers, Loader2, ShoppingCart, Wallet, DollarSign, X, User } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/context/AuthContext";
+import { toast } from "@/hooks/useToast";
+import { formatCurrency, cn } from "@/lib/utils";
+import { log } from "@/lib/logger";
+
+interface EditionSeriesState {
+  editionSize: number;
+  minted: number;
+  remaining: number;
+}
+
+interface EditionItem {
+  id: string;
+  editionNumber: number;
+  editionSize: number;
+  label: string;
+  status: "owned" | "resale";
+  price: number | null;
+  currency: string;
+  ownerName: string;
+  isMine: boolean;
+}
+
+interface EditionsPanelProps {
+  assetUid: string;
+  // Primary price of a new edition
+  price: number;
+  currency: string;
+  // The artist sells new editions but cannot buy them
+  isArtist?: boolean;
+  // Whether new editions are still on sale (the master's listing)
+  onSale?: boolean;
+  // Buy a new edition (no editionNumber) or one listed for resale
+  onPurchase?: (paymentMethod: "card" | "wallet", editionNumber?: number) => void;
+  purchasing?: boolean;
+  className?: string;
+}
+
+/**
+ * Supply and editions of a limited-edition artwork. Collectors buy the next
+ * edition or one listed for resale here; owners list and withdraw their own.
+ */
+export function EditionsPanel({
+  assetUid,
+  price,
+  currency,
+  isArtist = false,
+  onSale = true,
+  onPurchase,
+  purchasing = false,
+  className,
+}: EditionsPanelProps) {
+  const { user, wallet } = useAuth();
+  const [series, setSeries] = useState<EditionSeriesState | null>(null);
+  const [editions, setEditions] = useState<EditionItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [listing, setListing] = useState<{ editionNumber: number; price: number } | null>(null);
+  const [updating, setUpdating] = useState<number | null>(null);
+
+  const loadEditions = useCallback(async () => {
+    try {
+      const token = user ? await user.getIdToken() : null;
+      const response = await fetch(`/api/assets/${assetUid}/editions`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setSeries(data.series);
+        setEditions(data.editions || []);
+      }
+    } catch (error: any) {
+      log.error("Error loading editions", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [assetUid, user]);
+
+  useEffect(() => {
+    loadEditions();
+  }, [loadEditions]);
+
+  const canAfford = (amount: number) => !!wallet && amount > 0 && wallet.balance >= amount;
+
+  const handleList = async () => {
+    if (!user || !listing) return;
+
+    setUpdating(listing.editionNumber);
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch(
+        `/api/assets/${assetUid}/editions/${listing.editionNumber}/resale`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({ price: listing.price }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to list edition");
+      }
+
+      toast({
+        title: "Edition listed",
+        description: `Edition ${data.edition.label} is listed at ${formatCurrency(
+          data.edition.price,
+          data.edition.currency
+        )}.`,
+        variant: "success",
+      });
+
+      setListing(null);
+      await loadEditions();
+    } catch (error: any) {
+      toast({
+        title: "Listing failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const handleWithdraw = async (editionNumber: number) => {
+    if (!user) return;
+
+    setUpdating(editionNumber);
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch(`/api/assets/${assetUid}/editions/${editionNumber}/resale`, {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to withdraw edition");
+      }
+
+      toast({
+        title: "Edition withdrawn",
+        description: `Edition ${data.edition.label} is no longer for sale.`,
+        variant: "success",
+      });
+
+      await loadEditions();
+    } catch (error: any) {
+      toast({
+        title: "Withdraw failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className={cn("flex items-center justify-center py-6", className)}>
+        <Loader2 className="w-6 h-6 animate-spin text-mint-500" />
+      </div>
+    );
+  }
+
+  if (!series) {
+    return null;
+  }
+
+  const canBuyNew = onSale && series.remaining > 0 && !isArtist;
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      <div className="p-4 rounded-lg bg-secondary flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Layers className="w-5 h-5 text-mint-500" />
+          <p className="font-semibold">Limited edition of {series.editionSize}</p>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {series.remaining > 0
+            ? `${series.remaining} of ${series.editionSize} remaining`
+            : "Sold out"}
+        </p>
+      </div>
+
+      {canBuyNew && (
+        <div className="space-y-2">
+          <Button
+            size="lg"
+            className="w-full"
+            onClick={() => onPurchase?.("card")}
+            disabled={purchasing}
+          >
+            {purchasing ? (
+              <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            ) : (
+              <ShoppingCart className="w-5 h-5 mr-2" />
+            )}
+            Buy Edition {series.minted + 1}/{series.editionSize}
+          </Button>
+          {canAfford(price) && (
+            <Button
+              variant="outline"
+              size="lg"
+              className="w-full"
+              onClick={() => onPurchase?.("wallet")}
+              disabled={purchasing}
+            >
+              <Wallet className="w-5 h-5 mr-2" />
+              Pay with Balance ({formatCurrency(wallet!.balance, "USD")})
+            </Button>
+          )}
+          <p className="text-xs text-muted-foreground text-center">
+            {formatCurrency(price, currency)} per edition. Edition numbers are assigned in
+            order of payment.
+          </p>
+        </div>
+      )}
+
+      {editions.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold mb-2">Editions</h3>
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {editions.map((edition) => (
+              <div
+                key={edition.id}
+                className={cn(
+                  "p-3 rounded-lg space-y-2",
+                  edition.isMine ? "bg-mint-500/10 border border-mint-500/20" : "bg-secondary"
+                )}
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <User className="w-4 h-4 text-muted-foreground" />
+                    <div>
+                      <p className="text-sm font-medium">Edition {edition.label}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {edition.isMine ? "You" : edition.ownerName}
+                      </p>
+                    </div>
+                  </div>
+                  {edition.status === "resale" && edition.price !== null ? (
+                    <p className="font-semibold">
+                      {formatCurrency(edition.price, edition.currency)}
+                    </p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">Not for sale</p>
+                  )}
+                </div>
+
+                {edition.isMine ? (
+                  listing?.editionNumber === edition.editionNumber ? (
+                    <div className="flex gap-2">
+                      <Input
+                        type="number"
+                        min="0.01"
+                        step="0.01"
+                        value={listing.price}
+                        onChange={(e) =>
+                          setListing({ ...listing, price: parseFloat(e.target.value) || 0 })
+                        }
+                      />
+                      <Button
+                        size="sm"
+                        onClick={handleList}
+                        disabled={updating === edition.editionNumber || listing.price <= 0}
+                      >
+                        {updating === edition.editionNumber && (
+                          <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                        )}
+                        List
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setListing(null)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="flex-1"
+                        onClick={() =>
+                          setListing({
+                            editionNumber: edition.editionNumber,
+                            price: edition.price ?? price,
+                          })
+                        }
+                      >
+                        <DollarSign className="w-4 h-4 mr-1" />
+                        {edition.status === "resale" ? "Update Price" : "List for Resale"}
+                      </Button>
+                      {edition.status === "resale" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="flex-1 border-red-500/50 text-red-500 hover:bg-red-500/10 hover:text-red-600"
+                          onClick={() => handleWithdraw(edition.editionNumber)}
+                          disabled={updating === edition.editionNumber}
+                        >
+                          <X className="w-4 h-4 mr-1" />
+                          Withdraw
+                        </Button>
+                      )}
+                    </div>
+                  )
+                ) : (
+                  edition.status === "resale" &&
+                  edition.price !== null && (
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        className="flex-1"
+                        onClick={() => onPurchase?.("card", edition.editionNumber)}
+                        disabled={purchasing}
+                      >
+                        <ShoppingCart className="w-4 h-4 mr-1" />
+                        Buy
+                      </Button>
+                      {canAfford(edition.price) && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="flex-1"
+                          onClick={() => onPurchase?.("wallet", edition.editionNumber)}
+                          disabled={purchasing}
+                        >
+                          <Wallet className="w-4 h-4 mr-1" />
+                          Pay with Balance
+                        </Button>
+                      )}
+                    </div>
+                  )
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -25,6 +25,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { NotificationFeed } from "@/components/shared/NotificationFeed";
 import { formatCurrency } from "@/lib/utils";
 
 export function Header() {
@@ -103,6 +104,9 @@ export function Header() {
                   </span>
                 </Link>
 
+                {/* Notifications */}
+                <NotificationFeed />
+
                 {/* User Menu */}
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
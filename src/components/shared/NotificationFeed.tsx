@@ -0,0 +1,171 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Bell, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { FormattedDate } from "@/components/shared/FormattedDate";
+import { useAuth } from "@/context/AuthContext";
+import { log } from "@/lib/logger";
+import { cn } from "@/lib/utils";
+
+interface FeedNotification {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  assetUid: string | null;
+  link: string | null;
+  read: boolean;
+  createdAt: string | null;
+}
+
+// How often the unread count is refreshed while the page is open
+const POLL_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Bell menu in the header with the signed-in user's recent notifications
+ * and an unread count. Opening a notification marks it as read.
+ */
+export function NotificationFeed() {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<FeedNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  const loadNotifications = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch("/api/notifications", {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setNotifications(data.notifications || []);
+        setUnreadCount(data.unreadCount || 0);
+      }
+    } catch (error: any) {
+      log.error("Error loading notifications", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadNotifications();
+    const interval = setInterval(loadNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadNotifications]);
+
+  const markRead = async (body: { ids: string[] } | { all: true }) => {
+    if (!user) return;
+
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch("/api/notifications", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setNotifications((current) =>
+          current.map((notification) =>
+            "all" in body || body.ids.includes(notification.id)
+              ? { ...notification, read: true }
+              : notification
+          )
+        );
+        setUnreadCount(data.unreadCount || 0);
+      }
+    } catch (error: any) {
+      log.error("Error marking notifications read", error);
+    }
+  };
+
+  return (
+    <DropdownMenu onOpenChange={(open) => open && loadNotifications()}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <span className="absolute top-1 right-1 min-w-4 h-4 px-1 rounded-full bg-mint-500 text-[10px] leading-4 font-semibold text-gallery-dark">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80" align="end">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <button
+              className="px-2 text-xs text-mint-500 hover:underline"
+              onClick={(e) => {
+                e.preventDefault();
+                markRead({ all: true });
+              }}
+            >
+              Mark all as read
+            </button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {loading && notifications.length === 0 ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-mint-500" />
+          </div>
+        ) : notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-muted-foreground">
+            You&apos;re all caught up.
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <DropdownMenuItem key={notification.id} asChild>
+                <Link
+                  href={notification.link || "/dashboard"}
+                  onClick={() => !notification.read && markRead({ ids: [notification.id] })}
+                  className={cn(
+                    "cursor-pointer flex flex-col items-start gap-0.5",
+                    !notification.read && "bg-mint-500/5"
+                  )}
+                >
+                  <span className="flex items-center gap-2 text-sm font-medium">
+                    {!notification.read && (
+                      <span className="w-2 h-2 rounded-full bg-mint-500 shrink-0" />
+                    )}
+                    {notification.title}
+                  </span>
+                  <span className="text-xs text-muted-foreground">{notification.message}</span>
+                  <FormattedDate
+                    date={notification.createdAt}
+                    className="text-xs text-muted-foreground"
+                  />
+                </Link>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import React from "react";
+import { formatCurrency, cn } from "@/lib/utils";
+import { FormattedDate } from "@/components/shared/FormattedDate";
+
+export interface OfferHistoryItem {
+  action:
+    | "offered"
+    | "countered"
+    | "accepted"
+    | "rejected"
+    | "withdrawn"
+    | "expired"
+    | "lapsed"
+    | "reinstated"
+    | "completed"
+    | "closed";
+  actor: "buyer" | "owner" | "system";
+  amount: number | null;
+  message: string | null;
+  at: string;
+}
+
+interface OfferThreadProps {
+  history: OfferHistoryItem[];
+  currency?: string;
+  viewer: "buyer" | "owner";
+  className?: string;
+}
+
+function describe(entry: OfferHistoryItem, viewer: "buyer" | "owner", currency: string) {
+  const who =
+    entry.actor === "system"
+      ? null
+      : entry.actor === viewer
+        ? "You"
+        : entry.actor === "buyer"
+          ? "Buyer"
+          : "Owner";
+  const amount = entry.amount !== null ? formatCurrency(entry.amount, currency) : "";
+
+  switch (entry.action) {
+    case "offered":
+      return `${who} offered ${amount}`;
+    case "countered":
+      return `${who} countered with ${amount}`;
+    case "accepted":
+      return `${who} accepted ${amount}`;
+    case "rejected":
+      return who ? `${who} rejected the offer` : "Offer closed";
+    case "withdrawn":
+      return `${who} withdrew the offer`;
+    case "expired":
+      return "Offer expired without a response";
+    case "lapsed":
+      return "Payment deadline passed";
+    case "reinstated":
+      return `${who} reinstated the offer`;
+    case "completed":
+      return `Purchased for ${amount}`;
+    case "closed":
+      return "Offer closed";
+  }
+}
+
+/**
+ * Negotiation history for an offer, oldest first
+ */
+export function OfferThread({ history, currency = "USD", viewer, className }: OfferThreadProps) {
+  if (history.length === 0) return null;
+
+  return (
+    <ol className={cn("space-y-2 border-l border-border pl-4", className)}>
+      {history.map((entry, index) => (
+        <li key={`${entry.at}-${index}`} className="relative">
+          <span
+            className={cn(
+              "absolute -left-[21px] top-1.5 h-2 w-2 rounded-full",
+              entry.action === "accepted" || entry.action === "completed"
+                ? "bg-mint-500"
+                : entry.actor === "system"
+                  ? "bg-muted-foreground"
+                  : "bg-purple-500"
+            )}
+          />
+          <p className="text-sm">{describe(entry, viewer, currency)}</p>
+          {entry.message && (
+            <p className="text-xs text-muted-foreground italic">&quot;{entry.message}&quot;</p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            <FormattedDate date={entry.at} />
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+}
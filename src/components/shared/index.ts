@@ -3,3 +3,6 @@ export { Footer } from "./Footer";
 export { ArtCard, ArtCardSkeleton } from "./ArtCard";
 export { LoadingSpinner, PageLoader, SectionLoader } from "./LoadingSpinner";
 
+export { OfferThread } from "./OfferThread";
+export { AuctionPanel } from "./AuctionPanel";
+export { NotificationFeed } from "./NotificationFeed";
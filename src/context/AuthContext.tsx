@@ -18,6 +18,7 @@ import {
   signInWithApple,
   logOut,
   getWalletByUserId,
+  type Transaction,
 } from "@/lib/firebase";
 
 // ==========================================
@@ -37,17 +38,9 @@ interface UserProfile {
 interface WalletData {
   id: string;
   balance: number;
-  transactions: Array<{
-    id: string;
-    type: "DEBIT" | "CREDIT";
-    amount: number;
-    timestamp: string;
-    reference: {
-      assetUid?: string;
-      stripePaymentId?: string;
-      description?: string;
-    };
-  }>;
+  // Newest page of the ledger (newest first); older pages start at nextCursor
+  transactions: Transaction[];
+  nextCursor: number | null;
 }
 
 interface AuthContextType {
@@ -0,0 +1,61 @@
+/**
+ * Per-asset write leases against an in-memory Firestore
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb } from "./fake-firestore";
+import { withAssetWriteLock } from "@/lib/asset-locks";
+
+vi.mock("firebase-admin/firestore", () => import("./fake-firestore"));
+vi.mock("firebase-admin/app", () => ({
+  getApps: () => [{ name: "test" }],
+  initializeApp: vi.fn(),
+  cert: vi.fn(),
+}));
+vi.mock("firebase-admin/auth", () => ({ getAuth: vi.fn() }));
+
+beforeEach(() => {
+  fakeDb.reset();
+});
+
+describe("withAssetWriteLock", () => {
+  it("runs concurrent writes to one asset one at a time", async () => {
+    let running = 0;
+    let overlapped = false;
+    const write = async () => {
+      running++;
+      overlapped ||= running > 1;
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      running--;
+    };
+
+    await Promise.all([
+      withAssetWriteLock("asset_1", write),
+      withAssetWriteLock("asset_1", write),
+      withAssetWriteLock("asset_1", write),
+    ]);
+
+    expect(overlapped).toBe(false);
+    expect((await fakeDb.doc("asset_write_locks/asset_1").get()).exists).toBe(false);
+  });
+
+  it("releases the lock when the write throws", async () => {
+    await expect(
+      withAssetWriteLock("asset_1", async () => {
+        throw new Error("PUT failed");
+      })
+    ).rejects.toThrow("PUT failed");
+
+    await expect(withAssetWriteLock("asset_1", async () => "written")).resolves.toBe("written");
+  });
+
+  it("takes over a lease whose holder died", async () => {
+    await fakeDb.doc("asset_write_locks/asset_1").set({
+      assetUid: "asset_1",
+      token: "dead",
+      leaseExpiresAt: Date.now() - 1,
+    });
+
+    await expect(withAssetWriteLock("asset_1", async () => "written")).resolves.toBe("written");
+  });
+});
@@ -0,0 +1,381 @@
+/**
+ * In-memory Firestore for tests
+ *
+ * Stands in for "firebase-admin/firestore" (see vi.mock in the tests).
+ * Covers the parts of the Admin SDK the server modules use: documents and
+ * subcollections, where/orderBy/limit/count queries, transactions with
+ * optimistic retries, and the serverTimestamp/increment/arrayUnion/delete
+ * sentinels.
+ */
+
+// ==========================================
+// Values
+// ==========================================
+
+export class FakeTimestamp {
+  constructor(private readonly ms: number) {}
+  toMillis() {
+    return this.ms;
+  }
+  toDate() {
+    return new Date(this.ms);
+  }
+}
+
+class Sentinel {
+  constructor(
+    readonly kind: "serverTimestamp" | "increment" | "arrayUnion" | "delete",
+    readonly amount = 0,
+    readonly elements: unknown[] = []
+  ) {}
+}
+
+export const FieldValue = {
+  serverTimestamp: () => new Sentinel("serverTimestamp"),
+  increment: (amount: number) => new Sentinel("increment", amount),
+  arrayUnion: (...elements: unknown[]) => new Sentinel("arrayUnion", 0, elements),
+  delete: () => new Sentinel("delete"),
+};
+
+export const Timestamp = {
+  now: () => new FakeTimestamp(Date.now()),
+  fromMillis: (ms: number) => new FakeTimestamp(ms),
+};
+
+type Data = Record<string, any>;
+
+function clone<T>(value: T): T {
+  if (value instanceof FakeTimestamp || value instanceof Sentinel) return value;
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, clone(v)])) as T;
+  }
+  return value;
+}
+
+function getField(data: Data, path: string): any {
+  return path.split(".").reduce((value, key) => value?.[key], data as any);
+}
+
+function setField(data: Data, path: string, value: any) {
+  const keys = path.split(".");
+  const last = keys.pop()!;
+  let target = data;
+  for (const key of keys) {
+    if (!target[key] || typeof target[key] !== "object") target[key] = {};
+    target = target[key];
+  }
+
+  if (value instanceof Sentinel) {
+    if (value.kind === "delete") delete target[last];
+    if (value.kind === "serverTimestamp") target[last] = new FakeTimestamp(Date.now());
+    if (value.kind === "increment") target[last] = (target[last] || 0) + value.amount;
+    if (value.kind === "arrayUnion") {
+      const current: unknown[] = Array.isArray(target[last]) ? target[last] : [];
+      const added = value.elements.filter(
+        (element) => !current.some((existing) => JSON.stringify(existing) === JSON.stringify(element))
+      );
+      target[last] = [...current, ...clone(added)];
+    }
+    return;
+  }
+  target[last] = clone(value);
+}
+
+function comparable(value: any) {
+  return value instanceof FakeTimestamp ? value.toMillis() : value;
+}
+
+// ==========================================
+// Documents and Queries
+// ==========================================
+
+export class FakeDocumentSnapshot {
+  constructor(
+    readonly ref: FakeDocumentReference,
+    private readonly stored: Data | undefined
+  ) {}
+  get id() {
+    return this.ref.id;
+  }
+  get exists() {
+    return this.stored !== undefined;
+  }
+  data() {
+    return this.stored === undefined ? undefined : clone(this.stored);
+  }
+  get(field: string) {
+    return this.stored === undefined ? undefined : getField(this.stored, field);
+  }
+}
+
+// The SDK's class, imported by value in firebase-admin.ts
+export const DocumentSnapshot = FakeDocumentSnapshot;
+
+export class FakeDocumentReference {
+  constructor(
+    readonly db: FakeFirestore,
+    readonly path: string
+  ) {}
+  get id() {
+    return this.path.split("/").pop()!;
+  }
+  collection(name: string) {
+    return new FakeQuery(this.db, `${this.path}/${name}`);
+  }
+  async get() {
+    return this.db.snapshot(this);
+  }
+  async set(data: Data, options?: { merge?: boolean }) {
+    this.db.write(this, "set", data, options);
+  }
+  async create(data: Data) {
+    this.db.write(this, "create", data);
+  }
+  async update(data: Data) {
+    this.db.write(this, "update", data);
+  }
+  async delete() {
+    this.db.write(this, "delete");
+  }
+}
+
+type Filter = { field: string; op: string; value: any };
+
+function matches(data: Data, { field, op, value }: Filter): boolean {
+  const actual = comparable(getField(data, field));
+  const expected = comparable(value);
+  switch (op) {
+    case "==":
+      return actual === expected;
+    case "!=":
+      return actual !== undefined && actual !== expected;
+    case "<":
+      return actual !== undefined && actual < expected;
+    case "<=":
+      return actual !== undefined && actual <= expected;
+    case ">":
+      return actual !== undefined && actual > expected;
+    case ">=":
+      return actual !== undefined && actual >= expected;
+    case "in":
+      return (value as any[]).includes(actual);
+    case "array-contains":
+      return Array.isArray(actual) && actual.includes(expected);
+    default:
+      throw new Error(`Unsupported query operator ${op}`);
+  }
+}
+
+export class FakeQuery {
+  constructor(
+    readonly db: FakeFirestore,
+    readonly path: string,
+    private readonly filters: Filter[] = [],
+    private readonly order: { field: string; direction: "asc" | "desc" }[] = [],
+    private readonly max: number | null = null
+  ) {}
+  doc(id: string = `auto_${this.db.nextId()}`) {
+    return new FakeDocumentReference(this.db, `${this.path}/${id}`);
+  }
+  where(field: string, op: string, value: any) {
+    return new FakeQuery(this.db, this.path, [...this.filters, { field, op, value }], this.order, this.max);
+  }
+  orderBy(field: string, direction: "asc" | "desc" = "asc") {
+    return new FakeQuery(this.db, this.path, this.filters, [...this.order, { field, direction }], this.max);
+  }
+  limit(max: number) {
+    return new FakeQuery(this.db, this.path, this.filters, this.order, max);
+  }
+  async add(data: Data) {
+    const ref = this.doc();
+    await ref.set(data);
+    return ref;
+  }
+  async get() {
+    return this.db.query(this.run());
+  }
+  count() {
+    return { get: async () => ({ data: () => ({ count: this.run().length }) }) };
+  }
+  run(): FakeDocumentSnapshot[] {
+    let docs = this.db
+      .documentsIn(this.path)
+      .filter((snapshot) => this.filters.every((filter) => matches(snapshot.data()!, filter)));
+
+    for (const { field, direction } of [...this.order].reverse()) {
+      docs = [...docs].sort((a, b) => {
+        const x = comparable(a.get(field));
+        const y = comparable(b.get(field));
+        const result = x === y ? 0 : x < y ? -1 : 1;
+        return direction === "desc" ? -result : result;
+      });
+    }
+    return this.max === null ? docs : docs.slice(0, this.max);
+  }
+}
+
+// ==========================================
+// Database
+// ==========================================
+
+type PendingWrite = {
+  ref: FakeDocumentReference;
+  kind: "set" | "create" | "update" | "delete";
+  data?: Data;
+  options?: { merge?: boolean };
+};
+
+export class FakeFirestore {
+  private readonly docs = new Map<string, { data: Data; version: number }>();
+  private ids = 0;
+
+  nextId() {
+    return ++this.ids;
+  }
+
+  reset() {
+    this.docs.clear();
+  }
+
+  collection(path: string) {
+    return new FakeQuery(this, path);
+  }
+
+  doc(path: string) {
+    return new FakeDocumentReference(this, path);
+  }
+
+  snapshot(ref: FakeDocumentReference) {
+    return new FakeDocumentSnapshot(ref, this.docs.get(ref.path)?.data);
+  }
+
+  version(path: string) {
+    return this.docs.get(path)?.version ?? 0;
+  }
+
+  documentsIn(collectionPath: string): FakeDocumentSnapshot[] {
+    const depth = collectionPath.split("/").length + 1;
+    return [...this.docs.keys()]
+      .filter((path) => path.startsWith(`${collectionPath}/`) && path.split("/").length === depth)
+      .map((path) => this.snapshot(new FakeDocumentReference(this, path)));
+  }
+
+  query(docs: FakeDocumentSnapshot[]) {
+    return {
+      docs,
+      empty: docs.length === 0,
+      size: docs.length,
+      forEach: (callback: (doc: FakeDocumentSnapshot) => void) => docs.forEach(callback),
+    };
+  }
+
+  write(
+    ref: FakeDocumentReference,
+    kind: PendingWrite["kind"],
+    data?: Data,
+    options?: { merge?: boolean }
+  ) {
+    const existing = this.docs.get(ref.path);
+
+    if (kind === "delete") {
+      this.docs.delete(ref.path);
+      return;
+    }
+    if (kind === "create" && existing) {
+      throw new Error(`ALREADY_EXISTS: ${ref.path}`);
+    }
+    if (kind === "update" && !existing) {
+      throw new Error(`NOT_FOUND: No document to update: ${ref.path}`);
+    }
+
+    const next: Data = kind === "update" || options?.merge ? clone(existing?.data || {}) : {};
+    for (const [field, value] of Object.entries(data || {})) {
+      if (kind === "update") {
+        setField(next, field, value);
+      } else if (options?.merge && value && typeof value === "object" && !(value instanceof Sentinel) && !Array.isArray(value) && !(value instanceof FakeTimestamp)) {
+        // Merged sets merge nested maps too
+        const merged = clone(next[field] && typeof next[field] === "object" ? next[field] : {});
+        for (const [key, nested] of Object.entries(value)) setField(merged, key, nested);
+        next[field] = merged;
+      } else {
+        setField(next, field, value);
+      }
+    }
+    this.docs.set(ref.path, { data: next, version: (existing?.version ?? 0) + 1 });
+  }
+
+  /**
+   * Optimistic transaction: reads record document versions, writes are
+   * buffered and applied on commit; the callback re-runs if a document it
+   * read changed in the meantime
+   */
+  async runTransaction<T>(callback: (tx: FakeTransaction) => Promise<T>): Promise<T> {
+    for (let attempt = 1; attempt <= 5; attempt++) {
+      const tx = new FakeTransaction(this);
+      const result = await callback(tx);
+      if (tx.commit()) return result;
+    }
+    throw new Error("ABORTED: Too much contention on these documents");
+  }
+}
+
+export class FakeTransaction {
+  private readonly reads = new Map<string, number>();
+  private readonly writes: PendingWrite[] = [];
+
+  constructor(private readonly db: FakeFirestore) {}
+
+  async get(target: FakeDocumentReference | FakeQuery) {
+    if (this.writes.length) {
+      throw new Error("Firestore transactions require all reads to be executed before all writes.");
+    }
+    if (target instanceof FakeQuery) {
+      const docs = target.run();
+      docs.forEach((doc) => this.reads.set(doc.ref.path, this.db.version(doc.ref.path)));
+      return this.db.query(docs);
+    }
+    this.reads.set(target.path, this.db.version(target.path));
+    return this.db.snapshot(target);
+  }
+
+  set(ref: FakeDocumentReference, data: Data, options?: { merge?: boolean }) {
+    this.writes.push({ ref, kind: "set", data, options });
+    return this;
+  }
+
+  create(ref: FakeDocumentReference, data: Data) {
+    this.writes.push({ ref, kind: "create", data });
+    return this;
+  }
+
+  update(ref: FakeDocumentReference, data: Data) {
+    this.writes.push({ ref, kind: "update", data });
+    return this;
+  }
+
+  delete(ref: FakeDocumentReference) {
+    this.writes.push({ ref, kind: "delete" });
+    return this;
+  }
+
+  commit(): boolean {
+    for (const [path, version] of this.reads) {
+      if (this.db.version(path) !== version) return false;
+    }
+    for (const { ref, kind, data, options } of this.writes) {
+      this.db.write(ref, kind, data, options);
+    }
+    return true;
+  }
+}
+
+// ==========================================
+// Module
+// ==========================================
+
+export const fakeDb = new FakeFirestore();
+
+export function getFirestore() {
+  return fakeDb;
+}
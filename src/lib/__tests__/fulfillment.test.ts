@@ -0,0 +1,311 @@
+/**
+ * Purchase fulfillment against an in-memory Firestore and local asset
+ * storage
+ */
+
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type Stripe from "stripe";
+import { fakeDb } from "./fake-firestore";
+
+vi.mock("firebase-admin/firestore", () => import("./fake-firestore"));
+vi.mock("firebase-admin/app", () => ({
+  getApps: () => [{ name: "test" }],
+  initializeApp: vi.fn(),
+  cert: vi.fn(),
+}));
+vi.mock("firebase-admin/auth", () => ({ getAuth: vi.fn() }));
+vi.mock("next/cache", () => ({ revalidatePath: vi.fn() }));
+
+let assetDir: string;
+let fulfillment: typeof import("@/lib/fulfillment");
+let assets: typeof import("@/lib/asset-repository");
+
+beforeAll(async () => {
+  assetDir = mkdtempSync(join(tmpdir(), "artmint-fulfillment-"));
+  process.env.ASSET_STORAGE = "local";
+  process.env.LOCAL_ASSET_DIR = join(assetDir, "assets");
+  process.env.EMAIL_OUTBOX_DIR = join(assetDir, "outbox");
+  // Wallet purchases never call Stripe, but stripe.ts needs a key to load
+  process.env.STRIPE_SECRET_KEY = "sk_test_stub";
+
+  fulfillment = await import("@/lib/fulfillment");
+  assets = await import("@/lib/asset-repository");
+});
+
+afterAll(() => {
+  rmSync(assetDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  fakeDb.reset();
+});
+
+// ==========================================
+// Helpers
+// ==========================================
+
+const ARTIST_ID = "artist_1";
+const BUYER_ID = "buyer_1";
+const COLLECTOR_ID = "collector_1";
+
+async function seedUser(userId: string, balance: number) {
+  await fakeDb.doc(`users/${userId}`).set({
+    uid: userId,
+    email: `${userId}@example.com`,
+    walletId: `wallet_${userId}`,
+  });
+  await seedWallet(userId, balance);
+}
+
+async function seedWallet(userId: string, balance: number) {
+  await fakeDb.doc(`wallets/wallet_${userId}`).set({
+    userId,
+    balance,
+    transactionCount: 0,
+    lastHash: null,
+  });
+}
+
+async function walletBalance(userId: string) {
+  return (await fakeDb.doc(`wallets/wallet_${userId}`).get()).data()!.balance;
+}
+
+async function ledger(userId: string) {
+  const snapshot = await fakeDb.collection(`wallets/wallet_${userId}/transactions`).get();
+  return snapshot.docs
+    .map((doc) => doc.data()!)
+    .sort((a, b) => a.sequence - b.sequence);
+}
+
+async function uploadArtwork({ editionSize }: { editionSize?: number } = {}) {
+  const asset = await assets.uploadAsset({
+    file: Buffer.from("artwork"),
+    filename: "artwork.png",
+    artist_uid: ARTIST_ID,
+    artist_name: "Artist",
+    price: 50,
+    currency: "USD",
+    category: "digital",
+    status: "sale",
+    royalty_percentage: 10,
+    edition_size: editionSize ?? null,
+  });
+  return asset.uid;
+}
+
+async function collection(userId: string) {
+  const doc = await fakeDb.doc(`user_assets/${userId}`).get();
+  return doc.exists ? doc.data()!.assets : [];
+}
+
+async function fulfillmentRecord(sessionId: string) {
+  return (await fakeDb.doc(`purchase_fulfillments/${sessionId}`).get()).data()!;
+}
+
+/**
+ * A paid checkout session as Stripe sends it in checkout.session.completed
+ */
+function paidSession(
+  artworkId: string,
+  { buyerId = BUYER_ID, suffix = "1" }: { buyerId?: string; suffix?: string } = {}
+): Stripe.Checkout.Session {
+  return {
+    id: `cs_test_${suffix}`,
+    object: "checkout.session",
+    payment_intent: `pi_test_${suffix}`,
+    amount_total: 5000,
+    currency: "usd",
+    metadata: { artworkId, userId: buyerId, walletId: `wallet_${buyerId}` },
+  } as unknown as Stripe.Checkout.Session;
+}
+
+function buyEdition(artworkId: string) {
+  return fulfillment.fulfillWalletPurchase({
+    artworkId,
+    userId: BUYER_ID,
+    walletId: `wallet_${BUYER_ID}`,
+    amount: 50,
+    mintEdition: true,
+  });
+}
+
+// ==========================================
+// Primary edition sales
+// ==========================================
+
+describe("wallet purchase of a primary edition", () => {
+  it("mints nothing when the balance is too low", async () => {
+    await seedUser(ARTIST_ID, 0);
+    await seedUser(BUYER_ID, 20);
+    const artworkId = await uploadArtwork({ editionSize: 3 });
+
+    await expect(buyEdition(artworkId)).rejects.toThrow("Insufficient balance");
+
+    expect((await fakeDb.collection("editions").get()).empty).toBe(true);
+    expect((await fakeDb.doc(`edition_series/${artworkId}`).get()).exists).toBe(false);
+    expect(await walletBalance(BUYER_ID)).toBe(20);
+    expect(await ledger(BUYER_ID)).toEqual([]);
+  });
+
+  it("mints the edition with the DEBIT and transfers it to the buyer", async () => {
+    await seedUser(ARTIST_ID, 0);
+    await seedUser(BUYER_ID, 80);
+    const artworkId = await uploadArtwork({ editionSize: 3 });
+
+    const result = await buyEdition(artworkId);
+
+    const record = await fulfillmentRecord(result.sessionId);
+    expect(record.step).toBe("completed");
+    expect(record.previousOwnerId).toBe(ARTIST_ID);
+
+    const edition = (await fakeDb.doc(`editions/${record.editionId}`).get()).data()!;
+    expect(edition.editionNumber).toBe(1);
+    expect(edition.currentOwner.userId).toBe(BUYER_ID);
+
+    expect(await walletBalance(BUYER_ID)).toBe(30);
+    expect((await ledger(BUYER_ID)).map((entry) => [entry.type, entry.amount])).toEqual([
+      ["DEBIT", 50],
+    ]);
+  });
+
+  it("fails without debiting once every edition is minted", async () => {
+    await seedUser(ARTIST_ID, 0);
+    await seedUser(BUYER_ID, 200);
+    const artworkId = await uploadArtwork({ editionSize: 2 });
+
+    await buyEdition(artworkId);
+    await buyEdition(artworkId);
+    await expect(buyEdition(artworkId)).rejects.toThrow("Edition is sold out");
+
+    expect(await walletBalance(BUYER_ID)).toBe(100);
+  });
+});
+
+// ==========================================
+// Resuming
+// ==========================================
+
+describe("card purchase fulfillment", () => {
+  it("resumes from the last completed step without repeating ledger entries", async () => {
+    await seedUser(BUYER_ID, 0);
+    // The seller's wallet is missing, so crediting the proceeds fails
+    await fakeDb.doc(`users/${ARTIST_ID}`).set({ uid: ARTIST_ID, walletId: `wallet_${ARTIST_ID}` });
+    const artworkId = await uploadArtwork();
+    const session = paidSession(artworkId);
+
+    await expect(fulfillment.fulfillPurchase(session)).rejects.toThrow("Wallet not found");
+
+    const failed = await fulfillmentRecord(session.id);
+    expect(failed.status).toBe("failed");
+    expect(failed.step).toBe("ledger_debited");
+
+    await seedWallet(ARTIST_ID, 0);
+    const result = await fulfillment.fulfillPurchase(session);
+
+    expect(result).toMatchObject({ alreadyCompleted: false, refunded: false });
+    const record = await fulfillmentRecord(session.id);
+    expect(record.step).toBe("completed");
+    expect(record.attempts).toBe(2);
+
+    expect((await ledger(BUYER_ID)).map((entry) => [entry.type, entry.amount])).toEqual([
+      ["CREDIT", 50],
+      ["DEBIT", 50],
+    ]);
+    expect(await walletBalance(BUYER_ID)).toBe(0);
+    expect(await walletBalance(ARTIST_ID)).toBe(50);
+
+    const asset = await assets.getAsset(artworkId);
+    expect(asset.custom_metadata.art_metadata.current_owner?.user_id).toBe(BUYER_ID);
+
+    await expect(fulfillment.fulfillPurchase(session)).resolves.toMatchObject({
+      alreadyCompleted: true,
+    });
+    expect(await ledger(BUYER_ID)).toHaveLength(2);
+  });
+});
+
+// ==========================================
+// Reversal
+// ==========================================
+
+describe("reversePurchase", () => {
+  it("refunds the buyer, claws back the proceeds and rolls ownership back once", async () => {
+    await seedUser(BUYER_ID, 0);
+    await seedUser(ARTIST_ID, 0);
+    const artworkId = await uploadArtwork();
+    const session = paidSession(artworkId);
+    await fulfillment.fulfillPurchase(session);
+
+    const result = await fulfillment.reversePurchase("pi_test_1", "refund", "ch_test_1");
+
+    expect(result).toMatchObject({ ownerRolledBack: true, alreadyReversed: false });
+    expect((await ledger(BUYER_ID)).map((entry) => [entry.type, entry.amount])).toEqual([
+      ["CREDIT", 50],
+      ["DEBIT", 50],
+      ["CREDIT", 50],
+      ["DEBIT", 50],
+    ]);
+    expect(await walletBalance(BUYER_ID)).toBe(0);
+    expect(await walletBalance(ARTIST_ID)).toBe(0);
+
+    const asset = await assets.getAsset(artworkId);
+    expect(asset.custom_metadata.art_metadata.current_owner?.user_id).toBe(ARTIST_ID);
+    expect(asset.custom_metadata.art_metadata.status).toBe("sale");
+    expect(await collection(BUYER_ID)).toEqual([]);
+    // The artist never had a collection entry, so none is restored
+    expect(await collection(ARTIST_ID)).toEqual([]);
+
+    const record = await fulfillmentRecord(session.id);
+    expect(record.reversal).toMatchObject({ reason: "refund", status: "completed" });
+
+    await expect(
+      fulfillment.reversePurchase("pi_test_1", "refund", "ch_test_1")
+    ).resolves.toMatchObject({ alreadyReversed: true });
+    expect(await ledger(BUYER_ID)).toHaveLength(4);
+    expect(await ledger(ARTIST_ID)).toHaveLength(2);
+  });
+
+  it("waits for an unfinished purchase instead of reversing it", async () => {
+    await seedUser(BUYER_ID, 0);
+    await fakeDb.doc(`users/${ARTIST_ID}`).set({ uid: ARTIST_ID, walletId: `wallet_${ARTIST_ID}` });
+    const artworkId = await uploadArtwork();
+    await expect(fulfillment.fulfillPurchase(paidSession(artworkId))).rejects.toThrow();
+
+    await expect(
+      fulfillment.reversePurchase("pi_test_1", "refund", "ch_test_1")
+    ).rejects.toThrow("Fulfillment not completed");
+    expect(await ledger(BUYER_ID)).toHaveLength(2);
+  });
+
+  it("restores the reseller's collection entry as it was before the resale", async () => {
+    await seedUser(ARTIST_ID, 0);
+    await seedUser(COLLECTOR_ID, 0);
+    await seedUser(BUYER_ID, 0);
+    const artworkId = await uploadArtwork();
+
+    await fulfillment.fulfillPurchase(paidSession(artworkId, { buyerId: COLLECTOR_ID, suffix: "1" }));
+    const collectorEntry = await collection(COLLECTOR_ID);
+    expect(collectorEntry).toHaveLength(1);
+
+    await fulfillment.fulfillPurchase(paidSession(artworkId, { suffix: "2" }));
+    expect(await collection(COLLECTOR_ID)).toEqual([]);
+
+    await fulfillment.reversePurchase("pi_test_2", "refund", "ch_test_2");
+
+    const asset = await assets.getAsset(artworkId);
+    expect(asset.custom_metadata.art_metadata.current_owner?.user_id).toBe(COLLECTOR_ID);
+    expect(await collection(BUYER_ID)).toEqual([]);
+    expect(await collection(COLLECTOR_ID)).toEqual([
+      expect.objectContaining({
+        assetUid: artworkId,
+        transactionId: collectorEntry[0].transactionId,
+        purchaseDate: collectorEntry[0].purchaseDate,
+        price: 50,
+        currency: collectorEntry[0].currency,
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Retries and circuit breaking in the shared HTTP client, against a stubbed
+ * fetch()
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { httpFetch } from "@/lib/http-client";
+
+const fetchMock = vi.fn<typeof fetch>();
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  fetchMock.mockReset();
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+// Circuit state is kept per service for the life of the module, so each
+// test calls its own
+let serviceCount = 0;
+function nextService() {
+  return `service-${++serviceCount}`;
+}
+
+function respond(status: number, headers?: Record<string, string>) {
+  return new Response(null, { status, headers });
+}
+
+/**
+ * Run a call to completion, letting its backoff timers fire
+ */
+async function settle<T>(call: Promise<T>): Promise<T> {
+  const settled = call.then(
+    (value) => ({ value }),
+    (error) => ({ error })
+  );
+  await vi.runAllTimersAsync();
+  const result: any = await settled;
+  if ("error" in result) throw result.error;
+  return result.value;
+}
+
+describe("httpFetch retries", () => {
+  it("retries an idempotent request on 5xx until it succeeds", async () => {
+    fetchMock
+      .mockResolvedValueOnce(respond(503))
+      .mockResolvedValueOnce(respond(502))
+      .mockResolvedValueOnce(respond(200));
+
+    const response = await settle(
+      httpFetch("https://api.test/items", { service: nextService(), operation: "getItems" })
+    );
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("returns the last response once the retries run out", async () => {
+    fetchMock.mockResolvedValue(respond(500));
+
+    const response = await settle(
+      httpFetch("https://api.test/items", {
+        service: nextService(),
+        operation: "getItems",
+        retries: 1,
+      })
+    );
+
+    expect(response.status).toBe(500);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry a POST unless it is marked idempotent", async () => {
+    fetchMock.mockResolvedValue(respond(503));
+    const service = nextService();
+
+    const once = await settle(
+      httpFetch("https://api.test/items", { service, operation: "createItem", method: "POST" })
+    );
+    expect(once.status).toBe(503);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValueOnce(respond(503)).mockResolvedValueOnce(respond(201));
+
+    const retried = await settle(
+      httpFetch("https://api.test/items", {
+        service,
+        operation: "createItem",
+        method: "POST",
+        idempotent: true,
+      })
+    );
+    expect(retried.status).toBe(201);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry a 4xx other than 429", async () => {
+    fetchMock.mockResolvedValue(respond(404));
+
+    const response = await settle(
+      httpFetch("https://api.test/items/1", { service: nextService(), operation: "getItem" })
+    );
+
+    expect(response.status).toBe(404);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("leaves a Retry-After beyond the maximum delay to the caller", async () => {
+    fetchMock.mockResolvedValue(respond(429, { "Retry-After": "120" }));
+
+    const response = await settle(
+      httpFetch("https://api.test/items", { service: nextService(), operation: "getItems" })
+    );
+
+    expect(response.status).toBe(429);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("throws a network error once the retries run out", async () => {
+    fetchMock.mockRejectedValue(new TypeError("fetch failed"));
+
+    await expect(
+      settle(httpFetch("https://api.test/items", { service: nextService(), operation: "getItems" }))
+    ).rejects.toThrow("fetch failed");
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("httpFetch circuit breaker", () => {
+  async function failCalls(service: string, count: number) {
+    for (let i = 0; i < count; i++) {
+      await settle(httpFetch("https://api.test/items", { service, operation: "getItems", retries: 0 }));
+    }
+  }
+
+  it("fails fast after five consecutive failures", async () => {
+    const service = nextService();
+    fetchMock.mockResolvedValue(respond(500));
+    await failCalls(service, 5);
+    fetchMock.mockClear();
+
+    await expect(
+      httpFetch("https://api.test/items", { service, operation: "getItems" })
+    ).rejects.toThrow(`${service} is temporarily unavailable (circuit open)`);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("closes again when the trial call after the cooldown succeeds", async () => {
+    const service = nextService();
+    fetchMock.mockResolvedValue(respond(500));
+    await failCalls(service, 5);
+
+    vi.advanceTimersByTime(30_000);
+    fetchMock.mockResolvedValue(respond(200));
+
+    const trial = await httpFetch("https://api.test/items", { service, operation: "getItems" });
+    expect(trial.status).toBe(200);
+
+    fetchMock.mockResolvedValueOnce(respond(500));
+    await failCalls(service, 1);
+    // One failure after closing does not reopen it
+    await expect(
+      httpFetch("https://api.test/items", { service, operation: "getItems" })
+    ).resolves.toHaveProperty("status", 200);
+  });
+
+  it("reopens when the trial call fails", async () => {
+    const service = nextService();
+    fetchMock.mockResolvedValue(respond(500));
+    await failCalls(service, 5);
+
+    vi.advanceTimersByTime(30_000);
+    await failCalls(service, 1);
+    fetchMock.mockClear();
+
+    await expect(
+      httpFetch("https://api.test/items", { service, operation: "getItems" })
+    ).rejects.toThrow("circuit open");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("keeps separate circuits per service", async () => {
+    const broken = nextService();
+    fetchMock.mockResolvedValue(respond(500));
+    await failCalls(broken, 5);
+
+    fetchMock.mockResolvedValue(respond(200));
+    await expect(
+      httpFetch("https://api.test/items", { service: nextService(), operation: "getItems" })
+    ).resolves.toHaveProperty("status", 200);
+  });
+});
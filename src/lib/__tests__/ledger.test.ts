@@ -0,0 +1,118 @@
+/**
+ * Wallet ledger hash chain and signatures
+ */
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { chainLedgerEntry, verifyLedgerChain, type ChainedEntry } from "@/lib/ledger";
+
+const WALLET_ID = "wallet_1";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+/**
+ * Chain CREDIT/DEBIT amounts into ledger entries, plus the wallet document
+ * that ends them
+ */
+function buildLedger(amounts: number[]) {
+  const entries: ChainedEntry[] = [];
+  let balance = 0;
+  let lastHash: string | null = null;
+
+  for (const [index, amount] of amounts.entries()) {
+    balance += amount;
+    const entry = {
+      id: `txn_${index + 1}`,
+      type: amount >= 0 ? ("CREDIT" as const) : ("DEBIT" as const),
+      amount: Math.abs(amount),
+      timestamp: new Date(Date.UTC(2026, 0, index + 1)).toISOString(),
+      sequence: index + 1,
+      balanceAfter: balance,
+      reference: { description: `Entry ${index + 1}` },
+    };
+    const chained: ChainedEntry = { ...entry, ...chainLedgerEntry(WALLET_ID, entry, lastHash) };
+    entries.push(chained);
+    lastHash = chained.hash!;
+  }
+
+  return { entries, wallet: { balance, transactionCount: entries.length, lastHash } };
+}
+
+describe("verifyLedgerChain", () => {
+  it("accepts an intact chain", () => {
+    const { entries, wallet } = buildLedger([100, -30, -20]);
+
+    const result = verifyLedgerChain(WALLET_ID, entries, wallet);
+
+    expect(result).toMatchObject({ valid: true, checked: 3, unchained: 0, calculatedBalance: 50 });
+    expect(result.headHash).toBe(wallet.lastHash);
+  });
+
+  it("reports an entry whose contents were edited", () => {
+    const { entries, wallet } = buildLedger([100, -30, -20]);
+    entries[1].reference = { description: "Edited" };
+
+    const result = verifyLedgerChain(WALLET_ID, entries, wallet);
+
+    expect(result.valid).toBe(false);
+    expect(result.firstBrokenLink).toMatchObject({
+      sequence: 2,
+      reason: "Entry contents do not match its hash",
+    });
+  });
+
+  it("reports a deleted tail entry against the wallet document", () => {
+    const { entries, wallet } = buildLedger([100, -30, -20]);
+
+    const result = verifyLedgerChain(WALLET_ID, entries.slice(0, 2), wallet);
+
+    expect(result.firstBrokenLink?.reason).toBe("Wallet records 3 entries, ledger has 2");
+  });
+
+  it("counts a leading run of entries written before chaining as unchained", () => {
+    const { entries, wallet } = buildLedger([100, -30]);
+    delete entries[0].hash;
+    entries[1] = {
+      ...entries[1],
+      ...chainLedgerEntry(WALLET_ID, entries[1], null),
+    };
+
+    const result = verifyLedgerChain(WALLET_ID, entries, { ...wallet, lastHash: entries[1].hash });
+
+    expect(result).toMatchObject({ valid: true, checked: 1, unchained: 1 });
+  });
+
+  describe("with LEDGER_SIGNING_SECRET set", () => {
+    it("accepts entries signed with the secret", () => {
+      vi.stubEnv("LEDGER_SIGNING_SECRET", "secret");
+      const { entries, wallet } = buildLedger([100, -30]);
+
+      expect(verifyLedgerChain(WALLET_ID, entries, wallet)).toMatchObject({
+        valid: true,
+        signed: true,
+      });
+    });
+
+    it("rejects a chain re-hashed without the secret", () => {
+      // Rebuilt by someone without the key: hashes line up, signatures are missing
+      const { entries, wallet } = buildLedger([100, -30]);
+      vi.stubEnv("LEDGER_SIGNING_SECRET", "secret");
+
+      expect(verifyLedgerChain(WALLET_ID, entries, wallet).firstBrokenLink).toMatchObject({
+        sequence: 1,
+        reason: "Invalid signature",
+      });
+    });
+
+    it("rejects entries signed with another key", () => {
+      vi.stubEnv("LEDGER_SIGNING_SECRET", "other");
+      const { entries, wallet } = buildLedger([100, -30]);
+      vi.stubEnv("LEDGER_SIGNING_SECRET", "secret");
+
+      expect(verifyLedgerChain(WALLET_ID, entries, wallet).firstBrokenLink?.reason).toBe(
+        "Invalid signature"
+      );
+    });
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * Payouts against an in-memory Firestore and a local Stripe stub:
+ * onboarding, payout requests and the transfer / payout webhooks
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type Stripe from "stripe";
+import { fakeDb } from "./fake-firestore";
+import { startStripeStub, type StripeStub } from "./stripe-stub";
+
+vi.mock("firebase-admin/firestore", () => import("./fake-firestore"));
+vi.mock("firebase-admin/app", () => ({
+  getApps: () => [{ name: "test" }],
+  initializeApp: vi.fn(),
+  cert: vi.fn(),
+}));
+vi.mock("firebase-admin/auth", () => ({ getAuth: vi.fn() }));
+
+let stub: StripeStub;
+let payouts: typeof import("@/lib/payouts");
+let stripeEvents: typeof import("@/lib/stripe-events");
+
+beforeAll(async () => {
+  stub = await startStripeStub();
+  // stripe.ts reads these when it is first imported
+  process.env.STRIPE_API_BASE_URL = stub.baseUrl;
+  process.env.STRIPE_SECRET_KEY = "sk_test_stub";
+
+  payouts = await import("@/lib/payouts");
+  stripeEvents = await import("@/lib/stripe-events");
+});
+
+afterAll(async () => {
+  await stub.close();
+});
+
+beforeEach(() => {
+  fakeDb.reset();
+  stub.requests.length = 0;
+  stub.accounts.clear();
+  stub.failTransfers = false;
+});
+
+// ==========================================
+// Helpers
+// ==========================================
+
+const USER_ID = "user_1";
+const WALLET_ID = "wallet_1";
+
+async function seedUser({ balance = 100, accountId }: { balance?: number; accountId?: string } = {}) {
+  await fakeDb.doc(`users/${USER_ID}`).set({
+    uid: USER_ID,
+    email: "artist@example.com",
+    walletId: WALLET_ID,
+    ...(accountId ? { stripeAccountId: accountId } : {}),
+  });
+  await fakeDb.doc(`wallets/${WALLET_ID}`).set({
+    userId: USER_ID,
+    balance,
+    transactionCount: 0,
+    lastHash: null,
+  });
+}
+
+async function seedConnectedUser(balance = 100) {
+  const accountId = "acct_ready";
+  stub.accounts.set(accountId, { payoutsEnabled: true, detailsSubmitted: true });
+  await seedUser({ balance, accountId });
+  return accountId;
+}
+
+async function walletBalance() {
+  return (await fakeDb.doc(`wallets/${WALLET_ID}`).get()).data()!.balance;
+}
+
+async function ledger() {
+  const snapshot = await fakeDb.collection(`wallets/${WALLET_ID}/transactions`).get();
+  return snapshot.docs
+    .map((doc) => doc.data()!)
+    .sort((a, b) => a.sequence - b.sequence);
+}
+
+async function storedPayout(payoutId: string) {
+  return (await fakeDb.doc(`payouts/${payoutId}`).get()).data()!;
+}
+
+/**
+ * The transfer as Stripe sends it, with its reversals so far (in cents,
+ * newest first)
+ */
+function transferFor(
+  payout: { id: string; transferId: string | null; amount: number },
+  reversals: number[] = []
+): Stripe.Transfer {
+  const amountReversed = reversals.reduce((sum, amount) => sum + amount, 0);
+  return {
+    id: payout.transferId || "tr_unknown",
+    object: "transfer",
+    amount: Math.round(payout.amount * 100),
+    amount_reversed: amountReversed,
+    reversed: amountReversed === Math.round(payout.amount * 100),
+    reversals: {
+      object: "list",
+      data: reversals.map((amount, i) => ({ id: `trr_${reversals.length - i}`, object: "transfer_reversal", amount })),
+      has_more: false,
+    },
+    metadata: { payoutId: payout.id, type: "wallet_payout" },
+  } as unknown as Stripe.Transfer;
+}
+
+let eventIds = 0;
+
+function stripeEvent(type: string, object: unknown, account?: string): Stripe.Event {
+  return {
+    id: `evt_test${++eventIds}`,
+    object: "event",
+    type,
+    created: Math.floor(Date.now() / 1000),
+    data: { object },
+    ...(account ? { account } : {}),
+  } as unknown as Stripe.Event;
+}
+
+// ==========================================
+// Onboarding
+// ==========================================
+
+describe("createOnboardingLink", () => {
+  it("creates the connected account once and stores it on the profile", async () => {
+    await seedUser();
+    const urls = { refreshUrl: "http://app.test/refresh", returnUrl: "http://app.test/return" };
+
+    const first = await payouts.createOnboardingLink(USER_ID, urls);
+    const second = await payouts.createOnboardingLink(USER_ID, urls);
+
+    expect(first.accountId).toMatch(/^acct_/);
+    expect(second.accountId).toBe(first.accountId);
+    expect(first.url).toContain(first.accountId);
+
+    const profile = (await fakeDb.doc(`users/${USER_ID}`).get()).data()!;
+    expect(profile.stripeAccountId).toBe(first.accountId);
+
+    const accountCreates = stub.requests.filter((r) => r.method === "POST" && r.path === "/v1/accounts");
+    expect(accountCreates).toHaveLength(1);
+    expect(accountCreates[0].idempotencyKey).toBe(`connect_account_${USER_ID}`);
+    expect(accountCreates[0].params.get("capabilities[transfers][requested]")).toBe("true");
+  });
+
+  it("reports onboarding status from the connected account", async () => {
+    await seedUser({ accountId: "acct_pending" });
+    stub.accounts.set("acct_pending", { payoutsEnabled: false, detailsSubmitted: true });
+
+    await expect(payouts.getConnectStatus(USER_ID)).resolves.toEqual({
+      accountId: "acct_pending",
+      detailsSubmitted: true,
+      payoutsEnabled: false,
+    });
+  });
+});
+
+// ==========================================
+// Payout Requests
+// ==========================================
+
+describe("requestPayout", () => {
+  it("debits the wallet when the payout is requested and creates the transfer", async () => {
+    const accountId = await seedConnectedUser(100);
+
+    const payout = await payouts.requestPayout({ userId: USER_ID, walletId: WALLET_ID, amount: 40 });
+
+    expect(payout.status).toBe("pending");
+    expect(payout.transferId).toMatch(/^tr_/);
+    expect(await walletBalance()).toBe(60);
+
+    const entries = await ledger();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ id: payout.transactionId, type: "DEBIT", amount: 40 });
+
+    const transfer = stub.requests.find((r) => r.path === "/v1/transfers")!;
+    expect(transfer.params.get("amount")).toBe("4000");
+    expect(transfer.params.get("destination")).toBe(accountId);
+    expect(transfer.params.get("metadata[payoutId]")).toBe(payout.id);
+    expect(transfer.idempotencyKey).toBe(`payout_${payout.id}`);
+
+    expect(await storedPayout(payout.id)).toMatchObject({ status: "pending", transferId: payout.transferId });
+  });
+
+  it("rejects a payout larger than the balance without calling Stripe", async () => {
+    await seedConnectedUser(30);
+
+    await expect(
+      payouts.requestPayout({ userId: USER_ID, walletId: WALLET_ID, amount: 40 })
+    ).rejects.toThrow("Insufficient balance for payout");
+
+    expect(await walletBalance()).toBe(30);
+    expect(await ledger()).toHaveLength(0);
+    expect(stub.requests.some((r) => r.path === "/v1/transfers")).toBe(false);
+  });
+
+  it("does not let concurrent payouts spend the same balance", async () => {
+    await seedConnectedUser(50);
+
+    const results = await Promise.allSettled([
+      payouts.requestPayout({ userId: USER_ID, walletId: WALLET_ID, amount: 40 }),
+      payouts.requestPayout({ userId: USER_ID, walletId: WALLET_ID, amount: 40 }),
+    ]);
+
+    expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(1);
+    expect(await walletBalance()).toBe(10);
+  });
+
+  it("credits the DEBIT back when the transfer fails", async () => {
+    await seedConnectedUser(100);
+    stub.failTransfers = true;
+
+    await expect(
+      payouts.requestPayout({ userId: USER_ID, walletId: WALLET_ID, amount: 40 })
+    ).rejects.toThrow("Payout failed");
+
+    expect(await walletBalance()).toBe(100);
+    const entries = await ledger();
+    expect(entries.map((e) => e.type)).toEqual(["DEBIT", "CREDIT"]);
+    expect(entries[1].reference.relatedTransactionId).toBe(entries[0].id);
+
+    const [stored] = (await fakeDb.collection("payouts").get()).docs.map((d) => d.data()!);
+    expect(stored.status).toBe("failed");
+    expect(stored.failureReason).toContain("Insufficient funds");
+  });
+
+  it("requires a connected account with payouts enabled", async () => {
+    await seedUser();
+
+    await expect(
+      payouts.requestPayout({ userId: USER_ID, walletId: WALLET_ID, amount: 10 })
+    ).rejects.toThrow("Payout account not set up");
+  });
+});
+
+// ==========================================
+// Webhooks
+// ==========================================
+
+describe("payout webhooks", () => {
+  it("transfer.created marks the payout transferred without debiting again", async () => {
+    await seedConnectedUser(100);
+    const payout = await payouts.requestPayout({ userId: USER_ID, walletId: WALLET_ID, amount: 40 });
+
+    const event = stripeEvent("transfer.created", transferFor(payout));
+    const result = await stripeEvents.processStripeEvent(event);
+    const redelivery = await stripeEvents.processStripeEvent(event);
+
+    expect(result.status).toBe("processed");
+    expect(redelivery.duplicate).toBe(true);
+    expect(await storedPayout(payout.id)).toMatchObject({ status: "transferred" });
+    expect(await walletBalance()).toBe(60);
+    expect(await ledger()).toHaveLength(1);
+  });
+
+  it("transfer.reversed credits the payout back once", async () => {
+    await seedConnectedUser(100);
+    const payout = await payouts.requestPayout({ userId: USER_ID, walletId: WALLET_ID, amount: 40 });
+    await stripeEvents.processStripeEvent(stripeEvent("transfer.created", transferFor(payout)));
+
+    await stripeEvents.processStripeEvent(stripeEvent("transfer.reversed", transferFor(payout, [4000])));
+    // A second event for the same reversal (different event ID)
+    await stripeEvents.processStripeEvent(stripeEvent("transfer.reversed", transferFor(payout, [4000])));
+
+    expect(await walletBalance()).toBe(100);
+    expect((await ledger()).map((e) => e.type)).toEqual(["DEBIT", "CREDIT"]);
+    expect(await storedPayout(payout.id)).toMatchObject({ status: "reversed", reversedAmount: 40 });
+  });
+
+  it("transfer.reversed credits only the reversed part of a partial reversal", async () => {
+    await seedConnectedUser(100);
+    const payout = await payouts.requestPayout({ userId: USER_ID, walletId: WALLET_ID, amount: 40 });
+    await stripeEvents.processStripeEvent(stripeEvent("transfer.created", transferFor(payout)));
+
+    await stripeEvents.processStripeEvent(stripeEvent("transfer.reversed", transferFor(payout, [1500])));
+
+    expect(await walletBalance()).toBe(75);
+    expect(await storedPayout(payout.id)).toMatchObject({ status: "transferred", reversedAmount: 15 });
+
+    // The rest is reversed later; the first event is redelivered after it
+    await stripeEvents.processStripeEvent(stripeEvent("transfer.reversed", transferFor(payout, [2500, 1500])));
+    await stripeEvents.processStripeEvent(stripeEvent("transfer.reversed", transferFor(payout, [1500])));
+
+    expect(await walletBalance()).toBe(100);
+    const entries = await ledger();
+    expect(entries.map((e) => [e.type, e.amount])).toEqual([
+      ["DEBIT", 40],
+      ["CREDIT", 15],
+      ["CREDIT", 25],
+    ]);
+    expect(await storedPayout(payout.id)).toMatchObject({ status: "reversed", reversedAmount: 40 });
+  });
+
+  it("ignores transfers that are not wallet payouts", async () => {
+    const transfer = { id: "tr_sale", object: "transfer", metadata: {} };
+
+    const result = await stripeEvents.processStripeEvent(stripeEvent("transfer.created", transfer));
+
+    expect(result.status).toBe("ignored");
+  });
+
+  it("payout.paid settles the account's transferred payouts", async () => {
+    const accountId = await seedConnectedUser(100);
+    const payout = await payouts.requestPayout({ userId: USER_ID, walletId: WALLET_ID, amount: 40 });
+    await stripeEvents.processStripeEvent(stripeEvent("transfer.created", transferFor(payout)));
+
+    const bankPayout = {
+      id: "po_paid",
+      object: "payout",
+      status: "paid",
+      created: Math.floor(Date.now() / 1000) + 60,
+      failure_message: null,
+    };
+    await stripeEvents.processStripeEvent(stripeEvent("payout.paid", bankPayout, accountId));
+
+    expect(await storedPayout(payout.id)).toMatchObject({ status: "paid", stripePayoutId: "po_paid" });
+  });
+
+  it("payout.failed marks the account's transferred payouts payout_failed", async () => {
+    const accountId = await seedConnectedUser(100);
+    const payout = await payouts.requestPayout({ userId: USER_ID, walletId: WALLET_ID, amount: 40 });
+    await stripeEvents.processStripeEvent(stripeEvent("transfer.created", transferFor(payout)));
+
+    const bankPayout = {
+      id: "po_failed",
+      object: "payout",
+      status: "failed",
+      created: Math.floor(Date.now() / 1000) + 60,
+      failure_message: "The bank account has been closed.",
+    };
+    await stripeEvents.processStripeEvent(stripeEvent("payout.failed", bankPayout, accountId));
+
+    expect(await storedPayout(payout.id)).toMatchObject({
+      status: "payout_failed",
+      failureReason: "The bank account has been closed.",
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Checkout reservations against an in-memory Firestore
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb } from "./fake-firestore";
+import {
+  attachReservationSession,
+  claimReservation,
+  confirmReservation,
+} from "@/lib/reservations";
+
+vi.mock("firebase-admin/firestore", () => import("./fake-firestore"));
+vi.mock("firebase-admin/app", () => ({
+  getApps: () => [{ name: "test" }],
+  initializeApp: vi.fn(),
+  cert: vi.fn(),
+}));
+vi.mock("firebase-admin/auth", () => ({ getAuth: vi.fn() }));
+
+beforeEach(() => {
+  fakeDb.reset();
+});
+
+async function openSession(userId: string, expiresAt: number) {
+  await claimReservation("asset_1", userId);
+  await attachReservationSession("asset_1", userId, {
+    id: `cs_${userId}`,
+    url: `https://checkout.stripe.test/${userId}`,
+    expiresAt: Math.floor(expiresAt / 1000),
+    amount: 50,
+  });
+}
+
+async function expireReservation() {
+  await fakeDb.doc("asset_reservations/asset_1").update({ expiresAt: Date.now() - 1 });
+}
+
+describe("claimReservation", () => {
+  it("refuses another buyer while a session is open", async () => {
+    await openSession("buyer_1", Date.now() + 30 * 60_000);
+
+    await expect(claimReservation("asset_1", "buyer_2")).rejects.toThrow(
+      "Artwork is reserved by another checkout"
+    );
+  });
+
+  it("hands the same buyer their open session back", async () => {
+    await openSession("buyer_1", Date.now() + 30 * 60_000);
+
+    const claim = await claimReservation("asset_1", "buyer_1");
+
+    expect(claim.existing).toBe(true);
+    expect(claim.reservation).toMatchObject({ sessionId: "cs_buyer_1", amount: 50 });
+  });
+
+  it("lets another buyer claim an expired open session", async () => {
+    await openSession("buyer_1", Date.now() + 30 * 60_000);
+    await expireReservation();
+
+    const claim = await claimReservation("asset_1", "buyer_2");
+
+    expect(claim.existing).toBe(false);
+    expect(claim.reservation).toMatchObject({ userId: "buyer_2", status: "pending" });
+  });
+
+  it("refuses even the paying buyer while a paid session is confirmed", async () => {
+    await openSession("buyer_1", Date.now() + 30 * 60_000);
+    await expect(confirmReservation("asset_1", "cs_buyer_1", "buyer_1")).resolves.toBe(true);
+
+    await expect(claimReservation("asset_1", "buyer_1")).rejects.toThrow(
+      "Artwork is reserved by another checkout"
+    );
+  });
+
+  it("frees a confirmed reservation whose fulfillment never completed", async () => {
+    await confirmReservation("asset_1", "cs_buyer_1", "buyer_1");
+    await expireReservation();
+
+    const claim = await claimReservation("asset_1", "buyer_2");
+
+    expect(claim.reservation).toMatchObject({ userId: "buyer_2", status: "pending" });
+  });
+});
+
+describe("confirmReservation", () => {
+  it("turns away a payment for a session that lost the asset", async () => {
+    await openSession("buyer_2", Date.now() + 30 * 60_000);
+
+    await expect(confirmReservation("asset_1", "cs_buyer_1", "buyer_1")).resolves.toBe(false);
+  });
+});
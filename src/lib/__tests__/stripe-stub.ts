@@ -0,0 +1,115 @@
+/**
+ * Local Stripe API stub for tests
+ *
+ * A plain HTTP server answering the Connect endpoints payouts use, so the
+ * real SDK and HTTP client run against it (STRIPE_API_BASE_URL).
+ */
+
+import { createServer, type IncomingMessage, type Server } from "http";
+import type { AddressInfo } from "net";
+
+export interface StripeStubRequest {
+  method: string;
+  path: string;
+  params: URLSearchParams;
+  idempotencyKey: string | null;
+}
+
+export interface StripeStub {
+  baseUrl: string;
+  requests: StripeStubRequest[];
+  accounts: Map<string, { payoutsEnabled: boolean; detailsSubmitted: boolean }>;
+  failTransfers: boolean;
+  close(): Promise<void>;
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  let body = "";
+  for await (const chunk of req) body += chunk;
+  return body;
+}
+
+export async function startStripeStub(): Promise<StripeStub> {
+  let ids = 0;
+  const stub: Omit<StripeStub, "baseUrl" | "close"> = {
+    requests: [],
+    accounts: new Map(),
+    failTransfers: false,
+  };
+
+  const server: Server = createServer(async (req, res) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    const params = new URLSearchParams(await readBody(req));
+    stub.requests.push({
+      method: req.method || "GET",
+      path: url.pathname,
+      params,
+      idempotencyKey: (req.headers["idempotency-key"] as string) || null,
+    });
+
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json", "Request-Id": `req_${++ids}` });
+      res.end(JSON.stringify(body));
+    };
+
+    const accountMatch = url.pathname.match(/^\/v1\/accounts\/([^/]+)$/);
+
+    if (req.method === "POST" && url.pathname === "/v1/accounts") {
+      const id = `acct_test${++ids}`;
+      stub.accounts.set(id, { payoutsEnabled: false, detailsSubmitted: false });
+      return send(200, { id, object: "account", type: params.get("type"), email: params.get("email") });
+    }
+
+    if (req.method === "GET" && accountMatch) {
+      const account = stub.accounts.get(accountMatch[1]);
+      if (!account) {
+        return send(404, { error: { type: "invalid_request_error", message: `No such account: '${accountMatch[1]}'` } });
+      }
+      return send(200, {
+        id: accountMatch[1],
+        object: "account",
+        details_submitted: account.detailsSubmitted,
+        payouts_enabled: account.payoutsEnabled,
+      });
+    }
+
+    if (req.method === "POST" && url.pathname === "/v1/account_links") {
+      return send(200, {
+        object: "account_link",
+        url: `https://connect.stripe.test/setup/${params.get("account")}`,
+      });
+    }
+
+    if (req.method === "POST" && url.pathname === "/v1/transfers") {
+      if (stub.failTransfers) {
+        return send(400, {
+          error: { type: "invalid_request_error", message: "Insufficient funds in Stripe account." },
+        });
+      }
+      return send(200, {
+        id: `tr_test${++ids}`,
+        object: "transfer",
+        amount: Number(params.get("amount")),
+        currency: params.get("currency"),
+        destination: params.get("destination"),
+        transfer_group: params.get("transfer_group"),
+        metadata: {
+          payoutId: params.get("metadata[payoutId]"),
+          userId: params.get("metadata[userId]"),
+          walletId: params.get("metadata[walletId]"),
+          type: params.get("metadata[type]"),
+        },
+      });
+    }
+
+    send(404, { error: { type: "invalid_request_error", message: `Unrecognized request URL (${req.method}: ${url.pathname})` } });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return Object.assign(stub, {
+    baseUrl: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  });
+}
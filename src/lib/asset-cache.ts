@@ -0,0 +1,304 @@
+/**
+ * Asset Read Cache (server only)
+ *
+ * Contentstack serves two views of an asset: the management API (AM2) is
+ * current as soon as a write returns, while the delivery API (CDA) keeps
+ * serving the previous version until the publish automation has run. Reads
+ * that decide ownership or price must not act on that stale copy.
+ *
+ * Two layers sit in front of published reads:
+ * - A short-lived in-process cache of published assets (read-through) for
+ *   display reads, dropped for an asset whenever it is written or confirmed
+ *   published
+ * - The `asset_writes` collection, holding the latest written metadata of
+ *   each asset until the CDA serves it. Consistent reads skip the in-process
+ *   cache and overlay the pending write on the published copy; the entry is
+ *   cleared once the published copy matches or the publish automation
+ *   confirms it.
+ *
+ * Every read that had to be corrected counts as a stale-read incident in
+ * `asset_cache_metrics/reads`.
+ */
+
+import { adminDb } from "@/lib/firebase-admin";
+import type { ContentstackAsset, CustomMetadata } from "@/lib/contentstack-am2";
+import { log } from "@/lib/logger";
+
+// ==========================================
+// Types
+// ==========================================
+
+export interface PendingAssetWrite {
+  assetUid: string;
+  title: string;
+  description: string | null;
+  tags: string[];
+  customMetadata: CustomMetadata;
+  writtenAt: number; // ms since epoch
+}
+
+export interface AssetCacheMetrics {
+  staleReads: number; // Published copy lagged a recorded write
+  expiredWrites: number; // Writes still unpublished after PENDING_WRITE_TTL_MS
+  publishConfirmations: number;
+  lastStaleReadAt: string | null;
+  lastStaleAssetUid: string | null;
+}
+
+// ==========================================
+// Configuration
+// ==========================================
+
+const PENDING_WRITES_COLLECTION = "asset_writes";
+const METRICS_COLLECTION = "asset_cache_metrics";
+const METRICS_DOC = "reads";
+
+// How long a published asset is served from memory (ASSET_CACHE_TTL_SECONDS)
+function getPublishedTtlMs(): number {
+  return parseInt(process.env.ASSET_CACHE_TTL_SECONDS || "30", 10) * 1000;
+}
+
+// Writes the CDA still hasn't caught up with after this long are no longer
+// trusted: consistent reads go to the management API instead
+export const PENDING_WRITE_TTL_MS = 60 * 60 * 1000;
+
+// Bound on the in-process cache
+const MAX_CACHED_ASSETS = 500;
+
+// ==========================================
+// Published Asset Cache (in-process)
+// ==========================================
+
+const publishedCache = new Map<string, { asset: ContentstackAsset; expiresAt: number }>();
+
+/**
+ * A published asset cached by this server instance, if still fresh
+ */
+export function getCachedPublishedAsset(assetUid: string): ContentstackAsset | null {
+  const entry = publishedCache.get(assetUid);
+  if (!entry) return null;
+
+  if (entry.expiresAt <= Date.now()) {
+    publishedCache.delete(assetUid);
+    return null;
+  }
+  return entry.asset;
+}
+
+export function cachePublishedAsset(asset: ContentstackAsset): void {
+  const ttl = getPublishedTtlMs();
+  if (ttl <= 0) return;
+
+  // Map iteration follows insertion order, so the first key is the oldest
+  if (publishedCache.size >= MAX_CACHED_ASSETS) {
+    const oldest = publishedCache.keys().next().value;
+    if (oldest) publishedCache.delete(oldest);
+  }
+  publishedCache.set(asset.uid, { asset, expiresAt: Date.now() + ttl });
+}
+
+export function invalidatePublishedAsset(assetUid: string): void {
+  publishedCache.delete(assetUid);
+}
+
+// ==========================================
+// Helpers
+// ==========================================
+
+/**
+ * Order-independent fingerprint of asset metadata. Null and missing fields
+ * are treated alike, since the CDA may omit fields that were written as null.
+ */
+function fingerprint(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => {
+    if (item && typeof item === "object" && !Array.isArray(item)) {
+      return Object.fromEntries(
+        Object.keys(item)
+          .filter((key) => item[key] !== null && item[key] !== undefined)
+          .sort()
+          .map((key) => [key, item[key]])
+      );
+    }
+    return item;
+  });
+}
+
+function isServedBy(published: ContentstackAsset, write: PendingAssetWrite): boolean {
+  return fingerprint(published.custom_metadata) === fingerprint(write.customMetadata);
+}
+
+async function recordMetric(
+  counter: keyof Omit<AssetCacheMetrics, "lastStaleReadAt" | "lastStaleAssetUid">,
+  assetUid?: string
+): Promise<void> {
+  try {
+    const { FieldValue } = await import("firebase-admin/firestore");
+    await adminDb()
+      .collection(METRICS_COLLECTION)
+      .doc(METRICS_DOC)
+      .set(
+        {
+          [counter]: FieldValue.increment(1),
+          ...(counter === "staleReads"
+            ? { lastStaleReadAt: new Date().toISOString(), lastStaleAssetUid: assetUid || null }
+            : {}),
+        },
+        { merge: true }
+      );
+  } catch (error: any) {
+    log.warn("[Asset Cache] Failed to record metric", { counter, error: error.message });
+  }
+}
+
+// ==========================================
+// Pending Writes
+// ==========================================
+
+/**
+ * Remember an asset's metadata as just written, until the CDA serves it.
+ * Never throws: the write itself already succeeded.
+ */
+export async function recordAssetWrite(asset: ContentstackAsset): Promise<void> {
+  invalidatePublishedAsset(asset.uid);
+
+  try {
+    const write: PendingAssetWrite = {
+      assetUid: asset.uid,
+      title: asset.title,
+      description: asset.description ?? null,
+      tags: asset.tags || [],
+      customMetadata: asset.custom_metadata,
+      writtenAt: Date.now(),
+    };
+    await adminDb().collection(PENDING_WRITES_COLLECTION).doc(asset.uid).set(write);
+  } catch (error: any) {
+    log.error("[Asset Cache] Failed to record asset write", error, { assetUid: asset.uid });
+  }
+}
+
+/**
+ * The latest write of an asset that the CDA may not serve yet
+ */
+export async function getPendingAssetWrite(assetUid: string): Promise<PendingAssetWrite | null> {
+  const doc = await adminDb().collection(PENDING_WRITES_COLLECTION).doc(assetUid).get();
+  return doc.exists ? (doc.data() as PendingAssetWrite) : null;
+}
+
+/**
+ * Forget a pending write once the CDA serves it. A newer write recorded in
+ * the meantime is kept.
+ */
+export async function clearPendingAssetWrite(assetUid: string, writtenAt: number): Promise<void> {
+  const db = adminDb();
+  const ref = db.collection(PENDING_WRITES_COLLECTION).doc(assetUid);
+
+  await db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    if (doc.exists && (doc.data() as PendingAssetWrite).writtenAt === writtenAt) {
+      tx.delete(ref);
+    }
+  });
+}
+
+/**
+ * Reconcile a published copy with the asset's pending write:
+ * - nothing pending: the published copy is current
+ * - the published copy matches the write: it caught up, the write is cleared
+ * - otherwise the read was stale: the written metadata is overlaid, or null
+ *   is returned when the write is too old to trust (read the management API)
+ */
+export async function reconcilePublishedAsset(
+  published: ContentstackAsset
+): Promise<ContentstackAsset | null> {
+  const write = await getPendingAssetWrite(published.uid);
+  if (!write) return published;
+
+  if (isServedBy(published, write)) {
+    await clearPendingAssetWrite(published.uid, write.writtenAt);
+    return published;
+  }
+
+  const lagMs = Date.now() - write.writtenAt;
+  await recordMetric("staleReads", published.uid);
+
+  if (lagMs > PENDING_WRITE_TTL_MS) {
+    await recordMetric("expiredWrites", published.uid);
+    log.error("[Asset Cache] Published asset still stale after TTL", undefined, {
+      assetUid: published.uid,
+      lagMs,
+    });
+    return null;
+  }
+
+  log.warn("[Asset Cache] Stale published read corrected", { assetUid: published.uid, lagMs });
+
+  return {
+    ...published,
+    title: write.title,
+    description: write.description,
+    tags: write.tags,
+    custom_metadata: write.customMetadata,
+  };
+}
+
+/**
+ * Check whether a freshly read published copy serves the asset's latest
+ * write, clearing the pending write if it does
+ */
+export async function isLatestWriteServed(published: ContentstackAsset): Promise<boolean> {
+  const write = await getPendingAssetWrite(published.uid);
+  if (!write) return true;
+
+  if (isServedBy(published, write)) {
+    await clearPendingAssetWrite(published.uid, write.writtenAt);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Publish confirmation: check the freshly published copy against the
+ * pending write. Returns whether the latest write is now live.
+ */
+export async function confirmAssetPublished(published: ContentstackAsset): Promise<boolean> {
+  invalidatePublishedAsset(published.uid);
+  await recordMetric("publishConfirmations", published.uid);
+
+  if (await isLatestWriteServed(published)) {
+    log.info("[Asset Cache] Publish confirmed", { assetUid: published.uid });
+    return true;
+  }
+
+  log.warn("[Asset Cache] Publish confirmed but a newer write is pending", {
+    assetUid: published.uid,
+  });
+  return false;
+}
+
+// ==========================================
+// Metrics
+// ==========================================
+
+/**
+ * Stale-read counters and the number of writes still awaiting publication
+ */
+export async function getAssetCacheMetrics(): Promise<
+  AssetCacheMetrics & { pendingWrites: number; cachedAssets: number }
+> {
+  const db = adminDb();
+  const [metricsDoc, pending] = await Promise.all([
+    db.collection(METRICS_COLLECTION).doc(METRICS_DOC).get(),
+    db.collection(PENDING_WRITES_COLLECTION).count().get(),
+  ]);
+  const data = (metricsDoc.data() || {}) as Partial<AssetCacheMetrics>;
+
+  return {
+    staleReads: data.staleReads || 0,
+    expiredWrites: data.expiredWrites || 0,
+    publishConfirmations: data.publishConfirmations || 0,
+    lastStaleReadAt: data.lastStaleReadAt || null,
+    lastStaleAssetUid: data.lastStaleAssetUid || null,
+    pendingWrites: pending.data().count,
+    cachedAssets: publishedCache.size, // This server instance only
+  };
+}
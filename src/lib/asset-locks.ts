@@ -0,0 +1,123 @@
+/**
+ * Asset Write Locks (server only)
+ *
+ * Contentstack AM2 has no conditional PUT: a metadata update is a read of
+ * the current asset followed by an unconditional write, so two servers
+ * checking the same version could both write. Updates through the
+ * Contentstack backend therefore hold a per-asset lease in the
+ * `asset_write_locks` collection for the whole read-check-write.
+ *
+ * Each lease carries a random token; only its holder releases it. A holder
+ * that dies leaves the lease to expire after LEASE_DURATION_MS.
+ */
+
+import { randomUUID } from "crypto";
+import { adminDb } from "@/lib/firebase-admin";
+import { log } from "@/lib/logger";
+import { sleep } from "@/lib/utils";
+
+// ==========================================
+// Types
+// ==========================================
+
+export interface AssetWriteLock {
+  assetUid: string;
+  token: string;
+  leaseExpiresAt: number; // ms since epoch
+}
+
+// ==========================================
+// Configuration
+// ==========================================
+
+const LOCKS_COLLECTION = "asset_write_locks";
+
+// Longer than the worst case of a locked update: a GET and a PUT, each up to
+// three 10 second attempts with backoff (see @/lib/http-client)
+const LEASE_DURATION_MS = 120_000;
+
+// How long a writer waits for another's lease before giving up
+const WAIT_TIMEOUT_MS = 20_000;
+const POLL_INTERVAL_MS = 200;
+
+// ==========================================
+// Locks
+// ==========================================
+
+function lockRef(assetUid: string) {
+  return adminDb().collection(LOCKS_COLLECTION).doc(assetUid);
+}
+
+/**
+ * Take the asset's lease. Returns null while another writer holds it.
+ */
+async function acquireLock(assetUid: string): Promise<AssetWriteLock | null> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const ref = lockRef(assetUid);
+
+  return adminDb().runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    const now = Date.now();
+
+    if (doc.exists && (doc.data() as AssetWriteLock).leaseExpiresAt > now) {
+      return null;
+    }
+
+    const lock: AssetWriteLock = {
+      assetUid,
+      token: randomUUID(),
+      leaseExpiresAt: now + LEASE_DURATION_MS,
+    };
+    tx.set(ref, { ...lock, updatedAt: FieldValue.serverTimestamp() });
+    return lock;
+  });
+}
+
+/**
+ * Release the lease if it is still this writer's
+ */
+async function releaseLock(lock: AssetWriteLock) {
+  const ref = lockRef(lock.assetUid);
+
+  try {
+    await adminDb().runTransaction(async (tx) => {
+      const doc = await tx.get(ref);
+      if (doc.exists && (doc.data() as AssetWriteLock).token === lock.token) {
+        tx.delete(ref);
+      }
+    });
+  } catch (error) {
+    // The lease expires on its own
+    log.error(`[AssetLocks] Failed to release write lock`, error, {
+      assetUid: lock.assetUid,
+    });
+  }
+}
+
+/**
+ * Run a read-modify-write of an asset while holding its lease, waiting for
+ * another writer's lease to be released first. Throws if it isn't released
+ * within WAIT_TIMEOUT_MS.
+ */
+export async function withAssetWriteLock<T>(
+  assetUid: string,
+  write: () => Promise<T>
+): Promise<T> {
+  const deadline = Date.now() + WAIT_TIMEOUT_MS;
+  let lock = await acquireLock(assetUid);
+
+  while (!lock) {
+    if (Date.now() >= deadline) {
+      log.warn(`[AssetLocks] Timed out waiting for write lock`, { assetUid });
+      throw new Error(`Asset ${assetUid} is being updated by another request`);
+    }
+    await sleep(POLL_INTERVAL_MS);
+    lock = await acquireLock(assetUid);
+  }
+
+  try {
+    return await write();
+  } finally {
+    await releaseLock(lock);
+  }
+}
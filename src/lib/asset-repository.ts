@@ -0,0 +1,562 @@
+/**
+ * Asset Repository (server only)
+ *
+ * Storage-agnostic access to artwork assets. Routes and services read and
+ * write assets through this module instead of calling a storage backend
+ * directly, so the marketplace can run without Contentstack credentials.
+ *
+ * The backend is chosen by ASSET_STORAGE:
+ * - "contentstack" (default): Asset Management 2.0 for writes and fresh
+ *   reads, the Content Delivery API for published reads and listings
+ * - "local": assets and their files on disk under LOCAL_ASSET_DIR
+ *   (defaults to .local-assets), for offline development and CI
+ *
+ * Assets keep the Contentstack shape (ContentstackAsset) in every backend.
+ *
+ * Published reads can lag behind writes (see @/lib/asset-cache). Reads that
+ * decide ownership or price use getConsistentAsset().
+ *
+ * Metadata updates are a read-modify-write of art_metadata, so two writers
+ * (say a resale listing and a purchase) could overwrite each other. Writes
+ * that depend on what was read go through modifyAsset() or
+ * withAssetWriteRetry(): the update carries the version it was based on,
+ * fails with AssetVersionConflictError if the asset moved on, and is
+ * re-read and re-applied a bounded number of times.
+ */
+
+import {
+  AssetVersionConflictError,
+  downloadAssetFile,
+  getAssetFromCDA,
+  getAssetUsingAMV2API,
+  getSpaceAssetUrl,
+  listAssets as listContentstackAssets,
+  toMinimalAssetResponse as toContentstackMinimalResponse,
+  runContentstackAutomation,
+  updateAssetMetadata as updateContentstackAsset,
+  uploadAsset as uploadContentstackAsset,
+  type AssetUpdateParams,
+  type AssetUploadParams,
+  type ContentstackAsset,
+  type ListAssetsOptions,
+  type MinimalAssetResponse,
+  type OwnerRecord,
+} from "@/lib/contentstack-am2";
+import {
+  cachePublishedAsset,
+  confirmAssetPublished,
+  getCachedPublishedAsset,
+  isLatestWriteServed,
+  reconcilePublishedAsset,
+  recordAssetWrite,
+} from "@/lib/asset-cache";
+import { withAssetWriteLock } from "@/lib/asset-locks";
+import { createLocalAssetRepository } from "@/lib/local-assets";
+import { log } from "@/lib/logger";
+
+export { AssetVersionConflictError };
+
+// ==========================================
+// Types
+// ==========================================
+
+export interface AssetRepository {
+  name: string;
+  /** Whether published reads lag behind writes until publish() completes */
+  publishLag: boolean;
+  upload(params: AssetUploadParams): Promise<ContentstackAsset>;
+  /** Latest version of an asset, including unpublished writes */
+  getAsset(assetUid: string): Promise<ContentstackAsset>;
+  /** Version of an asset served to the public */
+  getPublishedAsset(assetUid: string): Promise<ContentstackAsset>;
+  updateMetadata(assetUid: string, params: AssetUpdateParams): Promise<ContentstackAsset>;
+  /** Published assets with art metadata, filtered by a MongoDB-style query */
+  list(options?: ListAssetsOptions): Promise<ContentstackAsset[]>;
+  /** Make the latest version public. Throws if the request fails. */
+  publish(assetUid: string): Promise<void>;
+  /** URL the UI loads the asset's file from */
+  getFileUrl(asset: ContentstackAsset): string;
+  /** The asset's file contents. Throws if it can't be read. */
+  readFile(asset: ContentstackAsset): Promise<Buffer>;
+}
+
+// ==========================================
+// Backends
+// ==========================================
+
+/**
+ * Contentstack Asset Management 2.0 and Content Delivery API
+ */
+export function createContentstackRepository(): AssetRepository {
+  return {
+    name: "contentstack",
+    publishLag: true,
+    upload: uploadContentstackAsset,
+    getAsset: getAssetUsingAMV2API,
+    getPublishedAsset: getAssetFromCDA,
+    // AM2 has no conditional PUT: the version check and the write run under
+    // a per-asset Firestore lease instead
+    updateMetadata: (assetUid, params) =>
+      withAssetWriteLock(assetUid, () => updateContentstackAsset(assetUid, params)),
+    list: listContentstackAssets,
+    publish: runContentstackAutomation,
+    getFileUrl: getSpaceAssetUrl,
+    readFile: downloadAssetFile,
+  };
+}
+
+let repository: AssetRepository | null = null;
+
+/**
+ * The configured repository (ASSET_STORAGE), created once
+ */
+export function getAssetRepository(): AssetRepository {
+  if (!repository) {
+    const name = process.env.ASSET_STORAGE || "contentstack";
+    switch (name) {
+      case "contentstack":
+        repository = createContentstackRepository();
+        break;
+      case "local":
+        repository = createLocalAssetRepository();
+        break;
+      default:
+        throw new Error(`Unknown ASSET_STORAGE "${name}"`);
+    }
+    log.info(`[Assets] Using ${repository.name} asset storage`);
+  }
+  return repository;
+}
+
+/**
+ * Replace the repository, e.g. with a local one in tests
+ */
+export function setAssetRepository(next: AssetRepository | null): void {
+  repository = next;
+}
+
+// ==========================================
+// Asset Operations
+// ==========================================
+
+/**
+ * Upload a new asset with the artist as its first owner
+ */
+export async function uploadAsset(params: AssetUploadParams): Promise<ContentstackAsset> {
+  const repo = getAssetRepository();
+  const asset = await repo.upload(params);
+
+  if (repo.publishLag) {
+    await recordAssetWrite(asset);
+  }
+  return asset;
+}
+
+/**
+ * Get the latest version of an asset. Use this for server-side checks and
+ * read-modify-write updates.
+ */
+export async function getAsset(assetUid: string): Promise<ContentstackAsset> {
+  return getAssetRepository().getAsset(assetUid);
+}
+
+/**
+ * Read an asset's file from its storage backend
+ */
+export async function readAssetFile(asset: ContentstackAsset): Promise<Buffer> {
+  return getAssetRepository().readFile(asset);
+}
+
+/**
+ * Get the published version of an asset. Use this for public-facing reads.
+ * Served from a short-lived in-process cache; it may not reflect writes that
+ * are still being published.
+ */
+export async function getPublishedAsset(assetUid: string): Promise<ContentstackAsset> {
+  const repo = getAssetRepository();
+  if (!repo.publishLag) {
+    return repo.getPublishedAsset(assetUid);
+  }
+
+  const cached = getCachedPublishedAsset(assetUid);
+  if (cached) return cached;
+
+  const asset = await repo.getPublishedAsset(assetUid);
+  cachePublishedAsset(asset);
+  return asset;
+}
+
+/**
+ * Get an asset as of its latest write without loading the management API:
+ * the published version, corrected with any write it doesn't serve yet.
+ * Use this before acting on ownership, status or price.
+ */
+export async function getConsistentAsset(assetUid: string): Promise<ContentstackAsset> {
+  const repo = getAssetRepository();
+  if (!repo.publishLag) {
+    return repo.getAsset(assetUid);
+  }
+
+  const published = await repo.getPublishedAsset(assetUid);
+  const reconciled = await reconcilePublishedAsset(published);
+  if (reconciled) {
+    cachePublishedAsset(published);
+    return reconciled;
+  }
+
+  // The pending write is too old to trust: read the latest version
+  return repo.getAsset(assetUid);
+}
+
+/**
+ * Update asset metadata
+ */
+export async function updateAssetMetadata(
+  assetUid: string,
+  params: AssetUpdateParams
+): Promise<ContentstackAsset> {
+  const repo = getAssetRepository();
+  const asset = await repo.updateMetadata(assetUid, params);
+
+  if (repo.publishLag) {
+    await recordAssetWrite(asset);
+  }
+  return asset;
+}
+
+/**
+ * List published assets that have art metadata
+ */
+export async function listAssets(options?: ListAssetsOptions): Promise<ContentstackAsset[]> {
+  return getAssetRepository().list(options);
+}
+
+/**
+ * Publish the latest version of an asset. Queues a publish job
+ * (@/lib/publish-jobs) and makes the first attempt in the background;
+ * failures are retried by the job queue. Never throws.
+ */
+export async function triggerAssetPublish(assetUid: string): Promise<void> {
+  try {
+    const repo = getAssetRepository();
+    if (!repo.publishLag) {
+      return await repo.publish(assetUid);
+    }
+
+    const { enqueuePublishJob, runPublishJob } = await import("@/lib/publish-jobs");
+    await enqueuePublishJob(assetUid);
+
+    runPublishJob(assetUid).catch((error) => {
+      log.error(`[Assets] Publish job run failed`, error, { assetUid });
+    });
+  } catch (error: any) {
+    log.error(`[Assets] Failed to queue publish`, error, { assetUid });
+  }
+}
+
+/**
+ * Whether the published version serves the asset's latest write
+ */
+export async function isLatestWritePublished(assetUid: string): Promise<boolean> {
+  const repo = getAssetRepository();
+  if (!repo.publishLag) return true;
+
+  return isLatestWriteServed(await repo.getPublishedAsset(assetUid));
+}
+
+/**
+ * Publish confirmation from the publish automation: check whether the
+ * published version now serves the latest write
+ */
+export async function confirmAssetPublish(assetUid: string): Promise<boolean> {
+  const repo = getAssetRepository();
+  if (!repo.publishLag) return true;
+
+  return confirmAssetPublished(await repo.getPublishedAsset(assetUid));
+}
+
+/**
+ * Transform an asset to the minimal UI response format, with the file URL
+ * of the configured backend
+ */
+export function toMinimalAssetResponse(asset: ContentstackAsset): MinimalAssetResponse {
+  return toContentstackMinimalResponse(asset, getAssetRepository().getFileUrl(asset));
+}
+
+// ==========================================
+// Version-Checked Writes
+// ==========================================
+
+// Attempts of a conflicting read-modify-write before the conflict is
+// surfaced; the delay before each retry doubles, with jitter
+const MAX_WRITE_ATTEMPTS = 4;
+const WRITE_RETRY_BASE_MS = 100;
+
+/**
+ * Whether an error is a version conflict that can be retried
+ */
+export function isAssetConflict(error: unknown): error is AssetVersionConflictError {
+  return error instanceof AssetVersionConflictError;
+}
+
+/**
+ * Run a version-checked read-modify-write, retrying it while another writer
+ * gets in first. `write` must re-read the asset on every attempt and pass
+ * the version it read as expectedVersion. Throws the conflict once
+ * maxAttempts are used up.
+ */
+export async function withAssetWriteRetry<T>(
+  assetUid: string,
+  write: () => Promise<T>,
+  maxAttempts = MAX_WRITE_ATTEMPTS
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await write();
+    } catch (error: any) {
+      if (!isAssetConflict(error) || attempt >= maxAttempts) {
+        if (isAssetConflict(error)) {
+          log.error(`[Assets] Asset write conflict not resolved`, error, { assetUid, attempts: attempt });
+        }
+        throw error;
+      }
+
+      const delayMs = Math.round(WRITE_RETRY_BASE_MS * 2 ** (attempt - 1) * (0.5 + Math.random()));
+      log.warn(`[Assets] Asset write conflict, retrying`, {
+        assetUid,
+        attempt,
+        delayMs,
+        expectedVersion: error.expectedVersion,
+        currentVersion: error.currentVersion,
+      });
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+/**
+ * Update an asset based on its latest version: `change` checks the asset
+ * and returns the update (or throws to abort), and the update is only
+ * written if the asset is still at the version `change` saw. Conflicts are
+ * retried with a fresh read.
+ *
+ * options.asset is a version the caller already read, used for the first
+ * attempt instead of reading again.
+ */
+export async function modifyAsset(
+  assetUid: string,
+  change: (asset: ContentstackAsset) => AssetUpdateParams | Promise<AssetUpdateParams>,
+  options: { asset?: ContentstackAsset; maxAttempts?: number } = {}
+): Promise<ContentstackAsset> {
+  let known = options.asset;
+
+  return withAssetWriteRetry(
+    assetUid,
+    async () => {
+      const asset = known || (await getAsset(assetUid));
+      known = undefined;
+
+      const params = await change(asset);
+      return updateAssetMetadata(assetUid, { ...params, expectedVersion: asset.version });
+    },
+    options.maxAttempts
+  );
+}
+
+// ==========================================
+// Ownership
+// ==========================================
+
+/**
+ * Add owner to asset (for purchase tracking)
+ * Updates current_owner and appends to ownership_history
+ * Note: ownership_history includes ALL owners including the current one
+ */
+export async function addAssetOwner(
+  assetUid: string,
+  owner: OwnerRecord
+): Promise<ContentstackAsset> {
+  return modifyAsset(assetUid, (asset) => {
+    const currentOwner = asset.custom_metadata.art_metadata.current_owner;
+    const ownershipHistory = asset.custom_metadata.art_metadata.ownership_history || [];
+
+    // Move previous current owner to history (if exists and different from new owner)
+    let updatedHistory = ownershipHistory;
+    if (currentOwner && currentOwner.user_id !== owner.user_id) {
+      // Check if previous owner is already in history (avoid duplicates)
+      const alreadyInHistory = ownershipHistory.some(
+        (h) => h.user_id === currentOwner.user_id && h.transaction_id === currentOwner.transaction_id
+      );
+      if (!alreadyInHistory) {
+        updatedHistory = [...ownershipHistory, currentOwner];
+      }
+    }
+
+    // Add new owner to history as well (ownership_history includes current owner)
+    // Check if new owner is already in history (avoid duplicates)
+    const newOwnerInHistory = updatedHistory.some(
+      (h) => h.user_id === owner.user_id && h.transaction_id === owner.transaction_id
+    );
+    const finalHistory = newOwnerInHistory 
+      ? updatedHistory 
+      : [...updatedHistory, owner];
+
+    // Set new owner as current
+    return {
+      current_owner: owner,
+      ownership_history: finalHistory,
+      status: "sold",
+    };
+  });
+}
+
+/**
+ * Roll back an ownership change (for refunded or charged-back purchases)
+ * Removes the owner record for the transaction from ownership_history and
+ * restores the previous entry as current_owner.
+ * Returns null (no-op) if the transaction is no longer the current owner,
+ * i.e. it was already rolled back or the asset has changed hands since.
+ */
+export async function rollbackAssetOwner(
+  assetUid: string,
+  transactionId: string,
+  status: "sold" | "sale" | "resale"
+): Promise<ContentstackAsset | null> {
+  return withAssetWriteRetry(assetUid, async () => {
+    const asset = await getAsset(assetUid);
+    const currentOwner = asset.custom_metadata.art_metadata.current_owner;
+    const ownershipHistory = asset.custom_metadata.art_metadata.ownership_history || [];
+
+    if (currentOwner?.transaction_id !== transactionId) {
+      log.warn("[Assets] Ownership rollback skipped", {
+        assetUid,
+        transactionId,
+        currentTransactionId: currentOwner?.transaction_id || null,
+      });
+      return null;
+    }
+
+    const restoredHistory = ownershipHistory.filter(
+      (h) => h.transaction_id !== transactionId
+    );
+    const previousOwner = restoredHistory[restoredHistory.length - 1] || null;
+
+    return updateAssetMetadata(assetUid, {
+      current_owner: previousOwner,
+      ownership_history: restoredHistory,
+      status,
+      expectedVersion: asset.version,
+    });
+  });
+}
+
+/**
+ * Update asset status
+ */
+export async function updateAssetStatus(
+  assetUid: string,
+  status: "sold" | "sale" | "resale" | "auction"
+): Promise<ContentstackAsset> {
+  return modifyAsset(assetUid, () => ({ status }));
+}
+
+/**
+ * Publish asset (if needed - depends on Contentstack workflow)
+ * Note: This might require additional API calls depending on Contentstack configuration
+ */
+export async function publishAsset(
+  assetUid: string
+): Promise<ContentstackAsset> {
+  // For now, publishing is handled by setting status to "sale"
+  // If Contentstack has a separate publish workflow, this would need to be implemented
+  return updateAssetStatus(assetUid, "sale");
+}
+
+// ==========================================
+// Artists
+// ==========================================
+
+/**
+ * Get all unique artists from user collections
+ * Returns artist information with artwork count and total sales
+ * More efficient than fetching all assets - uses Firestore user data
+ */
+export async function getArtists(): Promise<
+  Array<{
+    id: string;
+    name: string;
+    artworks: number;
+    totalSales: number;
+  }>
+> {
+  // Import Firebase admin functions
+  const { getAllArtists, getUserAssets } = await import("@/lib/firebase-admin");
+  
+  // Get all users with artist role from Firestore
+  const artistUsers = await getAllArtists();
+  
+  if (artistUsers.length === 0) {
+    return [];
+  }
+
+  // For each artist, get their assets and calculate stats
+  const artistPromises = artistUsers.map(async (artistUser: any) => {
+    const artistId = artistUser.id;
+    const artistName = artistUser.displayName || artistUser.email || "Unknown Artist";
+    
+    // Get artist's asset collection from Firestore
+    const userAssets = await getUserAssets(artistId);
+    const assetUids = (userAssets.assets || []).map((asset: any) => asset.assetUid);
+    
+    if (assetUids.length === 0) {
+      return {
+        id: artistId,
+        name: artistName,
+        artworks: 0,
+        totalSales: 0,
+      };
+    }
+
+    // Fetch asset details to get prices and status
+    const assetDetailsPromises = assetUids.map((assetUid: string) =>
+      getPublishedAsset(assetUid).catch((error) => {
+        log.error(`Failed to fetch asset ${assetUid} for artist ${artistId}`, error);
+        return null;
+      })
+    );
+
+    const assetDetails = await Promise.all(assetDetailsPromises);
+    const validAssets = assetDetails.filter((asset) => asset !== null) as ContentstackAsset[];
+
+    // Calculate stats
+    let artworks = 0;
+    let totalSales = 0;
+
+    validAssets.forEach((asset) => {
+      const artMetadata = asset.custom_metadata?.art_metadata;
+      
+      // Count all artworks (not just sold ones)
+      artworks += 1;
+      
+      // Only count sales if artwork is sold
+      if (artMetadata?.status === "sold" && artMetadata?.price) {
+        totalSales += artMetadata.price;
+      }
+    });
+
+    return {
+      id: artistId,
+      name: artistName,
+      artworks,
+      totalSales,
+    };
+  });
+
+  const artists = await Promise.all(artistPromises);
+
+  // Filter out artists with no artworks and sort by total sales (descending)
+  return artists
+    .filter((artist) => artist.artworks > 0)
+    .sort((a, b) => b.totalSales - a.totalSales);
+}
+
@@ -0,0 +1,689 @@
+/**
+ * Auctions (server only)
+ *
+ * Timed English auctions for primary and resale listings. The listing
+ * settings are published in the asset's art_metadata.auction (status
+ * "auction"); the live state lives in the `auctions` collection, with every
+ * bid in its `bids` subcollection:
+ * - "open": accepting bids between startsAt and endsAt
+ * - "closed": ended with a winning bid at or above the reserve; a checkout
+ *   is opened for the winner, who has until paymentDeadline to pay
+ * - "completed": the winner paid
+ * - "unsold": no bid met the reserve, or the winner did not pay
+ * - "cancelled": withdrawn by the owner before the first bid
+ *
+ * A bid placed within extensionSeconds of the end pushes endsAt out, so
+ * other bidders always get a chance to respond (anti-sniping). Auctions that
+ * don't sell restore the listing they replaced.
+ */
+
+import { revalidatePath } from "next/cache";
+import {
+  adminDb,
+  closeAssetOffers,
+  getAcceptedOffer,
+  getServerUserProfile,
+} from "@/lib/firebase-admin";
+import {
+  getAsset,
+  modifyAsset,
+  triggerAssetPublish,
+} from "@/lib/asset-repository";
+import {
+  attachReservationSession,
+  claimReservation,
+  getActiveReservation,
+  releaseReservation,
+} from "@/lib/reservations";
+import { createCheckoutSession } from "@/lib/stripe";
+import { log } from "@/lib/logger";
+
+// ==========================================
+// Types
+// ==========================================
+
+export type AuctionStatus = "open" | "closed" | "completed" | "unsold" | "cancelled";
+
+export interface AuctionBid {
+  id: string;
+  bidderId: string;
+  bidderName: string;
+  amount: number;
+  placedAt: string; // ISO timestamp
+}
+
+export interface Auction {
+  id: string;
+  assetUid: string;
+  sellerId: string;
+  currency: string;
+  startingPrice: number;
+  reservePrice: number | null;
+  minIncrement: number;
+  extensionSeconds: number;
+  startsAt: number; // ms epoch
+  endsAt: number; // ms epoch; pushed out by late bids
+  status: AuctionStatus;
+  previousStatus: "sold" | "sale" | "resale"; // Restored if the auction doesn't sell
+  previousPrice: number | null;
+  highestBid: AuctionBid | null;
+  bidCount: number;
+  extensions: number;
+  winnerId: string | null;
+  paymentDeadline: number | null; // ms epoch; set when the auction closes with a winner
+  sessionId: string | null; // Winner's checkout session
+  sessionUrl: string | null;
+  createdAt?: any;
+  updatedAt?: any;
+  closedAt?: any;
+}
+
+export interface AuctionSettings {
+  startingPrice: number;
+  reservePrice?: number | null;
+  minIncrement: number;
+  startsAt?: number; // ms epoch; defaults to now
+  endsAt: number; // ms epoch
+  extensionSeconds?: number;
+}
+
+// ==========================================
+// Configuration
+// ==========================================
+
+const AUCTIONS_COLLECTION = "auctions";
+
+const DEFAULT_EXTENSION_SECONDS = 5 * 60;
+
+// Minimum and maximum running time of an auction
+const MIN_DURATION_MS = 60 * 60 * 1000;
+const MAX_DURATION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Stripe Checkout sessions live at most 24 hours, so the winner's payment
+// window is kept just under that
+const WINNER_PAYMENT_MS = 23 * 60 * 60 * 1000;
+
+// ==========================================
+// Helpers
+// ==========================================
+
+function auctionRef(auctionId: string) {
+  return adminDb().collection(AUCTIONS_COLLECTION).doc(auctionId);
+}
+
+/**
+ * Lowest amount the next bid may be
+ */
+export function getMinimumBid(auction: Auction): number {
+  return auction.highestBid
+    ? Math.round((auction.highestBid.amount + auction.minIncrement) * 100) / 100
+    : auction.startingPrice;
+}
+
+function isDue(auction: Auction, now = Date.now()): boolean {
+  return auction.status === "open" && auction.endsAt <= now;
+}
+
+/**
+ * Put the asset back the way it was listed before the auction
+ */
+async function restoreListing(auction: Auction) {
+  await modifyAsset(auction.assetUid, () => ({
+    status: auction.previousStatus,
+    ...(auction.previousPrice !== null ? { price: auction.previousPrice } : {}),
+    auction: null,
+  }));
+  await triggerAssetPublish(auction.assetUid);
+  revalidatePath(`/art/${auction.assetUid}`);
+}
+
+/**
+ * Reserve the asset for the winner and open their checkout at the winning bid.
+ * Failures are logged; the winner can still pay from the artwork page until
+ * the payment deadline.
+ */
+async function openWinnerCheckout(auction: Auction) {
+  if (!auction.winnerId || !auction.highestBid || !auction.paymentDeadline) return;
+
+  try {
+    const [asset, profile] = await Promise.all([
+      getAsset(auction.assetUid),
+      getServerUserProfile(auction.winnerId),
+    ]);
+
+    if (!(profile as any)?.walletId) {
+      throw new Error("Winner profile not found");
+    }
+
+    const claim = await claimReservation(auction.assetUid, auction.winnerId);
+    if (claim.existing) return;
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+    let session;
+    try {
+      session = await createCheckoutSession({
+        artworkId: auction.assetUid,
+        artworkTitle: asset.title,
+        price: auction.highestBid.amount,
+        imageUrl: asset.url,
+        userId: auction.winnerId,
+        walletId: (profile as any).walletId,
+        successUrl: `${baseUrl}/success?session_id={CHECKOUT_SESSION_ID}`,
+        cancelUrl: `${baseUrl}/art/${auction.assetUid}`,
+        expiresAt: Math.floor(auction.paymentDeadline / 1000),
+        auctionId: auction.id,
+      });
+    } catch (stripeError) {
+      await releaseReservation(auction.assetUid, { userId: auction.winnerId });
+      throw stripeError;
+    }
+
+    await attachReservationSession(auction.assetUid, auction.winnerId, {
+      id: session.id,
+      url: session.url,
+      expiresAt: session.expires_at,
+    });
+
+    const { FieldValue } = await import("firebase-admin/firestore");
+    await auctionRef(auction.id).update({
+      sessionId: session.id,
+      sessionUrl: session.url,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    log.info(`[Auctions] Winner checkout opened`, {
+      auctionId: auction.id,
+      winnerId: auction.winnerId,
+      sessionId: session.id,
+    });
+  } catch (error: any) {
+    log.error(`[Auctions] Failed to open winner checkout`, error, {
+      auctionId: auction.id,
+    });
+  }
+}
+
+/**
+ * Serialize an auction for API responses. Bidder IDs are not exposed; the
+ * winner's checkout URL is only included for the winner.
+ */
+export function toAuctionResponse(auction: Auction, viewerId?: string | null) {
+  const isWinner = !!viewerId && auction.winnerId === viewerId;
+
+  return {
+    id: auction.id,
+    assetUid: auction.assetUid,
+    status: auction.status,
+    currency: auction.currency,
+    startingPrice: auction.startingPrice,
+    minIncrement: auction.minIncrement,
+    minimumBid: getMinimumBid(auction),
+    hasReserve: auction.reservePrice !== null,
+    reserveMet:
+      !!auction.highestBid &&
+      auction.highestBid.amount >= (auction.reservePrice ?? auction.startingPrice),
+    extensionSeconds: auction.extensionSeconds,
+    startsAt: new Date(auction.startsAt).toISOString(),
+    endsAt: new Date(auction.endsAt).toISOString(),
+    highestBid: auction.highestBid ? toBidResponse(auction.highestBid, viewerId) : null,
+    bidCount: auction.bidCount,
+    extensions: auction.extensions,
+    isSeller: !!viewerId && auction.sellerId === viewerId,
+    isWinner,
+    paymentDeadline: auction.paymentDeadline
+      ? new Date(auction.paymentDeadline).toISOString()
+      : null,
+    checkoutUrl: isWinner ? auction.sessionUrl : null,
+  };
+}
+
+export function toBidResponse(bid: AuctionBid, viewerId?: string | null) {
+  return {
+    id: bid.id,
+    bidderName: bid.bidderName,
+    amount: bid.amount,
+    placedAt: bid.placedAt,
+    mine: !!viewerId && bid.bidderId === viewerId,
+  };
+}
+
+// ==========================================
+// Auctions
+// ==========================================
+
+/**
+ * Get an auction by ID
+ */
+export async function getAuction(auctionId: string): Promise<Auction | null> {
+  const doc = await auctionRef(auctionId).get();
+  if (!doc.exists) return null;
+  return { ...doc.data(), id: doc.id } as Auction;
+}
+
+/**
+ * Get the asset's running auction (open, or closed and awaiting payment).
+ * An open auction past its end time is closed here.
+ */
+export async function getCurrentAuction(assetUid: string): Promise<Auction | null> {
+  const snapshot = await adminDb()
+    .collection(AUCTIONS_COLLECTION)
+    .where("assetUid", "==", assetUid)
+    .where("status", "in", ["open", "closed"])
+    .limit(1)
+    .get();
+
+  if (snapshot.empty) return null;
+
+  const auction = { ...snapshot.docs[0].data(), id: snapshot.docs[0].id } as Auction;
+  if (!isDue(auction)) return auction;
+
+  await closeAuction(auction.id);
+  return getAuction(auction.id);
+}
+
+/**
+ * Bids on an auction, highest (and most recent) first
+ */
+export async function getAuctionBids(auctionId: string, limit = 50): Promise<AuctionBid[]> {
+  const snapshot = await auctionRef(auctionId)
+    .collection("bids")
+    .orderBy("amount", "desc")
+    .limit(limit)
+    .get();
+
+  return snapshot.docs.map((doc) => ({ ...doc.data(), id: doc.id }) as AuctionBid);
+}
+
+/**
+ * Start an auction for an asset and publish it with status "auction".
+ * The caller must have checked that the seller is the current owner and the
+ * asset is not frozen. An accepted offer awaiting payment blocks the auction;
+ * other offers on the asset are closed once it starts.
+ */
+export async function createAuction(
+  assetUid: string,
+  sellerId: string,
+  settings: AuctionSettings
+): Promise<Auction> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const now = Date.now();
+  const startsAt = Math.max(settings.startsAt ?? now, now);
+  const duration = settings.endsAt - startsAt;
+
+  if (duration < MIN_DURATION_MS || duration > MAX_DURATION_MS) {
+    throw new Error("Auction must run between 1 hour and 30 days");
+  }
+
+  if (settings.reservePrice != null && settings.reservePrice < settings.startingPrice) {
+    throw new Error("Reserve price cannot be below the starting price");
+  }
+
+  const asset = await getAsset(assetUid);
+  const artMetadata = asset.custom_metadata?.art_metadata;
+
+  if (artMetadata?.status === "auction") {
+    throw new Error("Artwork is already being auctioned");
+  }
+
+  if (await getActiveReservation(assetUid)) {
+    throw new Error("Artwork is reserved by another checkout");
+  }
+
+  if (await getAcceptedOffer(assetUid)) {
+    throw new Error("Artwork has an accepted offer awaiting payment");
+  }
+
+  const ref = adminDb().collection(AUCTIONS_COLLECTION).doc();
+  const auction: Auction = {
+    id: ref.id,
+    assetUid,
+    sellerId,
+    currency: artMetadata?.currency || "USD",
+    startingPrice: settings.startingPrice,
+    reservePrice: settings.reservePrice ?? null,
+    minIncrement: settings.minIncrement,
+    extensionSeconds: settings.extensionSeconds ?? DEFAULT_EXTENSION_SECONDS,
+    startsAt,
+    endsAt: settings.endsAt,
+    status: "open",
+    previousStatus: artMetadata?.status || "sold",
+    previousPrice: artMetadata?.price ?? null,
+    highestBid: null,
+    bidCount: 0,
+    extensions: 0,
+    winnerId: null,
+    paymentDeadline: null,
+    sessionId: null,
+    sessionUrl: null,
+  };
+
+  await ref.set({
+    ...auction,
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+
+  try {
+    // Version-checked against the listing the auction was set up from
+    await modifyAsset(
+      assetUid,
+      (latest) => {
+        const latestMetadata = latest.custom_metadata?.art_metadata;
+        if (
+          latestMetadata?.current_owner?.user_id !== artMetadata?.current_owner?.user_id ||
+          latestMetadata?.status !== artMetadata?.status ||
+          latestMetadata?.price !== artMetadata?.price
+        ) {
+          throw new Error("Artwork changed while the auction was being set up");
+        }
+        return {
+          status: "auction",
+          price: auction.startingPrice,
+          auction: {
+            id: auction.id,
+            starting_price: auction.startingPrice,
+            reserve_price: auction.reservePrice,
+            min_increment: auction.minIncrement,
+            starts_at: new Date(auction.startsAt).toISOString(),
+            ends_at: new Date(auction.endsAt).toISOString(),
+            extension_seconds: auction.extensionSeconds,
+          },
+        };
+      },
+      { asset }
+    );
+  } catch (error) {
+    await ref.update({ status: "cancelled", updatedAt: FieldValue.serverTimestamp() });
+    throw error;
+  }
+
+  await triggerAssetPublish(assetUid);
+  await closeAssetOffers(assetUid, "The artwork went to auction");
+
+  log.info(`[Auctions] Auction started`, {
+    auctionId: auction.id,
+    assetUid,
+    sellerId,
+    endsAt: new Date(auction.endsAt).toISOString(),
+  });
+
+  return auction;
+}
+
+/**
+ * Place a bid. The highest-bid check runs in a transaction, so concurrent
+ * bids can't both win; a bid inside the anti-sniping window extends endsAt.
+ */
+export async function placeBid(
+  auctionId: string,
+  bid: { bidderId: string; bidderName: string; amount: number }
+): Promise<{ bid: AuctionBid; auction: Auction }> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const db = adminDb();
+  const ref = auctionRef(auctionId);
+
+  const result = await db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    if (!doc.exists) {
+      throw new Error("Auction not found");
+    }
+
+    const auction = { ...doc.data(), id: doc.id } as Auction;
+    const now = Date.now();
+
+    if (auction.status !== "open" || now >= auction.endsAt) {
+      throw new Error("Auction has ended");
+    }
+    if (now < auction.startsAt) {
+      throw new Error("Auction has not started yet");
+    }
+    if (bid.bidderId === auction.sellerId) {
+      throw new Error("Sellers are not allowed to bid on their own auction");
+    }
+
+    const minimumBid = getMinimumBid(auction);
+    if (bid.amount < minimumBid) {
+      throw new Error(`Bid must be at least ${minimumBid} ${auction.currency}`);
+    }
+
+    const bidRef = ref.collection("bids").doc();
+    const placed: AuctionBid = {
+      id: bidRef.id,
+      bidderId: bid.bidderId,
+      bidderName: bid.bidderName,
+      amount: bid.amount,
+      placedAt: new Date(now).toISOString(),
+    };
+
+    const extensionMs = auction.extensionSeconds * 1000;
+    const extended = auction.endsAt - now < extensionMs;
+    const endsAt = extended ? now + extensionMs : auction.endsAt;
+
+    tx.set(bidRef, { ...placed, createdAt: FieldValue.serverTimestamp() });
+    tx.update(ref, {
+      highestBid: placed,
+      bidCount: FieldValue.increment(1),
+      extensions: FieldValue.increment(extended ? 1 : 0),
+      endsAt,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    return {
+      bid: placed,
+      auction: {
+        ...auction,
+        highestBid: placed,
+        bidCount: auction.bidCount + 1,
+        extensions: auction.extensions + (extended ? 1 : 0),
+        endsAt,
+      },
+    };
+  });
+
+  log.info(`[Auctions] Bid placed`, {
+    auctionId,
+    bidderId: bid.bidderId,
+    amount: bid.amount,
+    endsAt: new Date(result.auction.endsAt).toISOString(),
+  });
+
+  return result;
+}
+
+/**
+ * Cancel an open auction before its first bid and restore the previous listing
+ */
+export async function cancelAuction(auctionId: string, sellerId: string): Promise<Auction> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const db = adminDb();
+  const ref = auctionRef(auctionId);
+
+  const auction = await db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    if (!doc.exists) {
+      throw new Error("Auction not found");
+    }
+
+    const current = { ...doc.data(), id: doc.id } as Auction;
+    if (current.sellerId !== sellerId) {
+      throw new Error("Only the seller is allowed to cancel this auction");
+    }
+    if (current.status !== "open") {
+      throw new Error(`Auction is already ${current.status}`);
+    }
+    if (current.bidCount > 0) {
+      throw new Error("Auction has bids and can no longer be cancelled");
+    }
+
+    tx.update(ref, { status: "cancelled", updatedAt: FieldValue.serverTimestamp() });
+    return { ...current, status: "cancelled" as const };
+  });
+
+  await restoreListing(auction);
+
+  log.info(`[Auctions] Auction cancelled`, { auctionId, assetUid: auction.assetUid });
+
+  return auction;
+}
+
+/**
+ * Close an auction past its end time. With a bid at or above the reserve it
+ * closes for the highest bidder and opens their checkout; otherwise it is
+ * unsold and the previous listing is restored. No-op if not due.
+ */
+export async function closeAuction(auctionId: string): Promise<Auction | null> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const db = adminDb();
+  const ref = auctionRef(auctionId);
+
+  const closed = await db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    if (!doc.exists) return null;
+
+    const auction = { ...doc.data(), id: doc.id } as Auction;
+    if (!isDue(auction)) return null;
+
+    const winning =
+      !!auction.highestBid &&
+      auction.highestBid.amount >= (auction.reservePrice ?? auction.startingPrice);
+
+    const changes: Partial<Auction> = winning
+      ? {
+          status: "closed",
+          winnerId: auction.highestBid!.bidderId,
+          paymentDeadline: Date.now() + WINNER_PAYMENT_MS,
+        }
+      : { status: "unsold" };
+
+    tx.update(ref, {
+      ...changes,
+      closedAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return { ...auction, ...changes };
+  });
+
+  if (!closed) return null;
+
+  log.info(`[Auctions] Auction ${closed.status}`, {
+    auctionId,
+    assetUid: closed.assetUid,
+    winnerId: closed.winnerId,
+    amount: closed.highestBid?.amount ?? null,
+  });
+
+  if (closed.status === "closed") {
+    await openWinnerCheckout(closed);
+    revalidatePath(`/art/${closed.assetUid}`);
+  } else {
+    await restoreListing(closed);
+  }
+
+  return closed;
+}
+
+/**
+ * The caller's won auction for an asset, if they can still pay for it
+ */
+export async function getAuctionWin(assetUid: string, userId: string): Promise<Auction | null> {
+  const auction = await getCurrentAuction(assetUid);
+
+  if (
+    !auction ||
+    auction.status !== "closed" ||
+    auction.winnerId !== userId ||
+    (auction.paymentDeadline ?? 0) <= Date.now()
+  ) {
+    return null;
+  }
+
+  return auction;
+}
+
+/**
+ * Mark a won auction completed once its purchase is fulfilled
+ */
+export async function completeAuction(auctionId: string, sessionId: string): Promise<void> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const db = adminDb();
+  const ref = auctionRef(auctionId);
+
+  const completed = await db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    const auction = doc.data() as Auction | undefined;
+
+    if (!auction || auction.status === "completed") return false;
+
+    if (auction.status !== "closed" && auction.status !== "unsold") {
+      log.warn(`[Auctions] Auction not completed`, { auctionId, status: auction.status });
+      return false;
+    }
+
+    tx.update(ref, {
+      status: "completed",
+      sessionId,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+
+  if (completed) {
+    log.info(`[Auctions] Auction completed`, { auctionId, sessionId });
+  }
+}
+
+/**
+ * Close ended auctions and release won auctions whose winner did not pay in
+ * time (scheduled sweep), up to 100 of each per run, through the
+ * (status, endsAt) and (status, paymentDeadline) indexes. A winner whose
+ * payment is already confirmed keeps the artwork.
+ */
+export async function closeDueAuctions(): Promise<{ closed: number; lapsed: number }> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const now = Date.now();
+  const auctions = adminDb().collection(AUCTIONS_COLLECTION);
+  const [dueSnapshot, unpaidSnapshot] = await Promise.all([
+    auctions
+      .where("status", "==", "open")
+      .where("endsAt", "<=", now)
+      .orderBy("endsAt")
+      .limit(100)
+      .get(),
+    auctions
+      .where("status", "==", "closed")
+      .where("paymentDeadline", "<=", now)
+      .orderBy("paymentDeadline")
+      .limit(100)
+      .get(),
+  ]);
+
+  let closed = 0;
+  for (const doc of dueSnapshot.docs) {
+    if (await closeAuction(doc.id)) closed++;
+  }
+
+  let lapsed = 0;
+  for (const doc of unpaidSnapshot.docs) {
+    const auction = { ...doc.data(), id: doc.id } as Auction;
+    const reservation = await getActiveReservation(auction.assetUid);
+    if (reservation?.status === "confirmed") continue;
+
+    const released = await adminDb().runTransaction(async (tx) => {
+      const current = await tx.get(doc.ref);
+      if ((current.data() as Auction | undefined)?.status !== "closed") return false;
+      tx.update(doc.ref, { status: "unsold", updatedAt: FieldValue.serverTimestamp() });
+      return true;
+    });
+
+    if (released) {
+      await restoreListing(auction);
+      lapsed++;
+      log.info(`[Auctions] Winner did not pay`, {
+        auctionId: auction.id,
+        winnerId: auction.winnerId,
+      });
+    }
+  }
+
+  return { closed, lapsed };
+}
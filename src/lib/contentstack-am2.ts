@@ -6,8 +6,15 @@
  * - Update asset metadata
  * - Get asset details
  * - Publish assets
+ *
+ * This is the Contentstack backend of the asset repository: application
+ * code goes through @/lib/asset-repository rather than calling it directly.
+ *
+ * Requests go through @/lib/http-client, with one circuit breaker each for
+ * the management API, the delivery API and the publish automation.
  */
 
+import { httpFetch } from "@/lib/http-client";
 import { log } from "@/lib/logger";
 
 // ==========================================
@@ -34,6 +41,11 @@ const accessToken = process.env.CONTENTSTACK_ACCESS_TOKEN || "";
 const workspace = process.env.CONTENTSTACK_AM_WORKSPACE || "main";
 const locale = process.env.CONTENTSTACK_AM_LOCALE || "en-us";
 
+// Uploads and downloads carry the file, so they get longer than the default
+// request timeout
+const UPLOAD_TIMEOUT_MS = 60_000;
+const DOWNLOAD_TIMEOUT_MS = 60_000;
+
 // ==========================================
 // Types
 // ==========================================
@@ -43,12 +55,26 @@ export interface ArtMetadata {
   artist_name: string | null;
   price: number | null;
   currency: string | null;
-  status: "sold" | "sale" | "resale" | null;
+  status: "sold" | "sale" | "resale" | "auction" | null;
   category: string | null;
+  royalty_percentage?: number | null; // Artist royalty on resales (0-50)
+  auction?: AuctionListing | null; // Settings of the latest auction (live while status is "auction")
+  edition_size?: number | null; // Limited edition supply; null for a unique work
+  editions_sold?: number | null; // Editions minted so far (counted in Firestore edition_series)
   current_owner: OwnerRecord | null;
   ownership_history: OwnerRecord[];
 }
 
+export interface AuctionListing {
+  id: string; // auctions/{id} in Firestore holds the bids and live end time
+  starting_price: number;
+  reserve_price: number | null;
+  min_increment: number;
+  starts_at: string; // ISO timestamp
+  ends_at: string; // ISO timestamp, as scheduled (before anti-sniping extensions)
+  extension_seconds: number; // Anti-sniping: bids this close to the end extend it
+}
+
 export interface OwnerRecord {
   user_id: string | null;
   user_name: string | null;
@@ -91,7 +117,7 @@ export interface ContentstackAsset {
   description: string | null;
   content_type: string;
   file_size: number;
-  dimensions: AssetDimensions;
+  dimensions?: AssetDimensions; // Not recorded for every asset
   file_extension: string;
   created_at: string;
   updated_at: string;
@@ -126,8 +152,12 @@ export interface MinimalAssetResponse {
       artist_name: string | null;
       price: number | null;
       currency: string | null;
-      status: "sold" | "sale" | "resale" | null;
+      status: "sold" | "sale" | "resale" | "auction" | null;
       category: string | null;
+      royalty_percentage: number | null;
+      auction: AuctionListing | null;
+      edition_size: number | null;
+      editions_sold: number | null;
       current_owner: {
         user_id: string | null;
         user_name: string | null;
@@ -144,22 +174,29 @@ export interface MinimalAssetResponse {
   };
 }
 
+/**
+ * File URL of an asset in the AM2 space, derived from its CDN URL
+ */
+export function getSpaceAssetUrl(asset: ContentstackAsset): string {
+  // https://am-api.contentstack.com/spaces/{space_uid}/assets/{asset_uid}/{asset_id}/{file_name}?locale={locale}&organization_uid={organization_uid}
+  // https://images.contentstack.io/v3/assets/{asset_id}/{asset_uid}/{file_name}?environment={environment}
+  const cdnURLPath = new URL(asset.url).pathname.split("/");
+  return `${AM_API_BASE_URL}/spaces/${spaceUid}/assets/${asset.uid}/${cdnURLPath[5]}/${cdnURLPath[6]}?locale=${locale}&organization_uid=${organizationUid}`;
+}
+
 /**
  * Transform ContentstackAsset to minimal UI response format
  * Removes unnecessary fields to reduce payload size
  */
 export function toMinimalAssetResponse(
-  asset: ContentstackAsset
+  asset: ContentstackAsset,
+  url: string = getSpaceAssetUrl(asset)
 ): MinimalAssetResponse {
-  // https://am-api.contentstack.com/spaces/{space_uid}/assets/{asset_uid}/{asset_id}/{file_name}?locale={locale}&organization_uid={organization_uid}
-  // https://images.contentstack.io/v3/assets/{asset_id}/{asset_uid}/{file_name}?environment={environment}
-  const cdnURLPath = new URL(asset.url).pathname.split("/");
-  const spaceAssetUrl = `${AM_API_BASE_URL}/spaces/${spaceUid}/assets/${asset.uid}/${cdnURLPath[5]}/${cdnURLPath[6]}?locale=${locale}&organization_uid=${organizationUid}`;
   return {
     uid: asset.uid,
     title: asset.title,
     file_name: asset.file_name,
-    url: spaceAssetUrl,
+    url,
     content_type: asset.content_type,
     file_size: asset.file_size,
     created_at: asset.created_at,
@@ -180,6 +217,10 @@ export function toMinimalAssetResponse(
         currency: asset.custom_metadata?.art_metadata?.currency || null,
         status: asset.custom_metadata?.art_metadata?.status || null,
         category: asset.custom_metadata?.art_metadata?.category || null,
+        royalty_percentage: asset.custom_metadata?.art_metadata?.royalty_percentage ?? null,
+        auction: asset.custom_metadata?.art_metadata?.auction ?? null,
+        edition_size: asset.custom_metadata?.art_metadata?.edition_size ?? null,
+        editions_sold: asset.custom_metadata?.art_metadata?.editions_sold ?? null,
         current_owner: asset.custom_metadata?.art_metadata?.current_owner ? {
           user_id: asset.custom_metadata.art_metadata.current_owner.user_id || null,
           user_name: asset.custom_metadata.art_metadata.current_owner.user_name || null,
@@ -233,11 +274,21 @@ export interface AssetUploadParams {
   currency: string;
   category: string;
   status: "sold" | "sale" | "resale";
+  royalty_percentage?: number;
+  edition_size?: number | null;
   tags?: string[];
   description?: string;
   title?: string;
 }
 
+export interface ListAssetsOptions {
+  category?: string;
+  artistId?: string;
+  limit?: number;
+  skip?: number;
+  query?: Record<string, any>; // MongoDB query filter
+}
+
 export interface AssetUpdateParams {
   title?: string;
   description?: string;
@@ -247,9 +298,52 @@ export interface AssetUpdateParams {
   price?: number;
   currency?: string;
   category?: string;
-  status?: "sold" | "sale" | "resale";
+  status?: "sold" | "sale" | "resale" | "auction";
+  royalty_percentage?: number;
+  auction?: AuctionListing | null;
+  edition_size?: number | null;
+  editions_sold?: number | null;
   current_owner?: OwnerRecord | null;
   ownership_history?: OwnerRecord[];
+  // Only write if the asset is still at this version (see AssetVersionConflictError)
+  expectedVersion?: number;
+}
+
+// ==========================================
+// Errors
+// ==========================================
+
+/**
+ * A version-checked write found the asset at a different version than the
+ * caller read: someone else wrote it in between. Retryable by re-reading
+ * the asset and re-applying the change.
+ */
+export class AssetVersionConflictError extends Error {
+  readonly retryable = true;
+
+  constructor(
+    readonly assetUid: string,
+    readonly expectedVersion: number,
+    readonly currentVersion: number
+  ) {
+    super(
+      `Asset ${assetUid} was modified concurrently (expected version ${expectedVersion}, found ${currentVersion})`
+    );
+    this.name = "AssetVersionConflictError";
+  }
+}
+
+/**
+ * Throw if a version-checked update no longer applies to the asset
+ */
+export function assertAssetVersion(currentAsset: ContentstackAsset, params: AssetUpdateParams) {
+  if (params.expectedVersion !== undefined && currentAsset.version !== params.expectedVersion) {
+    throw new AssetVersionConflictError(
+      currentAsset.uid,
+      params.expectedVersion,
+      currentAsset.version
+    );
+  }
 }
 
 // ==========================================
@@ -293,7 +387,7 @@ function buildUploadUrl(params?: { workspace?: string }): string {
 /**
  * Detect MIME type from file extension
  */
-function getMimeTypeFromFilename(filename: string): string {
+export function getMimeTypeFromFilename(filename: string): string {
   const ext = filename.toLowerCase().split(".").pop() || "";
 
   const mimeTypes: Record<string, string> = {
@@ -328,6 +422,69 @@ function getMimeTypeFromFilename(filename: string): string {
   return mimeTypes[ext] || "application/octet-stream";
 }
 
+/**
+ * Merge an update into an asset's current title, description, tags and
+ * art metadata. Fields left undefined keep their current value.
+ */
+export function buildAssetUpdate(
+  currentAsset: ContentstackAsset,
+  params: AssetUpdateParams
+): AssetUpdateRequest {
+  return {
+    title: params.title || currentAsset.title,
+    description:
+      params.description !== undefined
+        ? params.description
+        : currentAsset.description ?? undefined,
+    tags: params.tags || currentAsset.tags,
+    custom_metadata: {
+      art_metadata: {
+        artist_uid:
+          params.artist_uid ||
+          currentAsset.custom_metadata.art_metadata.artist_uid,
+        artist_name:
+          params.artist_name ||
+          currentAsset.custom_metadata.art_metadata.artist_name,
+        price:
+          params.price !== undefined
+            ? params.price
+            : currentAsset.custom_metadata.art_metadata.price,
+        currency:
+          params.currency || currentAsset.custom_metadata.art_metadata.currency,
+        status:
+          params.status || currentAsset.custom_metadata.art_metadata.status,
+        category:
+          params.category || currentAsset.custom_metadata.art_metadata.category,
+        royalty_percentage:
+          params.royalty_percentage !== undefined
+            ? params.royalty_percentage
+            : currentAsset.custom_metadata.art_metadata.royalty_percentage ?? null,
+        auction:
+          params.auction !== undefined
+            ? params.auction
+            : currentAsset.custom_metadata.art_metadata.auction ?? null,
+        edition_size:
+          params.edition_size !== undefined
+            ? params.edition_size
+            : currentAsset.custom_metadata.art_metadata.edition_size ?? null,
+        editions_sold:
+          params.editions_sold !== undefined
+            ? params.editions_sold
+            : currentAsset.custom_metadata.art_metadata.editions_sold ?? null,
+        current_owner:
+          params.current_owner !== undefined
+            ? params.current_owner
+            : currentAsset.custom_metadata.art_metadata.current_owner || null,
+        ownership_history:
+          params.ownership_history !== undefined
+            ? params.ownership_history
+            : currentAsset.custom_metadata.art_metadata.ownership_history || [],
+      },
+    },
+    visual_markups: currentAsset.visual_markups,
+  };
+}
+
 /**
  * Handle Contentstack API errors with proper logging and user-friendly messages
  */
@@ -480,6 +637,9 @@ export async function uploadAsset(
       currency: params.currency,
       status: params.status,
       category: params.category,
+      royalty_percentage: params.royalty_percentage ?? null,
+      edition_size: params.edition_size ?? null,
+      editions_sold: params.edition_size ? 0 : null,
       current_owner: null,
       ownership_history: [],
     },
@@ -493,7 +653,10 @@ export async function uploadAsset(
   // Remove content-type for FormData (browser/Node will set it with boundary)
   const { "content-type": _, ...headersWithoutContentType } = headers;
 
-  const response = await fetch(buildUploadUrl(), {
+  const response = await httpFetch(buildUploadUrl(), {
+    service: "contentstack-am",
+    operation: "uploadAsset",
+    timeoutMs: UPLOAD_TIMEOUT_MS,
     method: "POST",
     headers: headersWithoutContentType,
     body: formData,
@@ -530,6 +693,9 @@ export async function uploadAsset(
         currency: params.currency,
         category: params.category,
         status: params.status,
+        royalty_percentage: params.royalty_percentage,
+        edition_size: params.edition_size ?? null,
+        editions_sold: params.edition_size ? 0 : null,
         current_owner: artistOwner, // Set artist as the current owner
         ownership_history: [artistOwner], // Add artist to ownership history
       });
@@ -550,7 +716,11 @@ export async function uploadAsset(
 }
 
 /**
- * Update asset metadata
+ * Update asset metadata.
+ * With params.expectedVersion the write is refused (AssetVersionConflictError)
+ * if the asset changed since the caller read it. AM2 has no conditional PUT,
+ * so the check runs against a fresh read right before the write; the asset
+ * repository holds the asset's write lock (@/lib/asset-locks) around both.
  */
 export async function updateAssetMetadata(
   assetUid: string,
@@ -564,52 +734,19 @@ export async function updateAssetMetadata(
 
   // First, get the current asset to preserve existing data
   const currentAsset = await getAssetUsingAMV2API(assetUid);
+  assertAssetVersion(currentAsset, params);
 
   // Build update request
-  const updateRequest: AssetUpdateRequest = {
-    title: params.title || currentAsset.title,
-    description:
-      params.description !== undefined
-        ? params.description
-        : currentAsset.description ?? undefined,
-    tags: params.tags || currentAsset.tags,
-    custom_metadata: {
-      art_metadata: {
-        artist_uid:
-          params.artist_uid ||
-          currentAsset.custom_metadata.art_metadata.artist_uid,
-        artist_name:
-          params.artist_name ||
-          currentAsset.custom_metadata.art_metadata.artist_name,
-        price:
-          params.price !== undefined
-            ? params.price
-            : currentAsset.custom_metadata.art_metadata.price,
-        currency:
-          params.currency || currentAsset.custom_metadata.art_metadata.currency,
-        status:
-          params.status || currentAsset.custom_metadata.art_metadata.status,
-        category:
-          params.category || currentAsset.custom_metadata.art_metadata.category,
-        current_owner:
-          params.current_owner !== undefined
-            ? params.current_owner
-            : currentAsset.custom_metadata.art_metadata.current_owner || null,
-        ownership_history:
-          params.ownership_history !== undefined
-            ? params.ownership_history
-            : currentAsset.custom_metadata.art_metadata.ownership_history || [],
-      },
-    },
-    visual_markups: currentAsset.visual_markups,
-  };
+  const updateRequest = buildAssetUpdate(currentAsset, params);
 
   const headers = {
     ...getHeaders(),
     "content-type": "application/json",
   };
 
-  const response = await fetch(buildAssetUrl(assetUid), {
+  const response = await httpFetch(buildAssetUrl(assetUid), {
+    service: "contentstack-am",
+    operation: "updateAssetMetadata",
     method: "PUT",
     headers,
     body: JSON.stringify(updateRequest),
@@ -651,7 +788,9 @@ export async function getAssetUsingAMV2API(assetUid: string): Promise<Contentsta
   const headers = getHeaders();
 
   try {
-    const response = await fetch(url, {
+    const response = await httpFetch(url, {
+      service: "contentstack-am",
+      operation: "getAssetUsingAMV2API",
       method: "GET",
       headers: {
         ...headers,
@@ -719,7 +858,9 @@ export async function getAssetFromCDA(assetUid: string): Promise<ContentstackAss
     "Content-Type": "application/json",
   };
 
-  const response = await fetch(cdaUrl, {
+  const response = await httpFetch(cdaUrl, {
+    service: "contentstack-cda",
+    operation: "getAssetFromCDA",
     method: "GET",
     headers,
   });
@@ -806,81 +947,11 @@ export async function getAssetFromCDA(assetUid: string): Promise<ContentstackAss
   }
 }
 
-/**
- * Add owner to asset (for purchase tracking)
- * Updates current_owner and appends to ownership_history
- * Note: ownership_history includes ALL owners including the current one
- */
-export async function addAssetOwner(
-  assetUid: string,
-  owner: OwnerRecord
-): Promise<ContentstackAsset> {
-  const asset = await getAssetUsingAMV2API(assetUid);
-  const currentOwner = asset.custom_metadata.art_metadata.current_owner;
-  const ownershipHistory = asset.custom_metadata.art_metadata.ownership_history || [];
-
-  // Move previous current owner to history (if exists and different from new owner)
-  let updatedHistory = ownershipHistory;
-  if (currentOwner && currentOwner.user_id !== owner.user_id) {
-    // Check if previous owner is already in history (avoid duplicates)
-    const alreadyInHistory = ownershipHistory.some(
-      (h) => h.user_id === currentOwner.user_id && h.transaction_id === currentOwner.transaction_id
-    );
-    if (!alreadyInHistory) {
-      updatedHistory = [...ownershipHistory, currentOwner];
-    }
-  }
-
-  // Add new owner to history as well (ownership_history includes current owner)
-  // Check if new owner is already in history (avoid duplicates)
-  const newOwnerInHistory = updatedHistory.some(
-    (h) => h.user_id === owner.user_id && h.transaction_id === owner.transaction_id
-  );
-  const finalHistory = newOwnerInHistory 
-    ? updatedHistory 
-    : [...updatedHistory, owner];
-
-  // Set new owner as current
-  return updateAssetMetadata(assetUid, {
-    current_owner: owner,
-    ownership_history: finalHistory,
-    status: "sold",
-  });
-}
-
-/**
- * Update asset status
- */
-export async function updateAssetStatus(
-  assetUid: string,
-  status: "sold" | "sale" | "resale"
-): Promise<ContentstackAsset> {
-  return updateAssetMetadata(assetUid, { status });
-}
-
-/**
- * Publish asset (if needed - depends on Contentstack workflow)
- * Note: This might require additional API calls depending on Contentstack configuration
- */
-export async function publishAsset(
-  assetUid: string
-): Promise<ContentstackAsset> {
-  // For now, publishing is handled by setting status to "sale"
-  // If Contentstack has a separate publish workflow, this would need to be implemented
-  return updateAssetStatus(assetUid, "sale");
-}
-
 /**
  * List all assets from Contentstack using CDA
- * Returns assets that are available for sale (status: "sale" or "resale")
+ * Returns assets that are available for sale (status: "sale", "resale" or "auction")
  */
-export async function listAssets(options?: {
-  category?: string;
-  artistId?: string;
-  limit?: number;
-  skip?: number;
-  query?: Record<string, any>; // MongoDB query filter
-}): Promise<ContentstackAsset[]> {
+export async function listAssets(options?: ListAssetsOptions): Promise<ContentstackAsset[]> {
   if (!apiKey || !deliveryToken) {
     throw new Error(
       "Contentstack CDA configuration is missing. Please check CONTENTSTACK_API_KEY and CONTENTSTACK_DELIVERY_TOKEN environment variables."
@@ -913,7 +984,9 @@ export async function listAssets(options?: {
     "Content-Type": "application/json",
   };
 
-  const response = await fetch(cdaUrl, {
+  const response = await httpFetch(cdaUrl, {
+    service: "contentstack-cda",
+    operation: "listAssets",
     method: "GET",
     headers,
   });
@@ -971,130 +1044,69 @@ export async function listAssets(options?: {
 }
 
 /**
- * Get all unique artists from user collections
- * Returns artist information with artwork count and total sales
- * More efficient than fetching all assets - uses Firestore user data
+ * Download an asset's file from the Contentstack CDN
  */
-export async function getArtists(): Promise<
-  Array<{
-    id: string;
-    name: string;
-    artworks: number;
-    totalSales: number;
-  }>
-> {
-  // Import Firebase admin functions
-  const { getAllArtists, getUserAssets } = await import("@/lib/firebase-admin");
-  
-  // Get all users with artist role from Firestore
-  const artistUsers = await getAllArtists();
-  
-  if (artistUsers.length === 0) {
-    return [];
-  }
-
-  // For each artist, get their assets and calculate stats
-  const artistPromises = artistUsers.map(async (artistUser: any) => {
-    const artistId = artistUser.id;
-    const artistName = artistUser.displayName || artistUser.email || "Unknown Artist";
-    
-    // Get artist's asset collection from Firestore
-    const userAssets = await getUserAssets(artistId);
-    const assetUids = (userAssets.assets || []).map((asset: any) => asset.assetUid);
-    
-    if (assetUids.length === 0) {
-      return {
-        id: artistId,
-        name: artistName,
-        artworks: 0,
-        totalSales: 0,
-      };
-    }
-
-    // Fetch asset details from Contentstack to get prices and status
-    const assetDetailsPromises = assetUids.map((assetUid: string) =>
-      getAssetFromCDA(assetUid).catch((error) => {
-        log.error(`Failed to fetch asset ${assetUid} for artist ${artistId}`, error);
-        return null;
-      })
-    );
-
-    const assetDetails = await Promise.all(assetDetailsPromises);
-    const validAssets = assetDetails.filter((asset) => asset !== null) as ContentstackAsset[];
-
-    // Calculate stats
-    let artworks = 0;
-    let totalSales = 0;
-
-    validAssets.forEach((asset) => {
-      const artMetadata = asset.custom_metadata?.art_metadata;
-      
-      // Count all artworks (not just sold ones)
-      artworks += 1;
-      
-      // Only count sales if artwork is sold
-      if (artMetadata?.status === "sold" && artMetadata?.price) {
-        totalSales += artMetadata.price;
-      }
-    });
-
-    return {
-      id: artistId,
-      name: artistName,
-      artworks,
-      totalSales,
-    };
+export async function downloadAssetFile(asset: ContentstackAsset): Promise<Buffer> {
+  const response = await httpFetch(asset.url, {
+    service: "contentstack-cdn",
+    operation: "downloadAssetFile",
+    timeoutMs: DOWNLOAD_TIMEOUT_MS,
+    method: "GET",
   });
 
-  const artists = await Promise.all(artistPromises);
+  if (!response.ok) {
+    log.error("[Contentstack CDN Error] downloadAssetFile", undefined, {
+      assetUid: asset.uid,
+      status: response.status,
+    });
+    throw new Error(`Failed to download asset file: ${response.status}`);
+  }
 
-  // Filter out artists with no artworks and sort by total sales (descending)
-  return artists
-    .filter((artist) => artist.artworks > 0)
-    .sort((a, b) => b.totalSales - a.totalSales);
+  return Buffer.from(await response.arrayBuffer());
 }
 
 /**
- * Trigger Contentstack Automation API (async, non-blocking)
- * This function fires and forgets - it doesn't wait for the response
+ * Run the Contentstack Automation that publishes an asset to the CDA
+ * Waits for the automation to accept the request and throws if it doesn't,
+ * so the publish job queue (@/lib/publish-jobs) can retry it
  */
-export async function triggerContentstackAutomation(
-  assetUid: string
-): Promise<void> {
+export async function runContentstackAutomation(assetUid: string): Promise<void> {
+  if (!publishAutomationApiUrl) {
+    throw new Error(
+      "Contentstack publish automation is not configured. Please check CONTENTSTACK_PUBLISH_AUTOMATION_API."
+    );
+  }
+
   const automationUrl = `${publishAutomationApiUrl}?asset=${assetUid}`;
   log.debug("Triggering Contentstack Automation", { automationUrl, assetUid });
-  // Fire and forget - don't await, don't block
-  fetch(automationUrl, {
+
+  const response = await httpFetch(automationUrl, {
+    service: "contentstack-automation",
+    operation: "runContentstackAutomation",
+    retries: 0, // Retried by the publish job queue
     method: "GET",
     headers: {
       Accept: "application/json",
     },
-  })
-    .then(async (response) => {
-      if (!response.ok) {
-        const errorText = await response.text().catch(() => "Unknown error");
-        log.error(
-          `[Automation API] Failed to trigger automation for asset ${assetUid}`,
-          undefined,
-          {
-            status: response.status,
-            statusText: response.statusText,
-            error: errorText,
-          }
-        );
-      } else {
-        const data = await response.json().catch(() => null);
-        log.info(
-          `[Automation API] Successfully triggered automation for asset ${assetUid}`,
-          { assetUid, response: data }
-        );
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => "Unknown error");
+    log.error(
+      `[Automation API] Failed to trigger automation for asset ${assetUid}`,
+      undefined,
+      {
+        status: response.status,
+        statusText: response.statusText,
+        error: errorText,
       }
-    })
-    .catch((error) => {
-      // Silently log errors - don't throw, this is non-blocking
-      log.error(
-        `[Automation API] Error triggering automation for asset ${assetUid}`,
-        error
-      );
-    });
+    );
+    throw new Error(`Publish automation failed: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json().catch(() => null);
+  log.info(
+    `[Automation API] Successfully triggered automation for asset ${assetUid}`,
+    { assetUid, response: data }
+  );
 }
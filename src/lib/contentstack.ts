@@ -47,7 +47,11 @@ export interface ArtworkMetadata {
   artistName: string;
   price: number;
   currency: string;
-  status: "draft" | "published" | "sold";
+  status: "draft" | "published" | "auction" | "sold";
+  royaltyPercentage?: number | null;
+  editionSize?: number | null; // Limited edition of this many copies
+  editionsSold?: number | null;
+  editionNumber?: number | null; // Set on a collector's own edition
   current_owner: OwnerRecord | null;
   ownership_history: OwnerRecord[];
   createdAt: string;
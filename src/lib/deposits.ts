@@ -0,0 +1,212 @@
+/**
+ * Wallet Deposits
+ *
+ * Tops up wallet balances through Stripe Checkout. Each paid deposit session
+ * is tracked in the `wallet_deposits` collection (keyed by session ID):
+ * - "credited": ledger CREDIT recorded
+ * - "reversed": the payment was refunded or charged back, ledger DEBIT recorded
+ *
+ * Transaction IDs are fixed when the record is created, so the webhook and
+ * the manual process route can both credit the same session safely.
+ */
+
+import type Stripe from "stripe";
+import { adminDb, addServerTransaction } from "@/lib/firebase-admin";
+import { createTransactionId } from "@/lib/wallet";
+import { log } from "@/lib/logger";
+
+// ==========================================
+// Types
+// ==========================================
+
+export type DepositStatus = "credited" | "reversed";
+
+export interface DepositRecord {
+  sessionId: string;
+  userId: string;
+  walletId: string;
+  amount: number;
+  currency: string;
+  stripePaymentId: string;
+  transactionId: string; // Ledger CREDIT
+  reversalTransactionId: string | null; // Ledger DEBIT if the payment is reversed
+  status: DepositStatus;
+  createdAt?: any;
+  updatedAt?: any;
+}
+
+export interface DepositResult {
+  transactionId: string;
+  amount: number;
+  alreadyCredited: boolean;
+}
+
+// ==========================================
+// Configuration
+// ==========================================
+
+const DEPOSITS_COLLECTION = "wallet_deposits";
+
+// ==========================================
+// Helpers
+// ==========================================
+
+function depositRef(sessionId: string) {
+  return adminDb().collection(DEPOSITS_COLLECTION).doc(sessionId);
+}
+
+/**
+ * Whether a checkout session is a wallet deposit (rather than an artwork purchase)
+ */
+export function isDepositSession(session: Stripe.Checkout.Session): boolean {
+  return session.metadata?.type === "wallet_deposit";
+}
+
+/**
+ * Create the deposit record (first delivery) or return the existing one
+ */
+async function claimDeposit(
+  session: Stripe.Checkout.Session
+): Promise<DepositRecord> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const { userId, walletId } = session.metadata || {};
+
+  if (!userId || !walletId) {
+    throw new Error("Missing required metadata in checkout session");
+  }
+
+  const db = adminDb();
+  const ref = depositRef(session.id);
+
+  return db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    if (doc.exists) {
+      return doc.data() as DepositRecord;
+    }
+
+    const record: DepositRecord = {
+      sessionId: session.id,
+      userId,
+      walletId,
+      amount: (session.amount_total || 0) / 100, // Convert from cents
+      currency: (session.currency || "usd").toUpperCase(),
+      stripePaymentId:
+        typeof session.payment_intent === "string"
+          ? session.payment_intent
+          : session.payment_intent?.id || session.id,
+      transactionId: createTransactionId(),
+      reversalTransactionId: null,
+      status: "credited",
+    };
+    tx.set(ref, {
+      ...record,
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return record;
+  });
+}
+
+// ==========================================
+// Deposits
+// ==========================================
+
+/**
+ * Credit a paid deposit session to the buyer's wallet.
+ * Safe to call repeatedly: the CREDIT is idempotent on its transaction ID.
+ */
+export async function creditDeposit(
+  session: Stripe.Checkout.Session
+): Promise<DepositResult> {
+  const record = await claimDeposit(session);
+
+  const { duplicate } = await addServerTransaction(record.walletId, {
+    id: record.transactionId,
+    type: "CREDIT",
+    amount: record.amount,
+    reference: {
+      stripePaymentId: record.stripePaymentId,
+      description: "Wallet deposit",
+    },
+  });
+
+  log.info(`[Deposits] Deposit ${duplicate ? "already credited" : "credited"}`, {
+    sessionId: record.sessionId,
+    userId: record.userId,
+    amount: record.amount,
+  });
+
+  return {
+    transactionId: record.transactionId,
+    amount: record.amount,
+    alreadyCredited: duplicate,
+  };
+}
+
+/**
+ * Take a refunded or charged-back deposit back out of the wallet.
+ * The DEBIT may overdraw the wallet if the funds were already spent.
+ * Returns null if the payment was not a deposit.
+ */
+export async function reverseDeposit(
+  stripePaymentId: string
+): Promise<DepositRecord | null> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const db = adminDb();
+
+  const snapshot = await db
+    .collection(DEPOSITS_COLLECTION)
+    .where("stripePaymentId", "==", stripePaymentId)
+    .limit(1)
+    .get();
+
+  if (snapshot.empty) return null;
+
+  const ref = snapshot.docs[0].ref;
+  const record = await db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    const current = doc.data() as DepositRecord;
+
+    if (current.reversalTransactionId) return current;
+
+    const reversed: DepositRecord = {
+      ...current,
+      reversalTransactionId: createTransactionId(),
+    };
+    tx.update(ref, {
+      reversalTransactionId: reversed.reversalTransactionId,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return reversed;
+  });
+
+  await addServerTransaction(
+    record.walletId,
+    {
+      id: record.reversalTransactionId!,
+      type: "DEBIT",
+      amount: record.amount,
+      reference: {
+        stripePaymentId: record.stripePaymentId,
+        description: "Wallet deposit reversed",
+        relatedTransactionId: record.transactionId,
+      },
+    },
+    { allowOverdraft: true }
+  );
+
+  if (record.status !== "reversed") {
+    await ref.update({
+      status: "reversed",
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  }
+
+  log.info(`[Deposits] Deposit reversed`, {
+    sessionId: record.sessionId,
+    stripePaymentId,
+    amount: record.amount,
+  });
+
+  return { ...record, status: "reversed" };
+}
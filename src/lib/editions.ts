@@ -0,0 +1,441 @@
+/**
+ * Limited Editions (server only)
+ *
+ * An artwork uploaded with an edition_size is sold as numbered copies
+ * ("3/25") of one master asset. The master stays in Contentstack, owned by
+ * the artist; each primary sale mints the next edition in the `editions`
+ * collection, which holds that copy's owner, ownership history and resale
+ * listing:
+ * - "owned": held by its current owner
+ * - "resale": listed by its owner at `price`
+ *
+ * `edition_series/{assetUid}` counts the editions minted so far. The count
+ * is mirrored to art_metadata.editions_sold, so the gallery can show how
+ * many remain without reading Firestore; a sold-out master is marked "sold".
+ */
+
+import type { Transaction } from "firebase-admin/firestore";
+import { revalidatePath } from "next/cache";
+import { adminDb } from "@/lib/firebase-admin";
+import {
+  getAsset,
+  modifyAsset,
+  triggerAssetPublish,
+} from "@/lib/asset-repository";
+import type { ArtMetadata } from "@/lib/contentstack-am2";
+import { log } from "@/lib/logger";
+
+// ==========================================
+// Types
+// ==========================================
+
+export type EditionStatus = "owned" | "resale";
+
+export interface EditionOwner {
+  userId: string;
+  userName: string | null;
+  purchaseDate: string; // ISO timestamp
+  transactionId: string; // Buyer's purchase DEBIT; "CREATOR" for the artist
+  price: number | null;
+}
+
+export interface Edition {
+  id: string; // `${assetUid}_${editionNumber}`
+  assetUid: string;
+  editionNumber: number;
+  editionSize: number;
+  status: EditionStatus;
+  price: number | null; // Resale asking price while listed
+  currency: string;
+  currentOwner: EditionOwner;
+  ownershipHistory: EditionOwner[]; // Oldest first, starting with the artist
+  mintSessionId: string; // Purchase that minted the edition
+  createdAt?: any;
+  updatedAt?: any;
+}
+
+export interface EditionSeries {
+  assetUid: string;
+  editionSize: number;
+  minted: number;
+  remaining: number;
+}
+
+// ==========================================
+// Configuration
+// ==========================================
+
+const EDITIONS_COLLECTION = "editions";
+const SERIES_COLLECTION = "edition_series";
+
+const CREATOR_TRANSACTION_ID = "CREATOR";
+
+// ==========================================
+// Helpers
+// ==========================================
+
+export function getEditionId(assetUid: string, editionNumber: number): string {
+  return `${assetUid}_${editionNumber}`;
+}
+
+/**
+ * Whether an artwork is sold as numbered editions rather than as a unique work
+ */
+export function isEditionArtwork(
+  artMetadata?: Pick<ArtMetadata, "edition_size"> | null
+): boolean {
+  return (artMetadata?.edition_size ?? 0) > 1;
+}
+
+function editionRef(editionId: string) {
+  return adminDb().collection(EDITIONS_COLLECTION).doc(editionId);
+}
+
+function seriesRef(assetUid: string) {
+  return adminDb().collection(SERIES_COLLECTION).doc(assetUid);
+}
+
+/**
+ * Mirror the minted count to Contentstack for the gallery.
+ * Failures are logged; the Firestore count stays authoritative.
+ */
+async function syncEditionsSold(assetUid: string, minted: number, editionSize: number) {
+  try {
+    await modifyAsset(assetUid, () => ({
+      editions_sold: minted,
+      ...(minted >= editionSize ? { status: "sold" as const } : {}),
+    }));
+    await triggerAssetPublish(assetUid);
+    revalidatePath(`/art/${assetUid}`);
+  } catch (error: any) {
+    log.error(`[Editions] Failed to sync editions sold`, error, { assetUid, minted });
+  }
+}
+
+/**
+ * Serialize an edition for API responses. Owner IDs are not exposed.
+ */
+export function toEditionResponse(edition: Edition, viewerId?: string | null) {
+  return {
+    id: edition.id,
+    assetUid: edition.assetUid,
+    editionNumber: edition.editionNumber,
+    editionSize: edition.editionSize,
+    label: `${edition.editionNumber}/${edition.editionSize}`,
+    status: edition.status,
+    price: edition.status === "resale" ? edition.price : null,
+    currency: edition.currency,
+    ownerName: edition.currentOwner.userName || "Anonymous",
+    isMine: !!viewerId && edition.currentOwner.userId === viewerId,
+    ownershipHistory: edition.ownershipHistory.map((owner) => ({
+      userName: owner.userName || "Anonymous",
+      purchaseDate: owner.purchaseDate,
+      price: owner.price,
+    })),
+  };
+}
+
+// ==========================================
+// Editions
+// ==========================================
+
+/**
+ * Supply of an edition artwork: how many were minted and how many remain
+ */
+export async function getEditionSeries(
+  assetUid: string,
+  editionSize: number
+): Promise<EditionSeries> {
+  const doc = await seriesRef(assetUid).get();
+  const minted = doc.exists ? (doc.data()?.minted as number) || 0 : 0;
+
+  return {
+    assetUid,
+    editionSize,
+    minted,
+    remaining: Math.max(editionSize - minted, 0),
+  };
+}
+
+/**
+ * Get an edition by ID
+ */
+export async function getEdition(editionId: string): Promise<Edition | null> {
+  const doc = await editionRef(editionId).get();
+  if (!doc.exists) return null;
+  return { ...doc.data(), id: doc.id } as Edition;
+}
+
+/**
+ * Minted editions of an artwork, in edition order
+ * Uses the (assetUid, editionNumber) index
+ */
+export async function getAssetEditions(assetUid: string): Promise<Edition[]> {
+  const snapshot = await adminDb()
+    .collection(EDITIONS_COLLECTION)
+    .where("assetUid", "==", assetUid)
+    .orderBy("editionNumber")
+    .get();
+
+  return snapshot.docs.map((doc) => ({ ...doc.data(), id: doc.id }) as Edition);
+}
+
+/**
+ * Editions a user currently owns, across all artworks
+ */
+export async function getUserEditions(userId: string): Promise<Edition[]> {
+  const snapshot = await adminDb()
+    .collection(EDITIONS_COLLECTION)
+    .where("currentOwner.userId", "==", userId)
+    .get();
+
+  return snapshot.docs.map((doc) => ({ ...doc.data(), id: doc.id }) as Edition);
+}
+
+/**
+ * Mint the next edition of an artwork for a purchase. The edition starts out
+ * with the artist; fulfillment transfers it to the buyer once they've paid.
+ * Idempotent per purchase: a retried purchase gets the edition it minted.
+ * Throws "Edition is sold out" when every edition has been minted.
+ *
+ * `writePayment` runs inside the minting transaction, after its reads and
+ * before its writes, so a payment that throws mints nothing.
+ */
+export async function mintEdition(
+  assetUid: string,
+  sessionId: string,
+  writePayment?: (tx: Transaction) => Promise<unknown>
+): Promise<Edition> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const db = adminDb();
+
+  const asset = await getAsset(assetUid);
+  const artMetadata = asset.custom_metadata?.art_metadata;
+
+  if (!isEditionArtwork(artMetadata)) {
+    throw new Error("Artwork is not an edition");
+  }
+
+  const editionSize = artMetadata.edition_size as number;
+
+  const { edition, minted } = await db.runTransaction(async (tx) => {
+    const existing = await tx.get(
+      db.collection(EDITIONS_COLLECTION)
+        .where("assetUid", "==", assetUid)
+        .where("mintSessionId", "==", sessionId)
+        .limit(1)
+    );
+
+    if (!existing.empty) {
+      const doc = existing.docs[0];
+      return { edition: { ...doc.data(), id: doc.id } as Edition, minted: null };
+    }
+
+    const seriesDoc = await tx.get(seriesRef(assetUid));
+    const count = seriesDoc.exists ? (seriesDoc.data()?.minted as number) || 0 : 0;
+
+    if (count >= editionSize) {
+      throw new Error("Edition is sold out");
+    }
+
+    if (writePayment) await writePayment(tx);
+
+    const editionNumber = count + 1;
+    const creator: EditionOwner = {
+      userId: artMetadata.artist_uid || "",
+      userName: artMetadata.artist_name || null,
+      purchaseDate: new Date().toISOString(),
+      transactionId: CREATOR_TRANSACTION_ID,
+      price: null,
+    };
+    const minted: Edition = {
+      id: getEditionId(assetUid, editionNumber),
+      assetUid,
+      editionNumber,
+      editionSize,
+      status: "owned",
+      price: null,
+      currency: artMetadata.currency || "USD",
+      currentOwner: creator,
+      ownershipHistory: [creator],
+      mintSessionId: sessionId,
+    };
+
+    tx.set(
+      seriesRef(assetUid),
+      {
+        assetUid,
+        editionSize,
+        minted: editionNumber,
+        updatedAt: FieldValue.serverTimestamp(),
+        ...(seriesDoc.exists ? {} : { createdAt: FieldValue.serverTimestamp() }),
+      },
+      { merge: true }
+    );
+    tx.set(editionRef(minted.id), {
+      ...minted,
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    return { edition: minted, minted: editionNumber };
+  });
+
+  if (minted !== null) {
+    log.info(`[Editions] Edition minted`, {
+      editionId: edition.id,
+      assetUid,
+      sessionId,
+    });
+    await syncEditionsSold(assetUid, minted, editionSize);
+  }
+
+  return edition;
+}
+
+/**
+ * Hand an edition to its buyer. Idempotent on the buyer's transaction ID.
+ * Any resale listing ends with the sale.
+ */
+export async function transferEdition(editionId: string, owner: EditionOwner): Promise<void> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const db = adminDb();
+  const ref = editionRef(editionId);
+
+  const transferred = await db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    if (!doc.exists) {
+      throw new Error("Edition not found");
+    }
+
+    const edition = doc.data() as Edition;
+    if (edition.ownershipHistory.some((h) => h.transactionId === owner.transactionId)) {
+      return false;
+    }
+
+    tx.update(ref, {
+      status: "owned",
+      price: null,
+      currentOwner: owner,
+      ownershipHistory: [...edition.ownershipHistory, owner],
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+
+  if (transferred) {
+    log.info(`[Editions] Edition transferred`, {
+      editionId,
+      userId: owner.userId,
+      transactionId: owner.transactionId,
+    });
+  }
+}
+
+/**
+ * Undo a reversed purchase: the edition goes back to the owner before
+ * `transactionId` (the artist, for a primary sale). Returns false if the
+ * edition has changed hands again since, so ownership is kept.
+ */
+export async function rollbackEditionOwner(
+  editionId: string,
+  transactionId: string
+): Promise<boolean> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const db = adminDb();
+  const ref = editionRef(editionId);
+
+  return db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    if (!doc.exists) return false;
+
+    const edition = doc.data() as Edition;
+    const history = edition.ownershipHistory || [];
+
+    // Already rolled back
+    if (!history.some((h) => h.transactionId === transactionId)) return true;
+
+    if (edition.currentOwner.transactionId !== transactionId || history.length < 2) {
+      return false;
+    }
+
+    const restored = history.slice(0, -1);
+    tx.update(ref, {
+      status: "owned",
+      price: null,
+      currentOwner: restored[restored.length - 1],
+      ownershipHistory: restored,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+}
+
+/**
+ * List an edition for resale, or change its asking price
+ */
+export async function listEditionForResale(
+  editionId: string,
+  userId: string,
+  price: number
+): Promise<Edition> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const db = adminDb();
+  const ref = editionRef(editionId);
+
+  const edition = await db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    if (!doc.exists) {
+      throw new Error("Edition not found");
+    }
+
+    const current = { ...doc.data(), id: doc.id } as Edition;
+    if (current.currentOwner.userId !== userId) {
+      throw new Error("Only the edition's owner is allowed to list it for resale");
+    }
+
+    tx.update(ref, {
+      status: "resale",
+      price,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return { ...current, status: "resale" as EditionStatus, price };
+  });
+
+  log.info(`[Editions] Edition listed for resale`, { editionId, userId, price });
+  return edition;
+}
+
+/**
+ * Take an edition off the resale market
+ */
+export async function withdrawEditionResale(editionId: string, userId: string): Promise<Edition> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const db = adminDb();
+  const ref = editionRef(editionId);
+
+  const edition = await db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    if (!doc.exists) {
+      throw new Error("Edition not found");
+    }
+
+    const current = { ...doc.data(), id: doc.id } as Edition;
+    if (current.currentOwner.userId !== userId) {
+      throw new Error("Only the edition's owner is allowed to withdraw it from resale");
+    }
+    if (current.status !== "resale") {
+      throw new Error("Edition is not listed for resale");
+    }
+
+    tx.update(ref, {
+      status: "owned",
+      price: null,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return { ...current, status: "owned" as EditionStatus, price: null };
+  });
+
+  log.info(`[Editions] Edition withdrawn from resale`, { editionId, userId });
+  return edition;
+}
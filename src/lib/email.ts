@@ -0,0 +1,384 @@
+/**
+ * Transactional Email (server only)
+ *
+ * Purchase receipts, sale confirmations, offer notices and refund notices.
+ * Templates are React components (src/components/emails) rendered to static
+ * HTML, with a plain-text part derived from the HTML.
+ *
+ * Delivery goes through a provider chosen by EMAIL_PROVIDER:
+ * - "smtp": nodemailer over SMTP_URL, or SMTP_HOST / SMTP_PORT / SMTP_USER / SMTP_PASSWORD
+ * - "file": writes each message to EMAIL_OUTBOX_DIR (defaults to .email-outbox)
+ *   as JSON and HTML, for development and tests
+ * - "console": logs each message
+ * Without EMAIL_PROVIDER, SMTP is used when configured and the console otherwise.
+ *
+ * Sending is best effort: a failed email is logged and never fails the
+ * purchase or offer that triggered it.
+ */
+
+import { createElement, type ComponentType } from "react";
+import { getServerUserProfile, type Offer } from "@/lib/firebase-admin";
+import { PurchaseReceiptEmail } from "@/components/emails/PurchaseReceiptEmail";
+import { SaleConfirmationEmail } from "@/components/emails/SaleConfirmationEmail";
+import { OfferNoticeEmail, type OfferNoticeEvent } from "@/components/emails/OfferNoticeEmail";
+import { RefundNoticeEmail } from "@/components/emails/RefundNoticeEmail";
+import { log } from "@/lib/logger";
+
+// ==========================================
+// Types
+// ==========================================
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailProvider {
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+// ==========================================
+// Configuration
+// ==========================================
+
+const DEFAULT_FROM = "ArtMint <no-reply@artmint.app>";
+const DEFAULT_OUTBOX_DIR = ".email-outbox";
+
+function getAppUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+}
+
+function getFromAddress(): string {
+  return process.env.EMAIL_FROM || DEFAULT_FROM;
+}
+
+function isSmtpConfigured(): boolean {
+  return !!(process.env.SMTP_URL || process.env.SMTP_HOST);
+}
+
+// ==========================================
+// Providers
+// ==========================================
+
+/**
+ * SMTP delivery through nodemailer
+ */
+export function createSmtpProvider(): EmailProvider {
+  let transporter: import("nodemailer").Transporter | null = null;
+
+  return {
+    name: "smtp",
+    async send(message) {
+      if (!transporter) {
+        if (!isSmtpConfigured()) {
+          throw new Error("SMTP is not configured. Set SMTP_URL or SMTP_HOST.");
+        }
+        const nodemailer = await import("nodemailer");
+        const port = parseInt(process.env.SMTP_PORT || "587", 10);
+        transporter = process.env.SMTP_URL
+          ? nodemailer.createTransport(process.env.SMTP_URL)
+          : nodemailer.createTransport({
+              host: process.env.SMTP_HOST,
+              port,
+              secure: port === 465,
+              auth: process.env.SMTP_USER
+                ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+                : undefined,
+            });
+      }
+
+      await transporter.sendMail(message);
+    },
+  };
+}
+
+/**
+ * Writes each message to a local directory instead of sending it
+ */
+export function createFileProvider(
+  outboxDir: string = process.env.EMAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR
+): EmailProvider {
+  return {
+    name: "file",
+    async send(message) {
+      const { mkdir, writeFile } = await import("fs/promises");
+      const path = await import("path");
+
+      await mkdir(outboxDir, { recursive: true });
+      const slug = message.subject.toLowerCase().replace(/[^a-z0-9]+/g, "-").slice(0, 40);
+      const base = path.join(outboxDir, `${Date.now()}_${slug}`);
+
+      await writeFile(`${base}.json`, JSON.stringify(message, null, 2));
+      await writeFile(`${base}.html`, message.html);
+
+      log.info(`[Email] Message written to outbox`, { to: message.to, file: `${base}.json` });
+    },
+  };
+}
+
+/**
+ * Logs each message instead of sending it
+ */
+export function createConsoleProvider(): EmailProvider {
+  return {
+    name: "console",
+    async send(message) {
+      log.info(`[Email] ${message.subject}`, {
+        from: message.from,
+        to: message.to,
+        text: message.text,
+      });
+    },
+  };
+}
+
+let provider: EmailProvider | null = null;
+
+/**
+ * The configured provider (EMAIL_PROVIDER), created once
+ */
+export function getEmailProvider(): EmailProvider {
+  if (!provider) {
+    const name = process.env.EMAIL_PROVIDER || (isSmtpConfigured() ? "smtp" : "console");
+    switch (name) {
+      case "smtp":
+        provider = createSmtpProvider();
+        break;
+      case "file":
+        provider = createFileProvider();
+        break;
+      case "console":
+        provider = createConsoleProvider();
+        break;
+      default:
+        throw new Error(`Unknown EMAIL_PROVIDER "${name}"`);
+    }
+  }
+  return provider;
+}
+
+/**
+ * Replace the provider, e.g. with a file provider in tests
+ */
+export function setEmailProvider(next: EmailProvider | null): void {
+  provider = next;
+}
+
+// ==========================================
+// Rendering
+// ==========================================
+
+/**
+ * Render a template to an HTML document.
+ * react-dom/server is loaded lazily: the App Router refuses static imports of it.
+ */
+export async function renderEmail<P extends object>(
+  template: ComponentType<P>,
+  props: P
+): Promise<string> {
+  const { renderToStaticMarkup } = await import("react-dom/server");
+  return `<!DOCTYPE html>${renderToStaticMarkup(createElement(template, props))}`;
+}
+
+/**
+ * Plain-text alternative of a rendered email
+ */
+function toPlainText(html: string): string {
+  return html
+    .replace(/<head[\s\S]*?<\/head>/gi, "")
+    .replace(/<div style="display:none[\s\S]*?<\/div>/i, "")
+    .replace(/<a [^>]*href="([^"]+)"[^>]*>([\s\S]*?)<\/a>/gi, (_, href, label) =>
+      label.trim() === href ? href : `${label} (${href})`
+    )
+    .replace(/<\/(td)>/gi, " ")
+    .replace(/<\/(p|h1|tr|table|div)>|<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#x27;|&#39;/g, "'")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// ==========================================
+// Sending
+// ==========================================
+
+/**
+ * Render and send an email. Returns false instead of throwing on failure.
+ */
+export async function sendEmail<P extends object>(
+  to: string,
+  subject: string,
+  template: ComponentType<P>,
+  props: P
+): Promise<boolean> {
+  try {
+    const html = await renderEmail(template, props);
+    const emailProvider = getEmailProvider();
+
+    await emailProvider.send({
+      from: getFromAddress(),
+      to,
+      subject,
+      html,
+      text: toPlainText(html),
+    });
+
+    log.info(`[Email] Email sent`, { to, subject, provider: emailProvider.name });
+    return true;
+  } catch (error: any) {
+    log.error(`[Email] Failed to send email`, error, { to, subject });
+    return false;
+  }
+}
+
+/**
+ * Email address and display name of a user, or null without an address
+ */
+async function getRecipient(
+  userId: string | null | undefined
+): Promise<{ email: string; name: string } | null> {
+  if (!userId) return null;
+
+  try {
+    const profile = (await getServerUserProfile(userId)) as any;
+    if (!profile?.email) return null;
+    return { email: profile.email, name: profile.displayName || "there" };
+  } catch (error: any) {
+    log.warn(`[Email] Failed to load recipient`, { userId, error: error.message });
+    return null;
+  }
+}
+
+// ==========================================
+// Transactional Emails
+// ==========================================
+
+/**
+ * Receipt for the buyer of a completed purchase, with the provenance link
+ */
+export async function sendPurchaseReceipt(
+  buyerId: string,
+  details: {
+    assetUid: string;
+    assetTitle: string;
+    editionLabel?: string | null;
+    amount: number;
+    currency: string;
+    paymentMethod: "card" | "wallet";
+    transactionId: string;
+    purchaseDate: string;
+  }
+): Promise<boolean> {
+  const recipient = await getRecipient(buyerId);
+  if (!recipient) return false;
+
+  return sendEmail(recipient.email, `Your receipt for "${details.assetTitle}"`, PurchaseReceiptEmail, {
+    ...details,
+    buyerName: recipient.name,
+    artworkUrl: `${getAppUrl()}/art/${details.assetUid}`,
+    provenanceUrl: `${getAppUrl()}/verify?asset=${details.assetUid}`,
+  });
+}
+
+/**
+ * Sale confirmation for the seller, with the proceeds credited to their wallet
+ */
+export async function sendSaleConfirmation(
+  sellerId: string,
+  details: {
+    assetUid: string;
+    assetTitle: string;
+    editionLabel?: string | null;
+    amount: number;
+    currency: string;
+    platformFee: number;
+    royalty: number;
+    proceeds: number;
+    transactionId: string;
+  }
+): Promise<boolean> {
+  const recipient = await getRecipient(sellerId);
+  if (!recipient) return false;
+
+  return sendEmail(recipient.email, `"${details.assetTitle}" sold`, SaleConfirmationEmail, {
+    ...details,
+    sellerName: recipient.name,
+    artworkUrl: `${getAppUrl()}/art/${details.assetUid}`,
+  });
+}
+
+/**
+ * Offer notice: "received" goes to the owner, "accepted" and "rejected" to
+ * the buyer
+ */
+export async function sendOfferEmail(
+  event: OfferNoticeEvent,
+  recipientId: string | null | undefined,
+  offer: Pick<
+    Offer,
+    "assetUid" | "buyerName" | "amount" | "currency" | "message" | "expiresAt" | "paymentDeadline"
+  >,
+  assetTitle?: string | null
+): Promise<boolean> {
+  const recipient = await getRecipient(recipientId);
+  if (!recipient) return false;
+
+  const title = assetTitle || "Untitled";
+  const subjects: Record<OfferNoticeEvent, string> = {
+    received: `New offer on "${title}"`,
+    accepted: `Your offer on "${title}" was accepted`,
+    rejected: `Your offer on "${title}" was declined`,
+  };
+
+  return sendEmail(recipient.email, subjects[event], OfferNoticeEmail, {
+    event,
+    recipientName: recipient.name,
+    buyerName: offer.buyerName,
+    assetTitle: title,
+    amount: offer.amount,
+    currency: offer.currency,
+    message: offer.message || null,
+    expiresAt: offer.expiresAt ? new Date(offer.expiresAt).toISOString() : null,
+    paymentDeadline: offer.paymentDeadline ? new Date(offer.paymentDeadline).toISOString() : null,
+    artworkUrl: `${getAppUrl()}/art/${offer.assetUid}`,
+  });
+}
+
+/**
+ * Refund notice for the buyer
+ */
+export async function sendRefundNotice(
+  buyerId: string,
+  details: {
+    assetUid: string;
+    assetTitle: string;
+    amount: number;
+    currency: string;
+    reason: string;
+    transactionId?: string | null;
+  }
+): Promise<boolean> {
+  const recipient = await getRecipient(buyerId);
+  if (!recipient) return false;
+
+  return sendEmail(
+    recipient.email,
+    `Your payment for "${details.assetTitle}" was refunded`,
+    RefundNoticeEmail,
+    {
+      ...details,
+      buyerName: recipient.name,
+      artworkUrl: `${getAppUrl()}/art/${details.assetUid}`,
+    }
+  );
+}
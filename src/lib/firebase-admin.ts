@@ -1,7 +1,9 @@
+import { timingSafeEqual } from "crypto";
 import { initializeApp, getApps, cert, App } from "firebase-admin/app";
 import { getAuth } from "firebase-admin/auth";
-import { DocumentSnapshot, getFirestore } from "firebase-admin/firestore";
+import { DocumentSnapshot, getFirestore, type Transaction } from "firebase-admin/firestore";
 import { log } from "@/lib/logger";
+import { chainLedgerEntry, type ChainedEntry } from "@/lib/ledger";
 import { UserProfile } from "../types";
 
 /**
@@ -79,6 +81,25 @@ export async function verifyIdToken(token: string) {
   }
 }
 
+/**
+ * Check whether a verified token carries the `admin` custom claim
+ * Set via adminAuth().setCustomUserClaims(uid, { admin: true })
+ */
+export function isAdminToken(decodedToken: { [key: string]: any }): boolean {
+  return decodedToken.admin === true;
+}
+
+/**
+ * Check an `Authorization: Bearer <secret>` header against a shared secret
+ * (cron and automation callers), in constant time
+ */
+export function isBearerSecret(authHeader: string | null, secret: string): boolean {
+  const provided = Buffer.from(authHeader ?? "");
+  const expected = Buffer.from(`Bearer ${secret}`);
+  if (provided.length !== expected.length) return false;
+  return timingSafeEqual(provided, expected);
+}
+
 /**
  * Get user profile from Firestore (server-side)
  */
@@ -90,6 +111,8 @@ export async function getServerUserProfile(uid: string) {
 
 /**
  * Get wallet by ID (server-side)
+ * Transactions live in the `wallets/{id}/transactions` subcollection;
+ * use getServerWalletTransactions to read them
  */
 export async function getServerWallet(walletId: string) {
   const walletDoc = await adminDb().collection("wallets").doc(walletId).get();
@@ -97,24 +120,94 @@ export async function getServerWallet(walletId: string) {
   return { id: walletDoc.id, ...walletDoc.data() };
 }
 
+export interface LedgerTransaction {
+  id: string;
+  type: "DEBIT" | "CREDIT";
+  amount: number;
+  reference: {
+    assetUid?: string;
+    stripePaymentId?: string;
+    description?: string;
+    relatedTransactionId?: string;
+  };
+}
+
+function walletTransactionsRef(walletId: string) {
+  return adminDb().collection("wallets").doc(walletId).collection("transactions");
+}
+
+/**
+ * Copy a wallet's legacy `transactions` array into the subcollection
+ * (inside the caller's Firestore transaction). Entries are numbered in
+ * array order with their running balance and hash-chained. Returns the
+ * number copied and the chain head; the caller removes the array and sets
+ * `transactionCount` and `lastHash`.
+ */
+function writeLegacyTransactions(
+  tx: Transaction,
+  walletId: string,
+  legacy: any[]
+): { count: number; lastHash: string | null } {
+  let balanceAfter = 0;
+  let lastHash: string | null = null;
+
+  legacy.forEach((entry, index) => {
+    balanceAfter += entry.type === "CREDIT" ? entry.amount : -entry.amount;
+    const migrated = {
+      ...entry,
+      reference: entry.reference || {},
+      sequence: index + 1,
+      balanceAfter,
+    };
+    const chain = chainLedgerEntry(walletId, migrated, lastHash);
+    tx.set(walletTransactionsRef(walletId).doc(entry.id), { ...migrated, ...chain });
+    lastHash = chain.hash!;
+  });
+
+  return { count: legacy.length, lastHash };
+}
+
 /**
  * Add transaction to wallet (server-side, for webhook processing)
+ * Idempotent on transaction ID: re-adding an existing ID is a no-op
+ *
+ * The balance check, balance update and ledger entry are written in one
+ * Firestore transaction. A DEBIT that would overdraw the wallet is rejected
+ * unless `allowOverdraft` is set (compensating entries for money that has
+ * already left, e.g. refund clawbacks).
+ *
+ * Each entry is hash-chained to the wallet's previous entry (`lastHash`)
+ * and signed; see src/lib/ledger.ts.
  */
 export async function addServerTransaction(
   walletId: string,
-  transaction: {
-    id: string;
-    type: "DEBIT" | "CREDIT";
-    amount: number;
-    reference: {
-      assetUid?: string;
-      stripePaymentId?: string;
-      description?: string;
-    };
-  }
+  transaction: LedgerTransaction,
+  options: { allowOverdraft?: boolean } = {}
 ) {
+  return adminDb().runTransaction((tx) =>
+    writeServerTransaction(tx, walletId, transaction, options)
+  );
+}
+
+/**
+ * addServerTransaction inside the caller's Firestore transaction, so the
+ * ledger entry commits together with the caller's own writes.
+ * It reads the wallet first: call it before the transaction's other writes.
+ */
+export async function writeServerTransaction(
+  tx: Transaction,
+  walletId: string,
+  transaction: LedgerTransaction,
+  options: { allowOverdraft?: boolean } = {}
+): Promise<{ newBalance: number; duplicate: boolean }> {
+  const { FieldValue } = await import("firebase-admin/firestore");
   const walletRef = adminDb().collection("wallets").doc(walletId);
-  const walletDoc = await walletRef.get();
+  const entryRef = walletTransactionsRef(walletId).doc(transaction.id);
+
+  const [walletDoc, entryDoc] = await Promise.all([
+    tx.get(walletRef),
+    tx.get(entryRef),
+  ]);
 
   if (!walletDoc.exists) {
     throw new Error("Wallet not found");
@@ -122,24 +215,168 @@ export async function addServerTransaction(
 
   const walletData = walletDoc.data()!;
   const currentBalance = walletData.balance || 0;
+  const legacy: any[] = walletData.transactions || [];
+
+  if (entryDoc.exists || legacy.some((t) => t.id === transaction.id)) {
+    log.debug(`[addServerTransaction] Transaction already recorded`, {
+      walletId,
+      transactionId: transaction.id,
+    });
+    return { newBalance: currentBalance, duplicate: true };
+  }
+
   const newBalance =
     transaction.type === "CREDIT"
       ? currentBalance + transaction.amount
       : currentBalance - transaction.amount;
 
-  // Use Firestore arrayUnion for immutable append
-  const { FieldValue } = await import("firebase-admin/firestore");
+  if (transaction.type === "DEBIT" && newBalance < 0 && !options.allowOverdraft) {
+    throw new Error("Insufficient balance");
+  }
+
+  // Wallets still holding the old array are migrated on their next write
+  const isLegacy = Array.isArray(walletData.transactions);
+  const head = isLegacy
+    ? writeLegacyTransactions(tx, walletId, legacy)
+    : { count: walletData.transactionCount || 0, lastHash: walletData.lastHash || null };
 
-  await walletRef.update({
+  const entry = {
+    ...transaction,
+    timestamp: new Date().toISOString(),
+    sequence: head.count + 1,
+    balanceAfter: newBalance,
+  };
+  const chain = chainLedgerEntry(walletId, entry, head.lastHash);
+
+  tx.create(entryRef, { ...entry, ...chain });
+  tx.update(walletRef, {
     balance: newBalance,
-    transactions: FieldValue.arrayUnion({
-      ...transaction,
-      timestamp: new Date().toISOString(),
-    }),
+    transactionCount: entry.sequence,
+    lastHash: chain.hash,
+    ...(isLegacy ? { transactions: FieldValue.delete() } : {}),
     updatedAt: FieldValue.serverTimestamp(),
   });
 
-  return { newBalance };
+  return { newBalance, duplicate: false };
+}
+
+/**
+ * Page through a wallet's ledger, newest first.
+ * `before` is the cursor returned as `nextCursor` by the previous page.
+ */
+export async function getServerWalletTransactions(
+  walletId: string,
+  { limit = 50, before }: { limit?: number; before?: number } = {}
+): Promise<{ transactions: any[]; nextCursor: number | null }> {
+  const walletDoc = await adminDb().collection("wallets").doc(walletId).get();
+  if (!walletDoc.exists) {
+    throw new Error("Wallet not found");
+  }
+
+  let transactions: any[];
+  const legacy = walletDoc.data()!.transactions;
+
+  if (Array.isArray(legacy)) {
+    // Not migrated yet: serve the array with the same numbering
+    transactions = legacy
+      .map((entry: any, index: number) => ({ ...entry, sequence: index + 1 }))
+      .filter((entry: any) => before === undefined || entry.sequence < before)
+      .reverse()
+      .slice(0, limit);
+  } else {
+    let ledgerQuery = walletTransactionsRef(walletId).orderBy("sequence", "desc");
+    if (before !== undefined) {
+      ledgerQuery = ledgerQuery.where("sequence", "<", before);
+    }
+    const snapshot = await ledgerQuery.limit(limit).get();
+    transactions = snapshot.docs.map((doc) => doc.data());
+  }
+
+  const last = transactions[transactions.length - 1];
+  return {
+    transactions,
+    nextCursor: transactions.length === limit && last.sequence > 1 ? last.sequence : null,
+  };
+}
+
+/**
+ * Read a wallet's whole ledger in sequence order (for chain verification)
+ */
+export async function getServerWalletLedger(walletId: string): Promise<ChainedEntry[]> {
+  const snapshot = await walletTransactionsRef(walletId).orderBy("sequence").get();
+  return snapshot.docs.map((doc) => doc.data() as ChainedEntry);
+}
+
+/**
+ * Move a wallet's legacy `transactions` array into the subcollection.
+ * Returns the number of entries moved (0 if already migrated).
+ */
+export async function migrateWalletTransactions(walletId: string): Promise<number> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const db = adminDb();
+  const walletRef = db.collection("wallets").doc(walletId);
+
+  const migrated = await db.runTransaction(async (tx) => {
+    const walletDoc = await tx.get(walletRef);
+    if (!walletDoc.exists) {
+      throw new Error("Wallet not found");
+    }
+
+    const legacy = walletDoc.data()!.transactions;
+    if (!Array.isArray(legacy)) return 0;
+
+    const { count, lastHash } = writeLegacyTransactions(tx, walletId, legacy);
+    tx.update(walletRef, {
+      transactions: FieldValue.delete(),
+      transactionCount: count,
+      lastHash,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return count;
+  });
+
+  if (migrated > 0) {
+    log.info(`[migrateWalletTransactions] Wallet migrated`, { walletId, migrated });
+  }
+  return migrated;
+}
+
+/**
+ * Migrate every wallet that still stores transactions in an array
+ */
+export async function migrateAllWalletTransactions(): Promise<{
+  scanned: number;
+  migrated: number;
+  transactions: number;
+}> {
+  const { FieldPath } = await import("firebase-admin/firestore");
+  const db = adminDb();
+  const result = { scanned: 0, migrated: 0, transactions: 0 };
+  let lastId: string | null = null;
+
+  // Page through wallets by document ID
+  while (true) {
+    let pageQuery = db.collection("wallets").orderBy(FieldPath.documentId()).limit(100);
+    if (lastId) {
+      pageQuery = pageQuery.startAfter(lastId);
+    }
+
+    const snapshot = await pageQuery.get();
+    if (snapshot.empty) break;
+
+    for (const walletDoc of snapshot.docs) {
+      result.scanned++;
+      if (!Array.isArray(walletDoc.data().transactions)) continue;
+
+      const moved = await migrateWalletTransactions(walletDoc.id);
+      result.migrated++;
+      result.transactions += moved;
+    }
+
+    lastId = snapshot.docs[snapshot.docs.length - 1].id;
+  }
+
+  return result;
 }
 
 /**
@@ -355,8 +592,163 @@ export async function deleteUserByUid(uid: string) {
   }
 }
 
+export type OfferStatus =
+  | "pending" // Awaiting the owner
+  | "countered" // Owner countered, awaiting the buyer
+  | "accepted"
+  | "rejected"
+  | "withdrawn"
+  | "expired" // Nobody responded before expiresAt
+  | "lapsed" // Accepted, but not paid before paymentDeadline
+  | "completed" // Accepted and paid
+  | "closed"; // The artwork sold to another buyer or went to auction
+
+export type OfferAction = "accept" | "reject" | "counter" | "withdraw" | "reinstate";
+
+export interface OfferHistoryEntry {
+  action:
+    | "offered"
+    | "countered"
+    | "accepted"
+    | "rejected"
+    | "withdrawn"
+    | "expired"
+    | "lapsed"
+    | "reinstated"
+    | "completed"
+    | "closed";
+  actor: "buyer" | "owner" | "system";
+  userId: string | null;
+  amount: number | null;
+  message: string | null;
+  at: string; // ISO timestamp
+}
+
+export interface Offer {
+  id: string;
+  assetUid: string;
+  buyerId: string;
+  buyerName: string;
+  amount: number; // Current terms (latest offer or counter)
+  currency: string;
+  message: string;
+  status: OfferStatus;
+  expiresAt: number; // Epoch ms; reset by every counter
+  paymentDeadline?: number | null; // Epoch ms; set when the offer is accepted
+  supersededBy?: string | null; // Accepted offer that closed this one
+  sessionId?: string | null; // Purchase that completed the offer
+  history: OfferHistoryEntry[];
+  createdAt: any;
+  updatedAt?: any;
+  acceptedAt?: any;
+  acceptedBy?: string;
+  completedAt?: any;
+}
+
+const OPEN_OFFER_STATUSES: OfferStatus[] = ["pending", "countered"];
+
+/**
+ * How long each side has to respond before an offer expires
+ * (OFFER_EXPIRY_HOURS, defaults to 72)
+ */
+function getOfferExpiryMs(): number {
+  const hours = parseFloat(process.env.OFFER_EXPIRY_HOURS || "72");
+  return (Number.isFinite(hours) && hours > 0 ? hours : 72) * 60 * 60 * 1000;
+}
+
+/**
+ * How long a buyer has to pay once their offer is accepted
+ * (OFFER_PAYMENT_WINDOW_HOURS, defaults to 48)
+ */
+function getOfferPaymentWindowMs(): number {
+  const hours = parseFloat(process.env.OFFER_PAYMENT_WINDOW_HOURS || "48");
+  return (Number.isFinite(hours) && hours > 0 ? hours : 48) * 60 * 60 * 1000;
+}
+
+function isPaymentOverdue(
+  offer: Pick<Offer, "status" | "paymentDeadline" | "acceptedAt">,
+  now = Date.now()
+): boolean {
+  // Offers accepted before the payment window was introduced run from acceptance
+  const deadline =
+    offer.paymentDeadline ??
+    (offer.acceptedAt?.toMillis ? offer.acceptedAt.toMillis() + getOfferPaymentWindowMs() : null);
+  return offer.status === "accepted" && !!deadline && deadline <= now;
+}
+
+function isOfferExpired(
+  offer: Pick<Offer, "status" | "expiresAt" | "createdAt">,
+  now = Date.now()
+): boolean {
+  // Offers created before expiry was introduced run from their creation time
+  const expiresAt =
+    offer.expiresAt ??
+    (offer.createdAt?.toMillis ? offer.createdAt.toMillis() + getOfferExpiryMs() : null);
+  return OPEN_OFFER_STATUSES.includes(offer.status) && !!expiresAt && expiresAt <= now;
+}
+
+function offerHistoryEntry(
+  action: OfferHistoryEntry["action"],
+  actor: OfferHistoryEntry["actor"],
+  details: { userId?: string | null; amount?: number | null; message?: string | null } = {}
+): OfferHistoryEntry {
+  return {
+    action,
+    actor,
+    userId: details.userId ?? null,
+    amount: details.amount ?? null,
+    message: details.message || null,
+    at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Close offers that ran out of time: open offers past their expiresAt are
+ * expired, accepted offers past their paymentDeadline have lapsed
+ */
+async function expireOfferDocs(
+  docs: DocumentSnapshot[],
+  status: "expired" | "lapsed" = "expired"
+): Promise<number> {
+  if (docs.length === 0) return 0;
+
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const db = adminDb();
+  const batch = db.batch();
+
+  docs.forEach((doc) => {
+    batch.update(doc.ref, {
+      status,
+      history: FieldValue.arrayUnion(offerHistoryEntry(status, "system")),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  });
+
+  await batch.commit();
+  return docs.length;
+}
+
+/**
+ * Get a buyer's open offer on an asset (if any), expiring it if it has run out
+ */
+async function getOpenBuyerOffer(assetUid: string, buyerId: string): Promise<Offer | null> {
+  const snapshot = await adminDb()
+    .collection("offers")
+    .where("assetUid", "==", assetUid)
+    .where("buyerId", "==", buyerId)
+    .where("status", "in", OPEN_OFFER_STATUSES)
+    .get();
+
+  const expired = snapshot.docs.filter((doc) => isOfferExpired(doc.data() as Offer));
+  await expireOfferDocs(expired);
+
+  const open = snapshot.docs.find((doc) => !expired.includes(doc));
+  return open ? ({ ...open.data(), id: open.id } as Offer) : null;
+}
+
 /**
  * Create an offer for an asset
+ * A buyer can only have one open offer per asset; further rounds are counters
  */
 export async function createOffer(
   assetUid: string,
@@ -370,6 +762,10 @@ export async function createOffer(
 ) {
   const { FieldValue } = await import("firebase-admin/firestore");
   const db = adminDb();
+
+  if (await getOpenBuyerOffer(assetUid, offerData.buyerId)) {
+    throw new Error("You already have an open offer on this artwork");
+  }
   
   const offerId = `OFFER_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
   const offerRef = db.collection("offers").doc(offerId);
@@ -382,7 +778,15 @@ export async function createOffer(
     amount: offerData.amount,
     currency: offerData.currency,
     message: offerData.message || "",
-    status: "pending" as "pending" | "accepted" | "rejected" | "expired",
+    status: "pending" as OfferStatus,
+    expiresAt: Date.now() + getOfferExpiryMs(),
+    history: [
+      offerHistoryEntry("offered", "buyer", {
+        userId: offerData.buyerId,
+        amount: offerData.amount,
+        message: offerData.message,
+      }),
+    ],
     createdAt: FieldValue.serverTimestamp(),
     updatedAt: FieldValue.serverTimestamp(),
   };
@@ -395,65 +799,124 @@ export async function createOffer(
 }
 
 /**
- * Get offers for an asset
+ * Get open offers for an asset (pending and countered)
+ * Offers past their expiresAt are expired on read
  */
-export async function getAssetOffers(assetUid: string): Promise<any[]> {
+export async function getAssetOffers(assetUid: string): Promise<Offer[]> {
   const db = adminDb();
   const offersRef = db.collection("offers");
   const snapshot = await offersRef
     .where("assetUid", "==", assetUid)
-    .where("status", "==", "pending")
+    .where("status", "in", OPEN_OFFER_STATUSES)
     .get();
   
   if (snapshot.empty) {
     return [];
   }
+
+  const expired = snapshot.docs.filter((doc) => isOfferExpired(doc.data() as Offer));
+  await expireOfferDocs(expired);
   
   // Map to array and sort by amount (descending)
-  const offers = snapshot.docs.map((doc) => ({
-    id: doc.id,
-    ...doc.data(),
-  }));
+  const offers = snapshot.docs
+    .filter((doc) => !expired.includes(doc))
+    .map((doc) => ({
+      ...doc.data(),
+      id: doc.id,
+    }) as Offer);
   
   // Sort by amount in descending order (highest first)
-  return offers.sort((a: any, b: any) => (b.amount || 0) - (a.amount || 0));
+  return offers.sort((a, b) => (b.amount || 0) - (a.amount || 0));
+}
+
+/**
+ * Get a buyer's offers (all statuses), optionally for a single asset
+ * Sorted by latest activity; open offers past their expiresAt are expired on read
+ */
+export async function getBuyerOffers(
+  buyerId: string,
+  assetUid?: string
+): Promise<Offer[]> {
+  let query = adminDb()
+    .collection("offers")
+    .where("buyerId", "==", buyerId);
+
+  if (assetUid) {
+    query = query.where("assetUid", "==", assetUid);
+  }
+
+  const snapshot = await query.get();
+
+  const expired = snapshot.docs.filter((doc) => isOfferExpired(doc.data() as Offer));
+  const overdue = snapshot.docs.filter((doc) => isPaymentOverdue(doc.data() as Offer));
+  await expireOfferDocs(expired);
+  await expireOfferDocs(overdue, "lapsed");
+
+  const lastActivity = (offer: Offer) => offer.history?.[offer.history.length - 1]?.at || "";
+
+  return snapshot.docs
+    .map((doc) => ({
+      ...doc.data(),
+      id: doc.id,
+      ...(expired.includes(doc) ? { status: "expired" } : {}),
+      ...(overdue.includes(doc) ? { status: "lapsed" } : {}),
+    }) as Offer)
+    .sort((a, b) => lastActivity(b).localeCompare(lastActivity(a)));
 }
 
 /**
- * Get count of pending offers for an asset
+ * Shape an offer for API responses (timestamps as ISO strings)
+ */
+export function toOfferResponse(offer: Offer) {
+  // Convert Firestore Timestamp to ISO string if needed
+  let createdAt: string;
+  if (offer.createdAt?.toDate) {
+    createdAt = offer.createdAt.toDate().toISOString();
+  } else if (offer.createdAt?.seconds) {
+    createdAt = new Date(offer.createdAt.seconds * 1000).toISOString();
+  } else if (offer.createdAt) {
+    createdAt = typeof offer.createdAt === "string"
+      ? offer.createdAt
+      : new Date(offer.createdAt).toISOString();
+  } else {
+    createdAt = new Date().toISOString();
+  }
+
+  return {
+    id: offer.id,
+    assetUid: offer.assetUid,
+    buyerId: offer.buyerId,
+    buyerName: offer.buyerName,
+    amount: offer.amount,
+    currency: offer.currency,
+    message: offer.message,
+    status: offer.status,
+    expiresAt: offer.expiresAt ? new Date(offer.expiresAt).toISOString() : null,
+    paymentDeadline: offer.paymentDeadline
+      ? new Date(offer.paymentDeadline).toISOString()
+      : null,
+    history: offer.history || [],
+    createdAt,
+  };
+}
+
+/**
+ * Get count of open offers for an asset
  */
 export async function getAssetOffersCount(assetUid: string): Promise<number> {
-  const db = adminDb();
-  const offersRef = db.collection("offers");
-  const snapshot = await offersRef
-    .where("assetUid", "==", assetUid)
-    .where("status", "==", "pending")
-    .get();
-  
-  return snapshot.size;
+  const offers = await getAssetOffers(assetUid);
+  return offers.length;
 }
 
 /**
  * Get accepted offer for an asset (if any)
  * Optionally filter by buyerId to get accepted offer for a specific buyer
+ * An offer past its payment deadline lapses here and is not returned
  */
 export async function getAcceptedOffer(
   assetUid: string,
   buyerId?: string
-): Promise<{
-  id: string;
-  assetUid: string;
-  buyerId: string;
-  buyerName: string;
-  amount: number;
-  currency: string;
-  message?: string;
-  status: "accepted";
-  createdAt: any;
-  updatedAt?: any;
-  acceptedAt?: any;
-  acceptedBy?: string;
-} | null> {
+): Promise<Offer | null> {
   const db = adminDb();
   const offersRef = db.collection("offers");
   
@@ -480,7 +943,13 @@ export async function getAcceptedOffer(
   }
   
   const doc = snapshot.docs[0];
-  const data = doc.data() as any;
+  const data = doc.data() as Offer;
+
+  if (isPaymentOverdue(data)) {
+    await expireOfferDocs([doc], "lapsed");
+    log.info(`[getAcceptedOffer] Accepted offer lapsed`, { id: doc.id, assetUid });
+    return null;
+  }
   
   log.info(`[getAcceptedOffer] Found offer`, {
     id: doc.id,
@@ -490,52 +959,187 @@ export async function getAcceptedOffer(
   });
   
   return {
-    id: doc.id,
     ...data,
+    id: doc.id,
   };
 }
 
 /**
- * Update offer status (accept or reject)
+ * Get offers on an asset that were rejected or lapsed (highest first),
+ * which the owner can reinstate
+ */
+export async function getDeclinedAssetOffers(assetUid: string): Promise<Offer[]> {
+  const snapshot = await adminDb()
+    .collection("offers")
+    .where("assetUid", "==", assetUid)
+    .where("status", "in", ["rejected", "lapsed"])
+    .get();
+
+  return snapshot.docs
+    .map((doc) => ({ ...doc.data(), id: doc.id }) as Offer)
+    .sort((a, b) => (b.amount || 0) - (a.amount || 0));
+}
+
+/**
+ * Respond to an offer as its owner or buyer
+ * - Owner (offer pending): accept, reject or counter
+ * - Owner (offer rejected or lapsed): reinstate it as pending
+ * - Buyer (offer countered): accept or counter
+ * - Buyer (offer open): withdraw
+ * Every response is appended to the offer's history; counters reset expiresAt.
+ * Accepting starts the buyer's payment window and rejects every other open
+ * offer for the asset; it is refused while another accepted offer is unpaid.
  */
-export async function updateOfferStatus(
+export async function respondToOffer(
+  assetUid: string,
   offerId: string,
-  status: "accepted" | "rejected",
-  ownerId: string
-) {
+  action: OfferAction,
+  actor: {
+    userId: string;
+    role: "owner" | "buyer";
+    amount?: number;
+    message?: string;
+  }
+): Promise<Offer> {
   const { FieldValue } = await import("firebase-admin/firestore");
   const db = adminDb();
   const offerRef = db.collection("offers").doc(offerId);
-  
-  const offerDoc = await offerRef.get();
-  if (!offerDoc.exists) {
-    throw new Error("Offer not found");
-  }
-  
-  const offerData = offerDoc.data()!;
-  
-  // Verify the offer is still pending
-  if (offerData.status !== "pending") {
-    throw new Error(`Offer is already ${offerData.status}`);
-  }
-  
-  await offerRef.update({
-    status,
-    updatedAt: FieldValue.serverTimestamp(),
-    ...(status === "accepted" ? { acceptedBy: ownerId, acceptedAt: FieldValue.serverTimestamp() } : {}),
+
+  const updated = await db.runTransaction(async (tx) => {
+    const offerDoc = await tx.get(offerRef);
+    if (!offerDoc.exists) {
+      throw new Error("Offer not found");
+    }
+
+    const offer = { ...offerDoc.data(), id: offerId } as Offer;
+
+    if (offer.assetUid !== assetUid) {
+      throw new Error("Offer not found");
+    }
+
+    if (actor.role === "buyer" && offer.buyerId !== actor.userId) {
+      throw new Error("Only the buyer who made this offer is allowed to respond");
+    }
+
+    if (isOfferExpired(offer)) {
+      tx.update(offerRef, {
+        status: "expired",
+        history: FieldValue.arrayUnion(offerHistoryEntry("expired", "system")),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      return { ...offer, status: "expired" as OfferStatus };
+    }
+
+    if (action === "reinstate") {
+      if (actor.role !== "owner") {
+        throw new Error("Only the owner is allowed to reinstate an offer");
+      }
+      if (offer.status !== "rejected" && offer.status !== "lapsed") {
+        throw new Error(`Offer is ${offer.status}; only rejected or lapsed offers can be reinstated`);
+      }
+    } else if (!OPEN_OFFER_STATUSES.includes(offer.status)) {
+      throw new Error(`Offer is already ${offer.status}`);
+    }
+
+    const awaiting = offer.status === "pending" ? "owner" : "buyer";
+    if (action !== "withdraw" && action !== "reinstate" && awaiting !== actor.role) {
+      throw new Error(`Offer is awaiting the ${awaiting}'s response`);
+    }
+    if (action === "withdraw" && actor.role !== "buyer") {
+      throw new Error("Only the buyer is allowed to withdraw an offer");
+    }
+    if (action === "reject" && actor.role !== "owner") {
+      throw new Error("Only the owner is allowed to reject an offer; withdraw it instead");
+    }
+
+    // Only one accepted offer per asset; an unpaid one past its deadline lapses here
+    if (action === "accept") {
+      const acceptedSnapshot = await tx.get(
+        db.collection("offers")
+          .where("assetUid", "==", assetUid)
+          .where("status", "==", "accepted")
+      );
+
+      for (const doc of acceptedSnapshot.docs) {
+        if (!isPaymentOverdue(doc.data() as Offer)) {
+          throw new Error("Offer is blocked until the accepted offer is paid or lapses");
+        }
+        tx.update(doc.ref, {
+          status: "lapsed",
+          history: FieldValue.arrayUnion(offerHistoryEntry("lapsed", "system")),
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+      }
+    }
+
+    const details = { userId: actor.userId, amount: offer.amount, message: actor.message };
+    let changes: Partial<Offer>;
+    let entry: OfferHistoryEntry;
+
+    switch (action) {
+      case "accept":
+        changes = {
+          status: "accepted",
+          acceptedBy: actor.userId,
+          paymentDeadline: Date.now() + getOfferPaymentWindowMs(),
+        };
+        entry = offerHistoryEntry("accepted", actor.role, details);
+        break;
+      case "reinstate":
+        changes = {
+          status: "pending",
+          expiresAt: Date.now() + getOfferExpiryMs(),
+          paymentDeadline: null,
+          supersededBy: null,
+        };
+        entry = offerHistoryEntry("reinstated", actor.role, details);
+        break;
+      case "reject":
+        changes = { status: "rejected" };
+        entry = offerHistoryEntry("rejected", actor.role, details);
+        break;
+      case "withdraw":
+        changes = { status: "withdrawn" };
+        entry = offerHistoryEntry("withdrawn", actor.role, details);
+        break;
+      case "counter":
+        if (!actor.amount || actor.amount <= 0) {
+          throw new Error("Counter-offer amount must be positive");
+        }
+        changes = {
+          status: actor.role === "owner" ? "countered" : "pending",
+          amount: actor.amount,
+          expiresAt: Date.now() + getOfferExpiryMs(),
+        };
+        entry = offerHistoryEntry("countered", actor.role, { ...details, amount: actor.amount });
+        break;
+    }
+
+    tx.update(offerRef, {
+      ...changes,
+      history: FieldValue.arrayUnion(entry),
+      updatedAt: FieldValue.serverTimestamp(),
+      ...(action === "accept" ? { acceptedAt: FieldValue.serverTimestamp() } : {}),
+    });
+
+    return { ...offer, ...changes, history: [...(offer.history || []), entry] };
   });
+
+  if (updated.status === "expired") {
+    throw new Error("Offer is expired");
+  }
   
-  // If accepted, reject all other pending offers for the same asset
-  if (status === "accepted") {
+  // If accepted, reject all other open offers for the same asset
+  if (updated.status === "accepted") {
     // Query without != operator to avoid requiring an index
     // We'll filter out the accepted offer in memory
-    const allPendingOffersSnapshot = await db.collection("offers")
-      .where("assetUid", "==", offerData.assetUid)
-      .where("status", "==", "pending")
+    const allOpenOffersSnapshot = await db.collection("offers")
+      .where("assetUid", "==", updated.assetUid)
+      .where("status", "in", OPEN_OFFER_STATUSES)
       .get();
     
     // Filter out the accepted offer
-    const otherOffers = allPendingOffersSnapshot.docs.filter(
+    const otherOffers = allOpenOffersSnapshot.docs.filter(
       (doc) => doc.id !== offerId
     );
     
@@ -544,17 +1148,219 @@ export async function updateOfferStatus(
       otherOffers.forEach((doc) => {
         batch.update(doc.ref, {
           status: "rejected",
+          supersededBy: offerId,
+          history: FieldValue.arrayUnion(
+            offerHistoryEntry("rejected", "system", { message: "Another offer was accepted" })
+          ),
           updatedAt: FieldValue.serverTimestamp(),
         });
       });
       
       await batch.commit();
-      log.info(`[updateOfferStatus] Rejected ${otherOffers.length} other pending offers`);
+      log.info(`[respondToOffer] Rejected ${otherOffers.length} other open offers`);
     }
   }
   
-  log.info(`[updateOfferStatus] Offer ${status}`, { offerId, assetUid: offerData.assetUid });
+  log.info(`[respondToOffer] Offer ${updated.status}`, {
+    offerId,
+    assetUid: updated.assetUid,
+    action,
+    role: actor.role,
+  });
   
-  return { ...offerData, id: offerId, status };
+  return updated;
 }
 
+/**
+ * Accept the highest offer that was rejected when another offer was
+ * accepted, once that offer has lapsed: the offer is reinstated and
+ * accepted, starting a new payment window for its buyer
+ */
+export async function acceptNextOffer(assetUid: string, ownerId: string): Promise<Offer> {
+  if (await getAcceptedOffer(assetUid)) {
+    throw new Error("Offer is blocked until the accepted offer is paid or lapses");
+  }
+
+  const next = (await getDeclinedAssetOffers(assetUid)).find(
+    (offer) => offer.status === "rejected" && offer.supersededBy
+  );
+
+  if (!next) {
+    throw new Error("No declined offers to accept");
+  }
+
+  await respondToOffer(assetUid, next.id, "reinstate", { userId: ownerId, role: "owner" });
+  return respondToOffer(assetUid, next.id, "accept", { userId: ownerId, role: "owner" });
+}
+
+/**
+ * Mark an accepted offer completed once its purchase is fulfilled.
+ * An offer that lapsed while its checkout was already open is completed too.
+ */
+export async function completeOffer(offerId: string, sessionId: string): Promise<void> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const db = adminDb();
+  const offerRef = db.collection("offers").doc(offerId);
+
+  const completed = await db.runTransaction(async (tx) => {
+    const offerDoc = await tx.get(offerRef);
+    const offer = offerDoc.data() as Offer | undefined;
+
+    if (!offer || offer.status === "completed") return false;
+
+    if (offer.status !== "accepted" && offer.status !== "lapsed") {
+      log.warn(`[completeOffer] Offer not completed`, { offerId, status: offer.status });
+      return false;
+    }
+
+    tx.update(offerRef, {
+      status: "completed",
+      sessionId,
+      history: FieldValue.arrayUnion(
+        offerHistoryEntry("completed", "system", { userId: offer.buyerId, amount: offer.amount })
+      ),
+      completedAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+
+  if (completed) {
+    log.info(`[completeOffer] Offer completed`, { offerId, sessionId });
+  }
+}
+
+/**
+ * Close every offer still in play on an asset (open, accepted, or declined
+ * and reinstatable) once the listing it was made against is gone: the
+ * artwork sold, or went to auction. The offer a purchase paid for is skipped.
+ */
+export async function closeAssetOffers(
+  assetUid: string,
+  reason: string,
+  exceptOfferId?: string | null
+): Promise<number> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const db = adminDb();
+
+  const snapshot = await db
+    .collection("offers")
+    .where("assetUid", "==", assetUid)
+    .where("status", "in", [...OPEN_OFFER_STATUSES, "accepted", "rejected", "lapsed"])
+    .get();
+
+  const docs = snapshot.docs.filter((doc) => doc.id !== exceptOfferId);
+  if (docs.length === 0) return 0;
+
+  const batch = db.batch();
+  docs.forEach((doc) => {
+    batch.update(doc.ref, {
+      status: "closed",
+      history: FieldValue.arrayUnion(offerHistoryEntry("closed", "system", { message: reason })),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  });
+
+  await batch.commit();
+  log.info(`[closeAssetOffers] Closed ${docs.length} offers`, { assetUid, reason });
+  return docs.length;
+}
+
+/**
+ * Expire every open offer past its expiresAt and lapse every accepted offer
+ * past its paymentDeadline (scheduled sweep), up to 400 of each per run
+ * Offers are also closed lazily when read, so the sweep only tidies up;
+ * offers stored without a deadline are only closed when read.
+ * Uses the (status, expiresAt) and (status, paymentDeadline) indexes.
+ */
+export async function expireOffers(): Promise<{ expired: number; lapsed: number }> {
+  const now = Date.now();
+  const offers = adminDb().collection("offers");
+  const [openSnapshot, acceptedSnapshot] = await Promise.all([
+    offers
+      .where("status", "in", OPEN_OFFER_STATUSES)
+      .where("expiresAt", "<=", now)
+      .orderBy("expiresAt")
+      .limit(400)
+      .get(),
+    offers
+      .where("status", "==", "accepted")
+      .where("paymentDeadline", "<=", now)
+      .orderBy("paymentDeadline")
+      .limit(400)
+      .get(),
+  ]);
+
+  const expired = await expireOfferDocs(openSnapshot.docs);
+  const lapsed = await expireOfferDocs(acceptedSnapshot.docs, "lapsed");
+
+  if (expired > 0 || lapsed > 0) {
+    log.info(`[expireOffers] Expired ${expired} offers, lapsed ${lapsed} accepted offers`);
+  }
+
+  return { expired, lapsed };
+}
+
+
+/**
+ * Freeze an asset while a payment dispute is open
+ * Frozen assets cannot be listed for resale or purchased. A disputed
+ * edition is frozen under its edition ID instead, leaving the series alone.
+ */
+export async function freezeAsset(
+  assetUid: string,
+  freezeData: {
+    disputeId: string;
+    stripePaymentId: string | null;
+    reason: string;
+  }
+) {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const db = adminDb();
+
+  await db.collection("asset_freezes").doc(assetUid).set({
+    assetUid,
+    disputeId: freezeData.disputeId,
+    stripePaymentId: freezeData.stripePaymentId,
+    reason: freezeData.reason,
+    createdAt: FieldValue.serverTimestamp(),
+  });
+
+  log.info(`[freezeAsset] Asset frozen`, { assetUid, disputeId: freezeData.disputeId });
+}
+
+/**
+ * Lift the freeze placed by a dispute
+ * Only the dispute that froze the asset can lift it
+ */
+export async function unfreezeAsset(assetUid: string, disputeId: string) {
+  const db = adminDb();
+  const freezeRef = db.collection("asset_freezes").doc(assetUid);
+
+  const freezeDoc = await freezeRef.get();
+  if (!freezeDoc.exists || freezeDoc.data()!.disputeId !== disputeId) {
+    log.debug(`[unfreezeAsset] No matching freeze`, { assetUid, disputeId });
+    return;
+  }
+
+  await freezeRef.delete();
+  log.info(`[unfreezeAsset] Asset unfrozen`, { assetUid, disputeId });
+}
+
+/**
+ * Get the active freeze for an asset (if any)
+ */
+export async function getAssetFreeze(assetUid: string): Promise<{
+  assetUid: string;
+  disputeId: string;
+  stripePaymentId: string | null;
+  reason: string;
+} | null> {
+  const freezeDoc = await adminDb().collection("asset_freezes").doc(assetUid).get();
+
+  if (!freezeDoc.exists) {
+    return null;
+  }
+
+  return freezeDoc.data() as any;
+}
@@ -22,10 +22,10 @@ import {
   getDocs,
   addDoc,
   updateDoc,
-  arrayUnion,
   serverTimestamp,
   Timestamp,
   orderBy,
+  limit as limitTo,
 } from "firebase/firestore";
 import { UserProfile } from "../types";
 
@@ -162,7 +162,7 @@ export async function createUserProfile(uid: string, data: UserProfileData) {
   await setDoc(doc(db, "wallets", walletId), {
     userId: uid,
     balance: 0,
-    transactions: [],
+    transactionCount: 0,
     createdAt: serverTimestamp(),
     updatedAt: serverTimestamp(),
   });
@@ -192,97 +192,96 @@ export interface Transaction {
   type: "DEBIT" | "CREDIT";
   amount: number;
   timestamp: Timestamp | Date;
+  sequence?: number; // Position in the wallet's ledger (1-based)
+  balanceAfter?: number;
   reference: {
     assetUid?: string;
     stripePaymentId?: string;
     description?: string;
+    relatedTransactionId?: string;
   };
 }
 
-export async function getWallet(walletId: string) {
-  const walletDoc = await getDoc(doc(db, "wallets", walletId));
-  if (!walletDoc.exists()) return null;
-  return { id: walletDoc.id, ...walletDoc.data() };
-}
+// Ledger entries loaded per page
+const WALLET_PAGE_SIZE = 50;
 
-export async function getWalletByUserId(uid: string) {
-  const userProfile = await getUserProfile(uid) as UserProfile;
-  if (!userProfile || !userProfile.walletId) return null;
-  return getWallet(userProfile.walletId);
+interface LedgerPage {
+  transactions: Transaction[];
+  nextCursor: number | null;
 }
 
 /**
- * Add a transaction to the wallet ledger (append-only)
- * This function ensures immutability by only appending
+ * Read one page of a wallet's ledger, newest first.
+ * Transactions are read from the `wallets/{id}/transactions` subcollection;
+ * wallets not migrated yet still carry them in a `transactions` array.
  */
-export async function addTransaction(
+async function readLedgerPage(
   walletId: string,
-  transaction: Omit<Transaction, "timestamp">
-) {
-  const walletRef = doc(db, "wallets", walletId);
-  const walletDoc = await getDoc(walletRef);
-
-  if (!walletDoc.exists()) {
-    throw new Error("Wallet not found");
+  legacy: Transaction[] | undefined,
+  { limit = WALLET_PAGE_SIZE, before }: { limit?: number; before?: number }
+): Promise<LedgerPage> {
+  let transactions: Transaction[];
+
+  if (Array.isArray(legacy)) {
+    // Not migrated yet: page the array with the same numbering
+    transactions = legacy
+      .map((entry: Transaction, index: number) => ({ ...entry, sequence: index + 1 }))
+      .filter((entry) => before === undefined || entry.sequence < before)
+      .reverse()
+      .slice(0, limit);
+  } else {
+    const ledger = collection(db, "wallets", walletId, "transactions");
+    const snapshot = await getDocs(
+      before === undefined
+        ? query(ledger, orderBy("sequence", "desc"), limitTo(limit))
+        : query(ledger, where("sequence", "<", before), orderBy("sequence", "desc"), limitTo(limit))
+    );
+    transactions = snapshot.docs.map((d) => d.data() as Transaction);
   }
 
-  const currentBalance = walletDoc.data().balance || 0;
-  const newBalance =
-    transaction.type === "CREDIT"
-      ? currentBalance + transaction.amount
-      : currentBalance - transaction.amount;
-
-  if (transaction.type === "DEBIT" && newBalance < 0) {
-    throw new Error("Insufficient balance");
-  }
-
-  // Append transaction (immutable ledger pattern)
-  await updateDoc(walletRef, {
-    balance: newBalance,
-    transactions: arrayUnion({
-      ...transaction,
-      timestamp: new Date().toISOString(),
-    }),
-    updatedAt: serverTimestamp(),
-  });
-
-  return { newBalance, transaction };
+  const last = transactions[transactions.length - 1];
+  return {
+    transactions,
+    nextCursor: transactions.length === limit && (last.sequence || 0) > 1 ? last.sequence! : null,
+  };
 }
 
 /**
- * Credit wallet (add funds)
+ * Page through a wallet's ledger, newest first.
+ * `before` is the cursor returned as `nextCursor` by the previous page.
+ * Ledger entries are only written server-side (they are hash-chained and
+ * signed), see addServerTransaction in firebase-admin.
  */
-export async function creditWallet(
+export async function getWalletTransactions(
   walletId: string,
-  amount: number,
-  reference: Transaction["reference"]
-) {
-  const transactionId = `tx_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 10)}`.toUpperCase();
-
-  return addTransaction(walletId, {
-    id: transactionId,
-    type: "CREDIT",
-    amount,
-    reference,
-  });
+  options: { limit?: number; before?: number } = {}
+): Promise<LedgerPage> {
+  const walletDoc = await getDoc(doc(db, "wallets", walletId));
+  return readLedgerPage(walletId, walletDoc.data()?.transactions, options);
 }
 
 /**
- * Debit wallet (purchase)
+ * Get a wallet with the newest page of its ledger (newest first);
+ * load older entries with getWalletTransactions({ before: nextCursor })
  */
-export async function debitWallet(
-  walletId: string,
-  amount: number,
-  reference: Transaction["reference"]
-) {
-  const transactionId = `tx_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 10)}`.toUpperCase();
+export async function getWallet(walletId: string) {
+  const walletDoc = await getDoc(doc(db, "wallets", walletId));
+  if (!walletDoc.exists()) return null;
 
-  return addTransaction(walletId, {
-    id: transactionId,
-    type: "DEBIT",
-    amount,
-    reference,
-  });
+  const data = walletDoc.data();
+  const { transactions, nextCursor } = await readLedgerPage(walletId, data.transactions, {});
+  return {
+    id: walletDoc.id,
+    ...data,
+    transactions,
+    nextCursor,
+  };
+}
+
+export async function getWalletByUserId(uid: string) {
+  const userProfile = await getUserProfile(uid) as UserProfile;
+  if (!userProfile || !userProfile.walletId) return null;
+  return getWallet(userProfile.walletId);
 }
 
 export { auth, db, app };
@@ -0,0 +1,1332 @@
+/**
+ * Purchase Fulfillment Service
+ *
+ * Single fulfillment path for paid checkout sessions, shared by the Stripe
+ * webhook and the manual process route, and for purchases paid from the
+ * buyer's wallet balance:
+ * - Debit the buyer's wallet ledger
+ * - Credit the seller's proceeds and the artist's royalty
+ * - Transfer ownership in Contentstack Asset Management 2.0
+ * - Move the asset between user collections
+ * - Publish to the CDN and revalidate the artwork page
+ *
+ * Progress is persisted per checkout session (or wallet purchase ID) in the
+ * `purchase_fulfillments` collection, so a retried or concurrent delivery
+ * resumes from the last completed step instead of repeating it.
+ *
+ * Before anything is debited the session must hold the asset's reservation;
+ * a card payment that lost the reservation is refunded automatically.
+ * Wallet purchases debit the balance atomically and fail (without debiting)
+ * when the balance is too low.
+ *
+ * Limited editions follow the same steps, but ownership moves in the
+ * `editions` collection instead of Contentstack and user collections. A
+ * primary edition sale mints the next edition instead of holding a
+ * reservation; a card payment that arrives after the last one was minted is
+ * refunded the same way. A wallet purchase mints its edition in the same
+ * transaction as its DEBIT, so a balance too low mints nothing.
+ *
+ * Refunded or charged-back purchases are reversed from the same record:
+ * compensating CREDIT (and DEBITs clawing back proceeds), ownership rollback
+ * and collection fix-up.
+ */
+
+import type Stripe from "stripe";
+import { revalidatePath } from "next/cache";
+import {
+  adminDb,
+  addServerTransaction,
+  addUserAsset,
+  closeAssetOffers,
+  completeOffer,
+  getServerUserProfile,
+  getUserAssets,
+  removeUserAsset,
+  writeServerTransaction,
+  type LedgerTransaction,
+} from "@/lib/firebase-admin";
+import {
+  addAssetOwner,
+  getAsset,
+  rollbackAssetOwner,
+  triggerAssetPublish,
+} from "@/lib/asset-repository";
+import type { ArtMetadata } from "@/lib/contentstack-am2";
+import {
+  attachReservationSession,
+  confirmReservation,
+  releaseReservation,
+} from "@/lib/reservations";
+import { completeAuction } from "@/lib/auctions";
+import {
+  getEdition,
+  mintEdition,
+  rollbackEditionOwner,
+  transferEdition,
+} from "@/lib/editions";
+import {
+  calculateSaleSplit,
+  getPlatformFeePercentage,
+  type SaleSplit,
+} from "@/lib/royalties";
+import { refundPayment } from "@/lib/stripe";
+import { createTransactionId } from "@/lib/wallet";
+import { notify } from "@/lib/notifications";
+import { sendPurchaseReceipt, sendRefundNotice, sendSaleConfirmation } from "@/lib/email";
+import { formatCurrency } from "@/lib/utils";
+import { log } from "@/lib/logger";
+
+// ==========================================
+// Types
+// ==========================================
+
+/**
+ * Fulfillment steps in execution order.
+ * A record's `step` is the last step that completed successfully.
+ */
+export type FulfillmentStep =
+  | "pending"
+  | "owner_snapshotted"
+  | "ledger_debited"
+  | "proceeds_credited"
+  | "owner_updated"
+  | "collections_updated"
+  | "published"
+  | "completed";
+
+export type FulfillmentStatus = "in_progress" | "completed" | "failed" | "refunded";
+
+export type PaymentMethod = "card" | "wallet";
+
+export interface PurchaseDetails {
+  sessionId: string; // Checkout session ID, or WALLET_* for wallet purchases
+  artworkId: string;
+  userId: string;
+  walletId: string;
+  amount: number;
+  currency: string;
+  paymentMethod: PaymentMethod;
+  stripePaymentId: string | null; // null for wallet purchases
+  offerId?: string | null; // Accepted offer the purchase pays for
+  auctionId?: string | null; // Won auction the purchase pays for
+  editionId?: string | null; // Edition bought on resale, or the one minted for a primary sale
+  mintEdition?: boolean; // Primary sale of a limited edition
+}
+
+/**
+ * Entry in a user's `user_assets` collection
+ */
+export interface CollectionEntry {
+  transactionId: string;
+  purchaseDate: string;
+  price: number;
+  currency: string;
+}
+
+/**
+ * How the sale price is paid out, fixed (with transaction IDs) before any
+ * CREDIT is written so a resumed run never pays out twice
+ */
+export interface ProceedsPlan {
+  split: SaleSplit;
+  sellerId: string | null;
+  sellerWalletId: string | null;
+  sellerTransactionId: string;
+  artistId: string | null;
+  artistWalletId: string | null;
+  artistTransactionId: string | null; // null when no royalty is due
+}
+
+export type ReversalReason = "refund" | "dispute_lost";
+
+export interface PurchaseReversal {
+  reason: ReversalReason;
+  sourceId: string; // Stripe charge or dispute ID
+  transactionId: string; // Compensating CREDIT
+  paymentTransactionId?: string | null; // DEBIT returning the card payment
+  sellerTransactionId?: string | null; // DEBIT clawing back seller proceeds
+  artistTransactionId?: string | null; // DEBIT clawing back the royalty
+  status: "in_progress" | "completed";
+  requestedAt: string;
+  completedAt?: string;
+}
+
+export interface FulfillmentRecord extends PurchaseDetails {
+  transactionId: string;
+  paymentTransactionId?: string | null; // CREDIT funding a card purchase; null for wallet purchases
+  purchaseDate: string;
+  previousOwnerId: string | null;
+  previousStatus: ArtMetadata["status"];
+  previousOwnerAsset: CollectionEntry | null;
+  proceeds?: ProceedsPlan | null;
+  reversal?: PurchaseReversal | null;
+  refundReason?: string | null; // Set when the payment is refunded instead of fulfilled
+  step: FulfillmentStep;
+  status: FulfillmentStatus;
+  attempts: number;
+  leaseExpiresAt: number | null;
+  lastError: string | null;
+  createdAt?: any;
+  updatedAt?: any;
+  completedAt?: any;
+}
+
+export interface FulfillmentResult {
+  sessionId: string;
+  transactionId: string;
+  stripePaymentId: string | null;
+  alreadyCompleted: boolean;
+  refunded: boolean;
+}
+
+export interface ReversalResult {
+  sessionId: string;
+  artworkId: string;
+  transactionId: string;
+  ownerRolledBack: boolean;
+  alreadyReversed: boolean;
+}
+
+// ==========================================
+// Configuration
+// ==========================================
+
+const FULFILLMENTS_COLLECTION = "purchase_fulfillments";
+
+// Longer than the route maxDuration so a live worker keeps its lease,
+// short enough that a crashed worker's session can be resumed by a retry
+const LEASE_DURATION_MS = 60_000;
+
+// How long a wallet purchase holds the asset's reservation while it runs
+const WALLET_RESERVATION_SECONDS = 60;
+
+// ==========================================
+// Helpers
+// ==========================================
+
+/**
+ * Extract purchase details from a Stripe checkout session
+ * payment_intent might be expanded (object) or just an ID (string)
+ */
+export function getPurchaseDetails(
+  session: Stripe.Checkout.Session
+): PurchaseDetails {
+  const { artworkId, userId, walletId, offerId, auctionId, editionId, mintEdition } =
+    session.metadata || {};
+
+  if (!artworkId || !userId || !walletId) {
+    throw new Error("Missing required metadata in checkout session");
+  }
+
+  const stripePaymentId =
+    typeof session.payment_intent === "string"
+      ? session.payment_intent
+      : session.payment_intent?.id || session.id;
+
+  return {
+    sessionId: session.id,
+    artworkId,
+    userId,
+    walletId,
+    amount: (session.amount_total || 0) / 100, // Convert from cents
+    currency: (session.currency || "usd").toUpperCase(),
+    paymentMethod: "card",
+    stripePaymentId,
+    offerId: offerId || null,
+    auctionId: auctionId || null,
+    editionId: editionId || null,
+    mintEdition: mintEdition === "true",
+  };
+}
+
+/**
+ * Reservation a purchase must hold: the edition for an edition resale, the
+ * asset otherwise. Primary edition sales hold none.
+ */
+export function getReservationKey(
+  details: Pick<PurchaseDetails, "artworkId" | "editionId" | "mintEdition">
+): string | null {
+  if (details.mintEdition) return null;
+  return details.editionId || details.artworkId;
+}
+
+/**
+ * Ledger reference for a purchase's transactions
+ * (Firestore rejects undefined fields, so the payment ID is only set for card payments)
+ */
+function purchaseReference(record: FulfillmentRecord) {
+  return {
+    assetUid: record.artworkId,
+    ...(record.stripePaymentId ? { stripePaymentId: record.stripePaymentId } : {}),
+  };
+}
+
+function purchaseDebit(record: FulfillmentRecord): LedgerTransaction {
+  return {
+    id: record.transactionId,
+    type: "DEBIT",
+    amount: record.amount,
+    reference: {
+      ...purchaseReference(record),
+      description: `Artwork purchase: ${record.artworkId}`,
+    },
+  };
+}
+
+function fulfillmentRef(sessionId: string) {
+  return adminDb().collection(FULFILLMENTS_COLLECTION).doc(sessionId);
+}
+
+/**
+ * Get the fulfillment record for a checkout session (if any)
+ */
+export async function getFulfillment(
+  sessionId: string
+): Promise<FulfillmentRecord | null> {
+  const doc = await fulfillmentRef(sessionId).get();
+  if (!doc.exists) return null;
+  return doc.data() as FulfillmentRecord;
+}
+
+/**
+ * Create or resume the fulfillment record and take the processing lease.
+ * Throws if another worker currently holds a live lease for the session.
+ */
+async function claimFulfillment(
+  details: PurchaseDetails
+): Promise<FulfillmentRecord> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const db = adminDb();
+  const ref = fulfillmentRef(details.sessionId);
+
+  return db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    const now = Date.now();
+
+    if (!doc.exists) {
+      const record: FulfillmentRecord = {
+        ...details,
+        transactionId: createTransactionId(),
+        paymentTransactionId:
+          details.paymentMethod === "card" ? createTransactionId() : null,
+        purchaseDate: new Date().toISOString(),
+        previousOwnerId: null,
+        previousStatus: null,
+        previousOwnerAsset: null,
+        step: "pending",
+        status: "in_progress",
+        attempts: 1,
+        leaseExpiresAt: now + LEASE_DURATION_MS,
+        lastError: null,
+      };
+      tx.set(ref, {
+        ...record,
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      return record;
+    }
+
+    const record = doc.data() as FulfillmentRecord;
+
+    if (record.status === "completed" || record.status === "refunded") {
+      return record;
+    }
+
+    if (record.leaseExpiresAt && record.leaseExpiresAt > now) {
+      throw new Error(
+        `Fulfillment already in progress for session ${details.sessionId}`
+      );
+    }
+
+    const resumed: FulfillmentRecord = {
+      ...record,
+      status: "in_progress",
+      attempts: (record.attempts || 0) + 1,
+      leaseExpiresAt: now + LEASE_DURATION_MS,
+    };
+    tx.update(ref, {
+      status: resumed.status,
+      attempts: resumed.attempts,
+      leaseExpiresAt: resumed.leaseExpiresAt,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return resumed;
+  });
+}
+
+/**
+ * Persist a completed step (and any data it produced) and renew the lease
+ */
+async function recordStep(
+  record: FulfillmentRecord,
+  step: FulfillmentStep,
+  updates: Partial<FulfillmentRecord>
+): Promise<FulfillmentRecord> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const completed = step === "completed";
+
+  const next: FulfillmentRecord = {
+    ...record,
+    ...updates,
+    step,
+    status: completed ? "completed" : "in_progress",
+    leaseExpiresAt: completed ? null : Date.now() + LEASE_DURATION_MS,
+    lastError: null,
+  };
+
+  await fulfillmentRef(record.sessionId).update({
+    ...updates,
+    step,
+    status: next.status,
+    leaseExpiresAt: next.leaseExpiresAt,
+    lastError: null,
+    updatedAt: FieldValue.serverTimestamp(),
+    ...(completed ? { completedAt: FieldValue.serverTimestamp() } : {}),
+  });
+
+  log.debug(`[Fulfillment] Step completed`, {
+    sessionId: record.sessionId,
+    step,
+  });
+
+  return next;
+}
+
+/**
+ * Record a failed attempt and release the lease so a retry can resume
+ */
+async function recordFailure(record: FulfillmentRecord, error: any) {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  try {
+    await fulfillmentRef(record.sessionId).update({
+      status: "failed",
+      leaseExpiresAt: null,
+      lastError: error?.message || "Unknown error",
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  } catch (updateError) {
+    log.error(`[Fulfillment] Failed to record failure`, updateError, {
+      sessionId: record.sessionId,
+    });
+  }
+}
+
+/**
+ * Work out the sale split and payout transaction IDs, and persist them
+ * before anything is credited
+ */
+async function planProceeds(record: FulfillmentRecord): Promise<ProceedsPlan> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const asset = await getAsset(record.artworkId);
+  const artMetadata = asset.custom_metadata?.art_metadata;
+
+  const artistId = artMetadata?.artist_uid || null;
+  // No previous owner means the artist is selling the original
+  const sellerId = record.previousOwnerId || artistId;
+  const sellerIsArtist = !!sellerId && sellerId === artistId;
+
+  const split = calculateSaleSplit(record.amount, {
+    royaltyPercentage: artMetadata?.royalty_percentage,
+    platformFeePercentage: getPlatformFeePercentage(),
+    sellerIsArtist,
+  });
+
+  const [sellerProfile, artistProfile] = await Promise.all([
+    sellerId ? getServerUserProfile(sellerId) : null,
+    artistId && split.royalty > 0 ? getServerUserProfile(artistId) : null,
+  ]);
+
+  const proceeds: ProceedsPlan = {
+    split,
+    sellerId,
+    sellerWalletId: (sellerProfile as any)?.walletId || null,
+    sellerTransactionId: createTransactionId(),
+    artistId,
+    artistWalletId: (artistProfile as any)?.walletId || null,
+    artistTransactionId: split.royalty > 0 ? createTransactionId() : null,
+  };
+
+  await fulfillmentRef(record.sessionId).update({
+    proceeds,
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+
+  return proceeds;
+}
+
+// ==========================================
+// Step Machine
+// ==========================================
+
+interface StepHandler {
+  next: FulfillmentStep;
+  run: (record: FulfillmentRecord) => Promise<Partial<FulfillmentRecord>>;
+}
+
+const STEPS: Record<Exclude<FulfillmentStep, "completed">, StepHandler> = {
+  // 1. Capture the previous owner, their collection entry and the listing
+  //    status before ownership changes. Persisted so a resumed run never
+  //    mistakes the buyer for the seller, and so a reversal can restore them.
+  pending: {
+    next: "owner_snapshotted",
+    run: async (record) => {
+      const asset = await getAsset(record.artworkId);
+      const artMetadata = asset.custom_metadata?.art_metadata;
+
+      // An edition's seller is its owner (the artist, for a fresh mint);
+      // a wallet purchase mints its edition with the DEBIT, in step 2
+      if (record.editionId || record.mintEdition) {
+        const edition = record.editionId ? await getEdition(record.editionId) : null;
+        return {
+          previousOwnerId: edition
+            ? edition.currentOwner.userId || null
+            : artMetadata?.artist_uid || null,
+          previousStatus: artMetadata?.status || null,
+          previousOwnerAsset: null,
+        };
+      }
+
+      const previousOwnerId = artMetadata?.current_owner?.user_id || null;
+
+      let previousOwnerAsset: CollectionEntry | null = null;
+      if (previousOwnerId && previousOwnerId !== record.userId) {
+        const { assets } = await getUserAssets(previousOwnerId);
+        const entry = assets.find((a: any) => a.assetUid === record.artworkId);
+        if (entry) {
+          previousOwnerAsset = {
+            transactionId: entry.transactionId,
+            purchaseDate: entry.purchaseDate,
+            price: entry.price,
+            currency: entry.currency,
+          };
+        }
+      }
+
+      return {
+        previousOwnerId,
+        previousStatus: artMetadata?.status || null,
+        previousOwnerAsset,
+      };
+    },
+  },
+
+  // 2. Add transaction to wallet ledger (immutable append, idempotent on ID).
+  //    A card payment is credited first so the purchase DEBIT never
+  //    overdraws; wallet purchases are paid from the existing balance, and
+  //    a primary edition is minted in the same transaction as their DEBIT.
+  owner_snapshotted: {
+    next: "ledger_debited",
+    run: async (record) => {
+      if (record.mintEdition && record.paymentMethod === "wallet") {
+        const edition = await mintEdition(record.artworkId, record.sessionId, (tx) =>
+          writeServerTransaction(tx, record.walletId, purchaseDebit(record))
+        );
+        return { editionId: edition.id };
+      }
+
+      if (record.paymentMethod === "card") {
+        if (!record.paymentTransactionId) {
+          throw new Error("Card purchase has no payment transaction");
+        }
+        await addServerTransaction(record.walletId, {
+          id: record.paymentTransactionId,
+          type: "CREDIT",
+          amount: record.amount,
+          reference: {
+            ...purchaseReference(record),
+            description: `Card payment: ${record.artworkId}`,
+          },
+        });
+      }
+
+      await addServerTransaction(record.walletId, purchaseDebit(record));
+      return {};
+    },
+  },
+
+  // 3. Credit the seller (price minus royalty and platform fee) and the
+  //    artist (royalty), each linked to the buyer's DEBIT
+  ledger_debited: {
+    next: "proceeds_credited",
+    run: async (record) => {
+      const proceeds = record.proceeds || (await planProceeds(record));
+      const { split } = proceeds;
+      const reference = {
+        ...purchaseReference(record),
+        relatedTransactionId: record.transactionId,
+      };
+
+      if (proceeds.sellerWalletId && split.sellerProceeds > 0) {
+        await addServerTransaction(proceeds.sellerWalletId, {
+          id: proceeds.sellerTransactionId,
+          type: "CREDIT",
+          amount: split.sellerProceeds,
+          reference: {
+            ...reference,
+            description: `Sale proceeds: ${record.artworkId}`,
+          },
+        });
+      } else if (split.sellerProceeds > 0) {
+        log.warn(`[Fulfillment] Seller has no wallet, proceeds not credited`, {
+          sessionId: record.sessionId,
+          sellerId: proceeds.sellerId,
+        });
+      }
+
+      if (proceeds.artistTransactionId && proceeds.artistWalletId) {
+        await addServerTransaction(proceeds.artistWalletId, {
+          id: proceeds.artistTransactionId,
+          type: "CREDIT",
+          amount: split.royalty,
+          reference: {
+            ...reference,
+            description: `Royalty (${split.royaltyPercentage}%): ${record.artworkId}`,
+          },
+        });
+      } else if (proceeds.artistTransactionId) {
+        log.warn(`[Fulfillment] Artist has no wallet, royalty not credited`, {
+          sessionId: record.sessionId,
+          artistId: proceeds.artistId,
+        });
+      }
+
+      return { proceeds };
+    },
+  },
+
+  // 4. Update Contentstack asset metadata with the new owner
+  //    (or hand the edition to the buyer)
+  proceeds_credited: {
+    next: "owner_updated",
+    run: async (record) => {
+      if (record.editionId) {
+        const buyerProfile = await getServerUserProfile(record.userId);
+        await transferEdition(record.editionId, {
+          userId: record.userId,
+          userName: (buyerProfile as any)?.displayName || "Anonymous",
+          purchaseDate: record.purchaseDate,
+          transactionId: record.transactionId,
+          price: record.amount,
+        });
+        return {};
+      }
+
+      const asset = await getAsset(record.artworkId);
+      const currentOwner = asset.custom_metadata?.art_metadata?.current_owner;
+
+      if (currentOwner?.transaction_id === record.transactionId) {
+        log.debug(`[Fulfillment] Owner already updated`, {
+          sessionId: record.sessionId,
+        });
+        return {};
+      }
+
+      const userProfile = await getServerUserProfile(record.userId);
+      await addAssetOwner(record.artworkId, {
+        user_id: record.userId,
+        user_name: (userProfile as any)?.displayName || "Anonymous",
+        purchase_date: record.purchaseDate,
+        transaction_id: record.transactionId,
+      });
+      return {};
+    },
+  },
+
+  // 5. Move the asset from the previous owner's collection to the buyer's
+  //    (edition ownership is only tracked in `editions`)
+  owner_updated: {
+    next: "collections_updated",
+    run: async (record) => {
+      if (record.editionId) return {};
+
+      if (record.previousOwnerId && record.previousOwnerId !== record.userId) {
+        await removeUserAsset(record.previousOwnerId, record.artworkId);
+      }
+
+      await addUserAsset(record.userId, record.artworkId, {
+        transactionId: record.transactionId,
+        purchaseDate: record.purchaseDate,
+        price: record.amount,
+        currency: record.currency,
+      });
+      return {};
+    },
+  },
+
+  // 6. Publish latest content to the CDN and revalidate the artwork page
+  collections_updated: {
+    next: "published",
+    run: async (record) => {
+      await triggerAssetPublish(record.artworkId);
+      revalidatePath(`/art/${record.artworkId}`);
+      return {};
+    },
+  },
+
+  // 7. Release the asset's reservation now that ownership has moved,
+  //    complete the accepted offer or auction the purchase paid for, and
+  //    close every other offer made to the previous owner
+  published: {
+    next: "completed",
+    run: async (record) => {
+      const reservationKey = getReservationKey(record);
+      if (reservationKey) {
+        await releaseReservation(reservationKey, { sessionId: record.sessionId });
+      }
+      if (record.offerId) {
+        await completeOffer(record.offerId, record.sessionId);
+      }
+      if (record.auctionId) {
+        await completeAuction(record.auctionId, record.sessionId);
+      }
+      if (!record.editionId) {
+        await closeAssetOffers(record.artworkId, "The artwork was sold", record.offerId);
+      }
+      return {};
+    },
+  },
+};
+
+/**
+ * Mint the edition a primary edition sale pays for, and record it on the
+ * purchase. Returns null if the edition sold out first.
+ */
+async function mintPurchasedEdition(
+  record: FulfillmentRecord
+): Promise<FulfillmentRecord | null> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+
+  let edition;
+  try {
+    edition = await mintEdition(record.artworkId, record.sessionId);
+  } catch (error: any) {
+    if (error.message?.includes("sold out")) return null;
+    throw error;
+  }
+
+  if (record.editionId !== edition.id) {
+    await fulfillmentRef(record.sessionId).update({
+      editionId: edition.id,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  }
+
+  return { ...record, editionId: edition.id };
+}
+
+/**
+ * Refund a payment that lost the asset's reservation to another session, or
+ * that arrived after the last edition was minted.
+ * The decision is persisted first, so a retry keeps refunding even if the
+ * asset becomes free again in the meantime.
+ */
+async function refundLostReservation(
+  record: FulfillmentRecord,
+  reason = "Artwork reserved by another checkout"
+): Promise<FulfillmentRecord> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const refundReason = record.refundReason || reason;
+
+  if (!record.refundReason) {
+    await fulfillmentRef(record.sessionId).update({
+      refundReason,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  }
+
+  await refundPayment(record.stripePaymentId!, refundReason);
+
+  await fulfillmentRef(record.sessionId).update({
+    status: "refunded",
+    leaseExpiresAt: null,
+    lastError: null,
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+
+  log.warn(`[Fulfillment] Payment refunded, asset no longer available`, {
+    sessionId: record.sessionId,
+    artworkId: record.artworkId,
+    stripePaymentId: record.stripePaymentId,
+    refundReason,
+  });
+
+  return { ...record, refundReason, status: "refunded", leaseExpiresAt: null };
+}
+
+/**
+ * Title of the purchased asset for notifications and emails
+ */
+async function getPurchaseTitle(record: FulfillmentRecord): Promise<string> {
+  try {
+    const asset = await getAsset(record.artworkId);
+    return asset.title || "Untitled";
+  } catch (error: any) {
+    log.warn(`[Fulfillment] Failed to load asset for notifications`, {
+      artworkId: record.artworkId,
+      error: error.message,
+    });
+    return "Untitled";
+  }
+}
+
+/**
+ * Tell the buyer how their purchase ended (with a receipt or refund notice
+ * by email), and the seller about the sale.
+ * Runs once, when the purchase completes or is refunded.
+ */
+async function notifyPurchaseOutcome(record: FulfillmentRecord): Promise<void> {
+  const assetTitle = await getPurchaseTitle(record);
+  const edition = record.editionId ? await getEdition(record.editionId) : null;
+  const editionLabel = edition ? `${edition.editionNumber}/${edition.editionSize}` : null;
+  const artwork = record.editionId ? `An edition of "${assetTitle}"` : `"${assetTitle}"`;
+  const base = { assetUid: record.artworkId };
+
+  if (record.status === "refunded") {
+    await notify(record.userId, "purchase_refunded", {
+      ...base,
+      title: "Payment refunded",
+      message: `Your payment for "${assetTitle}" was refunded: ${record.refundReason}`,
+    });
+    await sendRefundNotice(record.userId, {
+      assetUid: record.artworkId,
+      assetTitle,
+      amount: record.amount,
+      currency: record.currency,
+      reason: record.refundReason || "The artwork is no longer available",
+    });
+    return;
+  }
+
+  await notify(record.userId, "purchase_completed", {
+    ...base,
+    title: "Purchase complete",
+    message: `${artwork} is now in your collection`,
+  });
+  await sendPurchaseReceipt(record.userId, {
+    assetUid: record.artworkId,
+    assetTitle,
+    editionLabel,
+    amount: record.amount,
+    currency: record.currency,
+    paymentMethod: record.paymentMethod,
+    transactionId: record.transactionId,
+    purchaseDate: record.purchaseDate,
+  });
+
+  const proceeds = record.proceeds;
+  if (proceeds?.sellerId && proceeds.sellerId !== record.userId) {
+    await notify(proceeds.sellerId, "artwork_sold", {
+      ...base,
+      title: "Artwork sold",
+      message: `${artwork} sold for ${formatCurrency(record.amount, record.currency)}`,
+    });
+    await sendSaleConfirmation(proceeds.sellerId, {
+      assetUid: record.artworkId,
+      assetTitle,
+      editionLabel,
+      amount: record.amount,
+      currency: record.currency,
+      platformFee: proceeds.split.platformFee,
+      royalty: proceeds.split.royalty,
+      proceeds: proceeds.split.sellerProceeds,
+      transactionId: proceeds.sellerTransactionId,
+    });
+  }
+}
+
+// ==========================================
+// Fulfillment
+// ==========================================
+
+/**
+ * Run (or resume) fulfillment for a paid purchase
+ */
+async function runFulfillment(details: PurchaseDetails): Promise<FulfillmentResult> {
+  let record = await claimFulfillment(details);
+
+  if (record.status === "completed" || record.status === "refunded") {
+    log.info(`[Fulfillment] Session already fulfilled`, {
+      sessionId: record.sessionId,
+      transactionId: record.transactionId,
+      status: record.status,
+    });
+    return {
+      sessionId: record.sessionId,
+      transactionId: record.transactionId,
+      stripePaymentId: record.stripePaymentId,
+      alreadyCompleted: true,
+      refunded: record.status === "refunded",
+    };
+  }
+
+  log.info(`[Fulfillment] Processing purchase`, {
+    sessionId: record.sessionId,
+    artworkId: record.artworkId,
+    userId: record.userId,
+    paymentMethod: record.paymentMethod,
+    step: record.step,
+    attempt: record.attempts,
+  });
+
+  try {
+    // Only the session holding the reservation may take ownership; a
+    // primary edition sale needs an edition left to mint instead. A wallet
+    // purchase mints with its DEBIT (step 2) and fails there if sold out.
+    if (record.step === "pending") {
+      let held = false;
+      if (record.mintEdition && record.paymentMethod === "wallet") {
+        held = true;
+      } else if (!record.refundReason && record.mintEdition) {
+        const minted = await mintPurchasedEdition(record);
+        if (minted) {
+          record = minted;
+          held = true;
+        }
+      } else if (!record.refundReason) {
+        held = await confirmReservation(
+          getReservationKey(record)!,
+          record.sessionId,
+          record.userId
+        );
+      }
+
+      const lostReason = record.mintEdition
+        ? "Edition is sold out"
+        : "Artwork is reserved by another checkout";
+
+      // Nothing has been debited from a wallet purchase yet
+      if (!held && record.paymentMethod === "wallet") {
+        throw new Error(lostReason);
+      }
+
+      if (!held) {
+        record = await refundLostReservation(record, lostReason);
+        await notifyPurchaseOutcome(record);
+        return {
+          sessionId: record.sessionId,
+          transactionId: record.transactionId,
+          stripePaymentId: record.stripePaymentId,
+          alreadyCompleted: false,
+          refunded: true,
+        };
+      }
+    }
+
+    while (record.step !== "completed") {
+      const handler = STEPS[record.step];
+      const updates = await handler.run(record);
+      record = await recordStep(record, handler.next, updates);
+    }
+  } catch (error: any) {
+    log.error(`[Fulfillment] Step failed`, error, {
+      sessionId: record.sessionId,
+      step: record.step,
+    });
+    await recordFailure(record, error);
+    throw error;
+  }
+
+  log.info(`[Fulfillment] Purchase fulfilled`, {
+    sessionId: record.sessionId,
+    artworkId: record.artworkId,
+    transactionId: record.transactionId,
+  });
+
+  await notifyPurchaseOutcome(record);
+
+  return {
+    sessionId: record.sessionId,
+    transactionId: record.transactionId,
+    stripePaymentId: record.stripePaymentId,
+    alreadyCompleted: false,
+    refunded: false,
+  };
+}
+
+/**
+ * Fulfill a paid checkout session.
+ * Safe to call repeatedly for the same session: completed sessions return
+ * immediately and interrupted ones resume from the last completed step.
+ */
+export async function fulfillPurchase(
+  session: Stripe.Checkout.Session
+): Promise<FulfillmentResult> {
+  return runFulfillment(getPurchaseDetails(session));
+}
+
+/**
+ * Buy an artwork with the buyer's wallet balance instead of a card.
+ * The caller must already hold the asset's (or edition's) reservation for the
+ * buyer (claimReservation); it is attached to the new purchase ID here.
+ * Primary edition sales hold no reservation; their edition is minted in the
+ * same transaction as the DEBIT.
+ * Throws "Insufficient balance" without debiting (or minting) if the balance
+ * is too low.
+ */
+export async function fulfillWalletPurchase({
+  artworkId,
+  userId,
+  walletId,
+  amount,
+  currency = "USD",
+  offerId = null,
+  auctionId = null,
+  editionId = null,
+  mintEdition = false,
+}: {
+  artworkId: string;
+  userId: string;
+  walletId: string;
+  amount: number;
+  currency?: string;
+  offerId?: string | null;
+  auctionId?: string | null;
+  editionId?: string | null;
+  mintEdition?: boolean;
+}): Promise<FulfillmentResult> {
+  const purchaseId = `WALLET_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  const reservationKey = getReservationKey({ artworkId, editionId, mintEdition });
+
+  if (reservationKey) {
+    await attachReservationSession(reservationKey, userId, {
+      id: purchaseId,
+      url: null,
+      expiresAt: Math.floor(Date.now() / 1000) + WALLET_RESERVATION_SECONDS,
+    });
+  }
+
+  try {
+    return await runFulfillment({
+      sessionId: purchaseId,
+      artworkId,
+      userId,
+      walletId,
+      amount,
+      currency,
+      paymentMethod: "wallet",
+      stripePaymentId: null,
+      offerId,
+      auctionId,
+      editionId,
+      mintEdition,
+    });
+  } catch (error) {
+    // Free the asset if the balance was never debited
+    const record = await getFulfillment(purchaseId);
+    if (
+      reservationKey &&
+      (!record || record.step === "pending" || record.step === "owner_snapshotted")
+    ) {
+      await releaseReservation(reservationKey, { sessionId: purchaseId });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Resume an interrupted wallet purchase (the balance was already debited).
+ * Purchases that failed before the debit cannot be resumed; the buyer
+ * simply buys again.
+ */
+export async function resumeWalletPurchase(
+  purchaseId: string
+): Promise<FulfillmentResult> {
+  const record = await getFulfillment(purchaseId);
+
+  if (!record || record.paymentMethod !== "wallet") {
+    throw new Error("Wallet purchase not found");
+  }
+
+  if (
+    record.status !== "completed" &&
+    (record.step === "pending" || record.step === "owner_snapshotted")
+  ) {
+    throw new Error("Wallet purchase was not paid");
+  }
+
+  return runFulfillment(record);
+}
+
+// ==========================================
+// Reversal
+// ==========================================
+
+/**
+ * Find the fulfillment record for a Stripe payment intent (if any)
+ */
+export async function getFulfillmentByPaymentId(
+  stripePaymentId: string
+): Promise<FulfillmentRecord | null> {
+  const snapshot = await adminDb()
+    .collection(FULFILLMENTS_COLLECTION)
+    .where("stripePaymentId", "==", stripePaymentId)
+    .limit(1)
+    .get();
+
+  if (snapshot.empty) return null;
+  return snapshot.docs[0].data() as FulfillmentRecord;
+}
+
+/**
+ * Start (or resume) the reversal of a fulfilled purchase.
+ * The compensating transaction ID is fixed on first claim so retries
+ * never credit the wallet twice.
+ */
+async function claimReversal(
+  record: FulfillmentRecord,
+  reason: ReversalReason,
+  sourceId: string
+): Promise<PurchaseReversal> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const db = adminDb();
+  const ref = fulfillmentRef(record.sessionId);
+
+  return db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    const current = doc.data() as FulfillmentRecord;
+
+    if (current.reversal) {
+      return current.reversal;
+    }
+
+    const reversal: PurchaseReversal = {
+      reason,
+      sourceId,
+      transactionId: createTransactionId(),
+      paymentTransactionId: current.paymentTransactionId ? createTransactionId() : null,
+      sellerTransactionId: current.proceeds?.sellerWalletId
+        ? createTransactionId()
+        : null,
+      artistTransactionId:
+        current.proceeds?.artistWalletId && current.proceeds.artistTransactionId
+          ? createTransactionId()
+          : null,
+      status: "in_progress",
+      requestedAt: new Date().toISOString(),
+    };
+    tx.update(ref, {
+      reversal,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return reversal;
+  });
+}
+
+/**
+ * Reverse a fulfilled purchase after a refund or a lost dispute:
+ * - Add a compensating CREDIT to the buyer's wallet ledger (and a DEBIT
+ *   returning the card payment, so the buyer's balance nets to zero)
+ * - Claw back the seller's proceeds and the artist's royalty with DEBITs
+ * - Roll current_owner back to the previous ownership_history entry
+ * - Move the asset back from the buyer's collection to the previous owner's
+ *
+ * Each step is idempotent, so a retried event resumes safely.
+ * Returns null if no purchase was fulfilled for the payment.
+ */
+export async function reversePurchase(
+  stripePaymentId: string,
+  reason: ReversalReason,
+  sourceId: string
+): Promise<ReversalResult | null> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const record = await getFulfillmentByPaymentId(stripePaymentId);
+
+  if (!record) {
+    log.warn(`[Fulfillment] No purchase found to reverse`, {
+      stripePaymentId,
+      reason,
+    });
+    return null;
+  }
+
+  if (record.status === "refunded") {
+    log.info(`[Fulfillment] Payment was refunded before fulfillment`, {
+      sessionId: record.sessionId,
+      stripePaymentId,
+    });
+    return null;
+  }
+
+  if (record.status !== "completed") {
+    // Let the provider retry once fulfillment has finished
+    throw new Error(
+      `Fulfillment not completed for payment ${stripePaymentId}`
+    );
+  }
+
+  if (record.reversal?.status === "completed") {
+    return {
+      sessionId: record.sessionId,
+      artworkId: record.artworkId,
+      transactionId: record.reversal.transactionId,
+      ownerRolledBack: true,
+      alreadyReversed: true,
+    };
+  }
+
+  const reversal = await claimReversal(record, reason, sourceId);
+
+  log.info(`[Fulfillment] Reversing purchase`, {
+    sessionId: record.sessionId,
+    artworkId: record.artworkId,
+    reason: reversal.reason,
+    sourceId: reversal.sourceId,
+  });
+
+  // 1. Compensating CREDIT (idempotent on transaction ID)
+  await addServerTransaction(record.walletId, {
+    id: reversal.transactionId,
+    type: "CREDIT",
+    amount: record.amount,
+    reference: {
+      ...purchaseReference(record),
+      description:
+        reversal.reason === "refund"
+          ? `Refund: ${record.artworkId}`
+          : `Chargeback: ${record.artworkId}`,
+    },
+  });
+
+  // The card payment goes back to the card, not the wallet
+  if (record.paymentTransactionId && reversal.paymentTransactionId) {
+    await addServerTransaction(
+      record.walletId,
+      {
+        id: reversal.paymentTransactionId,
+        type: "DEBIT",
+        amount: record.amount,
+        reference: {
+          ...purchaseReference(record),
+          description: `Returned to card: ${record.artworkId}`,
+          relatedTransactionId: record.paymentTransactionId,
+        },
+      },
+      { allowOverdraft: true }
+    );
+  }
+
+  // 2. Claw back what was paid out (idempotent on transaction ID)
+  const proceeds = record.proceeds;
+  const clawbackReference = {
+    ...purchaseReference(record),
+    relatedTransactionId: reversal.transactionId,
+  };
+
+  if (proceeds?.sellerWalletId && reversal.sellerTransactionId && proceeds.split.sellerProceeds > 0) {
+    await addServerTransaction(
+      proceeds.sellerWalletId,
+      {
+        id: reversal.sellerTransactionId,
+        type: "DEBIT",
+        amount: proceeds.split.sellerProceeds,
+        reference: {
+          ...clawbackReference,
+          description: `Sale reversed: ${record.artworkId}`,
+        },
+      },
+      { allowOverdraft: true } // The seller may have spent or paid out the proceeds
+    );
+  }
+
+  if (proceeds?.artistWalletId && reversal.artistTransactionId) {
+    await addServerTransaction(
+      proceeds.artistWalletId,
+      {
+        id: reversal.artistTransactionId,
+        type: "DEBIT",
+        amount: proceeds.split.royalty,
+        reference: {
+          ...clawbackReference,
+          description: `Royalty reversed: ${record.artworkId}`,
+        },
+      },
+      { allowOverdraft: true }
+    );
+  }
+
+  // 3. Roll ownership back. A null result means either an earlier attempt
+  //    already did it, or the buyer has since resold the asset.
+  //    An auction is over once it sells, so its listing is not restored.
+  //    An edition goes back to its previous owner; the master is untouched.
+  let ownerRolledBack: boolean;
+  if (record.editionId) {
+    ownerRolledBack = await rollbackEditionOwner(record.editionId, record.transactionId);
+  } else {
+    const restoredStatus =
+      (record.previousStatus !== "auction" && record.previousStatus) ||
+      (record.previousOwnerId ? "sold" : "sale");
+    ownerRolledBack =
+      (await rollbackAssetOwner(
+        record.artworkId,
+        record.transactionId,
+        restoredStatus
+      )) !== null;
+
+    if (!ownerRolledBack) {
+      const asset = await getAsset(record.artworkId);
+      const history = asset.custom_metadata?.art_metadata?.ownership_history || [];
+      ownerRolledBack = !history.some(
+        (h) => h.transaction_id === record.transactionId
+      );
+    }
+  }
+
+  // 4. Move the asset back between collections
+  if (ownerRolledBack && record.editionId) {
+    revalidatePath(`/art/${record.artworkId}`);
+  } else if (ownerRolledBack) {
+    await removeUserAsset(record.userId, record.artworkId);
+
+    // Restore the previous owner's entry as snapshotted; an owner who had
+    // none gets none back
+    if (
+      record.previousOwnerId &&
+      record.previousOwnerId !== record.userId &&
+      record.previousOwnerAsset
+    ) {
+      await addUserAsset(record.previousOwnerId, record.artworkId, record.previousOwnerAsset);
+    }
+
+    await triggerAssetPublish(record.artworkId);
+    revalidatePath(`/art/${record.artworkId}`);
+  } else {
+    log.warn(`[Fulfillment] Asset changed hands since purchase, ownership kept`, {
+      sessionId: record.sessionId,
+      artworkId: record.artworkId,
+    });
+  }
+
+  await fulfillmentRef(record.sessionId).update({
+    "reversal.status": "completed",
+    "reversal.completedAt": new Date().toISOString(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+
+  log.info(`[Fulfillment] Purchase reversed`, {
+    sessionId: record.sessionId,
+    artworkId: record.artworkId,
+    transactionId: reversal.transactionId,
+    ownerRolledBack,
+  });
+
+  // Lost disputes were raised by the buyer; refunds get a notice
+  if (reason === "refund") {
+    await sendRefundNotice(record.userId, {
+      assetUid: record.artworkId,
+      assetTitle: await getPurchaseTitle(record),
+      amount: record.amount,
+      currency: record.currency,
+      reason: "Refund issued by ArtMint",
+      transactionId: reversal.transactionId,
+    });
+  }
+
+  return {
+    sessionId: record.sessionId,
+    artworkId: record.artworkId,
+    transactionId: reversal.transactionId,
+    ownerRolledBack,
+    alreadyReversed: false,
+  };
+}
@@ -0,0 +1,283 @@
+/**
+ * HTTP Client (server only)
+ *
+ * fetch() for calls to external services (Contentstack, Stripe):
+ * - Every call has a timeout (timeoutMs, 10 seconds by default)
+ * - Idempotent requests (GET, HEAD, OPTIONS, PUT, DELETE, or any request
+ *   marked idempotent) are retried on network errors, timeouts, 429 and 5xx
+ *   with jittered exponential backoff. A Retry-After header is honoured up
+ *   to MAX_RETRY_DELAY_MS; longer waits are left to the caller.
+ * - One circuit breaker per service: after BREAKER_FAILURE_THRESHOLD
+ *   consecutive failed calls the circuit opens and calls fail fast for
+ *   BREAKER_COOLDOWN_MS. The next call then goes through as a trial, and
+ *   closes the circuit again if it succeeds.
+ *
+ * Every call is logged as a structured metric (metric: "http_request") with
+ * its service, operation, outcome, status, attempts and duration.
+ *
+ * Responses are returned whatever their status, so callers keep their own
+ * error handling. Only network errors, timeouts and an open circuit throw.
+ */
+
+import { log } from "@/lib/logger";
+
+// ==========================================
+// Types
+// ==========================================
+
+export interface HttpRequestOptions extends RequestInit {
+  service: string; // Circuit breaker and metrics key, e.g. "contentstack-cda"
+  operation: string; // Metrics label, e.g. "getAssetFromCDA"
+  timeoutMs?: number; // Per attempt
+  retries?: number; // Attempts after the first, for idempotent requests
+  idempotent?: boolean; // Defaults to the method's semantics
+}
+
+export type HttpOutcome =
+  | "success"
+  | "client_error" // 4xx other than 429: the caller's error handling applies
+  | "rate_limited"
+  | "server_error"
+  | "network_error"
+  | "timeout"
+  | "circuit_open";
+
+interface CircuitState {
+  failures: number; // Consecutive failed calls
+  openUntil: number; // ms since epoch, 0 while closed
+  trialInFlight: boolean;
+}
+
+// ==========================================
+// Configuration
+// ==========================================
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_RETRIES = 2;
+
+// Backoff before the nth retry: 250ms, 500ms, 1s ... capped, then jittered
+const BASE_RETRY_DELAY_MS = 250;
+const MAX_RETRY_DELAY_MS = 5_000;
+
+const BREAKER_FAILURE_THRESHOLD = 5;
+const BREAKER_COOLDOWN_MS = 30_000;
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+// ==========================================
+// Circuit Breaker
+// ==========================================
+
+const circuits = new Map<string, CircuitState>();
+
+function getCircuit(service: string): CircuitState {
+  let circuit = circuits.get(service);
+  if (!circuit) {
+    circuit = { failures: 0, openUntil: 0, trialInFlight: false };
+    circuits.set(service, circuit);
+  }
+  return circuit;
+}
+
+/**
+ * Whether a call may go out: always while closed, never while open, and
+ * one trial at a time once the cooldown has passed
+ */
+function acquireCircuit(service: string): boolean {
+  const circuit = getCircuit(service);
+  if (!circuit.openUntil) return true;
+  if (Date.now() < circuit.openUntil || circuit.trialInFlight) return false;
+
+  circuit.trialInFlight = true;
+  return true;
+}
+
+function recordCircuitResult(service: string, failed: boolean): void {
+  const circuit = getCircuit(service);
+
+  if (!failed) {
+    if (circuit.openUntil) {
+      log.info(`[HTTP] Circuit closed`, { metric: "http_circuit", service, state: "closed" });
+    }
+    circuit.failures = 0;
+    circuit.openUntil = 0;
+    circuit.trialInFlight = false;
+    return;
+  }
+
+  circuit.failures++;
+  const trialFailed = circuit.trialInFlight;
+  circuit.trialInFlight = false;
+
+  if (trialFailed || circuit.failures >= BREAKER_FAILURE_THRESHOLD) {
+    circuit.openUntil = Date.now() + BREAKER_COOLDOWN_MS;
+    log.error(`[HTTP] Circuit opened`, undefined, {
+      metric: "http_circuit",
+      service,
+      state: "open",
+      failures: circuit.failures,
+      openUntil: new Date(circuit.openUntil).toISOString(),
+    });
+  }
+}
+
+// ==========================================
+// Helpers
+// ==========================================
+
+function classifyStatus(status: number): HttpOutcome {
+  if (status === 429) return "rate_limited";
+  if (status >= 500) return "server_error";
+  if (status >= 400) return "client_error";
+  return "success";
+}
+
+/**
+ * Retry-After as a delay: either seconds or an HTTP date
+ */
+function parseRetryAfter(value: string): number | null {
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Delay before the next attempt, or null if the service asked for a longer
+ * wait than a request should block for
+ */
+function getRetryDelayMs(response: Response | null, attempt: number): number | null {
+  const retryAfter = response?.headers.get("Retry-After");
+  const requested = retryAfter ? parseRetryAfter(retryAfter) : null;
+  if (requested !== null) {
+    return requested <= MAX_RETRY_DELAY_MS ? requested : null;
+  }
+
+  const backoff = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (attempt - 1));
+  return Math.round(backoff * (0.5 + Math.random()));
+}
+
+/**
+ * One attempt, aborted after timeoutMs. A caller's own signal still aborts
+ * it, without counting as a timeout.
+ */
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number
+): Promise<{ response: Response } | { error: any; timedOut: boolean }> {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort(init.signal?.reason);
+  init.signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    return { response: await fetch(url, { ...init, signal: controller.signal }) };
+  } catch (error: any) {
+    return {
+      error: timedOut ? new Error(`Request timed out after ${timeoutMs}ms`) : error,
+      timedOut,
+    };
+  } finally {
+    clearTimeout(timer);
+    init.signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+// ==========================================
+// Requests
+// ==========================================
+
+/**
+ * fetch() with a timeout, retries for idempotent requests and the
+ * service's circuit breaker
+ */
+export async function httpFetch(url: string, options: HttpRequestOptions): Promise<Response> {
+  const {
+    service,
+    operation,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retries = DEFAULT_RETRIES,
+    idempotent,
+    ...init
+  } = options;
+  const method = (init.method || "GET").toUpperCase();
+  const maxAttempts = 1 + ((idempotent ?? IDEMPOTENT_METHODS.has(method)) ? retries : 0);
+  const startedAt = Date.now();
+
+  const logOutcome = (outcome: HttpOutcome, attempts: number, status: number | null) => {
+    const metric = {
+      metric: "http_request",
+      service,
+      operation,
+      method,
+      outcome,
+      status,
+      attempts,
+      durationMs: Date.now() - startedAt,
+    };
+    if (outcome === "success" || outcome === "client_error") {
+      log.info(`[HTTP] ${service} ${operation}`, metric);
+    } else {
+      log.warn(`[HTTP] ${service} ${operation} failed`, metric);
+    }
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    if (!acquireCircuit(service)) {
+      logOutcome("circuit_open", attempt - 1, null);
+      throw new Error(`${service} is temporarily unavailable (circuit open)`);
+    }
+
+    const result = await fetchWithTimeout(url, init, timeoutMs);
+    const response = "response" in result ? result.response : null;
+
+    let outcome: HttpOutcome;
+    if ("response" in result) {
+      outcome = classifyStatus(result.response.status);
+    } else if (result.timedOut) {
+      outcome = "timeout";
+    } else if (init.signal?.aborted) {
+      // Aborted by the caller: not the service's fault
+      getCircuit(service).trialInFlight = false;
+      throw result.error;
+    } else {
+      outcome = "network_error";
+    }
+
+    const failed = outcome === "server_error" || outcome === "network_error" || outcome === "timeout";
+    recordCircuitResult(service, failed);
+
+    if ((failed || outcome === "rate_limited") && attempt < maxAttempts) {
+      const delayMs = getRetryDelayMs(response, attempt);
+      if (delayMs !== null) {
+        log.warn(`[HTTP] Retrying ${service} ${operation}`, {
+          metric: "http_retry",
+          service,
+          operation,
+          method,
+          outcome,
+          status: response?.status ?? null,
+          attempt,
+          delayMs,
+        });
+        // Release the connection before waiting
+        await response?.body?.cancel().catch(() => undefined);
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+        continue;
+      }
+    }
+
+    logOutcome(outcome, attempt, response?.status ?? null);
+    if ("error" in result) {
+      throw result.error;
+    }
+    return result.response;
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Ledger Integrity (server only)
+ *
+ * Makes wallet ledgers tamper-evident:
+ * - Each entry stores a SHA-256 hash of its contents and the previous
+ *   entry's hash (`previousHash`), forming a chain per wallet
+ * - Each hash is signed with an HMAC keyed by LEDGER_SIGNING_SECRET, so a
+ *   rewritten chain can't be re-hashed without the server's key
+ *
+ * Entries written before chaining was introduced carry no hash; a leading
+ * run of them is reported as unchained rather than broken.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { log } from "@/lib/logger";
+import { canonicalize } from "@/lib/utils";
+
+// ==========================================
+// Types
+// ==========================================
+
+export interface ChainedEntry {
+  id: string;
+  type: "DEBIT" | "CREDIT";
+  amount: number;
+  timestamp: string;
+  sequence: number;
+  balanceAfter: number;
+  reference: Record<string, unknown>;
+  previousHash?: string;
+  hash?: string;
+  signature?: string | null;
+}
+
+export interface LedgerBrokenLink {
+  sequence: number;
+  transactionId: string;
+  reason: string;
+}
+
+export interface LedgerVerification {
+  valid: boolean;
+  checked: number; // Entries verified against the chain
+  unchained: number; // Leading entries written before chaining
+  signed: boolean; // Signatures were checked (secret configured)
+  calculatedBalance: number;
+  headHash: string;
+  firstBrokenLink: LedgerBrokenLink | null;
+}
+
+// ==========================================
+// Configuration
+// ==========================================
+
+// previousHash of the first chained entry in a wallet
+export const GENESIS_HASH = "0".repeat(64);
+
+function getSigningSecret(): string | null {
+  return process.env.LEDGER_SIGNING_SECRET || null;
+}
+
+if (!process.env.LEDGER_SIGNING_SECRET) {
+  log.warn("LEDGER_SIGNING_SECRET is not set. Ledger entries will not be signed.");
+}
+
+// ==========================================
+// Hashing
+// ==========================================
+
+/**
+ * SHA-256 of an entry's contents, its wallet and the previous entry's hash
+ */
+export function hashLedgerEntry(
+  walletId: string,
+  entry: Omit<ChainedEntry, "hash" | "signature">,
+  previousHash: string
+): string {
+  const payload = canonicalize({
+    walletId,
+    id: entry.id,
+    type: entry.type,
+    amount: entry.amount,
+    timestamp: entry.timestamp,
+    sequence: entry.sequence,
+    balanceAfter: entry.balanceAfter,
+    reference: entry.reference || {},
+    previousHash,
+  });
+  return createHash("sha256").update(payload).digest("hex");
+}
+
+/**
+ * HMAC-SHA256 signature of an entry hash (null when no secret is configured)
+ */
+export function signLedgerHash(hash: string): string | null {
+  const secret = getSigningSecret();
+  if (!secret) return null;
+  return createHmac("sha256", secret).update(hash).digest("hex");
+}
+
+function isValidSignature(hash: string, signature: string | null | undefined): boolean {
+  const expected = signLedgerHash(hash);
+  if (!expected || !signature || signature.length !== expected.length) return false;
+  return timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+}
+
+/**
+ * Chain fields for a new entry appended after `previousHash`
+ */
+export function chainLedgerEntry(
+  walletId: string,
+  entry: Omit<ChainedEntry, "previousHash" | "hash" | "signature">,
+  previousHash: string | null | undefined
+): Pick<ChainedEntry, "previousHash" | "hash" | "signature"> {
+  const previous = previousHash || GENESIS_HASH;
+  const hash = hashLedgerEntry(walletId, entry, previous);
+  return { previousHash: previous, hash, signature: signLedgerHash(hash) };
+}
+
+// ==========================================
+// Verification
+// ==========================================
+
+/**
+ * Recompute a wallet's chain (entries in sequence order) and report the
+ * first broken link. The wallet document's balance, entry count and head
+ * hash must match the end of the chain, so deleted tail entries are caught.
+ */
+export function verifyLedgerChain(
+  walletId: string,
+  entries: ChainedEntry[],
+  wallet: { balance: number; transactionCount?: number; lastHash?: string | null }
+): LedgerVerification {
+  const signed = !!getSigningSecret();
+  let previousHash: string | null = null;
+  let calculatedBalance = 0;
+  let unchained = 0;
+  let checked = 0;
+
+  const result = (firstBrokenLink: LedgerBrokenLink | null): LedgerVerification => ({
+    valid: !firstBrokenLink,
+    checked,
+    unchained,
+    signed,
+    calculatedBalance,
+    headHash: previousHash || GENESIS_HASH,
+    firstBrokenLink,
+  });
+
+  for (const [index, entry] of entries.entries()) {
+    const broken = (reason: string) =>
+      result({ sequence: entry.sequence, transactionId: entry.id, reason });
+
+    if (entry.sequence !== index + 1) {
+      return broken(`Expected sequence ${index + 1}, found ${entry.sequence}`);
+    }
+
+    calculatedBalance += entry.type === "CREDIT" ? entry.amount : -entry.amount;
+
+    if (Math.abs(calculatedBalance - entry.balanceAfter) > 0.01) {
+      return broken(
+        `Running balance ${calculatedBalance} does not match recorded ${entry.balanceAfter}`
+      );
+    }
+
+    if (!entry.hash) {
+      if (previousHash === null) {
+        unchained++;
+        continue;
+      }
+      return broken("Entry is missing its hash");
+    }
+
+    const expectedPrevious: string = previousHash || GENESIS_HASH;
+    if (entry.previousHash !== expectedPrevious) {
+      return broken("previousHash does not match the preceding entry");
+    }
+
+    if (hashLedgerEntry(walletId, entry, expectedPrevious) !== entry.hash) {
+      return broken("Entry contents do not match its hash");
+    }
+
+    if (signed && !isValidSignature(entry.hash, entry.signature)) {
+      return broken("Invalid signature");
+    }
+
+    previousHash = entry.hash;
+    checked++;
+  }
+
+  const last = entries[entries.length - 1];
+  const walletMismatch = (reason: string) =>
+    result({ sequence: last?.sequence || 0, transactionId: last?.id || "", reason });
+
+  if ((wallet.transactionCount ?? entries.length) !== entries.length) {
+    return walletMismatch(
+      `Wallet records ${wallet.transactionCount} entries, ledger has ${entries.length}`
+    );
+  }
+
+  if (wallet.lastHash && wallet.lastHash !== previousHash) {
+    return walletMismatch("Wallet head hash does not match the last entry");
+  }
+
+  if (Math.abs(calculatedBalance - wallet.balance) > 0.01) {
+    return walletMismatch(
+      `Wallet balance ${wallet.balance} does not match ledger ${calculatedBalance}`
+    );
+  }
+
+  return result(null);
+}
@@ -0,0 +1,429 @@
+/**
+ * Local Asset Storage (server only)
+ *
+ * Filesystem backend of the asset repository for offline development and
+ * CI. Each asset is a directory under LOCAL_ASSET_DIR (defaults to
+ * .local-assets) holding its record as asset.json and the uploaded file:
+ *
+ *   .local-assets/{assetUid}/asset.json
+ *   .local-assets/{assetUid}/{file_name}
+ *
+ * Records keep the Contentstack asset shape. Every update bumps the record's
+ * version, and updates of an asset are serialized within the process. There
+ * is no separate delivery layer, so published reads return the latest
+ * version and publishing is a no-op. Listings support the MongoDB-style
+ * query filters that the Content Delivery API accepts.
+ */
+
+import { randomBytes } from "crypto";
+import {
+  assertAssetVersion,
+  buildAssetUpdate,
+  getMimeTypeFromFilename,
+  type ContentstackAsset,
+  type OwnerRecord,
+} from "@/lib/contentstack-am2";
+import type { AssetRepository } from "@/lib/asset-repository";
+import { log } from "@/lib/logger";
+import { escapeRegExp } from "@/lib/utils";
+
+// ==========================================
+// Configuration
+// ==========================================
+
+const DEFAULT_ASSET_DIR = ".local-assets";
+const RECORD_FILE = "asset.json";
+
+// Asset UIDs become directory names, so only safe characters are accepted
+const ASSET_UID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+function getAssetDir(): string {
+  return process.env.LOCAL_ASSET_DIR || DEFAULT_ASSET_DIR;
+}
+
+// ==========================================
+// Query Filters
+// ==========================================
+
+/**
+ * Read a dotted path such as "custom_metadata.art_metadata.price"
+ */
+function getPath(doc: unknown, path: string): unknown {
+  return path.split(".").reduce<any>((value, key) => (value == null ? undefined : value[key]), doc);
+}
+
+function isOperatorObject(condition: unknown): condition is Record<string, unknown> {
+  return (
+    !!condition &&
+    typeof condition === "object" &&
+    !Array.isArray(condition) &&
+    Object.keys(condition).some((key) => key.startsWith("$"))
+  );
+}
+
+function equals(value: unknown, expected: unknown): boolean {
+  if (Array.isArray(value) && !Array.isArray(expected)) {
+    return value.some((item) => equals(item, expected));
+  }
+  if (expected === null) return value == null;
+  if (typeof expected === "object") return JSON.stringify(value) === JSON.stringify(expected);
+  return value === expected;
+}
+
+function compare(value: unknown, expected: unknown, test: (order: number) => boolean): boolean {
+  if (typeof value === "number" && typeof expected === "number") {
+    return test(value - expected);
+  }
+  if (typeof value === "string" && typeof expected === "string") {
+    return test(value.localeCompare(expected));
+  }
+  return false;
+}
+
+/**
+ * $regex operand as a RegExp. A pattern JavaScript can't compile (say a
+ * search for "(") is matched as literal text instead of failing the listing.
+ */
+function toRegExp(pattern: unknown, options: unknown): RegExp {
+  if (pattern instanceof RegExp) return pattern;
+
+  const flags = typeof options === "string" ? options.replace(/[^imsu]/g, "") : "";
+  try {
+    return new RegExp(String(pattern), flags);
+  } catch {
+    return new RegExp(escapeRegExp(String(pattern)), flags);
+  }
+}
+
+function matchesOperators(value: unknown, operators: Record<string, any>): boolean {
+  return Object.entries(operators).every(([operator, operand]) => {
+    switch (operator) {
+      case "$eq":
+        return equals(value, operand);
+      case "$ne":
+        return !equals(value, operand);
+      case "$in":
+        return (operand as unknown[]).some((item) => equals(value, item));
+      case "$nin":
+        return !(operand as unknown[]).some((item) => equals(value, item));
+      case "$gt":
+        return compare(value, operand, (order) => order > 0);
+      case "$gte":
+        return compare(value, operand, (order) => order >= 0);
+      case "$lt":
+        return compare(value, operand, (order) => order < 0);
+      case "$lte":
+        return compare(value, operand, (order) => order <= 0);
+      case "$exists":
+        return (value !== undefined) === !!operand;
+      case "$regex":
+        return typeof value === "string" && toRegExp(operand, operators.$options).test(value);
+      case "$options":
+        return true; // Read together with $regex
+      default:
+        throw new Error(`Unsupported query operator "${operator}"`);
+    }
+  });
+}
+
+/**
+ * Check a document against a MongoDB-style query filter: field equality on
+ * dotted paths, $eq, $ne, $in, $nin, $gt, $gte, $lt, $lte, $exists, $regex
+ * (with $options), and top-level $and / $or
+ */
+export function matchesQuery(doc: unknown, query: Record<string, any>): boolean {
+  return Object.entries(query).every(([key, condition]) => {
+    switch (key) {
+      case "$and":
+        return (condition as Record<string, any>[]).every((clause) => matchesQuery(doc, clause));
+      case "$or":
+        return (condition as Record<string, any>[]).some((clause) => matchesQuery(doc, clause));
+      default: {
+        const value = getPath(doc, key);
+        return isOperatorObject(condition)
+          ? matchesOperators(value, condition)
+          : equals(value, condition);
+      }
+    }
+  });
+}
+
+// ==========================================
+// Helpers
+// ==========================================
+
+async function getAssetPath(assetUid: string, ...segments: string[]): Promise<string> {
+  const path = await import("path");
+  return path.join(getAssetDir(), assetUid, ...segments);
+}
+
+async function readRecord(assetUid: string): Promise<ContentstackAsset> {
+  const { readFile } = await import("fs/promises");
+
+  if (!ASSET_UID_PATTERN.test(assetUid)) {
+    throw new Error(`Asset not found: ${assetUid}`);
+  }
+
+  try {
+    const raw = await readFile(await getAssetPath(assetUid, RECORD_FILE), "utf8");
+    return JSON.parse(raw) as ContentstackAsset;
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      throw new Error(`Asset not found: ${assetUid}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write a record through a temporary file so readers never see a partial one
+ */
+async function writeRecord(asset: ContentstackAsset): Promise<void> {
+  const { mkdir, rename, writeFile } = await import("fs/promises");
+  const recordPath = await getAssetPath(asset.uid, RECORD_FILE);
+  const tempPath = `${recordPath}.${randomBytes(4).toString("hex")}.tmp`;
+
+  await mkdir(await getAssetPath(asset.uid), { recursive: true });
+  await writeFile(tempPath, JSON.stringify(asset, null, 2));
+  await rename(tempPath, recordPath);
+}
+
+async function readAllRecords(): Promise<ContentstackAsset[]> {
+  const { readdir } = await import("fs/promises");
+
+  let entries: string[];
+  try {
+    entries = await readdir(getAssetDir());
+  } catch (error: any) {
+    if (error.code === "ENOENT") return [];
+    throw error;
+  }
+
+  const records = await Promise.all(
+    entries
+      .filter((entry) => ASSET_UID_PATTERN.test(entry))
+      .map((assetUid) =>
+        readRecord(assetUid).catch((error) => {
+          log.warn(`[Local Assets] Skipping unreadable asset`, { assetUid, error: error.message });
+          return null;
+        })
+      )
+  );
+
+  return records.filter((record): record is ContentstackAsset => record !== null);
+}
+
+// Tail of each asset's queue of pending writes (this process only)
+const writeLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Run a read-modify-write of an asset after any in-flight write to it, so
+ * the version check and the write happen atomically within this process
+ */
+async function withWriteLock<T>(assetUid: string, write: () => Promise<T>): Promise<T> {
+  const previous = writeLocks.get(assetUid) || Promise.resolve();
+  const current = previous.catch(() => undefined).then(write);
+  writeLocks.set(assetUid, current);
+
+  try {
+    return await current;
+  } finally {
+    if (writeLocks.get(assetUid) === current) {
+      writeLocks.delete(assetUid);
+    }
+  }
+}
+
+async function toBuffer(file: File | Blob | Buffer): Promise<Buffer> {
+  return Buffer.isBuffer(file) ? file : Buffer.from(await file.arrayBuffer());
+}
+
+/**
+ * Path of the app's route serving a local asset's file
+ */
+function getLocalFileUrl(assetUid: string, fileName: string): string {
+  return `/api/local-assets/${assetUid}/${encodeURIComponent(fileName)}`;
+}
+
+// ==========================================
+// Repository
+// ==========================================
+
+/**
+ * Asset repository on the local filesystem
+ */
+export function createLocalAssetRepository(): AssetRepository {
+  const updateMetadata: AssetRepository["updateMetadata"] = (assetUid, params) =>
+    withWriteLock(assetUid, async () => {
+      const current = await readRecord(assetUid);
+      assertAssetVersion(current, params);
+      const update = buildAssetUpdate(current, params);
+
+      const updated: ContentstackAsset = {
+        ...current,
+        title: update.title ?? current.title,
+        description: update.description ?? null,
+        tags: update.tags ?? current.tags,
+        custom_metadata: update.custom_metadata ?? current.custom_metadata,
+        version: (current.version || 0) + 1,
+        updated_at: new Date().toISOString(),
+      };
+      await writeRecord(updated);
+
+      return updated;
+    });
+
+  return {
+    name: "local",
+    publishLag: false, // Writes are live immediately
+
+    async upload(params) {
+      const { writeFile, mkdir } = await import("fs/promises");
+      const path = await import("path");
+
+      const assetUid = `local${randomBytes(8).toString("hex")}`;
+      const fileName = path.basename(params.filename);
+      const data = await toBuffer(params.file);
+      const mimeType =
+        params.mimeType ||
+        (!Buffer.isBuffer(params.file) && params.file.type) ||
+        getMimeTypeFromFilename(fileName);
+      const now = new Date().toISOString();
+
+      await mkdir(await getAssetPath(assetUid), { recursive: true });
+      await writeFile(await getAssetPath(assetUid, fileName), data);
+
+      // Create initial owner record for the artist (first owner)
+      const artistOwner: OwnerRecord = {
+        user_id: params.artist_uid,
+        user_name: params.artist_name,
+        purchase_date: now,
+        transaction_id: "CREATOR", // Special identifier for the original creator
+      };
+
+      const asset: ContentstackAsset = {
+        uid: assetUid,
+        file_name: fileName,
+        asset_id: assetUid,
+        parent_uid: "",
+        org_uid: "",
+        space_uid: "",
+        is_dir: false,
+        path: [],
+        version: 1,
+        asset_type_uid: "",
+        url: getLocalFileUrl(assetUid, fileName),
+        owner_uid: params.artist_uid,
+        meta_info: { downloads_count: 0, views_count: 0, last_accessed_at: null },
+        is_system: false,
+        visual_markups: [],
+        title: params.title || fileName,
+        description: params.description || null,
+        content_type: mimeType,
+        file_size: data.length,
+        file_extension: path.extname(fileName).slice(1).toLowerCase(),
+        created_at: now,
+        updated_at: now,
+        created_by: params.artist_uid,
+        updated_by: params.artist_uid,
+        tags: params.tags || [],
+        locale: "en-us",
+        custom_metadata: {
+          art_metadata: {
+            artist_uid: params.artist_uid,
+            artist_name: params.artist_name,
+            price: params.price,
+            currency: params.currency,
+            status: params.status,
+            category: params.category,
+            royalty_percentage: params.royalty_percentage ?? null,
+            edition_size: params.edition_size ?? null,
+            editions_sold: params.edition_size ? 0 : null,
+            current_owner: artistOwner, // Set artist as the current owner
+            ownership_history: [artistOwner], // Add artist to ownership history
+          },
+        },
+      };
+      await writeRecord(asset);
+
+      log.info(`[Local Assets] Asset uploaded`, { assetUid, fileName, fileSize: data.length });
+
+      return asset;
+    },
+
+    getAsset: readRecord,
+    getPublishedAsset: readRecord,
+    updateMetadata,
+
+    async list(options) {
+      let assets = (await readAllRecords()).filter((asset) => {
+        const artMetadata = asset.custom_metadata?.art_metadata;
+
+        // Only return assets with art_metadata
+        if (!artMetadata) {
+          return false;
+        }
+
+        if (options?.query) {
+          return matchesQuery(asset, options.query);
+        }
+
+        // Without a query filter, apply the category and artist filters
+        if (options?.category && artMetadata.category !== options.category) {
+          return false;
+        }
+        if (options?.artistId && artMetadata.artist_uid !== options.artistId) {
+          return false;
+        }
+
+        return true;
+      });
+
+      // Newest first
+      assets.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+
+      const skip = options?.skip || 0;
+      assets = assets.slice(skip, options?.limit ? skip + options.limit : undefined);
+
+      return assets;
+    },
+
+    async publish(assetUid) {
+      log.debug("[Local Assets] Publish skipped: local assets are always live", { assetUid });
+    },
+
+    getFileUrl: (asset) => asset.url,
+
+    async readFile(asset) {
+      const file = await readLocalAssetFile(asset.uid, asset.file_name);
+      if (!file) {
+        throw new Error(`Asset file not found: ${asset.uid}`);
+      }
+      return file.data;
+    },
+  };
+}
+
+/**
+ * Read a local asset's file for serving. Returns null if it doesn't exist.
+ */
+export async function readLocalAssetFile(
+  assetUid: string,
+  fileName: string
+): Promise<{ data: Buffer; contentType: string } | null> {
+  const { readFile } = await import("fs/promises");
+
+  try {
+    const asset = await readRecord(assetUid);
+    // Route params may arrive encoded or decoded
+    if (asset.file_name !== fileName && encodeURIComponent(asset.file_name) !== fileName) {
+      return null;
+    }
+
+    const data = await readFile(await getAssetPath(assetUid, asset.file_name));
+    return { data, contentType: asset.content_type };
+  } catch (error: any) {
+    if (error.code === "ENOENT" || error.message?.includes("not found")) return null;
+    throw error;
+  }
+}
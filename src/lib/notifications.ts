@@ -0,0 +1,349 @@
+/**
+ * In-app Notifications (server only)
+ *
+ * A per-user event feed shown in the header's bell menu. Notifications live
+ * in the `notifications` collection, one document per recipient, and stay
+ * unread until the recipient opens or dismisses them.
+ *
+ * Features raise them with notify() (one user) or addNotifications()
+ * (watchers). Sending is best effort: a failed notification is logged and
+ * never fails the action that raised it.
+ *
+ * The feed reads a user's newest notifications through the (userId,
+ * createdAt desc) index in firestore.indexes.json. An optional scheduled
+ * sweep (pruneNotifications) caps retention: notifications are deleted
+ * READ_RETENTION_DAYS after they were read, and unread ones after
+ * UNREAD_RETENTION_DAYS.
+ */
+
+import { adminDb, type Offer } from "@/lib/firebase-admin";
+import { formatCurrency } from "@/lib/utils";
+import { log } from "@/lib/logger";
+
+// ==========================================
+// Types
+// ==========================================
+
+export type NotificationType =
+  // Watchlist
+  | "watch_listed"
+  | "watch_repriced"
+  | "watch_offer"
+  // Offers
+  | "offer_received"
+  | "offer_countered"
+  | "offer_accepted"
+  | "offer_rejected"
+  | "offer_withdrawn"
+  | "offer_reinstated"
+  // Purchases
+  | "purchase_completed"
+  | "purchase_refunded"
+  | "payment_failed"
+  | "artwork_sold"
+  // Resale
+  | "resale_listed";
+
+export interface Notification {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  assetUid: string | null;
+  link: string | null; // In-app path to open, e.g. /art/{assetUid}
+  read: boolean;
+  readAt?: any;
+  createdAt?: any;
+}
+
+export interface NotificationPayload {
+  title: string;
+  message: string;
+  assetUid?: string | null;
+  link?: string | null; // Defaults to the asset's page
+}
+
+export type NotificationInput = NotificationPayload & { type: NotificationType };
+
+// ==========================================
+// Configuration
+// ==========================================
+
+const NOTIFICATIONS_COLLECTION = "notifications";
+
+// Firestore batches are limited to 500 writes
+const BATCH_SIZE = 500;
+
+// Notifications returned to the header by default
+const DEFAULT_FEED_LIMIT = 20;
+
+// How long notifications are kept, from when they were read / created
+const READ_RETENTION_DAYS = 30;
+const UNREAD_RETENTION_DAYS = 90;
+
+// Deletes per sweep; the next run continues
+const PRUNE_LIMIT = 2000;
+
+// ==========================================
+// Notifications
+// ==========================================
+
+/**
+ * Add the same notification to several users' feeds
+ */
+export async function addNotifications(
+  userIds: string[],
+  notification: NotificationInput
+): Promise<void> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const db = adminDb();
+  const recipients = Array.from(new Set(userIds));
+  const assetUid = notification.assetUid || null;
+
+  for (let i = 0; i < recipients.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    for (const userId of recipients.slice(i, i + BATCH_SIZE)) {
+      const ref = db.collection(NOTIFICATIONS_COLLECTION).doc();
+      batch.set(ref, {
+        id: ref.id,
+        userId,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        assetUid,
+        link: notification.link || (assetUid ? `/art/${assetUid}` : null),
+        read: false,
+        readAt: null,
+        createdAt: FieldValue.serverTimestamp(),
+      });
+    }
+    await batch.commit();
+  }
+
+  log.info(`[Notifications] Notifications added`, {
+    type: notification.type,
+    assetUid,
+    recipients: recipients.length,
+  });
+}
+
+/**
+ * Notify a user. Never throws: failures are logged, since the action that
+ * raised the notification already succeeded.
+ */
+export async function notify(
+  userId: string | null | undefined,
+  type: NotificationType,
+  payload: NotificationPayload
+): Promise<void> {
+  if (!userId) return;
+
+  try {
+    await addNotifications([userId], { ...payload, type });
+  } catch (error: any) {
+    log.error(`[Notifications] Failed to notify user`, error, { userId, type });
+  }
+}
+
+/**
+ * A user's most recent notifications, newest first
+ */
+export async function getUserNotifications(
+  userId: string,
+  limit: number = DEFAULT_FEED_LIMIT
+): Promise<Notification[]> {
+  const snapshot = await adminDb()
+    .collection(NOTIFICATIONS_COLLECTION)
+    .where("userId", "==", userId)
+    .orderBy("createdAt", "desc")
+    .limit(limit)
+    .get();
+
+  return snapshot.docs.map((doc) => ({ ...doc.data(), id: doc.id }) as Notification);
+}
+
+/**
+ * Number of notifications the user hasn't read
+ */
+export async function getUnreadNotificationCount(userId: string): Promise<number> {
+  const snapshot = await adminDb()
+    .collection(NOTIFICATIONS_COLLECTION)
+    .where("userId", "==", userId)
+    .where("read", "==", false)
+    .count()
+    .get();
+
+  return snapshot.data().count;
+}
+
+/**
+ * Mark a user's notifications as read: the given IDs, or every unread one.
+ * IDs that aren't the user's are ignored. Returns how many were marked.
+ */
+export async function markNotificationsRead(
+  userId: string,
+  notificationIds?: string[]
+): Promise<number> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const db = adminDb();
+  const collection = db.collection(NOTIFICATIONS_COLLECTION);
+
+  const docs = notificationIds
+    ? (
+        await Promise.all(
+          Array.from(new Set(notificationIds)).map((id) => collection.doc(id).get())
+        )
+      ).filter((doc) => doc.exists && doc.data()?.userId === userId && !doc.data()?.read)
+    : (await collection.where("userId", "==", userId).where("read", "==", false).get()).docs;
+
+  for (let i = 0; i < docs.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    for (const doc of docs.slice(i, i + BATCH_SIZE)) {
+      batch.update(doc.ref, { read: true, readAt: FieldValue.serverTimestamp() });
+    }
+    await batch.commit();
+  }
+
+  return docs.length;
+}
+
+/**
+ * Delete notifications past their retention (optional scheduled sweep):
+ * read ones READ_RETENTION_DAYS after they were read, any
+ * UNREAD_RETENTION_DAYS after they were created. Each query has a single
+ * range filter, so no composite index is needed. Returns how many were
+ * deleted.
+ */
+export async function pruneNotifications(): Promise<number> {
+  const { Timestamp } = await import("firebase-admin/firestore");
+  const db = adminDb();
+  const collection = db.collection(NOTIFICATIONS_COLLECTION);
+  const dayMs = 24 * 60 * 60 * 1000;
+
+  const [readSnapshot, oldSnapshot] = await Promise.all([
+    collection
+      .where("readAt", "<=", Timestamp.fromMillis(Date.now() - READ_RETENTION_DAYS * dayMs))
+      .limit(PRUNE_LIMIT)
+      .get(),
+    collection
+      .where("createdAt", "<=", Timestamp.fromMillis(Date.now() - UNREAD_RETENTION_DAYS * dayMs))
+      .limit(PRUNE_LIMIT)
+      .get(),
+  ]);
+
+  // A notification can match both queries
+  const refs = new Map(
+    [...readSnapshot.docs, ...oldSnapshot.docs].map((doc) => [doc.id, doc.ref])
+  );
+  const docs = Array.from(refs.values());
+
+  for (let i = 0; i < docs.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    for (const ref of docs.slice(i, i + BATCH_SIZE)) {
+      batch.delete(ref);
+    }
+    await batch.commit();
+  }
+
+  if (docs.length > 0) {
+    log.info(`[Notifications] Pruned ${docs.length} notifications`);
+  }
+  return docs.length;
+}
+
+/**
+ * Serialize a notification for API responses
+ */
+export function toNotificationResponse(notification: Notification) {
+  return {
+    id: notification.id,
+    type: notification.type,
+    title: notification.title,
+    message: notification.message,
+    assetUid: notification.assetUid,
+    link: notification.link,
+    read: !!notification.read,
+    createdAt: notification.createdAt?.toDate?.()?.toISOString?.() || null,
+  };
+}
+
+// ==========================================
+// Offer Events
+// ==========================================
+
+/**
+ * Tell the owner about a new offer on their asset
+ */
+export async function notifyOfferReceived(
+  offer: Pick<Offer, "assetUid" | "buyerName" | "amount" | "currency">,
+  ownerId: string | null | undefined,
+  assetTitle?: string | null
+): Promise<void> {
+  await notify(ownerId, "offer_received", {
+    title: "New offer",
+    message: `${offer.buyerName} offered ${formatCurrency(offer.amount, offer.currency)} for "${assetTitle || "Untitled"}"`,
+    assetUid: offer.assetUid,
+  });
+}
+
+/**
+ * Tell the other side of an offer how it was answered: the buyer when the
+ * owner responded, the owner when the buyer did. Expired offers are not
+ * announced.
+ */
+export async function notifyOfferResponse(
+  offer: Offer,
+  {
+    ownerId,
+    byOwner,
+    assetTitle,
+  }: { ownerId: string | null | undefined; byOwner: boolean; assetTitle?: string | null }
+): Promise<void> {
+  const recipientId = byOwner ? offer.buyerId : ownerId;
+  const amount = formatCurrency(offer.amount, offer.currency);
+  const title = `"${assetTitle || "Untitled"}"`;
+  const base = { assetUid: offer.assetUid };
+
+  switch (offer.status) {
+    case "accepted":
+      return byOwner
+        ? notify(recipientId, "offer_accepted", {
+            ...base,
+            title: "Offer accepted",
+            message: `Your ${amount} offer on ${title} was accepted. Complete your purchase before the payment deadline.`,
+          })
+        : notify(recipientId, "offer_accepted", {
+            ...base,
+            title: "Counter-offer accepted",
+            message: `${offer.buyerName} accepted your ${amount} counter-offer on ${title}`,
+          });
+    case "rejected":
+      return notify(recipientId, "offer_rejected", {
+        ...base,
+        title: "Offer rejected",
+        message: `Your ${amount} offer on ${title} was rejected`,
+      });
+    case "countered":
+      return notify(recipientId, "offer_countered", {
+        ...base,
+        title: "Counter-offer received",
+        message: byOwner
+          ? `The owner of ${title} countered with ${amount}`
+          : `${offer.buyerName} countered with ${amount} on ${title}`,
+      });
+    case "withdrawn":
+      return notify(recipientId, "offer_withdrawn", {
+        ...base,
+        title: "Offer withdrawn",
+        message: `${offer.buyerName} withdrew their ${amount} offer on ${title}`,
+      });
+    case "pending":
+      // Only a reinstated offer returns to pending
+      return notify(recipientId, "offer_reinstated", {
+        ...base,
+        title: "Offer reinstated",
+        message: `Your ${amount} offer on ${title} is being considered again`,
+      });
+  }
+}
@@ -0,0 +1,404 @@
+/**
+ * Wallet Payouts
+ *
+ * Cashes wallet balances out to artists' and sellers' bank accounts through
+ * Stripe Connect. Each request is tracked in the `payouts` collection:
+ * - "pending": ledger DEBIT recorded, transfer to the connected account requested
+ * - "transferred": `transfer.created` received
+ * - "paid" / "payout_failed": the connected account's bank payout settled
+ * - "reversed": the whole transfer was reversed and credited back
+ * - "failed": the transfer could not be created, ledger CREDIT recorded
+ *
+ * The DEBIT is written in the same Firestore transaction as the payout
+ * record, before any money moves, so funds on their way to Stripe can't be
+ * spent on a purchase. Ledger transaction IDs are fixed when the payout is
+ * created, so redelivered events and retried failures are no-ops. Partial
+ * reversals each credit the newly reversed amount (`reversedAmount` tracks
+ * what has been credited).
+ */
+
+import type Stripe from "stripe";
+import {
+  adminDb,
+  addServerTransaction,
+  getServerUserProfile,
+  writeServerTransaction,
+} from "@/lib/firebase-admin";
+import {
+  createAccountOnboardingLink,
+  createConnectedAccount,
+  createPayoutTransfer,
+  getConnectedAccount,
+} from "@/lib/stripe";
+import { createTransactionId } from "@/lib/wallet";
+import { log } from "@/lib/logger";
+
+// ==========================================
+// Types
+// ==========================================
+
+export type PayoutStatus =
+  | "pending"
+  | "transferred"
+  | "paid"
+  | "payout_failed"
+  | "reversed"
+  | "failed";
+
+export interface PayoutRecord {
+  id: string;
+  userId: string;
+  walletId: string;
+  stripeAccountId: string;
+  amount: number;
+  currency: string;
+  status: PayoutStatus;
+  transactionId: string; // Ledger DEBIT
+  reversalTransactionId: string; // Ledger CREDIT if the transfer can't be created
+  reversedAmount: number; // Credited back by transfer reversals so far
+  transferId: string | null;
+  stripePayoutId: string | null;
+  transferredAt: number | null;
+  failureReason: string | null;
+  createdAt?: any;
+  updatedAt?: any;
+}
+
+export interface ConnectStatus {
+  accountId: string | null;
+  detailsSubmitted: boolean;
+  payoutsEnabled: boolean;
+}
+
+// ==========================================
+// Configuration
+// ==========================================
+
+const PAYOUTS_COLLECTION = "payouts";
+
+// ==========================================
+// Helpers
+// ==========================================
+
+function payoutRef(payoutId: string) {
+  return adminDb().collection(PAYOUTS_COLLECTION).doc(payoutId);
+}
+
+async function updatePayout(payoutId: string, updates: Partial<PayoutRecord>) {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  await payoutRef(payoutId).update({
+    ...updates,
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+}
+
+// ==========================================
+// Connected Accounts
+// ==========================================
+
+/**
+ * Get the user's Connect onboarding status
+ */
+export async function getConnectStatus(userId: string): Promise<ConnectStatus> {
+  const profile = await getServerUserProfile(userId);
+  const accountId = (profile as any)?.stripeAccountId || null;
+
+  if (!accountId) {
+    return { accountId: null, detailsSubmitted: false, payoutsEnabled: false };
+  }
+
+  const account = await getConnectedAccount(accountId);
+  return {
+    accountId,
+    detailsSubmitted: account.details_submitted ?? false,
+    payoutsEnabled: account.payouts_enabled ?? false,
+  };
+}
+
+/**
+ * Create the user's connected account (first time) and return a hosted
+ * onboarding link
+ */
+export async function createOnboardingLink(
+  userId: string,
+  urls: { refreshUrl: string; returnUrl: string }
+): Promise<{ accountId: string; url: string }> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const profile = await getServerUserProfile(userId);
+
+  if (!profile) {
+    throw new Error("User profile not found");
+  }
+
+  let accountId: string | null = (profile as any).stripeAccountId || null;
+
+  if (!accountId) {
+    const account = await createConnectedAccount({
+      userId,
+      email: (profile as any).email,
+    });
+    accountId = account.id;
+
+    await adminDb().collection("users").doc(userId).update({
+      stripeAccountId: accountId,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    log.info(`[Payouts] Connected account created`, { userId, accountId });
+  }
+
+  const link = await createAccountOnboardingLink({
+    accountId,
+    refreshUrl: urls.refreshUrl,
+    returnUrl: urls.returnUrl,
+  });
+
+  return { accountId, url: link.url };
+}
+
+// ==========================================
+// Payouts
+// ==========================================
+
+/**
+ * Get a user's payouts, newest first
+ */
+export async function getUserPayouts(userId: string): Promise<PayoutRecord[]> {
+  const snapshot = await adminDb()
+    .collection(PAYOUTS_COLLECTION)
+    .where("userId", "==", userId)
+    .get();
+
+  return snapshot.docs
+    .map((doc) => doc.data() as PayoutRecord)
+    .sort((a, b) => (b.createdAt?.toMillis?.() || 0) - (a.createdAt?.toMillis?.() || 0));
+}
+
+/**
+ * Request a payout of wallet funds to the user's connected account.
+ * The wallet is debited together with the payout record, so concurrent
+ * payouts and purchases can't spend the same balance. If the transfer
+ * can't be created, the DEBIT is credited back.
+ */
+export async function requestPayout({
+  userId,
+  walletId,
+  amount,
+  currency = "USD",
+}: {
+  userId: string;
+  walletId: string;
+  amount: number;
+  currency?: string;
+}): Promise<PayoutRecord> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const db = adminDb();
+
+  const connect = await getConnectStatus(userId);
+  if (!connect.accountId || !connect.payoutsEnabled) {
+    throw new Error("Payout account not set up. Complete onboarding first.");
+  }
+
+  const payoutId = `PAYOUT_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  const record: PayoutRecord = {
+    id: payoutId,
+    userId,
+    walletId,
+    stripeAccountId: connect.accountId,
+    amount,
+    currency,
+    status: "pending",
+    transactionId: createTransactionId(),
+    reversalTransactionId: createTransactionId(),
+    reversedAmount: 0,
+    transferId: null,
+    stripePayoutId: null,
+    transferredAt: null,
+    failureReason: null,
+  };
+
+  try {
+    await db.runTransaction(async (tx) => {
+      await writeServerTransaction(tx, walletId, {
+        id: record.transactionId,
+        type: "DEBIT",
+        amount,
+        reference: {
+          description: `Payout to bank account (${payoutId})`,
+        },
+      });
+      tx.set(payoutRef(payoutId), {
+        ...record,
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    });
+  } catch (error: any) {
+    if (error.message === "Insufficient balance") {
+      throw new Error("Insufficient balance for payout");
+    }
+    throw error;
+  }
+
+  try {
+    const transfer = await createPayoutTransfer({
+      payoutId,
+      accountId: record.stripeAccountId,
+      amount,
+      currency,
+      userId,
+      walletId,
+    });
+    await updatePayout(payoutId, { transferId: transfer.id });
+
+    log.info(`[Payouts] Transfer created`, { payoutId, transferId: transfer.id, amount });
+    return { ...record, transferId: transfer.id };
+  } catch (error: any) {
+    log.error(`[Payouts] Transfer failed`, error, { payoutId, userId });
+    await addServerTransaction(walletId, {
+      id: record.reversalTransactionId,
+      type: "CREDIT",
+      amount,
+      reference: {
+        description: `Payout failed (${payoutId})`,
+        relatedTransactionId: record.transactionId,
+      },
+    });
+    await updatePayout(payoutId, {
+      status: "failed",
+      failureReason: error.message || "Transfer failed",
+    });
+    throw new Error(`Payout failed: ${error.message || "Transfer failed"}`);
+  }
+}
+
+/**
+ * Find the payout a Stripe transfer belongs to
+ */
+async function getPayoutForTransfer(
+  transfer: Stripe.Transfer
+): Promise<PayoutRecord | null> {
+  const payoutId = transfer.metadata?.payoutId;
+  if (!payoutId || transfer.metadata?.type !== "wallet_payout") return null;
+
+  const doc = await payoutRef(payoutId).get();
+  return doc.exists ? (doc.data() as PayoutRecord) : null;
+}
+
+/**
+ * transfer.created: mark the payout as transferred. The wallet was already
+ * debited when the payout was requested.
+ */
+export async function recordPayoutTransfer(
+  transfer: Stripe.Transfer
+): Promise<PayoutRecord | null> {
+  const payout = await getPayoutForTransfer(transfer);
+  if (!payout) {
+    log.debug(`[Payouts] Transfer is not a wallet payout`, { transferId: transfer.id });
+    return null;
+  }
+
+  if (payout.status === "pending") {
+    await updatePayout(payout.id, {
+      status: "transferred",
+      transferId: transfer.id,
+      transferredAt: Date.now(),
+    });
+    log.info(`[Payouts] Payout transferred`, { payoutId: payout.id, transferId: transfer.id });
+    return { ...payout, status: "transferred", transferId: transfer.id };
+  }
+
+  return payout;
+}
+
+/**
+ * transfer.reversed: credit the newly reversed part of the transfer back to
+ * the wallet. Stripe sends the transfer with its running `amount_reversed`,
+ * so each reversal credits the difference to `reversedAmount`, and older or
+ * redelivered events credit nothing. The payout is "reversed" once the
+ * whole transfer is.
+ */
+export async function recordPayoutReversal(
+  transfer: Stripe.Transfer
+): Promise<{ payout: PayoutRecord; transactionId: string | null } | null> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const found = await getPayoutForTransfer(transfer);
+  if (!found) return null;
+
+  const ref = payoutRef(found.id);
+  const reversedAmount = transfer.amount_reversed / 100; // Stripe uses cents
+
+  const result = await adminDb().runTransaction(async (tx) => {
+    const payout = (await tx.get(ref)).data() as PayoutRecord;
+    const credit = Math.round((reversedAmount - payout.reversedAmount) * 100) / 100;
+
+    if (credit <= 0) {
+      return { payout, transactionId: null };
+    }
+
+    const transactionId = createTransactionId();
+    await writeServerTransaction(tx, payout.walletId, {
+      id: transactionId,
+      type: "CREDIT",
+      amount: credit,
+      reference: {
+        description: `Payout reversed (${payout.id})`,
+        relatedTransactionId: payout.transactionId,
+      },
+    });
+
+    const updates: Partial<PayoutRecord> = {
+      reversedAmount,
+      ...(transfer.reversed ? { status: "reversed" as const } : {}),
+    };
+    tx.update(ref, { ...updates, updatedAt: FieldValue.serverTimestamp() });
+    return { payout: { ...payout, ...updates }, transactionId };
+  });
+
+  log.info(`[Payouts] Payout reversal recorded`, {
+    payoutId: found.id,
+    transferId: transfer.id,
+    reversedAmount,
+    credited: result.transactionId !== null,
+  });
+  return result;
+}
+
+/**
+ * payout.paid / payout.failed on a connected account.
+ * Stripe batches a connected account's balance into bank payouts, so every
+ * transferred payout created before the bank payout is settled by it.
+ */
+export async function recordConnectedPayout(
+  accountId: string,
+  stripePayout: Stripe.Payout
+): Promise<number> {
+  const snapshot = await adminDb()
+    .collection(PAYOUTS_COLLECTION)
+    .where("stripeAccountId", "==", accountId)
+    .where("status", "==", "transferred")
+    .get();
+
+  const settled = snapshot.docs
+    .map((doc) => doc.data() as PayoutRecord)
+    .filter((p) => p.transferredAt && p.transferredAt <= stripePayout.created * 1000);
+
+  const status: PayoutStatus = stripePayout.status === "paid" ? "paid" : "payout_failed";
+
+  await Promise.all(
+    settled.map((p) =>
+      updatePayout(p.id, {
+        status,
+        stripePayoutId: stripePayout.id,
+        failureReason: stripePayout.failure_message || null,
+      })
+    )
+  );
+
+  log.info(`[Payouts] Bank payout ${status}`, {
+    accountId,
+    stripePayoutId: stripePayout.id,
+    payouts: settled.length,
+  });
+  return settled.length;
+}
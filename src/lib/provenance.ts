@@ -0,0 +1,296 @@
+/**
+ * Provenance Certificates (server only)
+ *
+ * Issues signed, independently verifiable certificates for artworks:
+ * - The certificate covers the asset's file hash, its artist and every
+ *   OwnerRecord (with transaction IDs) from the Contentstack metadata
+ * - It is signed with the server's Ed25519 key (PROVENANCE_SIGNING_PRIVATE_KEY)
+ *   over its canonical JSON, so anyone holding the public key can check it
+ *   offline
+ *
+ * Verification checks the signature against this server's key and compares
+ * the certificate with the asset as it is now. A certificate issued before a
+ * later sale stays authentic, but is no longer current.
+ */
+
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  sign,
+  verify,
+  type KeyObject,
+} from "crypto";
+import { getAsset, readAssetFile } from "@/lib/asset-repository";
+import type { ContentstackAsset, OwnerRecord } from "@/lib/contentstack-am2";
+import { log } from "@/lib/logger";
+import { canonicalize } from "@/lib/utils";
+
+// ==========================================
+// Types
+// ==========================================
+
+export interface ProvenanceCertificate {
+  version: 1;
+  issuer: string;
+  issuedAt: string;
+  asset: {
+    uid: string;
+    title: string;
+    fileName: string;
+    contentType: string;
+    fileSize: number;
+    fileHash: { algorithm: "sha256"; value: string };
+  };
+  artist: { uid: string | null; name: string | null };
+  currentOwner: OwnerRecord | null;
+  ownershipHistory: OwnerRecord[];
+}
+
+export interface SignedCertificate {
+  certificate: ProvenanceCertificate;
+  signature: {
+    algorithm: "Ed25519";
+    keyId: string;
+    publicKey: string; // SPKI PEM
+    value: string; // Base64
+  };
+}
+
+export interface CertificateVerification {
+  valid: boolean; // Authentic and consistent with the asset today
+  signatureValid: boolean;
+  current: boolean; // The certified owner still owns the artwork
+  checks: {
+    fileHash: boolean;
+    artist: boolean;
+    ownershipHistory: boolean;
+  } | null; // null when the signature or asset could not be checked
+  issues: string[];
+}
+
+// ==========================================
+// Configuration
+// ==========================================
+
+const CERTIFICATE_VERSION = 1;
+
+let signingKey: KeyObject | null | undefined;
+
+/**
+ * Ed25519 private key from PROVENANCE_SIGNING_PRIVATE_KEY
+ * Accepts a PKCS#8 PEM or the PEM base64 encoded (like FIREBASE_SERVICE_ACCOUNT)
+ */
+function getSigningKey(): KeyObject | null {
+  if (signingKey !== undefined) return signingKey;
+
+  const raw = process.env.PROVENANCE_SIGNING_PRIVATE_KEY;
+  if (!raw) {
+    log.warn("PROVENANCE_SIGNING_PRIVATE_KEY is not set. Provenance certificates are disabled.");
+    signingKey = null;
+    return null;
+  }
+
+  const pem = raw.includes("BEGIN") ? raw : Buffer.from(raw, "base64").toString("utf8");
+  const key = createPrivateKey(pem);
+
+  if (key.asymmetricKeyType !== "ed25519") {
+    throw new Error("PROVENANCE_SIGNING_PRIVATE_KEY must be an Ed25519 key");
+  }
+
+  signingKey = key;
+  return key;
+}
+
+function requireSigningKey(): KeyObject {
+  const key = getSigningKey();
+  if (!key) {
+    throw new Error("Provenance signing key is not configured");
+  }
+  return key;
+}
+
+/**
+ * The server's public key (SPKI PEM) and its ID (first 16 hex chars of the
+ * SHA-256 of the DER encoding)
+ */
+export function getProvenancePublicKey(): { keyId: string; publicKey: string } {
+  const publicKey = createPublicKey(requireSigningKey());
+  const der = publicKey.export({ type: "spki", format: "der" });
+
+  return {
+    keyId: createHash("sha256").update(der).digest("hex").slice(0, 16),
+    publicKey: publicKey.export({ type: "spki", format: "pem" }).toString(),
+  };
+}
+
+// ==========================================
+// Helpers
+// ==========================================
+
+/**
+ * SHA-256 of the asset's file, read from its storage backend
+ */
+async function hashAssetFile(asset: ContentstackAsset): Promise<string> {
+  const buffer = await readAssetFile(asset);
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+function toOwnerRecord(owner: OwnerRecord): OwnerRecord {
+  return {
+    user_id: owner.user_id ?? null,
+    user_name: owner.user_name ?? null,
+    purchase_date: owner.purchase_date ?? null,
+    transaction_id: owner.transaction_id ?? null,
+  };
+}
+
+function isSameOwner(a: OwnerRecord | null, b: OwnerRecord | null): boolean {
+  if (!a || !b) return a === b;
+  return a.user_id === b.user_id && a.transaction_id === b.transaction_id;
+}
+
+// ==========================================
+// Certificates
+// ==========================================
+
+/**
+ * Issue a signed certificate for the asset's current provenance
+ */
+export async function issueCertificate(assetUid: string): Promise<SignedCertificate> {
+  const key = requireSigningKey();
+  const asset = await getAsset(assetUid);
+  const artMetadata = asset.custom_metadata?.art_metadata;
+
+  const certificate: ProvenanceCertificate = {
+    version: CERTIFICATE_VERSION,
+    issuer: process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000",
+    issuedAt: new Date().toISOString(),
+    asset: {
+      uid: asset.uid,
+      title: asset.title,
+      fileName: asset.file_name,
+      contentType: asset.content_type,
+      fileSize: asset.file_size,
+      fileHash: { algorithm: "sha256", value: await hashAssetFile(asset) },
+    },
+    artist: {
+      uid: artMetadata?.artist_uid ?? null,
+      name: artMetadata?.artist_name ?? null,
+    },
+    currentOwner: artMetadata?.current_owner ? toOwnerRecord(artMetadata.current_owner) : null,
+    ownershipHistory: (artMetadata?.ownership_history || []).map(toOwnerRecord),
+  };
+
+  const { keyId, publicKey } = getProvenancePublicKey();
+  const value = sign(null, Buffer.from(canonicalize(certificate)), key).toString("base64");
+
+  log.info("[Provenance] Certificate issued", {
+    assetUid,
+    keyId,
+    owners: certificate.ownershipHistory.length,
+  });
+
+  return {
+    certificate,
+    signature: { algorithm: "Ed25519", keyId, publicKey, value },
+  };
+}
+
+/**
+ * Check a certificate's signature against this server's key, then compare it
+ * with the asset's current file, artist and ownership history.
+ * Later sales append to the history, so the certified history must be a
+ * prefix of the current one; a refunded sale removes its record and fails.
+ */
+export async function verifyCertificate(
+  document: SignedCertificate
+): Promise<CertificateVerification> {
+  const key = requireSigningKey();
+  const { keyId } = getProvenancePublicKey();
+  const { certificate, signature } = document;
+  const issues: string[] = [];
+
+  const result = (
+    signatureValid: boolean,
+    checks: CertificateVerification["checks"],
+    current: boolean
+  ): CertificateVerification => ({
+    valid:
+      signatureValid &&
+      !!checks &&
+      checks.fileHash &&
+      checks.artist &&
+      checks.ownershipHistory,
+    signatureValid,
+    current,
+    checks,
+    issues,
+  });
+
+  if (signature.keyId !== keyId) {
+    issues.push("Certificate was not signed by this marketplace's key");
+    return result(false, null, false);
+  }
+
+  const signatureValid = verify(
+    null,
+    Buffer.from(canonicalize(certificate)),
+    createPublicKey(key),
+    Buffer.from(signature.value, "base64")
+  );
+
+  if (!signatureValid) {
+    issues.push("Signature does not match the certificate contents");
+    return result(false, null, false);
+  }
+
+  let asset;
+  try {
+    asset = await getAsset(certificate.asset.uid);
+  } catch (error: any) {
+    if (!error.message?.includes("not found")) throw error;
+    issues.push("Artwork no longer exists");
+    return result(true, null, false);
+  }
+
+  const artMetadata = asset.custom_metadata?.art_metadata;
+  const history = (artMetadata?.ownership_history || []).map(toOwnerRecord);
+
+  const fileHash = (await hashAssetFile(asset)) === certificate.asset.fileHash.value;
+  if (!fileHash) {
+    issues.push("Artwork file has changed since the certificate was issued");
+  }
+
+  const artist =
+    (artMetadata?.artist_uid ?? null) === certificate.artist.uid &&
+    (artMetadata?.artist_name ?? null) === certificate.artist.name;
+  if (!artist) {
+    issues.push("Artist no longer matches the certificate");
+  }
+
+  const missing = certificate.ownershipHistory.find(
+    (owner, index) => !isSameOwner(owner, history[index] || null)
+  );
+  if (missing) {
+    issues.push(
+      `Ownership record ${missing.transaction_id || missing.user_id} is not in the current history`
+    );
+  }
+
+  const current = isSameOwner(
+    certificate.currentOwner,
+    artMetadata?.current_owner ? toOwnerRecord(artMetadata.current_owner) : null
+  );
+  if (!current) {
+    issues.push("Artwork has changed hands since the certificate was issued");
+  }
+
+  log.info("[Provenance] Certificate verified", {
+    assetUid: certificate.asset.uid,
+    current,
+    issues: issues.length,
+  });
+
+  return result(true, { fileHash, artist, ownershipHistory: !missing }, current);
+}
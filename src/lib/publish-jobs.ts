@@ -0,0 +1,389 @@
+/**
+ * Publish Job Queue (server only)
+ *
+ * Publishing an asset to the CDA runs as a persisted job in the
+ * `publish_jobs` collection, one document per asset:
+ * - Requests for an asset that is already queued are deduped; a request
+ *   that arrives while the job runs queues one more run, since it carries
+ *   newer metadata
+ * - Failed runs are retried with exponential backoff by the
+ *   /api/cron/publish-jobs sweep
+ * - After MAX_ATTEMPTS failures (or when publishing isn't configured) the
+ *   job is dead-lettered until an admin retries it
+ *
+ * Each run holds a lease with a token. A worker that outlives its lease
+ * (another worker has re-claimed the job) leaves the outcome to the new
+ * holder instead of overwriting it.
+ *
+ * A job that succeeded means the automation accepted the request; whether
+ * the latest metadata is live is checked against the CDA itself
+ * (see isLatestWritePublished in @/lib/asset-repository).
+ */
+
+import { randomUUID } from "crypto";
+import { adminDb } from "@/lib/firebase-admin";
+import { getAssetRepository } from "@/lib/asset-repository";
+import { log } from "@/lib/logger";
+
+// ==========================================
+// Types
+// ==========================================
+
+export type PublishJobStatus = "pending" | "running" | "succeeded" | "dead";
+
+export interface PublishJob {
+  assetUid: string;
+  status: PublishJobStatus;
+  attempts: number; // Failed or running attempts since the last request
+  requests: number; // Publish requests folded into this job
+  rerun: boolean; // Requested again while running
+  nextAttemptAt: number | null; // ms since epoch, while pending
+  leaseExpiresAt: number | null; // ms since epoch, while running
+  leaseToken?: string | null; // Identifies the run holding the lease
+  lastAttemptAt: number | null;
+  succeededAt: number | null;
+  lastError: string | null;
+  createdAt?: any;
+  updatedAt?: any;
+}
+
+// ==========================================
+// Configuration
+// ==========================================
+
+const PUBLISH_JOBS_COLLECTION = "publish_jobs";
+
+export const MAX_ATTEMPTS = 8;
+
+// Backoff after the nth failure: 30s, 1m, 2m, 4m ... capped at one hour
+const BASE_BACKOFF_MS = 30_000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+// Longer than one automation request; a running job past its lease is retried
+const LEASE_DURATION_MS = 30_000;
+
+// Jobs handled per cron sweep
+const SWEEP_LIMIT = 50;
+
+// ==========================================
+// Helpers
+// ==========================================
+
+function jobRef(assetUid: string) {
+  return adminDb().collection(PUBLISH_JOBS_COLLECTION).doc(assetUid);
+}
+
+function getBackoffMs(attempts: number): number {
+  return Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+function isDue(job: PublishJob, now: number): boolean {
+  if (job.status === "pending") return (job.nextAttemptAt || 0) <= now;
+  if (job.status === "running") return (job.leaseExpiresAt || 0) <= now;
+  return false;
+}
+
+// ==========================================
+// Queue
+// ==========================================
+
+/**
+ * Queue a publish of the asset's latest metadata
+ */
+export async function enqueuePublishJob(assetUid: string): Promise<PublishJob> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const db = adminDb();
+  const ref = jobRef(assetUid);
+
+  return db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    const now = Date.now();
+    const current = doc.exists ? (doc.data() as PublishJob) : null;
+
+    // Already queued: the next run publishes the latest metadata anyway
+    if (current?.status === "pending") {
+      tx.update(ref, { requests: FieldValue.increment(1), updatedAt: FieldValue.serverTimestamp() });
+      return { ...current, requests: current.requests + 1 };
+    }
+
+    // Running with metadata that may predate this request: run once more
+    if (current?.status === "running") {
+      tx.update(ref, {
+        rerun: true,
+        requests: FieldValue.increment(1),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      return { ...current, rerun: true, requests: current.requests + 1 };
+    }
+
+    // New, succeeded or dead-lettered: start over
+    const job: PublishJob = {
+      assetUid,
+      status: "pending",
+      attempts: 0,
+      requests: (current?.requests || 0) + 1,
+      rerun: false,
+      nextAttemptAt: now,
+      leaseExpiresAt: null,
+      lastAttemptAt: current?.lastAttemptAt || null,
+      succeededAt: current?.succeededAt || null,
+      lastError: null,
+    };
+    tx.set(ref, {
+      ...job,
+      createdAt: current?.createdAt || FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return job;
+  });
+}
+
+/**
+ * Take the lease of a due job. Returns null if the job isn't due or
+ * another worker holds it.
+ */
+async function claimPublishJob(assetUid: string): Promise<PublishJob | null> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const db = adminDb();
+  const ref = jobRef(assetUid);
+
+  return db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    const now = Date.now();
+    if (!doc.exists) return null;
+
+    const job = doc.data() as PublishJob;
+    if (!isDue(job, now)) return null;
+
+    const claimed: PublishJob = {
+      ...job,
+      status: "running",
+      attempts: job.attempts + 1,
+      rerun: false,
+      nextAttemptAt: null,
+      leaseExpiresAt: now + LEASE_DURATION_MS,
+      leaseToken: randomUUID(),
+      lastAttemptAt: now,
+    };
+    tx.update(ref, {
+      status: claimed.status,
+      attempts: claimed.attempts,
+      rerun: claimed.rerun,
+      nextAttemptAt: claimed.nextAttemptAt,
+      leaseExpiresAt: claimed.leaseExpiresAt,
+      leaseToken: claimed.leaseToken,
+      lastAttemptAt: claimed.lastAttemptAt,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return claimed;
+  });
+}
+
+/**
+ * Record the outcome of a run and release the lease. Returns null without
+ * writing if the lease was lost to another worker.
+ */
+async function completePublishJob(
+  claimed: PublishJob,
+  error?: any
+): Promise<PublishJob | null> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const db = adminDb();
+  const ref = jobRef(claimed.assetUid);
+
+  return db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    const now = Date.now();
+    const current = (doc.exists ? doc.data() : claimed) as PublishJob;
+
+    if (current.status !== "running" || current.leaseToken !== claimed.leaseToken) {
+      return null;
+    }
+
+    let update: Partial<PublishJob>;
+    if (!error) {
+      update = current.rerun
+        ? { status: "pending", attempts: 0, rerun: false, nextAttemptAt: now, lastError: null }
+        : { status: "succeeded", succeededAt: now, lastError: null };
+    } else {
+      const permanent = error.message?.includes("not configured");
+      update =
+        permanent || current.attempts >= MAX_ATTEMPTS
+          ? { status: "dead", lastError: error.message || "Unknown error" }
+          : {
+              status: "pending",
+              nextAttemptAt: now + getBackoffMs(current.attempts),
+              lastError: error.message || "Unknown error",
+            };
+    }
+
+    tx.update(ref, {
+      ...update,
+      leaseExpiresAt: null,
+      leaseToken: null,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return { ...current, ...update, leaseExpiresAt: null, leaseToken: null };
+  });
+}
+
+/**
+ * A run finished after its lease expired: the worker that re-claimed the job
+ * records the outcome
+ */
+async function leaseLost(claimed: PublishJob): Promise<PublishJob | null> {
+  log.warn(`[PublishJobs] Publish job lease lost before the run finished`, {
+    assetUid: claimed.assetUid,
+    attempts: claimed.attempts,
+  });
+  return getPublishJob(claimed.assetUid);
+}
+
+/**
+ * Run a job if it is due. Returns the job after the run, or null if it
+ * wasn't due. Never throws on a failed publish: the failure is recorded on
+ * the job and retried later.
+ */
+export async function runPublishJob(assetUid: string): Promise<PublishJob | null> {
+  const claimed = await claimPublishJob(assetUid);
+  if (!claimed) return null;
+
+  try {
+    await getAssetRepository().publish(assetUid);
+  } catch (error: any) {
+    const job = await completePublishJob(claimed, error);
+    if (!job) return leaseLost(claimed);
+
+    if (job.status === "dead") {
+      log.error(`[PublishJobs] Publish job dead-lettered`, error, {
+        assetUid,
+        attempts: job.attempts,
+      });
+    } else {
+      log.warn(`[PublishJobs] Publish attempt failed`, {
+        assetUid,
+        attempts: job.attempts,
+        nextAttemptAt: job.nextAttemptAt ? new Date(job.nextAttemptAt).toISOString() : null,
+        error: error.message,
+      });
+    }
+    return job;
+  }
+
+  const job = await completePublishJob(claimed);
+  if (!job) return leaseLost(claimed);
+
+  log.info(`[PublishJobs] Publish job ${job.status === "pending" ? "requeued" : "succeeded"}`, {
+    assetUid,
+    attempts: claimed.attempts,
+  });
+
+  // Requested again while running: publish the newer metadata too
+  if (job.status === "pending") {
+    return (await runPublishJob(assetUid)) || job;
+  }
+  return job;
+}
+
+/**
+ * Cron sweep: run running jobs whose worker stopped before releasing the
+ * lease, then pending jobs whose backoff has elapsed, oldest first, through
+ * the (status, leaseExpiresAt) and (status, nextAttemptAt) indexes
+ */
+export async function processDuePublishJobs(): Promise<{
+  processed: number;
+  succeeded: number;
+  retrying: number;
+  dead: number;
+}> {
+  const now = Date.now();
+  const jobs = adminDb().collection(PUBLISH_JOBS_COLLECTION);
+  const [staleSnapshot, pendingSnapshot] = await Promise.all([
+    jobs
+      .where("status", "==", "running")
+      .where("leaseExpiresAt", "<=", now)
+      .orderBy("leaseExpiresAt")
+      .limit(SWEEP_LIMIT)
+      .get(),
+    jobs
+      .where("status", "==", "pending")
+      .where("nextAttemptAt", "<=", now)
+      .orderBy("nextAttemptAt")
+      .limit(SWEEP_LIMIT)
+      .get(),
+  ]);
+
+  const due = [...staleSnapshot.docs, ...pendingSnapshot.docs]
+    .map((doc) => doc.data() as PublishJob)
+    .slice(0, SWEEP_LIMIT);
+
+  const result = { processed: 0, succeeded: 0, retrying: 0, dead: 0 };
+  for (const { assetUid } of due) {
+    const job = await runPublishJob(assetUid);
+    if (!job) continue;
+
+    result.processed++;
+    if (job.status === "succeeded") result.succeeded++;
+    else if (job.status === "dead") result.dead++;
+    else result.retrying++;
+  }
+
+  return result;
+}
+
+/**
+ * Get the publish job of an asset (if any)
+ */
+export async function getPublishJob(assetUid: string): Promise<PublishJob | null> {
+  const doc = await jobRef(assetUid).get();
+  return doc.exists ? (doc.data() as PublishJob) : null;
+}
+
+/**
+ * Publish jobs for the admin view, most recently updated first
+ * Filtering by status uses the (status, updatedAt desc) index
+ */
+export async function listPublishJobs(status?: PublishJobStatus): Promise<PublishJob[]> {
+  const collection = adminDb().collection(PUBLISH_JOBS_COLLECTION);
+  const snapshot = await (status ? collection.where("status", "==", status) : collection)
+    .orderBy("updatedAt", "desc")
+    .limit(200)
+    .get();
+
+  return snapshot.docs.map((doc) => doc.data() as PublishJob);
+}
+
+/**
+ * Requeue a dead-lettered job and run it right away
+ */
+export async function retryPublishJob(assetUid: string): Promise<PublishJob> {
+  const job = await getPublishJob(assetUid);
+  if (!job) {
+    throw new Error(`Publish job not found for asset ${assetUid}`);
+  }
+  if (job.status !== "dead") {
+    throw new Error(`Publish job is ${job.status}, only dead jobs can be retried`);
+  }
+
+  await enqueuePublishJob(assetUid);
+  return (await runPublishJob(assetUid)) || (await getPublishJob(assetUid))!;
+}
+
+/**
+ * Serialize a publish job for API responses
+ */
+export function toPublishJobResponse(job: PublishJob, { includeError = false } = {}) {
+  const toIso = (ms: number | null) => (ms ? new Date(ms).toISOString() : null);
+
+  return {
+    assetUid: job.assetUid,
+    status: job.status,
+    attempts: job.attempts,
+    requests: job.requests,
+    nextAttemptAt: toIso(job.nextAttemptAt),
+    lastAttemptAt: toIso(job.lastAttemptAt),
+    succeededAt: toIso(job.succeededAt),
+    ...(includeError ? { lastError: job.lastError } : {}),
+    updatedAt: job.updatedAt?.toDate?.()?.toISOString?.() || null,
+  };
+}
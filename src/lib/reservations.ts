@@ -0,0 +1,283 @@
+/**
+ * Asset Reservations
+ *
+ * Locks an artwork to one buyer while their checkout session is open, so two
+ * buyers can't both pay for the same asset. One reservation per asset lives in
+ * the `asset_reservations` collection:
+ * - "pending": claimed by the checkout route, Stripe session not created yet
+ * - "open": Stripe session created at `amount`; expires with the session
+ * - "confirmed": session paid; held until fulfillment completes, or for
+ *   CONFIRMED_TTL_MS if it never does (a purchase that keeps failing)
+ * - "transfer": held for an accepted ownership transfer until it completes
+ *
+ * Editions of a limited-edition artwork are reserved one by one when bought
+ * on resale (keyed by edition ID); primary edition sales need no
+ * reservation, as each buyer mints their own copy.
+ */
+
+import type { Transaction } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { log } from "@/lib/logger";
+
+// ==========================================
+// Types
+// ==========================================
+
+export type ReservationStatus = "pending" | "open" | "confirmed" | "transfer";
+
+export interface AssetReservation {
+  assetUid: string;
+  userId: string;
+  status: ReservationStatus;
+  sessionId: string | null;
+  sessionUrl: string | null;
+  amount?: number | null; // Price the open session charges
+  transferId?: string | null; // Set while held for a transfer
+  expiresAt: number; // ms epoch
+  createdAt?: any;
+  updatedAt?: any;
+}
+
+export interface ReservationClaim {
+  reservation: AssetReservation;
+  // Same buyer already has an open session that can be reused
+  existing: boolean;
+}
+
+// ==========================================
+// Configuration
+// ==========================================
+
+const RESERVATIONS_COLLECTION = "asset_reservations";
+
+// Stripe Checkout sessions must live at least 30 minutes
+export const RESERVATION_TTL_SECONDS = 30 * 60;
+
+// Time allowed between claiming and attaching the Stripe session
+const PENDING_TTL_MS = 60_000;
+
+// Stripe retries a webhook for up to three days, so a paid purchase whose
+// fulfillment keeps failing holds the asset that long, then frees it
+const CONFIRMED_TTL_MS = 3 * 24 * 60 * 60 * 1000;
+
+// A transfer normally completes in the accepting request; one whose move
+// failed keeps the asset until the recipient accepts again, up to a day
+const TRANSFER_HOLD_TTL_MS = 24 * 60 * 60 * 1000;
+
+// ==========================================
+// Helpers
+// ==========================================
+
+function reservationRef(assetUid: string) {
+  return adminDb().collection(RESERVATIONS_COLLECTION).doc(assetUid);
+}
+
+function isLive(reservation: AssetReservation, now = Date.now()): boolean {
+  return reservation.expiresAt > now;
+}
+
+// ==========================================
+// Reservations
+// ==========================================
+
+/**
+ * Get the live reservation for an asset (if any)
+ */
+export async function getActiveReservation(
+  assetUid: string
+): Promise<AssetReservation | null> {
+  const doc = await reservationRef(assetUid).get();
+  if (!doc.exists) return null;
+
+  const reservation = doc.data() as AssetReservation;
+  return isLive(reservation) ? reservation : null;
+}
+
+/**
+ * Reserve an asset for a buyer before creating their checkout session.
+ * Throws if another buyer holds a live reservation.
+ */
+export async function claimReservation(
+  assetUid: string,
+  userId: string
+): Promise<ReservationClaim> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const db = adminDb();
+  const ref = reservationRef(assetUid);
+
+  return db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    const now = Date.now();
+
+    if (doc.exists) {
+      const current = doc.data() as AssetReservation;
+
+      if (isLive(current, now)) {
+        if (current.userId !== userId || current.status === "confirmed") {
+          throw new Error("Artwork is reserved by another checkout");
+        }
+        if (current.status === "open" && current.sessionUrl) {
+          return { reservation: current, existing: true };
+        }
+        // A pending claim by the same buyer is taken over below
+      }
+    }
+
+    const reservation: AssetReservation = {
+      assetUid,
+      userId,
+      status: "pending",
+      sessionId: null,
+      sessionUrl: null,
+      amount: null,
+      expiresAt: now + PENDING_TTL_MS,
+    };
+    tx.set(ref, {
+      ...reservation,
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return { reservation, existing: false };
+  });
+}
+
+/**
+ * Attach the created checkout session (and the price it charges); the
+ * reservation now expires with it
+ */
+export async function attachReservationSession(
+  assetUid: string,
+  userId: string,
+  session: { id: string; url: string | null; expiresAt: number; amount?: number }
+) {
+  const { FieldValue } = await import("firebase-admin/firestore");
+
+  await reservationRef(assetUid).update({
+    userId,
+    status: "open",
+    sessionId: session.id,
+    sessionUrl: session.url,
+    amount: session.amount ?? null,
+    expiresAt: session.expiresAt * 1000, // Stripe uses seconds
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+
+  log.info(`[Reservations] Asset reserved`, {
+    assetUid,
+    userId,
+    sessionId: session.id,
+  });
+}
+
+/**
+ * Confirm the reservation for a paid session before fulfilling it.
+ * Returns false if another session holds the asset (the payment lost).
+ * A session whose reservation lapsed may still claim a free asset.
+ */
+export async function confirmReservation(
+  assetUid: string,
+  sessionId: string,
+  userId: string
+): Promise<boolean> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const db = adminDb();
+  const ref = reservationRef(assetUid);
+
+  return db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+
+    if (doc.exists) {
+      const current = doc.data() as AssetReservation;
+      if (current.sessionId !== sessionId && isLive(current)) {
+        log.warn(`[Reservations] Asset reserved by another session`, {
+          assetUid,
+          sessionId,
+          heldBy: current.sessionId,
+        });
+        return false;
+      }
+    }
+
+    tx.set(ref, {
+      assetUid,
+      userId,
+      status: "confirmed",
+      sessionId,
+      sessionUrl: null,
+      expiresAt: Date.now() + CONFIRMED_TTL_MS,
+      updatedAt: FieldValue.serverTimestamp(),
+      ...(doc.exists ? {} : { createdAt: FieldValue.serverTimestamp() }),
+    });
+    return true;
+  });
+}
+
+/**
+ * Hold an asset for an accepted transfer, inside the caller's Firestore
+ * transaction, so no checkout can be claimed or paid while ownership moves.
+ * It reads the reservation first: call it before the transaction's other
+ * writes. Throws if a checkout holds a live reservation.
+ */
+export async function writeTransferReservation(
+  tx: Transaction,
+  assetUid: string,
+  transfer: { id: string; recipientId: string }
+) {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const ref = reservationRef(assetUid);
+  const doc = await tx.get(ref);
+  const now = Date.now();
+
+  if (doc.exists) {
+    const current = doc.data() as AssetReservation;
+    if (isLive(current, now) && current.transferId !== transfer.id) {
+      throw new Error("Artwork is reserved by another checkout");
+    }
+  }
+
+  tx.set(ref, {
+    assetUid,
+    userId: transfer.recipientId,
+    status: "transfer",
+    sessionId: null,
+    sessionUrl: null,
+    transferId: transfer.id,
+    expiresAt: now + TRANSFER_HOLD_TTL_MS,
+    updatedAt: FieldValue.serverTimestamp(),
+    ...(doc.exists ? {} : { createdAt: FieldValue.serverTimestamp() }),
+  });
+}
+
+/**
+ * Release a reservation (session expired, creation failed, purchase
+ * fulfilled or transfer finished)
+ * Only the holder can release it; releasing twice is a no-op.
+ */
+export async function releaseReservation(
+  assetUid: string,
+  holder: { sessionId?: string; userId?: string; transferId?: string }
+) {
+  const db = adminDb();
+  const ref = reservationRef(assetUid);
+
+  const released = await db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    if (!doc.exists) return false;
+
+    const current = doc.data() as AssetReservation;
+    const matches = holder.transferId
+      ? current.transferId === holder.transferId
+      : holder.sessionId
+        ? current.sessionId === holder.sessionId
+        : current.userId === holder.userId && current.status === "pending";
+
+    if (!matches) return false;
+
+    tx.delete(ref);
+    return true;
+  });
+
+  if (released) {
+    log.info(`[Reservations] Reservation released`, { assetUid, ...holder });
+  }
+}
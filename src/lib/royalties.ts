@@ -0,0 +1,76 @@
+/**
+ * Royalties
+ *
+ * Splits a sale price between the seller, the original artist (royalty on
+ * secondary-market resales) and the platform fee.
+ */
+
+// ==========================================
+// Configuration
+// ==========================================
+
+export const DEFAULT_ROYALTY_PERCENTAGE = 10;
+export const MAX_ROYALTY_PERCENTAGE = 50;
+
+/**
+ * Platform fee percentage, configured via PLATFORM_FEE_PERCENTAGE (server only)
+ */
+export function getPlatformFeePercentage(): number {
+  const value = parseFloat(process.env.PLATFORM_FEE_PERCENTAGE || "0");
+  return Number.isFinite(value) && value >= 0 && value < 100 ? value : 0;
+}
+
+// ==========================================
+// Types
+// ==========================================
+
+export interface SaleSplit {
+  price: number;
+  platformFee: number;
+  platformFeePercentage: number;
+  royalty: number;
+  royaltyPercentage: number;
+  sellerProceeds: number;
+}
+
+// ==========================================
+// Calculation
+// ==========================================
+
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Split a sale price.
+ * No royalty is taken when the seller is the artist (primary sale).
+ * The seller receives the remainder, so the parts always add up to the price.
+ */
+export function calculateSaleSplit(
+  price: number,
+  {
+    royaltyPercentage,
+    platformFeePercentage,
+    sellerIsArtist,
+  }: {
+    royaltyPercentage: number | null | undefined;
+    platformFeePercentage: number;
+    sellerIsArtist: boolean;
+  }
+): SaleSplit {
+  const effectiveRoyalty = sellerIsArtist
+    ? 0
+    : Math.min(Math.max(royaltyPercentage || 0, 0), MAX_ROYALTY_PERCENTAGE);
+
+  const platformFee = roundToCents((price * platformFeePercentage) / 100);
+  const royalty = roundToCents((price * effectiveRoyalty) / 100);
+
+  return {
+    price,
+    platformFee,
+    platformFeePercentage,
+    royalty,
+    royaltyPercentage: effectiveRoyalty,
+    sellerProceeds: roundToCents(price - platformFee - royalty),
+  };
+}
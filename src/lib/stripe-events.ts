@@ -0,0 +1,501 @@
+/**
+ * Stripe Event Processing
+ *
+ * Dedupes Stripe webhook deliveries on event ID and dispatches them to
+ * their handlers. Every received event is stored in the `stripe_events`
+ * collection with its payload and outcome:
+ * - Redelivered events that already processed are acknowledged without side effects
+ * - Failed events are picked up again by Stripe's retry
+ * - Operators can replay a stored event on purpose
+ *
+ * Handled events:
+ * - checkout.session.completed (artwork purchase or wallet deposit)
+ * - checkout.session.expired (releases the reservation)
+ * - payment_intent.payment_failed (notifies the payer)
+ * - charge.refunded (reverses the purchase or deposit)
+ * - charge.dispute.created / charge.dispute.closed (freezes the asset;
+ *   a lost dispute reverses the purchase or deposit)
+ * - transfer.created / transfer.reversed (wallet payout transferred / CREDIT)
+ * - payout.paid / payout.failed (connected account bank payouts)
+ */
+
+import type Stripe from "stripe";
+import { adminDb, freezeAsset, unfreezeAsset } from "@/lib/firebase-admin";
+import {
+  fulfillPurchase,
+  getFulfillmentByPaymentId,
+  reversePurchase,
+} from "@/lib/fulfillment";
+import { releaseReservation } from "@/lib/reservations";
+import { creditDeposit, isDepositSession, reverseDeposit } from "@/lib/deposits";
+import { notify } from "@/lib/notifications";
+import {
+  recordConnectedPayout,
+  recordPayoutReversal,
+  recordPayoutTransfer,
+} from "@/lib/payouts";
+import { log } from "@/lib/logger";
+
+// ==========================================
+// Types
+// ==========================================
+
+export type StripeEventStatus = "processing" | "processed" | "failed" | "ignored";
+
+export interface StripeEventOutcome {
+  message: string;
+  transactionId?: string;
+}
+
+export interface StripeEventRecord {
+  id: string;
+  type: string;
+  status: StripeEventStatus;
+  payload: string; // JSON-serialized Stripe.Event
+  outcome: StripeEventOutcome | null;
+  attempts: number;
+  replays: number;
+  leaseExpiresAt: number | null;
+  lastError: string | null;
+  receivedAt?: any;
+  updatedAt?: any;
+  processedAt?: any;
+}
+
+export interface StripeEventResult {
+  eventId: string;
+  status: StripeEventStatus;
+  outcome: StripeEventOutcome | null;
+  duplicate: boolean;
+}
+
+// ==========================================
+// Configuration
+// ==========================================
+
+const STRIPE_EVENTS_COLLECTION = "stripe_events";
+
+// Matches the webhook route maxDuration
+const LEASE_DURATION_MS = 30_000;
+
+// ==========================================
+// Event Store
+// ==========================================
+
+function eventRef(eventId: string) {
+  return adminDb().collection(STRIPE_EVENTS_COLLECTION).doc(eventId);
+}
+
+/**
+ * Get a stored Stripe event (if any)
+ */
+export async function getStripeEvent(
+  eventId: string
+): Promise<StripeEventRecord | null> {
+  const doc = await eventRef(eventId).get();
+  if (!doc.exists) return null;
+  return doc.data() as StripeEventRecord;
+}
+
+/**
+ * Store the event (first delivery) and take the processing lease.
+ * Returns null when the event already finished and should not run again,
+ * unless `replay` is set. Throws if another worker holds a live lease.
+ */
+async function claimStripeEvent(
+  event: Stripe.Event,
+  replay: boolean
+): Promise<StripeEventRecord | null> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const db = adminDb();
+  const ref = eventRef(event.id);
+
+  return db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    const now = Date.now();
+
+    if (!doc.exists) {
+      const record: StripeEventRecord = {
+        id: event.id,
+        type: event.type,
+        status: "processing",
+        payload: JSON.stringify(event),
+        outcome: null,
+        attempts: 1,
+        replays: 0,
+        leaseExpiresAt: now + LEASE_DURATION_MS,
+        lastError: null,
+      };
+      tx.set(ref, {
+        ...record,
+        receivedAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      return record;
+    }
+
+    const record = doc.data() as StripeEventRecord;
+    const finished = record.status === "processed" || record.status === "ignored";
+
+    if (finished && !replay) {
+      return null;
+    }
+
+    if (
+      record.status === "processing" &&
+      record.leaseExpiresAt &&
+      record.leaseExpiresAt > now
+    ) {
+      throw new Error(`Stripe event ${event.id} already in progress`);
+    }
+
+    const claimed: StripeEventRecord = {
+      ...record,
+      status: "processing",
+      attempts: (record.attempts || 0) + 1,
+      replays: (record.replays || 0) + (replay ? 1 : 0),
+      leaseExpiresAt: now + LEASE_DURATION_MS,
+    };
+    tx.update(ref, {
+      status: claimed.status,
+      attempts: claimed.attempts,
+      replays: claimed.replays,
+      leaseExpiresAt: claimed.leaseExpiresAt,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return claimed;
+  });
+}
+
+/**
+ * Record the final outcome of an event and release the lease
+ */
+async function completeStripeEvent(
+  eventId: string,
+  status: StripeEventStatus,
+  outcome: StripeEventOutcome | null,
+  error?: any
+) {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  try {
+    await eventRef(eventId).update({
+      status,
+      outcome,
+      leaseExpiresAt: null,
+      lastError: error ? error.message || "Unknown error" : null,
+      updatedAt: FieldValue.serverTimestamp(),
+      ...(status === "failed" ? {} : { processedAt: FieldValue.serverTimestamp() }),
+    });
+  } catch (updateError) {
+    log.error(`[StripeEvents] Failed to record event outcome`, updateError, {
+      eventId,
+      status,
+    });
+  }
+}
+
+// ==========================================
+// Handlers
+// ==========================================
+
+/**
+ * payment_intent might be expanded (object) or just an ID (string)
+ */
+function getPaymentIntentId(
+  paymentIntent: string | Stripe.PaymentIntent | null
+): string | null {
+  if (!paymentIntent) return null;
+  return typeof paymentIntent === "string" ? paymentIntent : paymentIntent.id;
+}
+
+async function handleChargeRefunded(
+  charge: Stripe.Charge
+): Promise<StripeEventOutcome> {
+  const paymentIntentId = getPaymentIntentId(charge.payment_intent);
+
+  // Partial refunds don't undo the sale; only a full refund reverses it
+  if (!charge.refunded || !paymentIntentId) {
+    log.info(`[StripeEvents] Partial refund recorded`, {
+      chargeId: charge.id,
+      amountRefunded: charge.amount_refunded,
+    });
+    return { message: "Partial refund recorded" };
+  }
+
+  const result = await reversePurchase(paymentIntentId, "refund", charge.id);
+
+  if (!result) {
+    const deposit = await reverseDeposit(paymentIntentId);
+    if (deposit) {
+      return {
+        message: "Deposit refunded, wallet debited",
+        transactionId: deposit.reversalTransactionId || undefined,
+      };
+    }
+    return { message: "Refund recorded (no matching purchase)" };
+  }
+
+  return {
+    message: result.alreadyReversed
+      ? "Refund already processed"
+      : "Refund processed successfully",
+    transactionId: result.transactionId,
+  };
+}
+
+async function handleDisputeCreated(
+  dispute: Stripe.Dispute
+): Promise<StripeEventOutcome> {
+  const paymentIntentId = getPaymentIntentId(dispute.payment_intent);
+  const fulfillment = paymentIntentId
+    ? await getFulfillmentByPaymentId(paymentIntentId)
+    : null;
+
+  if (!fulfillment) {
+    log.warn(`[StripeEvents] Dispute for unknown purchase`, {
+      disputeId: dispute.id,
+      paymentIntentId,
+    });
+    return { message: "Dispute recorded (no matching purchase)" };
+  }
+
+  // A disputed edition is frozen on its own; the rest of the series stays on sale
+  await freezeAsset(fulfillment.editionId || fulfillment.artworkId, {
+    disputeId: dispute.id,
+    stripePaymentId: paymentIntentId,
+    reason: dispute.reason,
+  });
+
+  return {
+    message: fulfillment.editionId
+      ? "Dispute opened, edition frozen"
+      : "Dispute opened, asset frozen",
+  };
+}
+
+async function handleDisputeClosed(
+  dispute: Stripe.Dispute
+): Promise<StripeEventOutcome> {
+  const paymentIntentId = getPaymentIntentId(dispute.payment_intent);
+  const fulfillment = paymentIntentId
+    ? await getFulfillmentByPaymentId(paymentIntentId)
+    : null;
+
+  if (paymentIntentId && !fulfillment && dispute.status === "lost") {
+    const deposit = await reverseDeposit(paymentIntentId);
+    if (deposit) {
+      return {
+        message: "Dispute lost, deposit reversed",
+        transactionId: deposit.reversalTransactionId || undefined,
+      };
+    }
+  }
+
+  if (!paymentIntentId || !fulfillment) {
+    return { message: "Dispute closed (no matching purchase)" };
+  }
+
+  let transactionId: string | undefined;
+  if (dispute.status === "lost") {
+    const result = await reversePurchase(paymentIntentId, "dispute_lost", dispute.id);
+    transactionId = result?.transactionId;
+  }
+
+  // Lift the freeze last so a failed reversal keeps the asset frozen for the retry
+  await unfreezeAsset(fulfillment.editionId || fulfillment.artworkId, dispute.id);
+
+  return {
+    message: `Dispute closed (${dispute.status}), ${fulfillment.editionId ? "edition" : "asset"} unfrozen`,
+    transactionId,
+  };
+}
+
+/**
+ * Tell the payer their card payment failed. Payment intents created before
+ * checkout sessions carried payer metadata are only logged.
+ */
+async function handlePaymentFailed(
+  paymentIntent: Stripe.PaymentIntent
+): Promise<StripeEventOutcome> {
+  const { userId, artworkId, type } = paymentIntent.metadata || {};
+  const reason = paymentIntent.last_payment_error?.message;
+
+  log.warn(`[StripeEvents] Payment failed`, {
+    paymentIntentId: paymentIntent.id,
+    userId,
+    artworkId,
+    reason,
+  });
+
+  if (!userId) {
+    return { message: "Payment failure recorded" };
+  }
+
+  const isDeposit = type === "wallet_deposit";
+  await notify(userId, "payment_failed", {
+    title: "Payment failed",
+    message: `Your ${isDeposit ? "wallet deposit" : "artwork payment"} didn't go through${
+      reason ? `: ${reason}` : ""
+    }`,
+    assetUid: isDeposit ? null : artworkId || null,
+    link: isDeposit || !artworkId ? "/dashboard" : `/art/${artworkId}`,
+  });
+
+  return { message: "Payment failure recorded, payer notified" };
+}
+
+/**
+ * Run the side effects for an event.
+ * Returns null for event types we don't handle.
+ */
+async function dispatchStripeEvent(
+  event: Stripe.Event
+): Promise<StripeEventOutcome | null> {
+  switch (event.type) {
+    case "checkout.session.completed": {
+      if (isDepositSession(event.data.object)) {
+        const deposit = await creditDeposit(event.data.object);
+        return {
+          message: deposit.alreadyCredited
+            ? "Deposit already credited"
+            : "Deposit credited successfully",
+          transactionId: deposit.transactionId,
+        };
+      }
+
+      const result = await fulfillPurchase(event.data.object);
+      if (result.refunded) {
+        return { message: "Payment refunded, artwork reserved by another checkout" };
+      }
+      return {
+        message: result.alreadyCompleted
+          ? "Purchase already processed"
+          : "Purchase processed successfully",
+        transactionId: result.transactionId,
+      };
+    }
+
+    case "checkout.session.expired": {
+      const session = event.data.object;
+      log.info(`[StripeEvents] Checkout session expired`, {
+        sessionId: session.id,
+        artworkId: session.metadata?.artworkId,
+      });
+      // Edition resales are reserved per edition
+      const reservationKey = session.metadata?.editionId || session.metadata?.artworkId;
+      if (reservationKey) {
+        await releaseReservation(reservationKey, { sessionId: session.id });
+      }
+      return { message: "Checkout session expired, reservation released" };
+    }
+
+    case "charge.refunded":
+      return handleChargeRefunded(event.data.object);
+
+    case "charge.dispute.created":
+      return handleDisputeCreated(event.data.object);
+
+    case "charge.dispute.closed":
+      return handleDisputeClosed(event.data.object);
+
+    case "transfer.created": {
+      const payout = await recordPayoutTransfer(event.data.object);
+      return payout
+        ? { message: "Payout transferred", transactionId: payout.transactionId }
+        : null;
+    }
+
+    case "transfer.reversed": {
+      const reversal = await recordPayoutReversal(event.data.object);
+      return reversal
+        ? {
+            message: reversal.transactionId
+              ? `Payout reversal credited (${reversal.payout.reversedAmount} of ${reversal.payout.amount})`
+              : "Payout reversal already credited",
+            transactionId: reversal.transactionId || undefined,
+          }
+        : null;
+    }
+
+    case "payout.paid":
+    case "payout.failed": {
+      if (!event.account) return null; // Platform payouts aren't wallet payouts
+      const settled = await recordConnectedPayout(event.account, event.data.object);
+      return { message: `Bank payout ${event.data.object.status}, ${settled} payout(s) updated` };
+    }
+
+    case "payment_intent.payment_failed":
+      return handlePaymentFailed(event.data.object);
+
+    default:
+      return null;
+  }
+}
+
+// ==========================================
+// Processing
+// ==========================================
+
+/**
+ * Process a verified Stripe event exactly once.
+ * Duplicates of an already processed event return `duplicate: true`
+ * without running any handler. Pass `replay` to run it again on purpose.
+ */
+export async function processStripeEvent(
+  event: Stripe.Event,
+  { replay = false }: { replay?: boolean } = {}
+): Promise<StripeEventResult> {
+  const record = await claimStripeEvent(event, replay);
+
+  if (!record) {
+    const existing = await getStripeEvent(event.id);
+    log.info(`[StripeEvents] Duplicate event acknowledged`, {
+      eventId: event.id,
+      eventType: event.type,
+    });
+    return {
+      eventId: event.id,
+      status: existing?.status || "processed",
+      outcome: existing?.outcome || null,
+      duplicate: true,
+    };
+  }
+
+  log.info(`[StripeEvents] Processing event`, {
+    eventId: event.id,
+    eventType: event.type,
+    attempt: record.attempts,
+    replay,
+  });
+
+  try {
+    const outcome = await dispatchStripeEvent(event);
+    const status: StripeEventStatus = outcome ? "processed" : "ignored";
+    await completeStripeEvent(event.id, status, outcome);
+
+    return { eventId: event.id, status, outcome, duplicate: false };
+  } catch (error: any) {
+    log.error(`[StripeEvents] Event processing failed`, error, {
+      eventId: event.id,
+      eventType: event.type,
+    });
+    await completeStripeEvent(event.id, "failed", null, error);
+    throw error;
+  }
+}
+
+/**
+ * Re-run a stored event from its saved payload (operator action)
+ */
+export async function replayStripeEvent(
+  eventId: string
+): Promise<StripeEventResult> {
+  const record = await getStripeEvent(eventId);
+
+  if (!record) {
+    throw new Error(`Stripe event ${eventId} not found`);
+  }
+
+  const event = JSON.parse(record.payload) as Stripe.Event;
+  return processStripeEvent(event, { replay: true });
+}
@@ -1,4 +1,5 @@
 import Stripe from "stripe";
+import { httpFetch } from "@/lib/http-client";
 import { log } from "@/lib/logger";
 
 /**
@@ -7,15 +8,58 @@ import { log } from "@/lib/logger";
  * - Creating checkout sessions
  * - Processing webhooks
  * - Managing payments
+ * - Connect payouts to artists and sellers
  */
 
 if (!process.env.STRIPE_SECRET_KEY) {
   log.warn("STRIPE_SECRET_KEY is not set. Stripe functionality will be limited.");
 }
 
+/**
+ * Optional API base URL override, e.g. a local stripe-mock
+ * (STRIPE_API_BASE_URL="http://localhost:12111")
+ */
+function getApiHostConfig(): Pick<Stripe.StripeConfig, "host" | "port" | "protocol"> {
+  const baseUrl = process.env.STRIPE_API_BASE_URL;
+  if (!baseUrl) return {};
+
+  const url = new URL(baseUrl);
+  return {
+    host: url.hostname,
+    port: url.port || (url.protocol === "http:" ? 80 : 443),
+    protocol: url.protocol === "http:" ? "http" : "https",
+  };
+}
+
+// The SDK waits 80 seconds by default; fail sooner and let it retry
+const STRIPE_TIMEOUT_MS = 30_000;
+
+// Path segments holding an object ID ("cs_test_a1B2", "acct_1Nv0"), as
+// opposed to resource names ("payment_intents")
+const STRIPE_ID_SEGMENT = /\/[a-z]+_(?=[A-Za-z0-9_]*[A-Z0-9])[A-Za-z0-9_]+/g;
+
+/**
+ * Requests go through the shared HTTP client for its timeout, circuit
+ * breaker and metrics. Retries are left to the SDK (maxNetworkRetries),
+ * which adds idempotency keys to the POSTs it retries.
+ */
+const stripeHttpClient = Stripe.createFetchHttpClient((url: string, init: RequestInit) =>
+  httpFetch(url, {
+    ...init,
+    service: "stripe",
+    // Object IDs stripped, e.g. "POST /v1/checkout/sessions/:id/expire"
+    operation: `${init.method || "GET"} ${new URL(url).pathname.replace(STRIPE_ID_SEGMENT, "/:id")}`,
+    timeoutMs: STRIPE_TIMEOUT_MS,
+    retries: 0,
+  })
+);
+
 export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "", {
   apiVersion: "2025-02-24.acacia",
   typescript: true,
+  httpClient: stripeHttpClient,
+  maxNetworkRetries: 2,
+  ...getApiHostConfig(),
 });
 
 /**
@@ -30,6 +74,11 @@ export async function createCheckoutSession({
   walletId,
   successUrl,
   cancelUrl,
+  expiresAt,
+  offerId,
+  auctionId,
+  editionId,
+  mintEdition,
 }: {
   artworkId: string;
   artworkTitle: string;
@@ -39,6 +88,11 @@ export async function createCheckoutSession({
   walletId: string;
   successUrl: string;
   cancelUrl: string;
+  expiresAt?: number; // Unix seconds, 30 minutes to 24 hours from now
+  offerId?: string; // Accepted offer the purchase pays for
+  auctionId?: string; // Won auction the purchase pays for
+  editionId?: string; // Edition bought from its owner's resale listing
+  mintEdition?: boolean; // Primary sale of a limited edition: mint the next one
 }) {
   const session = await stripe.checkout.sessions.create({
     payment_method_types: [
@@ -71,28 +125,90 @@ export async function createCheckoutSession({
       userId,
       walletId,
       type: "artwork_purchase",
+      ...(offerId ? { offerId } : {}),
+      ...(auctionId ? { auctionId } : {}),
+      ...(editionId ? { editionId } : {}),
+      ...(mintEdition ? { mintEdition: "true" } : {}),
+    },
+    // Lets payment_intent.payment_failed find the buyer
+    payment_intent_data: {
+      metadata: { artworkId, userId, type: "artwork_purchase" },
     },
     // Enable billing address collection for verification
     billing_address_collection: "required",
+    ...(expiresAt ? { expires_at: expiresAt } : {}),
   });
 
   return session;
 }
 
+/**
+ * Create a checkout session for a wallet top-up
+ */
+export async function createDepositCheckoutSession({
+  amount,
+  userId,
+  walletId,
+  successUrl,
+  cancelUrl,
+}: {
+  amount: number;
+  userId: string;
+  walletId: string;
+  successUrl: string;
+  cancelUrl: string;
+}) {
+  return stripe.checkout.sessions.create({
+    payment_method_types: ["card"],
+    line_items: [
+      {
+        price_data: {
+          currency: "usd",
+          product_data: {
+            name: "ArtMint wallet deposit",
+            description: "Add funds to your ArtMint wallet",
+          },
+          unit_amount: Math.round(amount * 100), // Stripe uses cents
+        },
+        quantity: 1,
+      },
+    ],
+    mode: "payment",
+    success_url: successUrl,
+    cancel_url: cancelUrl,
+    metadata: {
+      userId,
+      walletId,
+      type: "wallet_deposit",
+    },
+    payment_intent_data: {
+      metadata: { userId, type: "wallet_deposit" },
+    },
+  });
+}
+
 /**
  * Verify Stripe webhook signature
+ * Connect events (e.g. payout.* on connected accounts) are signed with the
+ * Connect endpoint's secret, STRIPE_CONNECT_WEBHOOK_SECRET
  */
 export function verifyWebhookSignature(
   payload: string | Buffer,
   signature: string
 ): Stripe.Event {
   const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+  const connectWebhookSecret = process.env.STRIPE_CONNECT_WEBHOOK_SECRET;
 
   if (!webhookSecret) {
     throw new Error("STRIPE_WEBHOOK_SECRET is not configured");
   }
 
-  return stripe.webhooks.constructEvent(payload, signature, webhookSecret);
+  try {
+    return stripe.webhooks.constructEvent(payload, signature, webhookSecret);
+  } catch (error) {
+    if (!connectWebhookSecret) throw error;
+    return stripe.webhooks.constructEvent(payload, signature, connectWebhookSecret);
+  }
 }
 
 /**
@@ -111,3 +227,124 @@ export async function getCheckoutSession(sessionId: string) {
   });
 }
 
+/**
+ * Expire an open checkout session so it can no longer be paid
+ * Returns false if the buyer completed it first
+ */
+export async function expireCheckoutSession(sessionId: string): Promise<boolean> {
+  try {
+    await stripe.checkout.sessions.expire(sessionId);
+    return true;
+  } catch (error) {
+    // Only open sessions can be expired
+    const session = await stripe.checkout.sessions.retrieve(sessionId);
+    if (session.status === "expired") return true;
+    if (session.status === "complete") return false;
+    throw error;
+  }
+}
+
+/**
+ * Refund a payment in full
+ * Keyed on the payment intent so repeated calls never refund twice
+ */
+export async function refundPayment(paymentIntentId: string, reason: string) {
+  return stripe.refunds.create(
+    {
+      payment_intent: paymentIntentId,
+      reason: "requested_by_customer",
+      metadata: { reason },
+    },
+    { idempotencyKey: `refund_${paymentIntentId}` }
+  );
+}
+
+// ==========================================
+// Connect (payouts)
+// ==========================================
+
+/**
+ * Create an Express connected account for a user
+ */
+export async function createConnectedAccount({
+  userId,
+  email,
+}: {
+  userId: string;
+  email?: string;
+}) {
+  return stripe.accounts.create(
+    {
+      type: "express",
+      email,
+      capabilities: {
+        transfers: { requested: true },
+      },
+      metadata: { userId },
+    },
+    { idempotencyKey: `connect_account_${userId}` }
+  );
+}
+
+/**
+ * Retrieve a connected account (to check onboarding status)
+ */
+export async function getConnectedAccount(accountId: string) {
+  return stripe.accounts.retrieve(accountId);
+}
+
+/**
+ * Create a hosted onboarding link for a connected account
+ */
+export async function createAccountOnboardingLink({
+  accountId,
+  refreshUrl,
+  returnUrl,
+}: {
+  accountId: string;
+  refreshUrl: string;
+  returnUrl: string;
+}) {
+  return stripe.accountLinks.create({
+    account: accountId,
+    refresh_url: refreshUrl,
+    return_url: returnUrl,
+    type: "account_onboarding",
+  });
+}
+
+/**
+ * Transfer funds from the platform balance to a connected account
+ * Keyed on the payout ID so a retried request never transfers twice
+ */
+export async function createPayoutTransfer({
+  payoutId,
+  accountId,
+  amount,
+  currency,
+  userId,
+  walletId,
+}: {
+  payoutId: string;
+  accountId: string;
+  amount: number;
+  currency: string;
+  userId: string;
+  walletId: string;
+}) {
+  return stripe.transfers.create(
+    {
+      amount: Math.round(amount * 100), // Stripe uses cents
+      currency: currency.toLowerCase(),
+      destination: accountId,
+      transfer_group: payoutId,
+      metadata: {
+        payoutId,
+        userId,
+        walletId,
+        type: "wallet_payout",
+      },
+    },
+    { idempotencyKey: `payout_${payoutId}` }
+  );
+}
@@ -0,0 +1,442 @@
+/**
+ * Ownership Transfers (server only)
+ *
+ * Gifts, and moves between a collector's own accounts. The current owner
+ * offers an asset to another user, who must accept before ownership moves.
+ * Transfers live in the `asset_transfers` collection:
+ * - "pending": awaiting the recipient
+ * - "accepting": accepted; ownership is being moved. A failed move is
+ *   resumed when the recipient accepts again
+ * - "completed": the recipient owns the asset
+ * - "declined": refused by the recipient
+ * - "cancelled": withdrawn by the sender, or the asset changed hands first
+ *
+ * Accepting takes the asset's reservation (`asset_reservations`) in the same
+ * Firestore transaction, so no buyer can check out and pay while ownership
+ * moves. It is released when the transfer completes or is cancelled.
+ *
+ * A completed transfer appends an owner record to the asset like a sale, and
+ * records a zero-value DEBIT in the sender's ledger and a zero-value CREDIT
+ * in the recipient's, so both wallets show the move. No money changes hands
+ * and no royalty is due.
+ */
+
+import { revalidatePath } from "next/cache";
+import {
+  adminAuth,
+  adminDb,
+  addServerTransaction,
+  addUserAsset,
+  closeAssetOffers,
+  getAcceptedOffer,
+  getAssetFreeze,
+  getServerUserProfile,
+  removeUserAsset,
+} from "@/lib/firebase-admin";
+import {
+  addAssetOwner,
+  getAsset,
+  triggerAssetPublish,
+} from "@/lib/asset-repository";
+import type { ArtMetadata } from "@/lib/contentstack-am2";
+import {
+  getActiveReservation,
+  releaseReservation,
+  writeTransferReservation,
+} from "@/lib/reservations";
+import { isEditionArtwork } from "@/lib/editions";
+import { createTransactionId } from "@/lib/wallet";
+import { log } from "@/lib/logger";
+
+// ==========================================
+// Types
+// ==========================================
+
+export type TransferStatus = "pending" | "accepting" | "completed" | "declined" | "cancelled";
+
+export type TransferAction = "accept" | "decline" | "cancel";
+
+export interface Transfer {
+  id: string;
+  assetUid: string;
+  senderId: string;
+  senderName: string;
+  recipientId: string;
+  recipientName: string;
+  message: string | null;
+  status: TransferStatus;
+  transactionId: string | null; // Sender's DEBIT; also the new owner record's transaction_id
+  recipientTransactionId: string | null; // Recipient's CREDIT
+  acceptedAt: string | null; // ISO timestamp; the new owner's purchase_date
+  reason: string | null; // Why a transfer was cancelled by the system
+  createdAt?: any;
+  updatedAt?: any;
+}
+
+// ==========================================
+// Configuration
+// ==========================================
+
+const TRANSFERS_COLLECTION = "asset_transfers";
+
+// ==========================================
+// Helpers
+// ==========================================
+
+function transferRef(transferId: string) {
+  return adminDb().collection(TRANSFERS_COLLECTION).doc(transferId);
+}
+
+/**
+ * Find a user by email or UID. Returns null if there is no such user.
+ */
+async function resolveRecipient(recipient: string): Promise<string | null> {
+  if (recipient.includes("@")) {
+    try {
+      const userRecord = await adminAuth().getUserByEmail(recipient.trim().toLowerCase());
+      return userRecord.uid;
+    } catch (error: any) {
+      if (error.code === "auth/user-not-found") return null;
+      throw error;
+    }
+  }
+
+  const profile = await getServerUserProfile(recipient.trim());
+  return profile ? recipient.trim() : null;
+}
+
+/**
+ * Refuse a transfer the asset can't take part in right now: while it is
+ * auctioned, reserved by a checkout, frozen by a dispute or promised to a
+ * buyer whose offer was accepted
+ */
+async function assertTransferable(assetUid: string, artMetadata?: ArtMetadata) {
+  if (isEditionArtwork(artMetadata)) {
+    throw new Error("Limited edition masters cannot be transferred");
+  }
+
+  if (artMetadata?.status === "auction") {
+    throw new Error("Artwork is being auctioned");
+  }
+
+  if (await getAssetFreeze(assetUid)) {
+    throw new Error("Artwork is frozen while a payment dispute is open");
+  }
+
+  if (await getActiveReservation(assetUid)) {
+    throw new Error("Artwork is reserved by another checkout");
+  }
+
+  if (await getAcceptedOffer(assetUid)) {
+    throw new Error("Artwork has an accepted offer awaiting payment");
+  }
+}
+
+/**
+ * Serialize a transfer for API responses. User IDs are not exposed.
+ */
+export function toTransferResponse(transfer: Transfer, viewerId?: string | null) {
+  return {
+    id: transfer.id,
+    assetUid: transfer.assetUid,
+    senderName: transfer.senderName,
+    recipientName: transfer.recipientName,
+    message: transfer.message,
+    status: transfer.status,
+    reason: transfer.reason,
+    isSender: !!viewerId && transfer.senderId === viewerId,
+    isRecipient: !!viewerId && transfer.recipientId === viewerId,
+    createdAt: transfer.createdAt?.toDate?.()?.toISOString?.() || null,
+    acceptedAt: transfer.acceptedAt,
+  };
+}
+
+// ==========================================
+// Transfers
+// ==========================================
+
+/**
+ * Get a transfer by ID
+ */
+export async function getTransfer(transferId: string): Promise<Transfer | null> {
+  const doc = await transferRef(transferId).get();
+  if (!doc.exists) return null;
+  return { ...doc.data(), id: doc.id } as Transfer;
+}
+
+/**
+ * Get the asset's open transfer (pending, or accepted but not yet moved)
+ */
+export async function getOpenTransfer(assetUid: string): Promise<Transfer | null> {
+  const snapshot = await adminDb()
+    .collection(TRANSFERS_COLLECTION)
+    .where("assetUid", "==", assetUid)
+    .where("status", "in", ["pending", "accepting"])
+    .limit(1)
+    .get();
+
+  if (snapshot.empty) return null;
+  return { ...snapshot.docs[0].data(), id: snapshot.docs[0].id } as Transfer;
+}
+
+/**
+ * Transfers a user has sent or received, newest first
+ * Uses the (senderId, createdAt desc) and (recipientId, createdAt desc) indexes
+ */
+export async function getUserTransfers(userId: string): Promise<Transfer[]> {
+  const collection = adminDb().collection(TRANSFERS_COLLECTION);
+  const [sent, received] = await Promise.all([
+    collection.where("senderId", "==", userId).orderBy("createdAt", "desc").get(),
+    collection.where("recipientId", "==", userId).orderBy("createdAt", "desc").get(),
+  ]);
+
+  // Merge the two lists
+  return [...sent.docs, ...received.docs]
+    .map((doc) => ({ ...doc.data(), id: doc.id }) as Transfer)
+    .sort(
+      (a, b) => (b.createdAt?.toMillis?.() || 0) - (a.createdAt?.toMillis?.() || 0)
+    );
+}
+
+/**
+ * Offer an asset to another user. The caller must have checked that the
+ * sender is the current owner. Only one transfer per asset can be open.
+ * Throws "Recipient not found" if the email or UID matches no user.
+ */
+export async function createTransfer(
+  assetUid: string,
+  senderId: string,
+  recipient: string,
+  message?: string | null
+): Promise<Transfer> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+
+  const recipientId = await resolveRecipient(recipient);
+  if (!recipientId) {
+    throw new Error("Recipient not found");
+  }
+  if (recipientId === senderId) {
+    throw new Error("You cannot transfer an artwork to yourself");
+  }
+
+  const [senderProfile, recipientProfile] = await Promise.all([
+    getServerUserProfile(senderId),
+    getServerUserProfile(recipientId),
+  ]);
+  if (!(recipientProfile as any)?.walletId) {
+    throw new Error("Recipient has not finished setting up their account");
+  }
+
+  const asset = await getAsset(assetUid);
+  await assertTransferable(assetUid, asset.custom_metadata?.art_metadata);
+
+  if (await getOpenTransfer(assetUid)) {
+    throw new Error("Artwork already has a pending transfer");
+  }
+
+  const ref = adminDb().collection(TRANSFERS_COLLECTION).doc();
+  const transfer: Transfer = {
+    id: ref.id,
+    assetUid,
+    senderId,
+    senderName: (senderProfile as any)?.displayName || "Anonymous",
+    recipientId,
+    recipientName: (recipientProfile as any)?.displayName || "Anonymous",
+    message: message || null,
+    status: "pending",
+    transactionId: null,
+    recipientTransactionId: null,
+    acceptedAt: null,
+    reason: null,
+  };
+
+  await ref.set({
+    ...transfer,
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+
+  log.info(`[Transfers] Transfer created`, {
+    transferId: transfer.id,
+    assetUid,
+    senderId,
+    recipientId,
+  });
+
+  return transfer;
+}
+
+/**
+ * Move ownership for an accepted transfer. Every step is idempotent, so a
+ * transfer left "accepting" by a failure resumes where it stopped.
+ */
+async function completeTransfer(transfer: Transfer): Promise<Transfer> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const transactionId = transfer.transactionId as string;
+  const recipientTransactionId = transfer.recipientTransactionId as string;
+  const acceptedAt = transfer.acceptedAt as string;
+
+  const asset = await getAsset(transfer.assetUid);
+  const artMetadata = asset.custom_metadata?.art_metadata;
+  const currentOwner = artMetadata?.current_owner;
+  const alreadyMoved = currentOwner?.transaction_id === transactionId;
+
+  // The sender sold or transferred the asset before the recipient accepted
+  if (!alreadyMoved && currentOwner?.user_id !== transfer.senderId) {
+    await transferRef(transfer.id).update({
+      status: "cancelled",
+      reason: "The artwork changed hands before the transfer was accepted",
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    await releaseReservation(transfer.assetUid, { transferId: transfer.id });
+    throw new Error("Transfer is no longer valid: the artwork changed hands");
+  }
+
+  const [senderProfile, recipientProfile] = await Promise.all([
+    getServerUserProfile(transfer.senderId),
+    getServerUserProfile(transfer.recipientId),
+  ]);
+  const senderWalletId = (senderProfile as any)?.walletId;
+  const recipientWalletId = (recipientProfile as any)?.walletId;
+
+  // 1. Zero-value entries in both ledgers
+  if (senderWalletId) {
+    await addServerTransaction(senderWalletId, {
+      id: transactionId,
+      type: "DEBIT",
+      amount: 0,
+      reference: {
+        assetUid: transfer.assetUid,
+        description: `Artwork transferred: ${transfer.assetUid}`,
+        relatedTransactionId: recipientTransactionId,
+      },
+    });
+  }
+  if (recipientWalletId) {
+    await addServerTransaction(recipientWalletId, {
+      id: recipientTransactionId,
+      type: "CREDIT",
+      amount: 0,
+      reference: {
+        assetUid: transfer.assetUid,
+        description: `Artwork received: ${transfer.assetUid}`,
+        relatedTransactionId: transactionId,
+      },
+    });
+  }
+
+  // 2. New owner record (ends any listing: the asset is "sold")
+  if (!alreadyMoved) {
+    await addAssetOwner(transfer.assetUid, {
+      user_id: transfer.recipientId,
+      user_name: transfer.recipientName,
+      purchase_date: acceptedAt,
+      transaction_id: transactionId,
+    });
+  }
+
+  // 3. Move the asset between collections
+  await removeUserAsset(transfer.senderId, transfer.assetUid);
+  await addUserAsset(transfer.recipientId, transfer.assetUid, {
+    transactionId,
+    purchaseDate: acceptedAt,
+    price: 0,
+    currency: artMetadata?.currency || "USD",
+  });
+
+  await closeAssetOffers(transfer.assetUid, "The artwork was transferred to another collector");
+  await triggerAssetPublish(transfer.assetUid);
+  revalidatePath(`/art/${transfer.assetUid}`);
+
+  await transferRef(transfer.id).update({
+    status: "completed",
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+  await releaseReservation(transfer.assetUid, { transferId: transfer.id });
+
+  log.info(`[Transfers] Transfer completed`, {
+    transferId: transfer.id,
+    assetUid: transfer.assetUid,
+    transactionId,
+  });
+
+  return { ...transfer, status: "completed" };
+}
+
+/**
+ * Respond to a transfer:
+ * - accept / decline: the recipient, while it is pending. Accepting again
+ *   resumes a transfer whose ownership move failed
+ * - cancel: the sender, while it is pending
+ */
+export async function respondToTransfer(
+  transferId: string,
+  userId: string,
+  action: TransferAction
+): Promise<Transfer> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const db = adminDb();
+  const ref = transferRef(transferId);
+
+  const current = await getTransfer(transferId);
+  if (!current) {
+    throw new Error("Transfer not found");
+  }
+
+  const isRecipient = current.recipientId === userId;
+  if (action === "cancel" ? current.senderId !== userId : !isRecipient) {
+    throw new Error(
+      action === "cancel"
+        ? "Only the sender is allowed to cancel this transfer"
+        : "Only the recipient is allowed to respond to this transfer"
+    );
+  }
+
+  if (action === "accept" && current.status === "accepting") {
+    // Take the hold again in case it lapsed since the failed attempt
+    await db.runTransaction((tx) => writeTransferReservation(tx, current.assetUid, current));
+    return completeTransfer(current);
+  }
+
+  // The asset must still be free to move before the transfer is accepted
+  if (action === "accept" && current.status === "pending") {
+    const asset = await getAsset(current.assetUid);
+    await assertTransferable(current.assetUid, asset.custom_metadata?.art_metadata);
+  }
+
+  const updated = await db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    const transfer = { ...doc.data(), id: doc.id } as Transfer;
+
+    if (transfer.status !== "pending") {
+      throw new Error(`Transfer is already ${transfer.status}`);
+    }
+
+    // Reserve the asset before ownership moves; a checkout claimed since
+    // assertTransferable makes this throw
+    if (action === "accept") {
+      await writeTransferReservation(tx, transfer.assetUid, transfer);
+    }
+
+    const updates: Partial<Transfer> =
+      action === "accept"
+        ? {
+            status: "accepting",
+            transactionId: createTransactionId(),
+            recipientTransactionId: createTransactionId(),
+            acceptedAt: new Date().toISOString(),
+          }
+        : { status: action === "decline" ? "declined" : "cancelled" };
+
+    tx.update(ref, { ...updates, updatedAt: FieldValue.serverTimestamp() });
+    return { ...transfer, ...updates };
+  });
+
+  log.info(`[Transfers] Transfer ${action}`, {
+    transferId,
+    assetUid: updated.assetUid,
+    userId,
+  });
+
+  return action === "accept" ? completeTransfer(updated) : updated;
+}
@@ -5,6 +5,7 @@
  */
 
 import { z } from "zod";
+import { DEFAULT_ROYALTY_PERCENTAGE, MAX_ROYALTY_PERCENTAGE } from "@/lib/royalties";
 
 // ==========================================
 // Authentication Schemas
@@ -46,6 +47,13 @@ export const depositSchema = z.object({
     .max(10000, "Maximum deposit is $10,000"),
 });
 
+export const payoutSchema = z.object({
+  amount: z
+    .number()
+    .min(1, "Minimum payout is $1")
+    .max(10000, "Maximum payout is $10,000"),
+});
+
 // ==========================================
 // Artwork Schemas
 // ==========================================
@@ -70,6 +78,16 @@ export const publishArtworkSchema = z.object({
   description: z.string().max(1000).optional(),
   category: z.string().min(1),
   price: z.number().positive().max(1000000),
+  royaltyPercentage: z
+    .number()
+    .min(0, "Royalty cannot be negative")
+    .max(MAX_ROYALTY_PERCENTAGE, `Royalty cannot exceed ${MAX_ROYALTY_PERCENTAGE}%`),
+  editionSize: z
+    .number()
+    .int("Edition size must be a whole number")
+    .min(2, "An edition needs at least 2 copies")
+    .max(1000, "Edition size cannot exceed 1000")
+    .optional(),
   tags: z.array(z.string()).max(10).optional(),
 });
 
@@ -79,6 +97,9 @@ export const publishArtworkSchema = z.object({
 
 export const createCheckoutSchema = z.object({
   artworkId: z.string().min(1, "Artwork ID is required"),
+  paymentMethod: z.enum(["card", "wallet"]).default("card"),
+  // Buy this edition from its owner's resale listing; editions are minted otherwise
+  editionNumber: z.number().int().positive().optional(),
 });
 
 export const purchaseSchema = z.object({
@@ -96,7 +117,7 @@ export const galleryFilterSchema = z.object({
   artistId: z.string().optional(),
   minPrice: z.number().optional(),
   maxPrice: z.number().optional(),
-  status: z.enum(["sale", "resale", "sold", "all"]).optional(),
+  status: z.enum(["sale", "resale", "auction", "sold", "all"]).optional(),
   sortBy: z.enum(["newest", "price_asc", "price_desc", "popular"]).optional(),
   page: z.number().int().positive().optional(),
   limit: z.number().int().positive().max(100).optional(),
@@ -119,9 +140,20 @@ export const assetUploadSchema = z.object({
   category: z.string().min(1, "Category is required"),
   price: z.number().positive("Price must be positive").max(1000000, "Price exceeds maximum"),
   currency: z.string().min(1, "Currency is required").default("USD"),
+  royalty_percentage: z
+    .number()
+    .min(0, "Royalty cannot be negative")
+    .max(MAX_ROYALTY_PERCENTAGE, `Royalty cannot exceed ${MAX_ROYALTY_PERCENTAGE}%`)
+    .default(DEFAULT_ROYALTY_PERCENTAGE),
   status: z.enum(["sold", "sale", "resale"], {
     errorMap: () => ({ message: "Status must be 'sold', 'sale', or 'resale'" }),
   }),
+  edition_size: z
+    .number()
+    .int("Edition size must be a whole number")
+    .min(2, "Editions need at least 2 copies")
+    .max(1000, "Edition size cannot exceed 1000")
+    .optional(),
   tags: z.array(z.string()).max(10, "Maximum 10 tags allowed").optional(),
 });
 
@@ -145,6 +177,68 @@ export const addOwnerSchema = z.object({
   transaction_id: z.string().min(1, "Transaction ID is required"),
 });
 
+// ==========================================
+// Provenance Schemas
+// ==========================================
+
+const certificateOwnerSchema = z
+  .object({
+    user_id: z.string().nullable(),
+    user_name: z.string().nullable(),
+    purchase_date: z.string().nullable(),
+    transaction_id: z.string().nullable(),
+  })
+  .strict();
+
+// Strict, so fields added to a certificate can't slip past the signature check
+export const signedCertificateSchema = z.object({
+  certificate: z
+    .object({
+      version: z.literal(1),
+      issuer: z.string(),
+      issuedAt: z.string(),
+      asset: z
+        .object({
+          uid: z.string().min(1, "Asset UID is required"),
+          title: z.string(),
+          fileName: z.string(),
+          contentType: z.string(),
+          fileSize: z.number(),
+          fileHash: z
+            .object({
+              algorithm: z.literal("sha256"),
+              value: z.string().regex(/^[0-9a-f]{64}$/, "Invalid file hash"),
+            })
+            .strict(),
+        })
+        .strict(),
+      artist: z
+        .object({
+          uid: z.string().nullable(),
+          name: z.string().nullable(),
+        })
+        .strict(),
+      currentOwner: certificateOwnerSchema.nullable(),
+      ownershipHistory: z.array(certificateOwnerSchema),
+    })
+    .strict(),
+  signature: z.object({
+    algorithm: z.literal("Ed25519"),
+    keyId: z.string().min(1, "Key ID is required"),
+    publicKey: z.string(),
+    value: z.string().min(1, "Signature is required"),
+  }),
+});
+
+// ==========================================
+// Notification Schemas
+// ==========================================
+
+export const markReadSchema = z.union([
+  z.object({ ids: z.array(z.string().min(1)).min(1).max(100) }),
+  z.object({ all: z.literal(true) }),
+]);
+
 // ==========================================
 // Type Exports
 // ==========================================
@@ -159,4 +253,6 @@ export type AssetUploadInput = z.infer<typeof assetUploadSchema>;
 export type AssetUpdateInput = z.infer<typeof assetUpdateSchema>;
 export type OwnerRecordInput = z.infer<typeof ownerRecordSchema>;
 export type AddOwnerInput = z.infer<typeof addOwnerSchema>;
+export type SignedCertificateInput = z.infer<typeof signedCertificateSchema>;
+export type MarkReadInput = z.infer<typeof markReadSchema>;
 
@@ -2,6 +2,7 @@
  * Wallet Utilities
  * 
  * Helper functions for the immutable ledger wallet system
+ * Hashing and signing of ledger entries is server-only (src/lib/ledger.ts)
  */
 
 // ==========================================
@@ -13,10 +14,16 @@ export interface Transaction {
   type: "DEBIT" | "CREDIT";
   amount: number;
   timestamp: string;
+  sequence?: number; // Position in the wallet's ledger (1-based)
+  balanceAfter?: number;
+  previousHash?: string; // Hash of the preceding entry (chain link)
+  hash?: string; // SHA-256 of this entry and previousHash
+  signature?: string | null; // Server HMAC of hash
   reference: {
     assetUid?: string;
     stripePaymentId?: string;
     description?: string;
+    relatedTransactionId?: string; // e.g. the buyer's DEBIT for sale proceeds
   };
 }
 
@@ -24,7 +31,8 @@ export interface Wallet {
   id: string;
   userId: string;
   balance: number;
-  transactions: Transaction[];
+  transactionCount?: number;
+  transactions: Transaction[]; // Loaded from the wallets/{id}/transactions subcollection
   createdAt: string;
   updatedAt: string;
 }
@@ -34,32 +42,30 @@ export interface Wallet {
 // ==========================================
 
 /**
- * Generate a unique, hash-like transaction ID
- * Format: TX_<timestamp>_<random>_<checksum>
- * 
- * This mimics blockchain-style CIDs without actual blockchain
+ * Generate a unique transaction ID
+ * Format: TX_<timestamp>_<80 random bits as hex>
+ *
+ * Uses the platform CSPRNG (Web Crypto, available in Node and browsers).
+ * Tamper evidence comes from the ledger's hash chain, not from the ID.
  */
 export function createTransactionId(): string {
   const timestamp = Date.now().toString(36).toUpperCase();
-  const random = Math.random().toString(36).substring(2, 8).toUpperCase();
-  const random2 = Math.random().toString(36).substring(2, 6).toUpperCase();
-
-  // Simple checksum (sum of char codes mod 36)
-  const combined = timestamp + random;
-  const checksum = Array.from(combined)
-    .reduce((sum, char) => sum + char.charCodeAt(0), 0)
-    .toString(36)
-    .toUpperCase()
-    .slice(-2);
-
-  return `TX_${timestamp}_${random}_${random2}_${checksum}`;
+  const bytes = globalThis.crypto.getRandomValues(new Uint8Array(10));
+  const random = Array.from(bytes, (b) => b.toString(16).padStart(2, "0"))
+    .join("")
+    .toUpperCase();
+
+  return `TX_${timestamp}_${random}`;
 }
 
 /**
- * Validate transaction ID format
+ * Validate transaction ID format (current and legacy checksum format)
  */
 export function isValidTransactionId(id: string): boolean {
-  return /^TX_[A-Z0-9]+_[A-Z0-9]+_[A-Z0-9]+_[A-Z0-9]{2}$/.test(id);
+  return (
+    /^TX_[A-Z0-9]+_[0-9A-F]{20}$/.test(id) ||
+    /^TX_[A-Z0-9]+_[A-Z0-9]+_[A-Z0-9]+_[A-Z0-9]{2}$/.test(id)
+  );
 }
 
 // ==========================================
@@ -72,6 +78,9 @@ export function isValidTransactionId(id: string): boolean {
  * - All transactions have valid IDs
  * - Running balance matches final balance
  * - No gaps in transaction timestamps
+ * - Each chained entry links to the previous entry's hash
+ *
+ * Hashes and signatures are recomputed server-side by GET /api/wallet/verify.
  */
 export function verifyLedgerIntegrity(wallet: Wallet): {
   valid: boolean;
@@ -81,10 +90,17 @@ export function verifyLedgerIntegrity(wallet: Wallet): {
   const errors: string[] = [];
   let calculatedBalance = 0;
   let lastTimestamp = 0;
+  let lastHash: string | undefined;
 
   for (let i = 0; i < wallet.transactions.length; i++) {
     const tx = wallet.transactions[i];
 
+    // Check the chain link (entries before chaining carry no hash)
+    if (lastHash && tx.previousHash !== lastHash) {
+      errors.push(`Transaction ${i}: Broken hash chain (possible tampering)`);
+    }
+    lastHash = tx.hash || lastHash;
+
     // Validate transaction ID
     if (!tx.id || tx.id.length < 10) {
       errors.push(`Transaction ${i}: Invalid ID format`);
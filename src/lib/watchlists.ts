@@ -0,0 +1,185 @@
+/**
+ * Watchlists (server only)
+ *
+ * Collectors follow artworks they don't own. Watches live in the
+ * `watchlists` collection, one document per user and asset
+ * (`{userId}_{assetUid}`).
+ *
+ * Listing, repricing and new offers emit watch events: each watcher except
+ * the user who caused the change gets a notification in their feed. Offer
+ * amounts are private to the owner, so offer events only say that an offer
+ * was made.
+ */
+
+import { adminDb } from "@/lib/firebase-admin";
+import { addNotifications, type NotificationInput } from "@/lib/notifications";
+import { formatCurrency } from "@/lib/utils";
+import { log } from "@/lib/logger";
+
+// ==========================================
+// Types
+// ==========================================
+
+export interface Watch {
+  id: string;
+  userId: string;
+  assetUid: string;
+  createdAt?: any;
+}
+
+export type WatchEvent =
+  | { type: "listed"; price: number; currency: string; resale: boolean }
+  | { type: "repriced"; previousPrice: number; price: number; currency: string }
+  | { type: "offer" };
+
+// ==========================================
+// Configuration
+// ==========================================
+
+const WATCHLISTS_COLLECTION = "watchlists";
+
+// ==========================================
+// Helpers
+// ==========================================
+
+function watchRef(userId: string, assetUid: string) {
+  return adminDb().collection(WATCHLISTS_COLLECTION).doc(`${userId}_${assetUid}`);
+}
+
+/**
+ * Notification shown to watchers for an event
+ */
+function toWatchNotification(
+  assetUid: string,
+  assetTitle: string,
+  event: WatchEvent
+): NotificationInput {
+  const base = { assetUid, link: `/art/${assetUid}` };
+
+  switch (event.type) {
+    case "listed":
+      return {
+        ...base,
+        type: "watch_listed",
+        title: event.resale ? "Listed for resale" : "Listed for sale",
+        message: `"${assetTitle}" is available for ${formatCurrency(event.price, event.currency)}`,
+      };
+    case "repriced":
+      return {
+        ...base,
+        type: "watch_repriced",
+        title: event.price < event.previousPrice ? "Price drop" : "Price change",
+        message: `"${assetTitle}" is now ${formatCurrency(event.price, event.currency)} (was ${formatCurrency(event.previousPrice, event.currency)})`,
+      };
+    case "offer":
+      return {
+        ...base,
+        type: "watch_offer",
+        title: "New offer",
+        message: `Someone made an offer on "${assetTitle}"`,
+      };
+  }
+}
+
+// ==========================================
+// Watchlists
+// ==========================================
+
+/**
+ * Start watching an asset. Watching twice is a no-op.
+ */
+export async function watchAsset(userId: string, assetUid: string): Promise<Watch> {
+  const { FieldValue } = await import("firebase-admin/firestore");
+  const ref = watchRef(userId, assetUid);
+
+  const doc = await ref.get();
+  if (doc.exists) {
+    return { ...doc.data(), id: doc.id } as Watch;
+  }
+
+  const watch: Watch = { id: ref.id, userId, assetUid };
+  await ref.set({ ...watch, createdAt: FieldValue.serverTimestamp() });
+
+  log.info(`[Watchlists] Asset watched`, { userId, assetUid });
+
+  return watch;
+}
+
+/**
+ * Stop watching an asset. Returns false if the user wasn't watching it.
+ */
+export async function unwatchAsset(userId: string, assetUid: string): Promise<boolean> {
+  const ref = watchRef(userId, assetUid);
+
+  const doc = await ref.get();
+  if (!doc.exists) return false;
+
+  await ref.delete();
+
+  log.info(`[Watchlists] Asset unwatched`, { userId, assetUid });
+
+  return true;
+}
+
+/**
+ * Check whether a user is watching an asset
+ */
+export async function isWatchingAsset(userId: string, assetUid: string): Promise<boolean> {
+  const doc = await watchRef(userId, assetUid).get();
+  return doc.exists;
+}
+
+/**
+ * Assets a user is watching, most recently watched first
+ * Uses the (userId, createdAt desc) index
+ */
+export async function getUserWatchlist(userId: string): Promise<Watch[]> {
+  const snapshot = await adminDb()
+    .collection(WATCHLISTS_COLLECTION)
+    .where("userId", "==", userId)
+    .orderBy("createdAt", "desc")
+    .get();
+
+  return snapshot.docs.map((doc) => ({ ...doc.data(), id: doc.id }) as Watch);
+}
+
+/**
+ * IDs of the users watching an asset
+ */
+export async function getAssetWatcherIds(assetUid: string): Promise<string[]> {
+  const snapshot = await adminDb()
+    .collection(WATCHLISTS_COLLECTION)
+    .where("assetUid", "==", assetUid)
+    .get();
+
+  return snapshot.docs.map((doc) => doc.data().userId as string);
+}
+
+/**
+ * Notify an asset's watchers of a change, except the user who made it.
+ * Failures are logged, never thrown: the change itself already succeeded.
+ */
+export async function emitWatchEvent(
+  assetUid: string,
+  assetTitle: string | null | undefined,
+  event: WatchEvent,
+  actorId?: string | null
+): Promise<void> {
+  try {
+    const watcherIds = (await getAssetWatcherIds(assetUid)).filter((id) => id !== actorId);
+    if (watcherIds.length === 0) return;
+
+    await addNotifications(
+      watcherIds,
+      toWatchNotification(assetUid, assetTitle || "Untitled", event)
+    );
+
+    log.info(`[Watchlists] Watch event emitted`, {
+      assetUid,
+      type: event.type,
+      watchers: watcherIds.length,
+    });
+  } catch (error: any) {
+    log.error(`[Watchlists] Failed to emit watch event`, error, { assetUid, type: event.type });
+  }
+}
@@ -9,6 +9,7 @@ export interface UserProfile {
   displayName: string;
   role: "buyer" | "artist";
   walletId: string;
+  stripeAccountId?: string | null; // Stripe Connect account for payouts
   photoURL?: string | null;
   createdAt?: string;
   updatedAt?: string;
@@ -20,10 +21,13 @@ export interface Transaction {
   type: "DEBIT" | "CREDIT";
   amount: number;
   timestamp: string;
+  sequence?: number; // Position in the wallet's ledger (1-based)
+  balanceAfter?: number;
   reference: {
     assetUid?: string;
     stripePaymentId?: string;
     description?: string;
+    relatedTransactionId?: string; // e.g. the buyer's DEBIT for sale proceeds
   };
 }
 
@@ -31,7 +35,8 @@ export interface Wallet {
   id: string;
   userId: string;
   balance: number;
-  transactions: Transaction[];
+  transactionCount?: number;
+  transactions: Transaction[]; // Loaded from the wallets/{id}/transactions subcollection
   createdAt: string;
   updatedAt: string;
 }
@@ -45,7 +50,7 @@ export interface ArtworkMetadata {
   artistName: string;
   price: number;
   currency: string;
-  status: "draft" | "published" | "sold";
+  status: "draft" | "published" | "auction" | "sold";
   current_owner: OwnerRecord | null;
   ownership_history: OwnerRecord[];
   createdAt: string;